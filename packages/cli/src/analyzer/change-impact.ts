@@ -0,0 +1,138 @@
+import type { Feature } from '../types/index.js';
+
+export interface ChangeImpactInput {
+  changedFiles: string[];
+  /** file -> [files that import it] */
+  dependents: Record<string, string[]>;
+  fileToCluster: Record<string, string>;
+  features: Array<Pick<Feature, 'id' | 'name' | 'clusters'>>;
+  /** How many dependents hops to follow; unlimited when omitted. */
+  maxDepth?: number;
+}
+
+export interface ImpactedCluster {
+  id: string;
+  files: string[];
+}
+
+export interface ImpactedFeature {
+  id: string;
+  name: string;
+  clusters: string[];
+}
+
+export interface ChangeImpact {
+  changedFiles: string[];
+  /** Changed files that belong to no cluster (not scanned). */
+  unmappedFiles: string[];
+  clusters: ImpactedCluster[];
+  features: ImpactedFeature[];
+  /** Clusters and features reached only through `dependents`, excluding directly changed ones. */
+  downstream: {
+    files: string[];
+    clusters: ImpactedCluster[];
+    features: ImpactedFeature[];
+  };
+}
+
+/**
+ * Maps changed files to clusters and features, then walks `dependents` to find the
+ * clusters and features that import the changed code directly or transitively.
+ */
+export function analyzeChangeImpact(input: ChangeImpactInput): ChangeImpact {
+  const changedFiles = [...new Set(input.changedFiles)].sort((a, b) => a.localeCompare(b));
+  const mappedFiles = changedFiles.filter((file) => file in input.fileToCluster);
+  const unmappedFiles = changedFiles.filter((file) => !(file in input.fileToCluster));
+
+  const clusters = groupFilesByCluster(mappedFiles, input.fileToCluster);
+  const changedClusterIds = new Set(clusters.map((cluster) => cluster.id));
+  const features = findFeatures(changedClusterIds, input.features);
+  const changedFeatureIds = new Set(features.map((feature) => feature.id));
+
+  const reachedFiles = collectDependents(mappedFiles, input.dependents, input.maxDepth);
+  const downstreamClusters = groupFilesByCluster(reachedFiles, input.fileToCluster).filter(
+    (cluster) => !changedClusterIds.has(cluster.id)
+  );
+  const downstreamFeatures = findFeatures(
+    new Set(downstreamClusters.map((cluster) => cluster.id)),
+    input.features
+  ).filter((feature) => !changedFeatureIds.has(feature.id));
+
+  return {
+    changedFiles,
+    unmappedFiles,
+    clusters,
+    features,
+    downstream: {
+      files: reachedFiles,
+      clusters: downstreamClusters,
+      features: downstreamFeatures,
+    },
+  };
+}
+
+function collectDependents(
+  startFiles: string[],
+  dependents: Record<string, string[]>,
+  maxDepth: number | undefined
+): string[] {
+  const visited = new Set(startFiles);
+  const reached = new Set<string>();
+  let frontier = startFiles;
+
+  for (let depth = 0; frontier.length > 0; depth += 1) {
+    if (maxDepth !== undefined && depth >= maxDepth) {
+      break;
+    }
+    const next: string[] = [];
+    for (const file of frontier) {
+      for (const dependent of dependents[file] ?? []) {
+        if (visited.has(dependent)) {
+          continue;
+        }
+        visited.add(dependent);
+        reached.add(dependent);
+        next.push(dependent);
+      }
+    }
+    frontier = next;
+  }
+
+  return [...reached].sort((a, b) => a.localeCompare(b));
+}
+
+function groupFilesByCluster(
+  files: string[],
+  fileToCluster: Record<string, string>
+): ImpactedCluster[] {
+  const filesByCluster = new Map<string, string[]>();
+  for (const file of files) {
+    const clusterId = fileToCluster[file];
+    if (!clusterId) {
+      continue;
+    }
+    const clusterFiles = filesByCluster.get(clusterId) ?? [];
+    clusterFiles.push(file);
+    filesByCluster.set(clusterId, clusterFiles);
+  }
+
+  return [...filesByCluster.entries()]
+    .map(([id, clusterFiles]) => ({ id, files: clusterFiles }))
+    .sort((left, right) => left.id.localeCompare(right.id));
+}
+
+function findFeatures(
+  clusterIds: Set<string>,
+  features: ChangeImpactInput['features']
+): ImpactedFeature[] {
+  return features
+    .map((feature) => ({
+      id: feature.id,
+      name: feature.name,
+      clusters: feature.clusters
+        .filter((clusterId) => clusterIds.has(clusterId))
+        .sort((a, b) => a.localeCompare(b)),
+    }))
+    .filter((feature) => feature.clusters.length > 0)
+    .sort((left, right) => left.id.localeCompare(right.id));
+}
@@ -29,7 +29,25 @@ export function applyClusterMatching(
     };
   }
 
-  const candidates = clusters.map((cluster) => {
+  const usedIds = new Set<string>();
+  const matchedIds = new Set<string>();
+  const idMap = new Map<string, string>();
+  const matches: ClusterIdMatch[] = [];
+  const existingIds = new Set(existingClusters.map((existing) => existing.id));
+
+  // Hint-pinned clusters keep their configured ID and claim it before overlap matching.
+  for (const cluster of clusters) {
+    if (!cluster.pinned) {
+      continue;
+    }
+    usedIds.add(cluster.id);
+    idMap.set(cluster.id, cluster.id);
+    if (existingIds.has(cluster.id)) {
+      matchedIds.add(cluster.id);
+    }
+  }
+
+  const candidates = clusters.filter((cluster) => !cluster.pinned).map((cluster) => {
     const match = matchCluster(
       { suggestedId: cluster.id, files: cluster.files },
       existingClusters,
@@ -46,11 +64,6 @@ export function applyClusterMatching(
     return left.cluster.id.localeCompare(right.cluster.id);
   });
 
-  const usedIds = new Set<string>();
-  const matchedIds = new Set<string>();
-  const idMap = new Map<string, string>();
-  const matches: ClusterIdMatch[] = [];
-
   for (const candidate of sortedCandidates) {
     const suggestedId = candidate.cluster.id;
     const matchedId = candidate.match.matchedId;
@@ -7,6 +7,7 @@ export interface ExistingClusterInfo {
   id: string;
   files: string[];
   compositionHash: string;
+  entryPoints?: string[];
 }
 
 export function loadExistingClusters(clustersDir: string): ExistingClusterInfo[] {
@@ -26,6 +27,7 @@ export function loadExistingClusters(clustersDir: string): ExistingClusterInfo[]
         id: cluster.id,
         files: cluster.files,
         compositionHash: cluster.compositionHash,
+        ...(cluster.entry_points ? { entryPoints: cluster.entry_points } : {}),
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
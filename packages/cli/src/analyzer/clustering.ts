@@ -0,0 +1,36 @@
+import type { DependencyGraph } from './graph.js';
+import {
+  groupByFolderDepth,
+  groupByFolders,
+  type GroupingOptions,
+  type GroupingResult,
+} from './grouper.js';
+import { groupByCommunities } from './community-grouper.js';
+import type { ClusteringConfig, ClusteringStrategy, FeatureHint } from '../types/index.js';
+
+const DEFAULT_FOLDER_DEPTH = 2;
+
+type ClusteringStrategyRunner = (
+  graph: DependencyGraph,
+  config: ClusteringConfig,
+  options: GroupingOptions
+) => GroupingResult;
+
+const STRATEGIES: Record<ClusteringStrategy, ClusteringStrategyRunner> = {
+  folders: (graph, _config, options) => groupByFolders(graph, options),
+  'folder-depth': (graph, config, options) =>
+    groupByFolderDepth(graph, config.depth ?? DEFAULT_FOLDER_DEPTH, options),
+  community: (graph, _config, options) => groupByCommunities(graph, options),
+};
+
+/**
+ * Groups files into clusters with the strategy selected by `config.scan.clustering`
+ * (folder-based when unset).
+ */
+export function groupFiles(
+  graph: DependencyGraph,
+  options: { clustering?: ClusteringConfig; hints?: FeatureHint[] } = {}
+): GroupingResult {
+  const clustering = options.clustering ?? { strategy: 'folders' };
+  return STRATEGIES[clustering.strategy](graph, clustering, { hints: options.hints });
+}
@@ -0,0 +1,258 @@
+import type { DependencyGraph } from './graph.js';
+import { compileFeatureHints, findHintedClusterId } from './feature-hints.js';
+import {
+  getFolderClusterId,
+  groupByResolver,
+  type GroupingOptions,
+  type GroupingResult,
+} from './grouper.js';
+
+type WeightedGraph = Array<Map<number, number>>;
+
+const MAX_LEVELS = 10;
+const MAX_PASSES = 50;
+
+/**
+ * Groups tightly coupled files using Louvain modularity optimization over
+ * `graph.dependencies` (treated as undirected). Each community is named after the
+ * folder cluster most of its files belong to; files without internal dependencies
+ * fall back to their folder cluster. Files pinned by config hints are left out of
+ * detection so they neither pull nor name communities.
+ */
+export function groupByCommunities(
+  graph: DependencyGraph,
+  options: GroupingOptions = {}
+): GroupingResult {
+  const hints = compileFeatureHints(options.hints ?? []);
+  const files: string[] = [];
+  const reservedIds = new Set<string>();
+  for (const filePath of Object.keys(graph.files)) {
+    const hintedClusterId = findHintedClusterId(filePath, hints);
+    if (hintedClusterId === null) {
+      files.push(filePath);
+    } else {
+      reservedIds.add(hintedClusterId);
+    }
+  }
+  files.sort((a, b) => a.localeCompare(b));
+  const { adjacency, degrees } = buildFileGraph(files, graph.dependencies);
+  files.forEach((file, index) => {
+    if (degrees[index] === 0) {
+      reservedIds.add(getFolderClusterId(file));
+    }
+  });
+  const communities = detectCommunities(adjacency);
+  const clusterIdByFile = nameCommunities(files, communities, degrees, reservedIds);
+
+  return groupByResolver(
+    graph,
+    (filePath) => clusterIdByFile.get(filePath) ?? getFolderClusterId(filePath),
+    options
+  );
+}
+
+function buildFileGraph(
+  files: string[],
+  dependencies: Record<string, string[]>
+): { adjacency: WeightedGraph; degrees: number[] } {
+  const indexByFile = new Map(files.map((file, index) => [file, index]));
+  const adjacency: WeightedGraph = files.map(() => new Map<number, number>());
+
+  for (const [source, targets] of Object.entries(dependencies)) {
+    const sourceIndex = indexByFile.get(source);
+    if (sourceIndex === undefined) {
+      continue;
+    }
+    for (const target of targets) {
+      const targetIndex = indexByFile.get(target);
+      if (targetIndex === undefined || targetIndex === sourceIndex) {
+        continue;
+      }
+      addWeight(adjacency, sourceIndex, targetIndex, 1);
+      addWeight(adjacency, targetIndex, sourceIndex, 1);
+    }
+  }
+
+  const degrees = adjacency.map((neighbors) => sumWeights(neighbors));
+  return { adjacency, degrees };
+}
+
+/**
+ * Returns a community index per node. Iteration order is fixed, so the result is
+ * deterministic for a given graph.
+ */
+function detectCommunities(adjacency: WeightedGraph): number[] {
+  let membership = adjacency.map((_, index) => index);
+  let levelGraph = adjacency;
+
+  for (let level = 0; level < MAX_LEVELS; level += 1) {
+    const { assignment, moved } = optimizeModularity(levelGraph);
+    if (!moved) {
+      break;
+    }
+
+    const { renumbered, count } = renumber(assignment);
+    membership = membership.map((community) => renumbered[community]);
+    levelGraph = aggregate(levelGraph, renumbered, count);
+  }
+
+  return membership;
+}
+
+function optimizeModularity(graph: WeightedGraph): { assignment: number[]; moved: boolean } {
+  const degrees = graph.map((neighbors) => sumWeights(neighbors));
+  const totalWeight = degrees.reduce((sum, degree) => sum + degree, 0);
+  const assignment = graph.map((_, index) => index);
+  const communityTotals = [...degrees];
+  let moved = false;
+
+  if (totalWeight === 0) {
+    return { assignment, moved };
+  }
+
+  for (let pass = 0; pass < MAX_PASSES; pass += 1) {
+    let passMoved = false;
+
+    for (let node = 0; node < graph.length; node += 1) {
+      const degree = degrees[node];
+      if (degree === 0) {
+        continue;
+      }
+
+      const current = assignment[node];
+      const linksByCommunity = new Map<number, number>();
+      for (const [neighbor, weight] of graph[node]) {
+        if (neighbor === node) {
+          continue;
+        }
+        const community = assignment[neighbor];
+        linksByCommunity.set(community, (linksByCommunity.get(community) ?? 0) + weight);
+      }
+
+      communityTotals[current] -= degree;
+      let best = current;
+      let bestGain =
+        (linksByCommunity.get(current) ?? 0) - (communityTotals[current] * degree) / totalWeight;
+
+      for (const [community, links] of linksByCommunity) {
+        const gain = links - (communityTotals[community] * degree) / totalWeight;
+        if (gain > bestGain || (gain === bestGain && community < best)) {
+          best = community;
+          bestGain = gain;
+        }
+      }
+
+      communityTotals[best] += degree;
+      if (best !== current) {
+        assignment[node] = best;
+        passMoved = true;
+        moved = true;
+      }
+    }
+
+    if (!passMoved) {
+      break;
+    }
+  }
+
+  return { assignment, moved };
+}
+
+function renumber(assignment: number[]): { renumbered: number[]; count: number } {
+  const ids = new Map<number, number>();
+  const renumbered = assignment.map((community) => {
+    if (!ids.has(community)) {
+      ids.set(community, ids.size);
+    }
+    return ids.get(community) as number;
+  });
+  return { renumbered, count: ids.size };
+}
+
+function aggregate(graph: WeightedGraph, assignment: number[], count: number): WeightedGraph {
+  const aggregated: WeightedGraph = Array.from({ length: count }, () => new Map<number, number>());
+
+  for (let node = 0; node < graph.length; node += 1) {
+    for (const [neighbor, weight] of graph[node]) {
+      addWeight(aggregated, assignment[node], assignment[neighbor], weight);
+    }
+  }
+
+  return aggregated;
+}
+
+/**
+ * Names each community after the folder cluster shared by most of its files;
+ * when several communities claim the same name, the larger one keeps it. IDs of
+ * pinned clusters and of isolated files' folder clusters are never reused, so a
+ * community cannot merge into them; a clash bumps the "-N" suffix until unique.
+ */
+function nameCommunities(
+  files: string[],
+  communities: number[],
+  degrees: number[],
+  reservedIds: Set<string>
+): Map<string, string> {
+  const membersByCommunity = new Map<number, string[]>();
+  files.forEach((file, index) => {
+    if (degrees[index] === 0) {
+      return;
+    }
+    const members = membersByCommunity.get(communities[index]) ?? [];
+    members.push(file);
+    membersByCommunity.set(communities[index], members);
+  });
+
+  const groups = [...membersByCommunity.values()]
+    .map((members) => ({ members, baseId: pickDominantFolderId(members) }))
+    .sort((left, right) => {
+      if (right.members.length !== left.members.length) {
+        return right.members.length - left.members.length;
+      }
+      return left.members[0].localeCompare(right.members[0]);
+    });
+
+  const usedIds = new Set(reservedIds);
+  const clusterIdByFile = new Map<string, string>();
+  for (const group of groups) {
+    let clusterId = group.baseId;
+    let counter = 2;
+    while (usedIds.has(clusterId)) {
+      clusterId = `${group.baseId}-${counter}`;
+      counter += 1;
+    }
+    usedIds.add(clusterId);
+    for (const file of group.members) {
+      clusterIdByFile.set(file, clusterId);
+    }
+  }
+
+  return clusterIdByFile;
+}
+
+function pickDominantFolderId(files: string[]): string {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const folderId = getFolderClusterId(file);
+    counts.set(folderId, (counts.get(folderId) ?? 0) + 1);
+  }
+
+  return [...counts.entries()].sort((left, right) => {
+    if (right[1] !== left[1]) {
+      return right[1] - left[1];
+    }
+    return left[0].localeCompare(right[0]);
+  })[0][0];
+}
+
+function addWeight(graph: WeightedGraph, from: number, to: number, weight: number): void {
+  graph[from].set(to, (graph[from].get(to) ?? 0) + weight);
+}
+
+function sumWeights(neighbors: Map<number, number>): number {
+  let total = 0;
+  for (const weight of neighbors.values()) {
+    total += weight;
+  }
+  return total;
+}
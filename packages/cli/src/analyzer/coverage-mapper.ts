@@ -0,0 +1,261 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { SUPPORTED_VERSIONS } from '../constants/versions.js';
+import type { TestCoverage } from '../types/context.js';
+import { buildGraph, type DependencyGraph } from './graph.js';
+import type { MetricsUnit } from './metrics.js';
+import type { ScanResult } from './scanner.js';
+
+export interface LineCoverage {
+  /** Reports that covered at least one scanned file, relative to the project root. */
+  reports: string[];
+  /** Lines found and hit per scanned file (relative to the scan root). */
+  files: Map<string, { found: number; hit: number }>;
+}
+
+export interface TestCoverageInput {
+  clusters: MetricsUnit[];
+  /** Features with the files of their clusters already resolved. */
+  features: MetricsUnit[];
+  /** Test file -> scanned files it imports (see mapTestFiles). */
+  testDependencies: Record<string, string[]>;
+  lineCoverage: LineCoverage | null;
+}
+
+const TEST_FILE_PATTERNS = [
+  '**/*.{test,spec}.{ts,tsx,js,jsx}',
+  '**/__tests__/**/*.{ts,tsx,js,jsx}',
+  '**/*_test.go',
+];
+
+const SCAN_IGNORES = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/vendor/**',
+  '**/.featuremap/**',
+  '**/.git/**',
+];
+
+// lcov first: when several reports cover a file, the first one wins.
+const COVERAGE_REPORT_PATTERNS = ['**/coverage/lcov.info', '**/coverage/coverage-final.json'];
+
+export function detectTestCoverage(input: TestCoverageInput): TestCoverage {
+  const testsByFile = new Map<string, string[]>();
+  for (const [testFile, dependencies] of Object.entries(input.testDependencies)) {
+    for (const dependency of dependencies) {
+      const tests = testsByFile.get(dependency) ?? [];
+      tests.push(testFile);
+      testsByFile.set(dependency, tests);
+    }
+  }
+
+  return {
+    version: SUPPORTED_VERSIONS.context,
+    source: 'auto',
+    detectedAt: new Date().toISOString(),
+    testFileCount: Object.keys(input.testDependencies).length,
+    reports: input.lineCoverage?.reports ?? [],
+    clusters: buildEntries(input.clusters, testsByFile, input.lineCoverage),
+    features: buildEntries(input.features, testsByFile, input.lineCoverage),
+  };
+}
+
+/** Test files under the scan root, relative to it. Scan excludes do not apply. */
+export function findTestFiles(scanRoot: string): string[] {
+  return fg
+    .sync(TEST_FILE_PATTERNS, { cwd: scanRoot, onlyFiles: true, ignore: SCAN_IGNORES })
+    .map(toPosix)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Resolves each test file to the scanned files it imports directly. TS/JS tests are
+ * parsed with buildGraph against the scanned files; Go tests cover the Go files of their
+ * own package directory. Tests already in the scan reuse their graph dependencies.
+ */
+export async function mapTestFiles(
+  scanResult: ScanResult,
+  graph: DependencyGraph,
+  testFiles: string[]
+): Promise<Record<string, string[]>> {
+  const sourceFiles = Object.keys(graph.files);
+  const result: Record<string, string[]> = {};
+  const unparsed: string[] = [];
+
+  for (const testFile of testFiles) {
+    if (testFile.endsWith('.go')) {
+      const dir = path.posix.dirname(testFile);
+      result[testFile] = sourceFiles.filter(
+        (file) => file.endsWith('.go') && path.posix.dirname(file) === dir
+      );
+    } else if (graph.files[testFile]) {
+      result[testFile] = [...(graph.dependencies[testFile] ?? [])];
+    } else {
+      unparsed.push(testFile);
+    }
+  }
+
+  if (unparsed.length > 0) {
+    const testGraph = await buildGraph(
+      {
+        ...scanResult,
+        files: unparsed.map((file) => path.join(scanResult.projectRoot, file)),
+        goFiles: undefined,
+        pythonFiles: undefined,
+      },
+      { externalFiles: sourceFiles }
+    );
+    for (const [testFile, dependencies] of Object.entries(testGraph.dependencies)) {
+      result[testFile] = dependencies.filter((file) => graph.files[file]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reads `coverage/lcov.info` and `coverage/coverage-final.json` (Istanbul) reports below
+ * the project root. Relative report paths are resolved from the directory that holds
+ * `coverage/`. Returns null when no report covers a scanned file.
+ */
+export function loadLineCoverage(
+  projectRoot: string,
+  scanRoot: string,
+  graph: DependencyGraph
+): LineCoverage | null {
+  const reportPaths = COVERAGE_REPORT_PATTERNS.flatMap((pattern) =>
+    fg
+      .sync(pattern, { cwd: projectRoot, absolute: true, onlyFiles: true, dot: true, ignore: SCAN_IGNORES })
+      .sort((a, b) => a.localeCompare(b))
+  );
+
+  const files = new Map<string, { found: number; hit: number }>();
+  const reports: string[] = [];
+  for (const reportPath of reportPaths) {
+    let entries: Array<{ file: string; found: number; hit: number }>;
+    try {
+      const content = fs.readFileSync(reportPath, 'utf-8');
+      entries = reportPath.endsWith('.info') ? parseLcov(content) : parseIstanbulJson(content);
+    } catch {
+      continue;
+    }
+
+    const baseDir = path.dirname(path.dirname(reportPath));
+    let used = false;
+    for (const entry of entries) {
+      const absolutePath = path.isAbsolute(entry.file) ? entry.file : path.resolve(baseDir, entry.file);
+      const relativePath = toPosix(path.relative(scanRoot, absolutePath));
+      if (graph.files[relativePath] && !files.has(relativePath)) {
+        files.set(relativePath, { found: entry.found, hit: entry.hit });
+        used = true;
+      }
+    }
+    if (used) {
+      reports.push(toPosix(path.relative(projectRoot, reportPath)));
+    }
+  }
+
+  return files.size > 0 ? { reports, files } : null;
+}
+
+function parseLcov(content: string): Array<{ file: string; found: number; hit: number }> {
+  const entries: Array<{ file: string; found: number; hit: number }> = [];
+  let current: { file: string; found?: number; hit?: number; lines: Map<number, number> } | null =
+    null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('SF:')) {
+      current = { file: line.slice(3), lines: new Map() };
+    } else if (!current) {
+      continue;
+    } else if (line.startsWith('DA:')) {
+      const [lineNumber, hits] = line.slice(3).split(',');
+      current.lines.set(Number(lineNumber), Number(hits) || 0);
+    } else if (line.startsWith('LF:')) {
+      current.found = Number(line.slice(3)) || 0;
+    } else if (line.startsWith('LH:')) {
+      current.hit = Number(line.slice(3)) || 0;
+    } else if (line === 'end_of_record') {
+      // LF/LH are optional; fall back to counting DA lines.
+      const hitLines = [...current.lines.values()].filter((hits) => hits > 0).length;
+      entries.push({
+        file: current.file,
+        found: current.found ?? current.lines.size,
+        hit: current.hit ?? hitLines,
+      });
+      current = null;
+    }
+  }
+
+  return entries;
+}
+
+/** Istanbul JSON has statement counts; a line is hit when any statement starting on it ran. */
+function parseIstanbulJson(content: string): Array<{ file: string; found: number; hit: number }> {
+  const report = JSON.parse(content) as Record<
+    string,
+    {
+      path?: string;
+      statementMap?: Record<string, { start?: { line?: number } }>;
+      s?: Record<string, number>;
+    }
+  >;
+
+  return Object.entries(report).map(([key, fileCoverage]) => {
+    const lineHits = new Map<number, number>();
+    for (const [statementId, location] of Object.entries(fileCoverage.statementMap ?? {})) {
+      const line = location.start?.line;
+      if (typeof line !== 'number') {
+        continue;
+      }
+      const hits = fileCoverage.s?.[statementId] ?? 0;
+      lineHits.set(line, Math.max(lineHits.get(line) ?? 0, hits));
+    }
+    return {
+      file: fileCoverage.path ?? key,
+      found: lineHits.size,
+      hit: [...lineHits.values()].filter((hits) => hits > 0).length,
+    };
+  });
+}
+
+function buildEntries(
+  units: MetricsUnit[],
+  testsByFile: Map<string, string[]>,
+  lineCoverage: LineCoverage | null
+): TestCoverage['clusters'] {
+  return [...units]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((unit) => {
+      const testFiles = new Set<string>();
+      let linesFound = 0;
+      let linesHit = 0;
+      for (const file of unit.files) {
+        testsByFile.get(file)?.forEach((testFile) => testFiles.add(testFile));
+        const coverage = lineCoverage?.files.get(file);
+        if (coverage) {
+          linesFound += coverage.found;
+          linesHit += coverage.hit;
+        }
+      }
+
+      return {
+        id: unit.id,
+        testFiles: [...testFiles].sort((a, b) => a.localeCompare(b)),
+        ...(linesFound > 0
+          ? {
+              linesFound,
+              linesHit,
+              lineCoverage: Math.round((linesHit / linesFound) * 1000) / 10,
+            }
+          : {}),
+      };
+    });
+}
+
+function toPosix(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
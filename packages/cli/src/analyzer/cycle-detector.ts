@@ -0,0 +1,119 @@
+import { SUPPORTED_VERSIONS } from '../constants/versions.js';
+import type { Cycles } from '../types/context.js';
+
+export interface CycleDetectionInput {
+  fileDependencies: Record<string, string[]>;
+  clusterDependencies: Record<string, string[]>;
+  featureDependencies: Record<string, string[]>;
+}
+
+export function detectCycles(input: CycleDetectionInput): Cycles {
+  return {
+    version: SUPPORTED_VERSIONS.context,
+    source: 'auto',
+    detectedAt: new Date().toISOString(),
+    files: toCycleEntries(findCycles(input.fileDependencies)),
+    clusters: toCycleEntries(findCycles(input.clusterDependencies)),
+    features: toCycleEntries(findCycles(input.featureDependencies)),
+  };
+}
+
+/**
+ * Returns strongly connected components that form a cycle: components with more than
+ * one node, plus single nodes that depend on themselves. Nodes inside a component are
+ * sorted; components are ordered by size (largest first), then by first node.
+ */
+export function findCycles(dependencies: Record<string, string[]>): string[][] {
+  const nodes = collectNodes(dependencies);
+  const indexByNode = new Map<string, number>();
+  const lowLinkByNode = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  // Iterative Tarjan: file graphs can be deep enough to overflow recursion.
+  for (const root of nodes) {
+    if (indexByNode.has(root)) {
+      continue;
+    }
+
+    const frames: Array<{ node: string; neighbors: string[]; position: number }> = [];
+    const enter = (node: string): void => {
+      indexByNode.set(node, nextIndex);
+      lowLinkByNode.set(node, nextIndex);
+      nextIndex += 1;
+      stack.push(node);
+      onStack.add(node);
+      frames.push({ node, neighbors: dependencies[node] ?? [], position: 0 });
+    };
+    enter(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+
+      if (frame.position < frame.neighbors.length) {
+        const neighbor = frame.neighbors[frame.position];
+        frame.position += 1;
+        if (!indexByNode.has(neighbor)) {
+          enter(neighbor);
+        } else if (onStack.has(neighbor)) {
+          lowLinkByNode.set(
+            frame.node,
+            Math.min(lowLinkByNode.get(frame.node) as number, indexByNode.get(neighbor) as number)
+          );
+        }
+        continue;
+      }
+
+      frames.pop();
+      const parent = frames[frames.length - 1];
+      if (parent) {
+        lowLinkByNode.set(
+          parent.node,
+          Math.min(lowLinkByNode.get(parent.node) as number, lowLinkByNode.get(frame.node) as number)
+        );
+      }
+
+      if (lowLinkByNode.get(frame.node) !== indexByNode.get(frame.node)) {
+        continue;
+      }
+
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop() as string;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== frame.node);
+
+      const isSelfLoop =
+        component.length === 1 && (dependencies[frame.node] ?? []).includes(frame.node);
+      if (component.length > 1 || isSelfLoop) {
+        components.push(component.sort((a, b) => a.localeCompare(b)));
+      }
+    }
+  }
+
+  return components.sort((left, right) => {
+    if (right.length !== left.length) {
+      return right.length - left.length;
+    }
+    return left[0].localeCompare(right[0]);
+  });
+}
+
+function collectNodes(dependencies: Record<string, string[]>): string[] {
+  const nodes = new Set<string>();
+  for (const [source, targets] of Object.entries(dependencies)) {
+    nodes.add(source);
+    for (const target of targets) {
+      nodes.add(target);
+    }
+  }
+  return [...nodes].sort((a, b) => a.localeCompare(b));
+}
+
+function toCycleEntries(components: string[][]): Cycles['files'] {
+  return components.map((nodes) => ({ nodes }));
+}
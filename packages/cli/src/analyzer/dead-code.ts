@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SUPPORTED_VERSIONS } from '../constants/versions.js';
+import type { DeadCode } from '../types/context.js';
+import { resolveImportPath } from '../utils/graphYaml.js';
+import type { DependencyGraph } from './graph.js';
+
+export interface DeadCodeInput {
+  graph: DependencyGraph;
+  clusters: Array<{ id: string; files: string[] }>;
+  /** Files whose exports are public API: cluster entry_points and package.json entries. */
+  roots: string[];
+}
+
+// Symbol usage is only recorded for TS/JS imports; Go and Python exports are not checked.
+const SYMBOL_TRACKED_FILE = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+const ALL_EXPORTS = '*';
+const DEFAULT_EXPORT = 'default';
+const BUILD_DIR_PATTERN = /(^|\/)(dist|build|lib|out)\//;
+
+export function detectDeadCode(input: DeadCodeInput): DeadCode {
+  const { graph } = input;
+  const roots = [...new Set(input.roots.filter((file) => graph.files[file]))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+  const rootSet = new Set(roots);
+  const usedExports = collectUsedExports(graph);
+
+  const clusters: DeadCode['clusters'] = [];
+  for (const cluster of [...input.clusters].sort((a, b) => a.id.localeCompare(b.id))) {
+    const files = cluster.files.filter((file) => graph.files[file]).sort((a, b) => a.localeCompare(b));
+    const unreachableFiles = files.filter(
+      (file) => !rootSet.has(file) && (graph.dependents[file] ?? []).length === 0
+    );
+    const unreachable = new Set(unreachableFiles);
+
+    const unusedExports: DeadCode['clusters'][number]['unusedExports'] = [];
+    for (const file of files) {
+      // Roots are public API; every export of an unreachable file is dead already.
+      if (rootSet.has(file) || unreachable.has(file) || !SYMBOL_TRACKED_FILE.test(file)) {
+        continue;
+      }
+      const used = usedExports.get(file);
+      if (used?.has(ALL_EXPORTS)) {
+        continue;
+      }
+      for (const entry of graph.files[file].exports) {
+        const name = entry.isDefault ? DEFAULT_EXPORT : entry.name;
+        if (!used?.has(name)) {
+          unusedExports.push({ file, name: entry.name, type: entry.type });
+        }
+      }
+    }
+
+    if (unusedExports.length > 0 || unreachableFiles.length > 0) {
+      clusters.push({ id: cluster.id, unusedExports, unreachableFiles });
+    }
+  }
+
+  return {
+    version: SUPPORTED_VERSIONS.context,
+    source: 'auto',
+    detectedAt: new Date().toISOString(),
+    roots,
+    clusters,
+  };
+}
+
+/**
+ * Resolves package.json `main`, `bin` and `exports` to scanned files. Build output paths
+ * (dist/, build/, lib/, out/) are mapped back to src/ so `dist/index.js` finds `src/index.ts`.
+ */
+export function findPackageEntryFiles(
+  packageJsonPaths: string[],
+  scanRoot: string,
+  graph: DependencyGraph
+): string[] {
+  const graphFiles = new Set(Object.keys(graph.files));
+  const entries = new Set<string>();
+
+  for (const packageJsonPath of packageJsonPaths) {
+    let manifest: Record<string, unknown>;
+    try {
+      manifest = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8')) as Record<string, unknown>;
+    } catch {
+      continue;
+    }
+
+    const packageDir = path.dirname(packageJsonPath);
+    for (const target of collectEntryTargets(manifest)) {
+      const relative = path.relative(scanRoot, path.resolve(packageDir, target)).replace(/\\/g, '/');
+      if (relative.startsWith('..')) {
+        continue;
+      }
+      const resolved = resolveEntryFile(relative, graphFiles);
+      if (resolved) {
+        entries.add(resolved);
+      }
+    }
+  }
+
+  return [...entries].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Exported names each file's importers use, keyed by target file. `*` marks files whose
+ * exports are all used (namespace, dynamic import, `export *`).
+ */
+function collectUsedExports(graph: DependencyGraph): Map<string, Set<string>> {
+  const graphFiles = new Set(Object.keys(graph.files));
+  const used = new Map<string, Set<string>>();
+
+  for (const [file, node] of Object.entries(graph.files)) {
+    const dependencies = new Set(graph.dependencies[file] ?? []);
+    for (const detail of node.imports.internalDetails ?? []) {
+      const target = resolveImportPath(detail.from, file, graphFiles);
+      if (!target || !dependencies.has(target)) {
+        continue;
+      }
+      const names = used.get(target) ?? new Set<string>();
+      used.set(target, names);
+      for (const symbol of detail.symbols) {
+        names.add(resolveUsedName(symbol, graph.files[target].exports));
+      }
+    }
+  }
+
+  return used;
+}
+
+/**
+ * Default and namespace imports are recorded under their local name. A symbol that is
+ * not a named export therefore marks the default export used, or every export when the
+ * target has no default export (a namespace import).
+ */
+function resolveUsedName(
+  symbol: string,
+  exports: DependencyGraph['files'][string]['exports']
+): string {
+  if (symbol === ALL_EXPORTS || symbol === DEFAULT_EXPORT) {
+    return symbol;
+  }
+  if (exports.some((entry) => !entry.isDefault && entry.name === symbol)) {
+    return symbol;
+  }
+  return exports.some((entry) => entry.isDefault) ? DEFAULT_EXPORT : ALL_EXPORTS;
+}
+
+function collectEntryTargets(manifest: Record<string, unknown>): string[] {
+  const targets: string[] = [];
+  if (typeof manifest.main === 'string') {
+    targets.push(manifest.main);
+  }
+  if (typeof manifest.bin === 'string') {
+    targets.push(manifest.bin);
+  } else {
+    collectStrings(manifest.bin, targets);
+  }
+  collectStrings(manifest.exports, targets);
+  return targets.filter((target) => !target.includes('*'));
+}
+
+function collectStrings(value: unknown, target: string[]): void {
+  if (typeof value === 'string') {
+    target.push(value);
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((entry) => collectStrings(entry, target));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    Object.values(value).forEach((entry) => collectStrings(entry, target));
+  }
+}
+
+function resolveEntryFile(relativePath: string, graphFiles: Set<string>): string | null {
+  const withoutDeclaration = relativePath.replace(/\.d\.ts$/, '').replace(/\.(mjs|cjs)$/, '.js');
+  const candidates = [withoutDeclaration];
+  if (BUILD_DIR_PATTERN.test(withoutDeclaration)) {
+    candidates.push(withoutDeclaration.replace(BUILD_DIR_PATTERN, '$1src/'));
+  }
+  for (const candidate of candidates) {
+    const resolved = resolveImportPath(candidate, candidate, graphFiles);
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return null;
+}
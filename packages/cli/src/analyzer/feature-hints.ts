@@ -0,0 +1,87 @@
+import type { FeatureHint, Layer } from '../types/index.js';
+import { globToRegExp } from '../utils/glob.js';
+
+export interface CompiledFeatureHint {
+  hint: FeatureHint;
+  regex: RegExp;
+}
+
+export interface FeatureHintMatch extends FeatureHint {
+  clusters: string[];
+}
+
+export function compileFeatureHints(hints: FeatureHint[]): CompiledFeatureHint[] {
+  return hints
+    .filter((hint) => hint.pattern.trim().length > 0)
+    .map((hint) => ({ hint, regex: globToRegExp(normalizePattern(hint.pattern)) }));
+}
+
+/**
+ * Returns the cluster ID forced by the first hint (in config order) whose pattern
+ * matches the file, or null when no hint assigns a cluster.
+ */
+export function findHintedClusterId(
+  filePath: string,
+  hints: CompiledFeatureHint[]
+): string | null {
+  const normalized = normalizePath(filePath);
+  for (const { hint, regex } of hints) {
+    if (hint.cluster && regex.test(normalized)) {
+      return hint.cluster;
+    }
+  }
+  return null;
+}
+
+/**
+ * A hint covers a cluster when it names the cluster explicitly or when every file
+ * of the cluster matches its pattern.
+ */
+export function hintCoversCluster(
+  compiled: CompiledFeatureHint,
+  clusterId: string,
+  files: string[]
+): boolean {
+  if (compiled.hint.cluster) {
+    return compiled.hint.cluster === clusterId;
+  }
+  return files.length > 0 && files.every((file) => compiled.regex.test(normalizePath(file)));
+}
+
+export function findHintedLayer(
+  clusterId: string,
+  files: string[],
+  hints: CompiledFeatureHint[]
+): { layer: Layer; pattern: string } | null {
+  for (const compiled of hints) {
+    if (compiled.hint.layer && hintCoversCluster(compiled, clusterId, files)) {
+      return { layer: compiled.hint.layer, pattern: compiled.hint.pattern };
+    }
+  }
+  return null;
+}
+
+/**
+ * Lists each hint together with the clusters it covers, for reporting to the grouping AI.
+ */
+export function matchFeatureHints(
+  hints: FeatureHint[],
+  clusters: Array<{ id: string; files: string[] }>
+): FeatureHintMatch[] {
+  return compileFeatureHints(hints).map((compiled) => ({
+    ...compiled.hint,
+    clusters: clusters
+      .filter((cluster) => hintCoversCluster(compiled, cluster.id, cluster.files))
+      .map((cluster) => cluster.id)
+      .sort((a, b) => a.localeCompare(b)),
+  }));
+}
+
+function normalizePattern(pattern: string): string {
+  const normalized = normalizePath(pattern.trim()).replace(/^\.\//, '');
+  return normalized.endsWith('/') ? `${normalized}**` : normalized;
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
@@ -0,0 +1,26 @@
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { loadYAML } from '../utils/yaml-loader.js';
+import { FeatureSchema, type Feature } from '../types/feature.js';
+
+export function loadFeatures(featuresDir: string): Feature[] {
+  if (!existsSync(featuresDir)) {
+    return [];
+  }
+
+  const files = readdirSync(featuresDir)
+    .filter((file) => file.endsWith('.yaml'))
+    .sort((a, b) => a.localeCompare(b));
+  const features: Feature[] = [];
+
+  for (const file of files) {
+    try {
+      features.push(loadYAML(join(featuresDir, file), FeatureSchema, { skipVersionCheck: true }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`WARN Could not load feature ${file}: ${message}`);
+    }
+  }
+
+  return features;
+}
@@ -1,7 +1,9 @@
+import * as fs from 'fs';
 import * as path from 'path';
+import { hashFileContent, type ParseCache } from './parse-cache.js';
 import { parseFile } from './parser.js';
 import { ScanResult, getRelativePath } from './scanner.js';
-import { createAliasResolver } from './tsconfig.js';
+import { createAliasResolver, type AliasResolver } from './tsconfig.js';
 import type { ExportSymbol, ImportList } from '../types/index.js';
 
 export interface FileNode {
@@ -17,12 +19,30 @@ export interface DependencyGraph {
   dependents: Record<string, string[]>;    // file -> [files that import it]
 }
 
-export async function buildGraph(scanResult: ScanResult): Promise<DependencyGraph> {
+export interface BuildGraphOptions {
+  parseCache?: ParseCache;
+  /**
+   * Relative paths outside `scanResult.files` that imports may resolve to, e.g. the
+   * scanned sources when parsing test files. They get no node of their own.
+   */
+  externalFiles?: string[];
+}
+
+export async function buildGraph(
+  scanResult: ScanResult,
+  options: BuildGraphOptions = {}
+): Promise<DependencyGraph> {
   const { files, projectRoot } = scanResult;
   const goFiles = scanResult.goFiles ?? [];
   const goImportIndex = buildGoImportIndex(goFiles);
+  const pythonFiles = scanResult.pythonFiles ?? [];
+  const pythonDependencies = new Map<string, string[]>();
   const relativePaths = files.map((absolutePath) => getRelativePath(absolutePath, projectRoot));
-  const aliasResolver = createAliasResolver({ projectRoot, filePaths: relativePaths });
+  const externalFiles = options.externalFiles ?? [];
+  const aliasResolver = createAliasResolver({
+    projectRoot,
+    filePaths: [...relativePaths, ...externalFiles],
+  });
   
   const graph: DependencyGraph = {
     files: {},
@@ -36,7 +56,7 @@ export async function buildGraph(scanResult: ScanResult): Promise<DependencyGrap
   for (let index = 0; index < files.length; index += 1) {
     const absolutePath = files[index];
     const relativePath = relativePaths[index] ?? getRelativePath(absolutePath, projectRoot);
-    const parsed = parseFile(absolutePath, { aliasResolver });
+    const parsed = parseCodeFile(absolutePath, relativePath, aliasResolver, options.parseCache);
     parsedFiles.set(relativePath, parsed);
     
     graph.files[relativePath] = {
@@ -63,6 +83,43 @@ export async function buildGraph(scanResult: ScanResult): Promise<DependencyGrap
       imports: parsed.imports,
       linesOfCode: parsed.linesOfCode,
     });
+    options.parseCache?.store(
+      relativePath,
+      hashFileContent(JSON.stringify([exportSymbols, parsed.imports, parsed.linesOfCode])),
+      { exports: exportSymbols, imports: parsed.imports, linesOfCode: parsed.linesOfCode }
+    );
+
+    graph.files[relativePath] = {
+      path: relativePath,
+      exports: exportSymbols,
+      imports: parsed.imports,
+      linesOfCode: parsed.linesOfCode,
+    };
+
+    graph.dependencies[relativePath] = [];
+    graph.dependents[relativePath] = [];
+  }
+
+  // Python imports are resolved against source roots during the scan
+  for (const parsed of pythonFiles) {
+    const relativePath = normalizeFilePath(parsed.path);
+    const exportSymbols = parsed.exports.map((entry) => ({
+      name: entry.name,
+      type: entry.type,
+    }));
+
+    parsedFiles.set(relativePath, {
+      path: relativePath,
+      exports: exportSymbols,
+      imports: parsed.imports,
+      linesOfCode: parsed.linesOfCode,
+    });
+    pythonDependencies.set(relativePath, parsed.dependencies.map(normalizeFilePath));
+    options.parseCache?.store(
+      relativePath,
+      hashFileContent(JSON.stringify([exportSymbols, parsed.imports, parsed.linesOfCode])),
+      { exports: exportSymbols, imports: parsed.imports, linesOfCode: parsed.linesOfCode }
+    );
 
     graph.files[relativePath] = {
       path: relativePath,
@@ -76,9 +133,22 @@ export async function buildGraph(scanResult: ScanResult): Promise<DependencyGrap
   }
 
   // Step 2: resolve internal imports to real file paths
+  const resolvableFiles = new Set([...parsedFiles.keys(), ...externalFiles]);
   for (const [filePath, parsed] of parsedFiles) {
     const fileDir = path.posix.dirname(filePath);
 
+    const resolvedPythonDependencies = pythonDependencies.get(filePath);
+    if (resolvedPythonDependencies) {
+      for (const resolvedPath of resolvedPythonDependencies) {
+        if (!graph.files[resolvedPath]) {
+          continue;
+        }
+        graph.dependencies[filePath].push(resolvedPath);
+        graph.dependents[resolvedPath].push(filePath);
+      }
+      continue;
+    }
+
     if (filePath.endsWith('.go')) {
       for (const importPath of parsed.imports.internal) {
         const resolvedPath = resolveGoImport(importPath, goImportIndex);
@@ -94,7 +164,7 @@ export async function buildGraph(scanResult: ScanResult): Promise<DependencyGrap
     }
 
     for (const importPath of parsed.imports.internal) {
-      const resolvedPath = resolveImport(importPath, fileDir, parsedFiles);
+      const resolvedPath = resolveImport(importPath, fileDir, resolvableFiles);
 
       if (resolvedPath) {
         // filePath ВђГєВђГёВђВџВђВ±В‘ВЏВ‘В±В‘ВЊ ВђВџВ‘ВЊ resolvedPath
@@ -111,13 +181,36 @@ export async function buildGraph(scanResult: ScanResult): Promise<DependencyGrap
   return graph;
 }
 
+function parseCodeFile(
+  absolutePath: string,
+  relativePath: string,
+  aliasResolver: AliasResolver,
+  parseCache: ParseCache | undefined
+): ParsedCodeFile {
+  if (!parseCache) {
+    return parseFile(absolutePath, { aliasResolver });
+  }
+
+  const hash = hashFileContent(fs.readFileSync(absolutePath));
+  const cached = parseCache.lookup(relativePath, hash);
+  const parsed = cached
+    ? { path: absolutePath, ...cached }
+    : parseFile(absolutePath, { aliasResolver });
+  parseCache.store(relativePath, hash, {
+    exports: parsed.exports,
+    imports: parsed.imports,
+    linesOfCode: parsed.linesOfCode,
+  });
+  return parsed;
+}
+
 /**
  * Р РµР·РѕР»РІРёС‚ РѕС‚РЅРѕСЃРёС‚РµР»СЊРЅС‹Р№ РёРјРїРѕСЂС‚ РІ СЂРµР°Р»СЊРЅС‹Р№ РїСѓС‚СЊ С„Р°Р№Р»Р°
  */
 function resolveImport(
   importPath: string,
   fromDir: string,
-  existingFiles: Map<string, ParsedCodeFile>
+  existingFiles: Set<string>
 ): string | null {
   if (existingFiles.has(importPath)) {
     return importPath;
@@ -1,5 +1,7 @@
 import * as path from 'path';
 import { DependencyGraph } from './graph.js';
+import type { FeatureHint, Layer } from '../types/index.js';
+import { compileFeatureHints, findHintedClusterId, findHintedLayer } from './feature-hints.js';
 
 export interface Cluster {
   id: string;                    // unique ID derived from path
@@ -7,6 +9,12 @@ export interface Cluster {
   files: string[];               // files in the cluster
   internalDependencies: string[]; // dependencies within the cluster
   externalDependencies: string[]; // dependencies on other clusters
+  pinned?: boolean;              // ID forced by a config hint, never renamed by matching
+  layerHint?: { layer: Layer; pattern: string }; // layer pre-assigned by a config hint
+}
+
+export interface GroupingOptions {
+  hints?: FeatureHint[];         // config.features.hints
 }
 
 export interface GroupingResult {
@@ -18,14 +26,51 @@ export interface GroupingResult {
  * Groups files by folders.
  * Logic: each folder inside packages/<pkg>/src becomes a cluster.
  * Files in src/ root are grouped into "<package>-core".
+ * Hints with a `cluster` override the folder-derived ID for matching files.
+ */
+export function groupByFolders(
+  graph: DependencyGraph,
+  options: GroupingOptions = {}
+): GroupingResult {
+  return groupByResolver(graph, getFolderClusterId, options);
+}
+
+/**
+ * Groups files by their first `depth` directories relative to the scan root.
+ * Examples (depth 2):
+ *   src/features/auth/login.ts -> src-features
+ *   src/index.ts -> src
+ *   main.ts -> root
+ */
+export function groupByFolderDepth(
+  graph: DependencyGraph,
+  depth: number,
+  options: GroupingOptions = {}
+): GroupingResult {
+  return groupByResolver(graph, (filePath) => getDepthClusterId(filePath, depth), options);
+}
+
+/**
+ * Builds clusters from a file -> cluster ID resolver. Shared by every clustering
+ * strategy so config hints and dependency bookkeeping behave the same everywhere.
  */
-export function groupByFolders(graph: DependencyGraph): GroupingResult {
+export function groupByResolver(
+  graph: DependencyGraph,
+  resolveClusterId: (filePath: string) => string,
+  options: GroupingOptions = {}
+): GroupingResult {
+  const hints = compileFeatureHints(options.hints ?? []);
   const fileToCluster: Record<string, string> = {};
   const clusterFiles: Record<string, string[]> = {};
+  const pinnedIds = new Set<string>();
 
   // Step 1: determine cluster for each file
   for (const filePath of Object.keys(graph.files)) {
-    const clusterId = getClusterId(filePath);
+    const hintedId = findHintedClusterId(filePath, hints);
+    const clusterId = hintedId ?? resolveClusterId(filePath);
+    if (hintedId) {
+      pinnedIds.add(hintedId);
+    }
     fileToCluster[filePath] = clusterId;
 
     if (!clusterFiles[clusterId]) {
@@ -55,12 +100,17 @@ export function groupByFolders(graph: DependencyGraph): GroupingResult {
       }
     }
 
+    const sortedFiles = files.sort();
+    const layerHint = findHintedLayer(clusterId, sortedFiles, hints);
+
     clusters.push({
       id: clusterId,
       name: generateClusterName(clusterId),
-      files: files.sort(),
+      files: sortedFiles,
       internalDependencies: [...internalDeps].sort(),
       externalDependencies: [...externalDeps].sort(),
+      ...(pinnedIds.has(clusterId) ? { pinned: true } : {}),
+      ...(layerHint ? { layerHint } : {}),
     });
   }
 
@@ -78,11 +128,11 @@ export function groupByFolders(graph: DependencyGraph): GroupingResult {
  *   packages/web/src/components/ui/button.tsx -> web-components-ui
  *   packages/web/src/App.tsx -> web-core
  */
-function getClusterId(filePath: string): string {
+export function getFolderClusterId(filePath: string): string {
   const normalized = filePath.replace(/\\/g, '/');
 
-  if (isGoFile(normalized)) {
-    return getGoClusterId(normalized);
+  if (isGoFile(normalized) || isPythonFile(normalized)) {
+    return getPackageDirClusterId(normalized);
   }
 
   const parts = normalized.split('/');
@@ -117,12 +167,22 @@ function getClusterId(filePath: string): string {
   return getFallbackClusterId(parts);
 }
 
+function getDepthClusterId(filePath: string, depth: number): string {
+  const parts = filePath.replace(/\\/g, '/').split('/').filter(Boolean);
+  const dirs = parts.slice(0, -1).slice(0, depth);
+  return dirs.length > 0 ? dirs.join('-') : 'root';
+}
+
 function isGoFile(filePath: string): boolean {
   return filePath.toLowerCase().endsWith('.go');
 }
 
-// For Go: folder = cluster
-function getGoClusterId(filePath: string): string {
+function isPythonFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith('.py');
+}
+
+// For Go and Python: folder (package) = cluster
+function getPackageDirClusterId(filePath: string): string {
   const normalized = filePath.replace(/\\/g, '/');
   const dir = path.posix.dirname(normalized);
   if (dir === '.' || dir === '') {
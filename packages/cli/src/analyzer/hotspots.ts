@@ -0,0 +1,173 @@
+import { SUPPORTED_VERSIONS } from '../constants/versions.js';
+import type { Hotspots } from '../types/context.js';
+import type { CommitStats } from '../utils/git.js';
+import type { DependencyGraph } from './graph.js';
+import type { MetricsUnit } from './metrics.js';
+
+export interface HotspotsInput {
+  graph: DependencyGraph;
+  clusters: MetricsUnit[];
+  /** Features with the files of their clusters already resolved. */
+  features: MetricsUnit[];
+  /** Commits with paths relative to the scan root (see getCommitStats). */
+  commits: CommitStats[];
+  since: string;
+  clusterDependencies: Record<string, string[]>;
+  featureDependencies: Record<string, string[]>;
+  minCoChanges?: number;
+}
+
+type TemporalCoupling = Hotspots['coupling']['files'][number];
+
+export const DEFAULT_HOTSPOTS_SINCE = '1 year ago';
+const DEFAULT_MIN_CO_CHANGES = 3;
+const MIN_COUPLING_DEGREE = 0.3;
+// Bulk commits (renames, formatting, dependency bumps) say nothing about coupling.
+const MAX_FILES_PER_COMMIT = 50;
+const HOTSPOT_FILES_LIMIT = 20;
+const COUPLING_LIMIT = 50;
+
+export function detectHotspots(input: HotspotsInput): Hotspots {
+  const { graph } = input;
+  const minCoChanges = input.minCoChanges ?? DEFAULT_MIN_CO_CHANGES;
+  // Only files that still exist in the scanned graph count.
+  const commits = input.commits
+    .map((commit) => commit.files.filter((file) => graph.files[file.path]))
+    .filter((files) => files.length > 0);
+
+  const fileStats = new Map<string, { commits: number; churn: number }>();
+  for (const files of commits) {
+    for (const file of files) {
+      const stats = fileStats.get(file.path) ?? { commits: 0, churn: 0 };
+      stats.commits += 1;
+      stats.churn += file.added + file.deleted;
+      fileStats.set(file.path, stats);
+    }
+  }
+
+  const fileDependencies = Object.fromEntries(
+    Object.keys(graph.files).map((file) => [file, graph.dependencies[file] ?? []])
+  );
+  const changeSets = commits.map((files) => files.map((file) => file.path));
+
+  return {
+    version: SUPPORTED_VERSIONS.context,
+    source: 'auto',
+    detectedAt: new Date().toISOString(),
+    since: input.since,
+    commitCount: commits.length,
+    files: [...fileStats]
+      .map(([filePath, stats]) => ({
+        path: filePath,
+        commits: stats.commits,
+        churn: stats.churn,
+        linesOfCode: graph.files[filePath].linesOfCode,
+      }))
+      .sort((a, b) => b.commits - a.commits || b.churn - a.churn || a.path.localeCompare(b.path))
+      .slice(0, HOTSPOT_FILES_LIMIT),
+    clusters: buildChurnEntries(input.clusters, commits),
+    features: buildChurnEntries(input.features, commits),
+    coupling: {
+      files: findTemporalCoupling(changeSets, fileDependencies, minCoChanges),
+      clusters: findTemporalCoupling(
+        mapChangeSets(changeSets, input.clusters),
+        input.clusterDependencies,
+        minCoChanges
+      ),
+      features: findTemporalCoupling(
+        mapChangeSets(changeSets, input.features),
+        input.featureDependencies,
+        minCoChanges
+      ),
+    },
+  };
+}
+
+function buildChurnEntries(
+  units: MetricsUnit[],
+  commits: CommitStats['files'][]
+): Hotspots['clusters'] {
+  return [...units]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((unit) => {
+      const files = new Set(unit.files);
+      let commitCount = 0;
+      let churn = 0;
+      for (const commitFiles of commits) {
+        const touched = commitFiles.filter((file) => files.has(file.path));
+        if (touched.length > 0) {
+          commitCount += 1;
+          churn += touched.reduce((sum, file) => sum + file.added + file.deleted, 0);
+        }
+      }
+      return { id: unit.id, commits: commitCount, churn };
+    });
+}
+
+/** Rewrites file change sets as the (distinct) units whose files they touch. */
+function mapChangeSets(changeSets: string[][], units: MetricsUnit[]): string[][] {
+  const unitIdsByFile = new Map<string, string[]>();
+  for (const unit of units) {
+    for (const file of unit.files) {
+      const unitIds = unitIdsByFile.get(file) ?? [];
+      unitIds.push(unit.id);
+      unitIdsByFile.set(file, unitIds);
+    }
+  }
+  return changeSets.map((files) => [
+    ...new Set(files.flatMap((file) => unitIdsByFile.get(file) ?? [])),
+  ]);
+}
+
+/**
+ * Pairs that changed together in at least `minCoChanges` commits, with no dependency
+ * edge in either direction. Degree is shared commits over the pair's average commits.
+ */
+function findTemporalCoupling(
+  changeSets: string[][],
+  dependencies: Record<string, string[]>,
+  minCoChanges: number
+): TemporalCoupling[] {
+  const changeCounts = new Map<string, number>();
+  const pairCounts = new Map<string, number>();
+
+  for (const changeSet of changeSets) {
+    const nodes = [...new Set(changeSet)].sort((a, b) => a.localeCompare(b));
+    nodes.forEach((node) => changeCounts.set(node, (changeCounts.get(node) ?? 0) + 1));
+    if (nodes.length > MAX_FILES_PER_COMMIT) {
+      continue;
+    }
+    for (let i = 0; i < nodes.length; i += 1) {
+      for (let j = i + 1; j < nodes.length; j += 1) {
+        const key = `${nodes[i]}\0${nodes[j]}`;
+        pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  const result: TemporalCoupling[] = [];
+  for (const [key, coChanges] of pairCounts) {
+    if (coChanges < minCoChanges) {
+      continue;
+    }
+    const [source, target] = key.split('\0');
+    if (dependencies[source]?.includes(target) || dependencies[target]?.includes(source)) {
+      continue;
+    }
+    const average = ((changeCounts.get(source) ?? 0) + (changeCounts.get(target) ?? 0)) / 2;
+    const degree = Math.round((coChanges / average) * 100) / 100;
+    if (degree >= MIN_COUPLING_DEGREE) {
+      result.push({ source, target, coChanges, degree });
+    }
+  }
+
+  return result
+    .sort(
+      (a, b) =>
+        b.coChanges - a.coChanges ||
+        b.degree - a.degree ||
+        a.source.localeCompare(b.source) ||
+        a.target.localeCompare(b.target)
+    )
+    .slice(0, COUPLING_LIMIT);
+}
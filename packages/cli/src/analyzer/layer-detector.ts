@@ -1,4 +1,7 @@
-export type Layer = 'frontend' | 'backend' | 'shared' | 'infrastructure' | 'fullstack' | 'smell';
+import type { Layer, LayerSignals } from '../types/index.js';
+import { collectCustomSignals } from './layer-rules.js';
+
+// Built-in layers that collect signals, plus custom layers from config.yaml.
 type SignalLayer = Exclude<Layer, 'fullstack' | 'smell'>;
 export type Confidence = 'high' | 'medium' | 'low';
 
@@ -17,6 +20,11 @@ export interface LayerDetectionInput {
   exports: Array<{ name: string; type: string }>;
 }
 
+export interface LayerDetectionOptions {
+  /** config.yaml `layers.signals`: extra signals per built-in or custom layer. */
+  signals?: Record<string, LayerSignals>;
+}
+
 const FRONTEND_IMPORTS = [
   'react',
   'react-dom',
@@ -77,6 +85,29 @@ const GO_INFRA_IMPORTS = [
   'github.com/spf13/viper',
 ];
 
+const PYTHON_WEB_FRAMEWORKS: Record<string, string> = {
+  django: 'Django',
+  rest_framework: 'Django REST framework',
+  fastapi: 'FastAPI',
+  starlette: 'Starlette',
+  flask: 'Flask',
+  aiohttp: 'aiohttp',
+};
+const PYTHON_DATABASE_IMPORTS = [
+  'sqlalchemy',
+  'sqlmodel',
+  'psycopg',
+  'psycopg2',
+  'pymongo',
+  'motor',
+  'redis',
+  'alembic',
+  'django.db',
+];
+const PYTHON_INFRA_IMPORTS = ['click', 'typer', 'invoke', 'fabric', 'setuptools'];
+const DJANGO_BACKEND_FILES = ['models.py', 'views.py', 'urls.py', 'serializers.py', 'admin.py'];
+const PYTHON_INFRA_FILES = ['manage.py', 'settings.py', 'wsgi.py', 'asgi.py', 'conftest.py'];
+
 const FRONTEND_PATHS = ['/web/', '/ui/', '/components/', '/pages/', '/views/', '/frontend/'];
 const BACKEND_PATHS = [
   '/api/',
@@ -93,7 +124,7 @@ const FRONTEND_EXTENSIONS = ['.tsx', '.jsx', '.vue', '.svelte'];
 
 const INFRA_FILE_PREFIXES = ['vite.config', 'tsconfig', 'webpack', 'rollup', '.eslintrc'];
 
-const LAYERS: SignalLayer[] = ['frontend', 'backend', 'shared', 'infrastructure'];
+const BUILT_IN_SIGNAL_LAYERS: SignalLayer[] = ['frontend', 'backend', 'shared', 'infrastructure'];
 
 const REACT_COMPONENT_NAME = /^[A-Z][A-Za-z0-9]*$/;
 const ROUTE_EXPORT_MATCHERS = [
@@ -104,7 +135,18 @@ const ROUTE_EXPORT_MATCHERS = [
   'route',
 ];
 
-export function detectLayer(input: LayerDetectionInput): LayerDetectionResult {
+export function detectLayer(
+  input: LayerDetectionInput,
+  options: LayerDetectionOptions = {}
+): LayerDetectionResult {
+  const customSignals = Object.entries(options.signals ?? {});
+  const layers = [
+    ...BUILT_IN_SIGNAL_LAYERS,
+    ...customSignals
+      .map(([layer]) => layer)
+      .filter((layer) => !BUILT_IN_SIGNAL_LAYERS.includes(layer)),
+  ];
+
   const normalizedFiles = input.files.map((file) => normalizePath(file));
   const fileExtensions = new Set(normalizedFiles.map((file) => getExtension(file)));
   const fileNames = normalizedFiles.map((file) => getBaseName(file));
@@ -112,18 +154,12 @@ export function detectLayer(input: LayerDetectionInput): LayerDetectionResult {
   const externalImports = normalizeExternalImports(input.imports.external);
   const internalImports = input.imports.internal.map((value) => normalizeImportPath(value));
 
-  const signalsByLayer: Record<SignalLayer, string[]> = {
-    frontend: [],
-    backend: [],
-    shared: [],
-    infrastructure: [],
-  };
-  const signalSets: Record<SignalLayer, Set<string>> = {
-    frontend: new Set(),
-    backend: new Set(),
-    shared: new Set(),
-    infrastructure: new Set(),
-  };
+  const signalsByLayer: Record<string, string[]> = Object.fromEntries(
+    layers.map((layer) => [layer, []])
+  );
+  const signalSets: Record<string, Set<string>> = Object.fromEntries(
+    layers.map((layer) => [layer, new Set<string>()])
+  );
   const allSignals: string[] = [];
   const allSignalSet = new Set<string>();
 
@@ -217,6 +253,13 @@ export function detectLayer(input: LayerDetectionInput): LayerDetectionResult {
     addSignal('shared', 'internal imports reference frontend and backend');
   }
 
+  for (const [layer, signals] of customSignals) {
+    const customInput = { files: normalizedFiles, fileNames, externalImports };
+    for (const message of collectCustomSignals(signals, customInput)) {
+      addSignal(layer, message);
+    }
+  }
+
   addGoSignals(
     {
       files: normalizedFiles,
@@ -226,6 +269,17 @@ export function detectLayer(input: LayerDetectionInput): LayerDetectionResult {
     addSignal
   );
 
+  if (normalizedFiles.some((file) => file.endsWith('.py'))) {
+    addPythonSignals(
+      {
+        files: normalizedFiles,
+        imports: input.imports,
+        exports: input.exports,
+      },
+      addSignal
+    );
+  }
+
   const hasFrontendSignals = signalsByLayer.frontend.length > 0;
   const hasBackendSignals = signalsByLayer.backend.length > 0;
 
@@ -252,7 +306,7 @@ export function detectLayer(input: LayerDetectionInput): LayerDetectionResult {
     };
   }
 
-  const layerCounts = LAYERS.map((layer) => ({
+  const layerCounts = layers.map((layer) => ({
     layer,
     count: signalsByLayer[layer].length,
   })).sort((left, right) => right.count - left.count);
@@ -431,6 +485,45 @@ function addGoSignals(
   }
 }
 
+function addPythonSignals(
+  input: LayerDetectionInput,
+  addSignal: (layer: SignalLayer, message: string) => void
+): void {
+  const modules = input.imports.external.map((entry) => entry.toLowerCase());
+  const roots = new Set(modules.map((entry) => entry.split('.')[0]));
+
+  for (const [root, framework] of Object.entries(PYTHON_WEB_FRAMEWORKS)) {
+    if (roots.has(root)) {
+      addSignal('backend', `imports ${framework}`);
+    }
+  }
+
+  if (
+    modules.some((value) =>
+      PYTHON_DATABASE_IMPORTS.some((entry) => value === entry || value.startsWith(`${entry}.`))
+    )
+  ) {
+    addSignal('backend', 'imports Python database library');
+  }
+
+  if (PYTHON_INFRA_IMPORTS.some((entry) => roots.has(entry))) {
+    addSignal('infrastructure', 'imports Python CLI/build library');
+  }
+
+  const fileNames = input.files.map((file) => getBaseName(file));
+  if (fileNames.some((name) => DJANGO_BACKEND_FILES.includes(name)) && roots.has('django')) {
+    addSignal('backend', 'Django app modules (models/views/urls)');
+  }
+
+  if (fileNames.some((name) => PYTHON_INFRA_FILES.includes(name))) {
+    addSignal('infrastructure', 'Python project entry/config module');
+  }
+
+  if (input.files.some((file) => file.includes('/migrations/'))) {
+    addSignal('infrastructure', 'Python migrations directory');
+  }
+}
+
 function hasSSRFramework(externalImports: string[]): boolean {
   return externalImports.some((importName) => SSR_FRAMEWORKS.includes(importName));
 }
@@ -0,0 +1,71 @@
+import type { Layer, LayerOverride, LayerSignals } from '../types/index.js';
+import { globToRegExp } from '../utils/glob.js';
+
+/** Cluster facts the config.yaml signals are matched against, normalized by the detector. */
+export interface CustomSignalInput {
+  /** Lowercase, forward-slash paths. */
+  files: string[];
+  /** Lowercase base names of `files`. */
+  fileNames: string[];
+  /** Lowercase package roots (`react`, `@nestjs/core`). */
+  externalImports: string[];
+}
+
+/**
+ * Signal messages one config.yaml `layers.signals` entry produces for a cluster. They
+ * count like the built-in signals, so a custom layer wins when it collects the most.
+ */
+export function collectCustomSignals(signals: LayerSignals, input: CustomSignalInput): string[] {
+  const messages: string[] = [];
+
+  const imports = (signals.imports ?? []).map((entry) => entry.toLowerCase());
+  const importPrefixes = (signals.importPrefixes ?? []).map((entry) => entry.toLowerCase());
+  for (const importName of input.externalImports) {
+    const matched =
+      imports.includes(importName) || importPrefixes.some((prefix) => importName.startsWith(prefix));
+    if (matched) {
+      messages.push(`imports ${importName}`);
+    }
+  }
+
+  const wrappedFiles = input.files.map((file) => `/${file.replace(/^\/+/, '')}/`);
+  for (const pattern of signals.paths ?? []) {
+    const normalized = pattern.replace(/\\/g, '/').toLowerCase();
+    if (wrappedFiles.some((file) => file.includes(normalized))) {
+      messages.push(`path contains ${normalized}`);
+    }
+  }
+
+  for (const prefix of (signals.fileNamePrefixes ?? []).map((entry) => entry.toLowerCase())) {
+    if (input.fileNames.some((name) => name.startsWith(prefix))) {
+      messages.push(`file name starts with ${prefix}`);
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Layer of the first override whose glob matches every file of the cluster, or null.
+ * Patterns follow feature hints: relative to project.root, a trailing `/` means `/**`.
+ */
+export function findLayerOverride(
+  files: string[],
+  overrides: LayerOverride[]
+): { layer: Layer; pattern: string } | null {
+  if (files.length === 0) {
+    return null;
+  }
+  const normalizedFiles = files.map((file) => file.replace(/\\/g, '/'));
+  for (const override of overrides) {
+    const pattern = override.pattern.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+    if (!pattern) {
+      continue;
+    }
+    const regex = globToRegExp(pattern.endsWith('/') ? `${pattern}**` : pattern);
+    if (normalizedFiles.every((file) => regex.test(file))) {
+      return { layer: override.layer, pattern: override.pattern };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,139 @@
+import { SUPPORTED_VERSIONS } from '../constants/versions.js';
+import type { CodeMetrics, Metrics } from '../types/index.js';
+import type { DependencyGraph } from './graph.js';
+
+export interface MetricsUnit {
+  id: string;
+  files: string[];
+}
+
+export interface MetricsInput {
+  graph: DependencyGraph;
+  clusters: MetricsUnit[];
+  /** Features with the files of their clusters already resolved. */
+  features: MetricsUnit[];
+}
+
+// Interfaces and type aliases count as abstract; Go/TS classes, functions and values do not.
+const ABSTRACT_EXPORT_TYPES = new Set(['interface', 'type']);
+const LARGEST_FILES_LIMIT = 5;
+
+export function detectMetrics(input: MetricsInput): Metrics {
+  const clusterMetrics = computeUnitMetrics(input.graph, input.clusters);
+  const featureMetrics = computeUnitMetrics(input.graph, input.features);
+
+  return {
+    version: SUPPORTED_VERSIONS.context,
+    source: 'auto',
+    detectedAt: new Date().toISOString(),
+    clusters: toEntries(clusterMetrics),
+    features: toEntries(featureMetrics),
+  };
+}
+
+/**
+ * Martin's package metrics with clusters or features as packages and files as classes:
+ * Ca/Ce count distinct outside files, fan-in/fan-out count distinct other units.
+ * Units may overlap (a cluster can belong to several features).
+ */
+export function computeUnitMetrics(
+  graph: DependencyGraph,
+  units: MetricsUnit[]
+): Map<string, CodeMetrics> {
+  const unitIdsByFile = new Map<string, string[]>();
+  for (const unit of units) {
+    for (const file of unit.files) {
+      const unitIds = unitIdsByFile.get(file) ?? [];
+      unitIds.push(unit.id);
+      unitIdsByFile.set(file, unitIds);
+    }
+  }
+
+  const result = new Map<string, CodeMetrics>();
+  for (const unit of units) {
+    const files = unit.files.filter((file) => graph.files[file]);
+    const fileSet = new Set(files);
+    const afferentFiles = new Set<string>();
+    const efferentFiles = new Set<string>();
+    const fanIn = new Set<string>();
+    const fanOut = new Set<string>();
+    let linesOfCode = 0;
+    let exportCount = 0;
+    let abstractCount = 0;
+
+    for (const file of files) {
+      const node = graph.files[file];
+      linesOfCode += node.linesOfCode;
+      exportCount += node.exports.length;
+      abstractCount += node.exports.filter((entry) => ABSTRACT_EXPORT_TYPES.has(entry.type)).length;
+
+      for (const dependent of graph.dependents[file] ?? []) {
+        if (fileSet.has(dependent)) {
+          continue;
+        }
+        afferentFiles.add(dependent);
+        addOtherUnits(fanIn, unitIdsByFile.get(dependent), unit.id);
+      }
+      for (const dependency of graph.dependencies[file] ?? []) {
+        if (fileSet.has(dependency)) {
+          continue;
+        }
+        efferentFiles.add(dependency);
+        addOtherUnits(fanOut, unitIdsByFile.get(dependency), unit.id);
+      }
+    }
+
+    const ca = afferentFiles.size;
+    const ce = efferentFiles.size;
+    const instability = ca + ce > 0 ? ce / (ca + ce) : 0;
+    const abstractness = exportCount > 0 ? abstractCount / exportCount : 0;
+
+    result.set(unit.id, {
+      afferentCoupling: ca,
+      efferentCoupling: ce,
+      fanIn: fanIn.size,
+      fanOut: fanOut.size,
+      instability: round(instability),
+      abstractness: round(abstractness),
+      distance: round(Math.abs(abstractness + instability - 1)),
+      linesOfCode,
+      fileCount: files.length,
+      largestFiles: files
+        .map((file) => ({ path: file, linesOfCode: graph.files[file].linesOfCode }))
+        .sort((a, b) => b.linesOfCode - a.linesOfCode || a.path.localeCompare(b.path))
+        .slice(0, LARGEST_FILES_LIMIT),
+    });
+  }
+
+  return result;
+}
+
+/** Resolves features (id -> cluster ids) to the files of their clusters. */
+export function buildFeatureUnits(
+  featureClusters: Record<string, string[]>,
+  clusters: MetricsUnit[]
+): MetricsUnit[] {
+  const filesByCluster = new Map(clusters.map((cluster) => [cluster.id, cluster.files]));
+  return Object.entries(featureClusters).map(([id, clusterIds]) => ({
+    id,
+    files: [...new Set(clusterIds.flatMap((clusterId) => filesByCluster.get(clusterId) ?? []))],
+  }));
+}
+
+function addOtherUnits(target: Set<string>, unitIds: string[] | undefined, selfId: string): void {
+  for (const unitId of unitIds ?? []) {
+    if (unitId !== selfId) {
+      target.add(unitId);
+    }
+  }
+}
+
+function toEntries(metrics: Map<string, CodeMetrics>): Metrics['clusters'] {
+  return [...metrics.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([id, entry]) => ({ id, ...entry }));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
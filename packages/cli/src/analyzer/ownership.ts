@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SUPPORTED_VERSIONS } from '../constants/versions.js';
+import type { Ownership } from '../types/context.js';
+import { globToRegExp } from '../utils/glob.js';
+import type { MetricsUnit } from './metrics.js';
+
+export interface CodeownersRule {
+  pattern: string;
+  owners: string[];
+  /** GitLab section name; rules before the first section (and all GitHub rules) use ''. */
+  section: string;
+  regex: RegExp;
+}
+
+export interface Codeowners {
+  /** Absolute path of the CODEOWNERS file. */
+  path: string;
+  /** Directory patterns are relative to (the repository root). */
+  root: string;
+  rules: CodeownersRule[];
+}
+
+export interface OwnershipInput {
+  projectRoot: string;
+  /** Absolute scan root; cluster files are relative to it. */
+  scanRoot: string;
+  clusters: MetricsUnit[];
+  /** Features with the files of their clusters already resolved. */
+  features: MetricsUnit[];
+  codeowners: Codeowners | null;
+  /** Commits per author per file, relative to the scan root (see getFileAuthors). */
+  authorsByFile?: Map<string, Map<string, number>>;
+}
+
+// GitHub reads the first of these that exists; GitLab uses the root, docs/ and .gitlab/.
+const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS'];
+// [Section], ^[Optional section], [Section][2] followed by optional default owners.
+const SECTION_PATTERN = /^\^?\[([^\]]+)\](?:\[\d+\])?\s*(.*)$/;
+const FIELD_PATTERN = /(?:\\.|\S)+/g;
+const TOP_AUTHORS_LIMIT = 5;
+
+export function detectOwnership(input: OwnershipInput): Ownership {
+  const ownersByFile = new Map<string, string[]>();
+  const ownersOf = (file: string): string[] => {
+    let owners = ownersByFile.get(file);
+    if (!owners) {
+      owners = input.codeowners
+        ? resolveFileOwners(
+            input.codeowners.rules,
+            toPosix(path.relative(input.codeowners.root, path.join(input.scanRoot, file)))
+          )
+        : [];
+      ownersByFile.set(file, owners);
+    }
+    return owners;
+  };
+
+  return {
+    version: SUPPORTED_VERSIONS.context,
+    source: 'auto',
+    detectedAt: new Date().toISOString(),
+    ...(input.codeowners
+      ? { codeowners: toPosix(path.relative(input.projectRoot, input.codeowners.path)) }
+      : {}),
+    clusters: buildEntries(input.clusters, ownersOf, input.authorsByFile),
+    features: buildEntries(input.features, ownersOf, input.authorsByFile),
+  };
+}
+
+/**
+ * Finds and parses CODEOWNERS in the project root and its parents up to the repository
+ * root (the first directory with `.git`).
+ */
+export function loadCodeowners(projectRoot: string): Codeowners | null {
+  let dir = path.resolve(projectRoot);
+  for (;;) {
+    for (const location of CODEOWNERS_LOCATIONS) {
+      const filePath = path.join(dir, location);
+      if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+        return { path: filePath, root: dir, rules: parseCodeowners(fs.readFileSync(filePath, 'utf-8')) };
+      }
+    }
+    const parent = path.dirname(dir);
+    if (fs.existsSync(path.join(dir, '.git')) || parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Parses GitHub and GitLab CODEOWNERS syntax. GitLab section headers set the section and
+ * its default owners; a rule without owners inherits the section defaults (GitLab) or
+ * clears ownership for its files (GitHub, where sections do not exist).
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  let section = '';
+  let sectionOwners: string[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const sectionMatch = SECTION_PATTERN.exec(line);
+    if (sectionMatch) {
+      // GitLab merges sections with the same name regardless of case.
+      section = sectionMatch[1].trim().toLowerCase();
+      sectionOwners = splitFields(sectionMatch[2]);
+      continue;
+    }
+
+    const [pattern, ...owners] = splitFields(line);
+    if (!pattern) {
+      continue;
+    }
+    rules.push({
+      pattern,
+      owners: owners.length > 0 ? owners : sectionOwners,
+      section,
+      regex: patternToRegExp(pattern),
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Owners of a repository-relative file: the last matching rule wins within each
+ * section, and the owners of all sections are combined.
+ */
+export function resolveFileOwners(rules: CodeownersRule[], file: string): string[] {
+  const ownersBySection = new Map<string, string[]>();
+  for (const rule of rules) {
+    if (rule.regex.test(file)) {
+      ownersBySection.set(rule.section, rule.owners);
+    }
+  }
+  return [...new Set([...ownersBySection.values()].flat())];
+}
+
+/**
+ * gitignore-style matching: a leading or inner `/` anchors the pattern to the root,
+ * otherwise it matches at any depth. A trailing `/` matches directories only. Like
+ * GitHub, a wildcard in the last segment (`docs/*`) does not reach into subdirectories.
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const directoryOnly = pattern.endsWith('/');
+  const body = pattern.replace(/^\/+/, '').replace(/\/+$/, '');
+  if (!body) {
+    return /^.*$/;
+  }
+
+  const anchored = pattern.replace(/\/+$/, '').includes('/');
+  const source = globToRegExp(anchored ? body : `**/${body}`).source.slice(1, -1);
+  const lastSegment = body.split('/').pop() ?? '';
+  const suffix = directoryOnly ? '/.*' : /[*?]/.test(lastSegment) ? '' : '(?:/.*)?';
+  return new RegExp(`^${source}${suffix}$`);
+}
+
+/** Whitespace-separated fields with `\ ` and `\#` escapes; an unescaped `#` starts a comment. */
+function splitFields(text: string): string[] {
+  const fields: string[] = [];
+  for (const field of text.match(FIELD_PATTERN) ?? []) {
+    if (field.startsWith('#')) {
+      break;
+    }
+    fields.push(field.replace(/\\(.)/g, '$1'));
+  }
+  return fields;
+}
+
+function buildEntries(
+  units: MetricsUnit[],
+  ownersOf: (file: string) => string[],
+  authorsByFile: Map<string, Map<string, number>> | undefined
+): Ownership['clusters'] {
+  return [...units]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((unit) => {
+      const fileCounts = new Map<string, number>();
+      const commitCounts = new Map<string, number>();
+      let unownedFiles = 0;
+
+      for (const file of unit.files) {
+        const owners = ownersOf(file);
+        if (owners.length === 0) {
+          unownedFiles += 1;
+        }
+        owners.forEach((owner) => fileCounts.set(owner, (fileCounts.get(owner) ?? 0) + 1));
+        for (const [author, commits] of authorsByFile?.get(file) ?? []) {
+          commitCounts.set(author, (commitCounts.get(author) ?? 0) + commits);
+        }
+      }
+
+      return {
+        id: unit.id,
+        owners: sortCounts(fileCounts).map(([name, files]) => ({ name, files })),
+        ...(authorsByFile
+          ? {
+              authors: sortCounts(commitCounts)
+                .slice(0, TOP_AUTHORS_LIMIT)
+                .map(([name, commits]) => ({ name, commits })),
+            }
+          : {}),
+        unownedFiles,
+      };
+    });
+}
+
+function sortCounts(counts: Map<string, number>): Array<[string, number]> {
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+function toPosix(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
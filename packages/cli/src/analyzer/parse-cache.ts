@@ -0,0 +1,236 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { z } from 'zod';
+import {
+  ExportSchema,
+  ImportListSchema,
+  type ExportSymbol,
+  type ImportList,
+} from '../types/index.js';
+
+const PARSE_CACHE_VERSION = 2;
+const PARSE_CACHE_FILE = path.join('cache', 'parse-cache.json');
+
+const ParseCacheEntrySchema = z.object({
+  hash: z.string(),
+  exports: z.array(ExportSchema),
+  imports: ImportListSchema,
+  linesOfCode: z.number(),
+  dependencies: z.array(z.string()).optional(),
+});
+
+const ParseCacheFileSchema = z.object({
+  version: z.number(),
+  resolutionKey: z.string(),
+  fileSetHash: z.string(),
+  groupingKey: z.string().optional(),
+  entries: z.record(z.string(), ParseCacheEntrySchema),
+});
+
+type ParseCacheEntry = z.infer<typeof ParseCacheEntrySchema>;
+type ParseCacheFile = z.infer<typeof ParseCacheFileSchema>;
+
+export interface CachedParse {
+  exports: ExportSymbol[];
+  imports: ImportList;
+  linesOfCode: number;
+}
+
+/** TypeScript/JavaScript files only; Go and Python files are parsed during the scan. */
+export interface ParseCacheStats {
+  reused: number;
+  parsed: number;
+}
+
+export interface ParseCache {
+  /** Counts as reused on a hit and as parsed on a miss. */
+  lookup(relativePath: string, hash: string): CachedParse | null;
+  /**
+   * Records a parse result for change detection. Go and Python files are stored without a
+   * lookup, so they stay out of the stats.
+   */
+  store(relativePath: string, hash: string, parsed: CachedParse): void;
+  /**
+   * Files whose parse result or resolved dependencies differ from the previous run,
+   * plus files that disappeared. Returns null when there is no usable baseline
+   * (including when the grouping key changed).
+   */
+  getChangedFiles(dependencies: Record<string, string[]>): Set<string> | null;
+  getStats(): ParseCacheStats;
+  save(dependencies: Record<string, string[]>): void;
+}
+
+export function hashFileContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Loads the per-file parse cache from `.featuremap/cache/`.
+ * The whole cache is dropped when tsconfig path aliases change; entries that resolved
+ * aliases are additionally dropped when the scanned file set changes.
+ * `groupingKey` identifies grouping inputs (config hints, layer rules); a different key keeps the
+ * parsed entries but reports no change baseline so every cluster is rebuilt.
+ */
+export function loadParseCache(options: {
+  featuremapDir: string;
+  projectRoot: string;
+  filePaths: string[];
+  groupingKey?: string;
+}): ParseCache {
+  const cachePath = path.join(options.featuremapDir, PARSE_CACHE_FILE);
+  const resolutionKey = buildResolutionKey(options.projectRoot);
+  const fileSetHash = hashFileContent([...options.filePaths].sort().join('\n'));
+  const previous = readCacheFile(cachePath, resolutionKey);
+  const fileSetChanged = previous !== null && previous.fileSetHash !== fileSetHash;
+  const groupingKey = options.groupingKey ?? '';
+  const nextEntries: Record<string, ParseCacheEntry> = {};
+  let reused = 0;
+  let misses = 0;
+
+  const lookup = (relativePath: string, hash: string): CachedParse | null => {
+    const entry = previous?.entries[relativePath];
+    if (!entry || entry.hash !== hash || (fileSetChanged && hasAliasImports(entry))) {
+      misses += 1;
+      return null;
+    }
+    reused += 1;
+    return {
+      exports: entry.exports,
+      imports: entry.imports,
+      linesOfCode: entry.linesOfCode,
+    };
+  };
+
+  const store = (relativePath: string, hash: string, parsed: CachedParse): void => {
+    nextEntries[relativePath] = {
+      hash,
+      exports: parsed.exports,
+      imports: parsed.imports,
+      linesOfCode: parsed.linesOfCode,
+    };
+  };
+
+  const getChangedFiles = (dependencies: Record<string, string[]>): Set<string> | null => {
+    if (!previous || (previous.groupingKey ?? '') !== groupingKey) {
+      return null;
+    }
+
+    const changed = new Set<string>();
+    for (const [relativePath, entry] of Object.entries(nextEntries)) {
+      const previousEntry = previous.entries[relativePath];
+      if (!previousEntry || !isSameParse(previousEntry, entry)) {
+        changed.add(relativePath);
+        continue;
+      }
+      if (!isSameList(previousEntry.dependencies ?? [], dependencies[relativePath] ?? [])) {
+        changed.add(relativePath);
+      }
+    }
+    for (const relativePath of Object.keys(previous.entries)) {
+      if (!nextEntries[relativePath]) {
+        changed.add(relativePath);
+      }
+    }
+
+    return changed;
+  };
+
+  const save = (dependencies: Record<string, string[]>): void => {
+    const entries: Record<string, ParseCacheEntry> = {};
+    for (const relativePath of Object.keys(nextEntries).sort((a, b) => a.localeCompare(b))) {
+      entries[relativePath] = {
+        ...nextEntries[relativePath],
+        dependencies: [...(dependencies[relativePath] ?? [])].sort((a, b) => a.localeCompare(b)),
+      };
+    }
+
+    const cacheFile: ParseCacheFile = {
+      version: PARSE_CACHE_VERSION,
+      resolutionKey,
+      fileSetHash,
+      groupingKey,
+      entries,
+    };
+
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    const tempPath = `${cachePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(cacheFile), 'utf-8');
+    fs.renameSync(tempPath, cachePath);
+  };
+
+  return {
+    lookup,
+    store,
+    getChangedFiles,
+    getStats: () => ({ reused, parsed: misses }),
+    save,
+  };
+}
+
+function readCacheFile(cachePath: string, resolutionKey: string): ParseCacheFile | null {
+  if (!fs.existsSync(cachePath)) {
+    return null;
+  }
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+    const parsed = ParseCacheFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      return null;
+    }
+    if (parsed.data.version !== PARSE_CACHE_VERSION || parsed.data.resolutionKey !== resolutionKey) {
+      return null;
+    }
+    return parsed.data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Alias resolution depends on every tsconfig in the project, so their contents
+ * form the cache key.
+ */
+function buildResolutionKey(projectRoot: string): string {
+  const configPaths = fg.sync(['**/tsconfig*.json'], {
+    cwd: projectRoot,
+    ignore: ['**/node_modules/**', '**/dist/**', '**/.git/**'],
+    onlyFiles: true,
+    dot: false,
+  });
+  configPaths.sort((a, b) => a.localeCompare(b));
+
+  const hash = createHash('sha256');
+  hash.update(`v${PARSE_CACHE_VERSION}\n`);
+  for (const configPath of configPaths) {
+    hash.update(`${configPath}\n`);
+    try {
+      hash.update(fs.readFileSync(path.join(projectRoot, configPath)));
+    } catch {
+      // Unreadable configs only affect the key through their path.
+    }
+  }
+  return hash.digest('hex');
+}
+
+function hasAliasImports(entry: ParseCacheEntry): boolean {
+  return entry.imports.internal.some((specifier) => !specifier.startsWith('.'));
+}
+
+function isSameParse(left: ParseCacheEntry, right: ParseCacheEntry): boolean {
+  return (
+    left.linesOfCode === right.linesOfCode &&
+    JSON.stringify(left.exports) === JSON.stringify(right.exports) &&
+    JSON.stringify(left.imports) === JSON.stringify(right.imports)
+  );
+}
+
+function isSameList(left: string[], right: string[]): boolean {
+  if (left.length !== right.length) {
+    return false;
+  }
+  const sortedRight = [...right].sort((a, b) => a.localeCompare(b));
+  return [...left].sort((a, b) => a.localeCompare(b)).every((value, index) => value === sortedRight[index]);
+}
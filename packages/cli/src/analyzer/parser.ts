@@ -1,4 +1,5 @@
-import { Project, SourceFile } from 'ts-morph';
+import { Node, Project, SourceFile, SyntaxKind, type CallExpression } from 'ts-morph';
+import type { ImportKind } from '../types/index.js';
 import type { AliasResolver } from './tsconfig.js';
 
 export interface FileExport {
@@ -11,6 +12,7 @@ export interface FileImportDetail {
   from: string;
   symbols: string[];
   isTypeOnly: boolean;
+  kind?: ImportKind;  // omitted for static imports
 }
 
 export interface FileImports {
@@ -162,42 +164,87 @@ function extractImports(
   const external: string[] = [];
   const internalDetails: FileImportDetail[] = [];
 
-  for (const importDecl of sourceFile.getImportDeclarations()) {
-    const moduleSpecifier = importDecl.getModuleSpecifierValue();
-    const symbols = collectImportSymbols(importDecl);
-    const isTypeOnly = importDecl.isTypeOnly();
-    const pushInternalDetail = (from: string) => {
-      if (symbols.length === 0) {
-        return;
-      }
-      internalDetails.push({
+  const addImport = (
+    moduleSpecifier: string,
+    symbols: string[],
+    isTypeOnly: boolean,
+    kind: ImportKind
+  ) => {
+    const pushInternal = (from: string) => {
+      internal.push(from);
+      const detail: FileImportDetail = {
         from,
         symbols: [...new Set(symbols)],
         isTypeOnly,
-      });
+      };
+      if (kind !== 'static') {
+        detail.kind = kind;
+      }
+      internalDetails.push(detail);
     };
-    
+
     // ???'?????????'???>?????<?? ???????????'?< ???????????????'???? ?? . ???>?? ..
     if (moduleSpecifier.startsWith('.')) {
-      internal.push(moduleSpecifier);
-      pushInternalDetail(moduleSpecifier);
-      continue;
+      pushInternal(moduleSpecifier);
+      return;
     }
 
     const resolvedAlias = aliasResolver?.resolveAliasImport(moduleSpecifier, filePath) ?? null;
     if (resolvedAlias) {
-      internal.push(resolvedAlias);
-      pushInternalDetail(resolvedAlias);
-      continue;
+      pushInternal(resolvedAlias);
+      return;
     }
 
     if (aliasResolver?.isAliasImport(moduleSpecifier, filePath)) {
-      internal.push(moduleSpecifier);
-      pushInternalDetail(moduleSpecifier);
-      continue;
+      pushInternal(moduleSpecifier);
+      return;
     }
 
     external.push(moduleSpecifier);
+  };
+
+  for (const importDecl of sourceFile.getImportDeclarations()) {
+    addImport(
+      importDecl.getModuleSpecifierValue(),
+      collectImportSymbols(importDecl),
+      importDecl.isTypeOnly(),
+      'static'
+    );
+  }
+
+  // Re-exports: export * from './x', export { a } from './y'
+  for (const exportDecl of sourceFile.getExportDeclarations()) {
+    const moduleSpecifier = exportDecl.getModuleSpecifierValue();
+    if (!moduleSpecifier) {
+      continue;
+    }
+    addImport(moduleSpecifier, collectReExportSymbols(exportDecl), exportDecl.isTypeOnly(), 'reexport');
+  }
+
+  // import x = require('./y')
+  for (const importEquals of sourceFile.getDescendantsOfKind(SyntaxKind.ImportEqualsDeclaration)) {
+    const reference = importEquals.getModuleReference();
+    if (!Node.isExternalModuleReference(reference)) {
+      continue;
+    }
+    const expression = reference.getExpression();
+    if (expression && Node.isStringLiteral(expression)) {
+      addImport(expression.getLiteralValue(), [importEquals.getName()], importEquals.isTypeOnly(), 'require');
+    }
+  }
+
+  // Dynamic import('./lazy') and require('./cjs')
+  for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+    const kind = getCallImportKind(call);
+    if (!kind) {
+      continue;
+    }
+    const moduleSpecifier = getLiteralArgument(call);
+    if (moduleSpecifier === null) {
+      continue;
+    }
+    const symbols = kind === 'require' ? collectRequireSymbols(call) : ['*'];
+    addImport(moduleSpecifier, symbols, false, kind);
   }
 
   // ???+?????????? ?????+?>???u???'?<
@@ -211,6 +258,56 @@ function extractImports(
   return result;
 }
 
+function getCallImportKind(call: CallExpression): ImportKind | null {
+  const expression = call.getExpression();
+  if (expression.getKind() === SyntaxKind.ImportKeyword) {
+    return 'dynamic';
+  }
+  if (Node.isIdentifier(expression) && expression.getText() === 'require') {
+    return 'require';
+  }
+  return null;
+}
+
+function getLiteralArgument(call: CallExpression): string | null {
+  const [argument] = call.getArguments();
+  if (!argument) {
+    return null;
+  }
+  if (Node.isStringLiteral(argument) || Node.isNoSubstitutionTemplateLiteral(argument)) {
+    return argument.getLiteralValue();
+  }
+  return null;
+}
+
+function collectRequireSymbols(call: CallExpression): string[] {
+  const declaration = call.getParentIfKind(SyntaxKind.VariableDeclaration);
+  if (!declaration) {
+    return ['*'];
+  }
+  const nameNode = declaration.getNameNode();
+  if (Node.isObjectBindingPattern(nameNode)) {
+    return nameNode.getElements().map((element) => {
+      const propertyName = element.getPropertyNameNode();
+      return propertyName ? propertyName.getText() : element.getName();
+    });
+  }
+  return [declaration.getName()];
+}
+
+function collectReExportSymbols(
+  exportDecl: ReturnType<SourceFile['getExportDeclarations']>[number]
+): string[] {
+  const namespaceExport = exportDecl.getNamespaceExport();
+  if (namespaceExport) {
+    return [namespaceExport.getName()];
+  }
+  if (exportDecl.isNamespaceExport()) {
+    return ['*'];
+  }
+  return exportDecl.getNamedExports().map((named) => named.getName());
+}
+
 function collectImportSymbols(
   importDecl: ReturnType<SourceFile['getImportDeclarations']>[number]
 ): string[] {
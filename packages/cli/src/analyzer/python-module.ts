@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PythonImportStatement } from './python-parser.js';
+
+export interface PythonModuleFile {
+  path: string;        // relative to the scan root
+  sourceRoot: string;  // relative to the scan root, '.' for the root itself
+  module: string;      // dotted module name relative to sourceRoot
+  isPackage: boolean;  // true for __init__.py
+  imports: PythonImportStatement[];
+}
+
+export interface ResolvedPythonImports {
+  internal: string[];      // dotted module names found in the project
+  external: string[];      // dotted module names as written
+  dependencies: string[];  // resolved file paths (relative to the scan root)
+}
+
+const PYTHON_PROJECT_MARKERS = ['pyproject.toml', 'setup.cfg', 'setup.py'];
+const PROJECT_NAME_REGEX = /\bname\s*=\s*["']?([A-Za-z0-9_.-]+)/g;
+const PACKAGES_REGEX = /\b(?:packages|include)\s*=\s*(\[[\s\S]*?\]|.*)/g;
+const PACKAGE_OPTION_REGEX = /\b(?:from|format|to)\s*=\s*["'][^"']*["']/g;
+const QUOTED_NAME_REGEX = /["']([A-Za-z_][A-Za-z0-9_.]*)["']/g;
+const PACKAGE_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+/**
+ * Finds the directory Python imports of a file are resolved from:
+ * - the nearest directory with pyproject.toml / setup.cfg / setup.py, or its `src/`
+ *   subdirectory when the file lives there (src layout);
+ * - otherwise the parent of the outermost package (`__init__.py` chain) above the file.
+ */
+export function findPythonSourceRoot(
+  filePath: string,
+  projectRoot: string,
+  markerCache: Map<string, string | null>
+): string {
+  const markerDir = findNearestMarkerDir(path.dirname(filePath), projectRoot, markerCache);
+  if (markerDir) {
+    const srcDir = path.join(markerDir, 'src');
+    if (isWithin(filePath, srcDir) && fs.existsSync(srcDir)) {
+      return srcDir;
+    }
+    return markerDir;
+  }
+
+  const rootLimit = path.resolve(projectRoot);
+  let packageDir = path.dirname(filePath);
+  while (
+    packageDir !== rootLimit &&
+    fs.existsSync(path.join(packageDir, '__init__.py')) &&
+    path.dirname(packageDir) !== packageDir
+  ) {
+    packageDir = path.dirname(packageDir);
+  }
+  return packageDir;
+}
+
+export function getPythonModuleName(
+  filePath: string,
+  sourceRoot: string
+): { module: string; isPackage: boolean } {
+  const relative = path.relative(sourceRoot, filePath).replace(/\\/g, '/');
+  const withoutExtension = relative.replace(/\.py$/, '');
+  const isPackage = path.posix.basename(withoutExtension) === '__init__';
+  const modulePath = isPackage ? path.posix.dirname(withoutExtension) : withoutExtension;
+  return {
+    module: modulePath === '.' ? '' : modulePath.split('/').join('.'),
+    isPackage,
+  };
+}
+
+/**
+ * Top-level packages a source root makes importable when installed: the ones declared by
+ * the pyproject.toml / setup.cfg / setup.py of its project (project name or explicit
+ * `packages`). Roots that are not a project directory (or its `src/`) declare nothing.
+ */
+export function findImportablePackages(sourceRoot: string): Set<string> {
+  const hasMarker = (dir: string): boolean =>
+    PYTHON_PROJECT_MARKERS.some((marker) => fs.existsSync(path.join(dir, marker)));
+  let projectDir: string | null = null;
+  if (hasMarker(sourceRoot)) {
+    projectDir = sourceRoot;
+  } else if (path.basename(sourceRoot) === 'src' && hasMarker(path.dirname(sourceRoot))) {
+    projectDir = path.dirname(sourceRoot);
+  }
+  const packages = new Set<string>();
+  if (!projectDir) {
+    return packages;
+  }
+
+  for (const marker of PYTHON_PROJECT_MARKERS) {
+    const markerPath = path.join(projectDir, marker);
+    if (!fs.existsSync(markerPath)) {
+      continue;
+    }
+    const content = fs.readFileSync(markerPath, 'utf-8');
+    for (const match of content.matchAll(PROJECT_NAME_REGEX)) {
+      packages.add(match[1].toLowerCase().replace(/[-.]/g, '_'));
+    }
+    for (const match of content.matchAll(PACKAGES_REGEX)) {
+      for (const name of readPackageNames(match[1])) {
+        packages.add(name.split('.')[0]);
+      }
+    }
+  }
+  return packages;
+}
+
+/**
+ * Classifies every import as internal or external and resolves internal ones to files.
+ * Modules are looked up in the importing file's own source root first, then in the
+ * top-level packages another root declares as importable (e.g. a sibling service
+ * installed as a package, see `findImportablePackages`). Anything else is external.
+ */
+export function resolvePythonImports(
+  files: PythonModuleFile[],
+  importablePackages: Map<string, Set<string>> = new Map()
+): Map<string, ResolvedPythonImports> {
+  const byRoot = new Map<string, Map<string, string>>();
+  const global = new Map<string, string>();
+  for (const file of files) {
+    if (!file.module) {
+      continue;
+    }
+    const rootIndex = byRoot.get(file.sourceRoot) ?? new Map<string, string>();
+    byRoot.set(file.sourceRoot, rootIndex);
+    if (!rootIndex.has(file.module)) {
+      rootIndex.set(file.module, file.path);
+    }
+    const topLevelPackage = file.module.split('.')[0];
+    if (importablePackages.get(file.sourceRoot)?.has(topLevelPackage) && !global.has(file.module)) {
+      global.set(file.module, file.path);
+    }
+  }
+
+  const result = new Map<string, ResolvedPythonImports>();
+  for (const file of files) {
+    const rootIndex = byRoot.get(file.sourceRoot);
+    const lookup = (module: string): string | null =>
+      rootIndex?.get(module) ?? global.get(module) ?? null;
+
+    const internal = new Set<string>();
+    const external = new Set<string>();
+    const dependencies = new Set<string>();
+    const addInternal = (module: string, target: string): void => {
+      internal.add(module);
+      if (target !== file.path) {
+        dependencies.add(target);
+      }
+    };
+
+    for (const statement of file.imports) {
+      const base = getAbsoluteModule(file, statement);
+      if (base === null) {
+        continue;
+      }
+
+      let resolvedAny = false;
+      let needsBase = statement.names.length === 0;
+      for (const name of statement.names) {
+        const candidate = name === '*' || !base ? null : `${base}.${name}`;
+        const target = candidate ? lookup(candidate) : null;
+        if (candidate && target) {
+          addInternal(candidate, target);
+          resolvedAny = true;
+        } else {
+          needsBase = true;
+        }
+      }
+
+      if (needsBase && base) {
+        const match = findLongestModule(base, lookup);
+        if (match) {
+          addInternal(match.module, match.target);
+          resolvedAny = true;
+        }
+      }
+
+      if (!resolvedAny && statement.level === 0 && base) {
+        external.add(base);
+      }
+    }
+
+    result.set(file.path, {
+      internal: sortStrings(internal),
+      external: sortStrings(external),
+      dependencies: sortStrings(dependencies),
+    });
+  }
+
+  return result;
+}
+
+function getAbsoluteModule(file: PythonModuleFile, statement: PythonImportStatement): string | null {
+  if (statement.level === 0) {
+    return statement.module;
+  }
+
+  const packageParts = file.module ? file.module.split('.') : [];
+  if (!file.isPackage) {
+    packageParts.pop();
+  }
+  const up = statement.level - 1;
+  if (up > packageParts.length) {
+    return null;
+  }
+  const baseParts = packageParts.slice(0, packageParts.length - up);
+  if (statement.module) {
+    baseParts.push(...statement.module.split('.'));
+  }
+  return baseParts.join('.');
+}
+
+function findLongestModule(
+  module: string,
+  lookup: (module: string) => string | null
+): { module: string; target: string } | null {
+  const parts = module.split('.');
+  for (let length = parts.length; length > 0; length -= 1) {
+    const candidate = parts.slice(0, length).join('.');
+    const target = lookup(candidate);
+    if (target) {
+      return { module: candidate, target };
+    }
+  }
+  return null;
+}
+
+function readPackageNames(value: string): string[] {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    const entries = trimmed.replace(PACKAGE_OPTION_REGEX, '');
+    return [...entries.matchAll(QUOTED_NAME_REGEX)].map((match) => match[1]);
+  }
+  // setup.cfg style: `packages = a, b` (`find:` and friends are not names).
+  return trimmed
+    .replace(/^["']|["']$/g, '')
+    .split(/[\s,]+/)
+    .filter((name) => PACKAGE_NAME_REGEX.test(name));
+}
+
+function findNearestMarkerDir(
+  startDir: string,
+  projectRoot: string,
+  cache: Map<string, string | null>
+): string | null {
+  const rootLimit = path.resolve(projectRoot);
+  const visited: string[] = [];
+  let currentDir = path.resolve(startDir);
+  let found: string | null = null;
+
+  while (true) {
+    const cached = cache.get(currentDir);
+    if (cached !== undefined) {
+      found = cached;
+      break;
+    }
+    visited.push(currentDir);
+    if (PYTHON_PROJECT_MARKERS.some((marker) => fs.existsSync(path.join(currentDir, marker)))) {
+      found = currentDir;
+      break;
+    }
+    const parent = path.dirname(currentDir);
+    if (currentDir === rootLimit || parent === currentDir) {
+      break;
+    }
+    currentDir = parent;
+  }
+
+  for (const dir of visited) {
+    cache.set(dir, found);
+  }
+  return found;
+}
+
+function isWithin(filePath: string, dir: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function sortStrings(values: Set<string>): string[] {
+  return [...values].sort((a, b) => a.localeCompare(b));
+}
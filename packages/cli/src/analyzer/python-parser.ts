@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import { z } from 'zod';
+
+export interface PythonFileExport {
+  name: string;
+  type: 'function' | 'class' | 'variable';
+}
+
+export interface PythonImportStatement {
+  module: string;   // dotted module without leading dots ('' for `from . import x`)
+  level: number;    // number of leading dots in a relative import
+  names: string[];  // names after `from ... import`, empty for `import x`
+}
+
+export interface ParsedPythonFile {
+  path: string;
+  exports: PythonFileExport[];
+  imports: PythonImportStatement[];
+  linesOfCode: number;
+}
+
+const PythonFileExportSchema = z.object({
+  name: z.string(),
+  type: z.enum(['function', 'class', 'variable']),
+});
+
+const PythonImportStatementSchema = z.object({
+  module: z.string(),
+  level: z.number().int().nonnegative(),
+  names: z.array(z.string()),
+});
+
+const ParsedPythonFileSchema = z.object({
+  path: z.string(),
+  exports: z.array(PythonFileExportSchema),
+  imports: z.array(PythonImportStatementSchema),
+  linesOfCode: z.number().int().nonnegative(),
+});
+
+const GENERATED_HEADERS = ['# Generated by', '# Code generated', '# -*- Generated'];
+
+const IMPORT_REGEX = /^[ \t]*import[ \t]+([^\n;#]+)/gm;
+const FROM_IMPORT_REGEX = /^[ \t]*from[ \t]+(\.*)([\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n;#]+)/gm;
+
+const FUNCTION_REGEX = /^(?:async[ \t]+)?def[ \t]+([A-Za-z_]\w*)[ \t]*\(/gm;
+const CLASS_REGEX = /^class[ \t]+([A-Za-z_]\w*)\b/gm;
+const ASSIGNMENT_REGEX = /^([A-Za-z_]\w*)[ \t]*(?::[^=\n]+)?=(?!=)/gm;
+const ALL_REGEX = /^__all__[ \t]*(?::[^=\n]+)?=[ \t]*[[(]([^\])]*)[\])]/m;
+
+export function parsePythonFile(filePath: string): ParsedPythonFile | null {
+  const content = fs.readFileSync(filePath, 'utf8');
+  if (isGenerated(content)) {
+    return null;
+  }
+
+  const code = joinContinuationLines(stripCommentsAndStrings(content));
+
+  return ParsedPythonFileSchema.parse({
+    path: filePath,
+    exports: parseExports(code, content),
+    imports: parseImports(code),
+    linesOfCode: countLines(content),
+  });
+}
+
+function isGenerated(content: string): boolean {
+  const trimmed = content.trimStart();
+  return GENERATED_HEADERS.some((header) => trimmed.startsWith(header));
+}
+
+function parseImports(code: string): PythonImportStatement[] {
+  const imports: PythonImportStatement[] = [];
+  const seen = new Set<string>();
+
+  const addImport = (statement: PythonImportStatement): void => {
+    const key = `${statement.level}|${statement.module}|${statement.names.join(',')}`;
+    if (seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    imports.push(statement);
+  };
+
+  for (const match of code.matchAll(IMPORT_REGEX)) {
+    for (const part of (match[1] ?? '').split(',')) {
+      const module = part.trim().split(/\s+as\s+/)[0]?.trim();
+      if (module && /^[\w.]+$/.test(module)) {
+        addImport({ module, level: 0, names: [] });
+      }
+    }
+  }
+
+  for (const match of code.matchAll(FROM_IMPORT_REGEX)) {
+    const level = match[1]?.length ?? 0;
+    const module = match[2] ?? '';
+    if (level === 0 && !module) {
+      continue;
+    }
+    if (level === 0 && module === '__future__') {
+      continue;
+    }
+    const names = (match[3] ?? '')
+      .replace(/[()]/g, '')
+      .split(',')
+      .map((part) => part.trim().split(/\s+as\s+/)[0]?.trim() ?? '')
+      .filter((name) => /^(\w+|\*)$/.test(name));
+    addImport({ module, level, names: names.sort((a, b) => a.localeCompare(b)) });
+  }
+
+  return imports.sort((left, right) =>
+    `${left.level}|${left.module}`.localeCompare(`${right.level}|${right.module}`)
+  );
+}
+
+function parseExports(code: string, content: string): PythonFileExport[] {
+  const exports: PythonFileExport[] = [];
+  const seen = new Set<string>();
+  const declaredAll = parseDunderAll(content);
+
+  const addExport = (name: string | undefined, type: PythonFileExport['type']): void => {
+    if (!name || seen.has(name)) {
+      return;
+    }
+    if (declaredAll ? !declaredAll.has(name) : name.startsWith('_')) {
+      return;
+    }
+    seen.add(name);
+    exports.push({ name, type });
+  };
+
+  for (const match of code.matchAll(FUNCTION_REGEX)) {
+    addExport(match[1], 'function');
+  }
+
+  for (const match of code.matchAll(CLASS_REGEX)) {
+    addExport(match[1], 'class');
+  }
+
+  for (const match of code.matchAll(ASSIGNMENT_REGEX)) {
+    addExport(match[1], 'variable');
+  }
+
+  return exports;
+}
+
+function parseDunderAll(content: string): Set<string> | null {
+  const match = content.match(ALL_REGEX);
+  if (!match) {
+    return null;
+  }
+  const names = [...(match[1] ?? '').matchAll(/['"]([A-Za-z_]\w*)['"]/g)].map(
+    (entry) => entry[1]
+  );
+  return new Set(names);
+}
+
+/**
+ * Blanks out comments and string literals (keeping line breaks) so that imports and
+ * definitions inside docstrings are not picked up.
+ */
+function stripCommentsAndStrings(content: string): string {
+  let result = '';
+  let index = 0;
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (char === '#') {
+      while (index < content.length && content[index] !== '\n') {
+        index += 1;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const triple = content.startsWith(char.repeat(3), index);
+      const quote = triple ? char.repeat(3) : char;
+      index += quote.length;
+      result += '""';
+      while (index < content.length) {
+        if (content[index] === '\\') {
+          index += 2;
+          continue;
+        }
+        if (content.startsWith(quote, index)) {
+          index += quote.length;
+          break;
+        }
+        if (content[index] === '\n') {
+          if (!triple) {
+            break;
+          }
+          result += '\n';
+        }
+        index += 1;
+      }
+      continue;
+    }
+
+    result += char;
+    index += 1;
+  }
+
+  return result;
+}
+
+function joinContinuationLines(code: string): string {
+  return code.replace(/\\\r?\n/g, ' ');
+}
+
+function countLines(content: string): number {
+  if (!content) {
+    return 0;
+  }
+  const normalized = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+  return normalized.split('\n').length;
+}
@@ -0,0 +1,219 @@
+import type {
+  EdgeImportDetail,
+  Feature,
+  Graph,
+  Layer,
+  Rule,
+  RuleSeverity,
+} from '../types/index.js';
+
+type GraphEdge = Graph['edges'][number];
+
+export interface RuleCheckInput {
+  graph: Graph;
+  clusterLayers: Record<string, Layer>;
+  features: Array<Pick<Feature, 'id' | 'status' | 'clusters' | 'dependsOn'>>;
+  /** Graph that no-new-dependencies rules compare against; those rules are skipped without it. */
+  baselineGraph?: Graph | null;
+}
+
+export interface RuleViolation {
+  ruleId: string;
+  severity: RuleSeverity;
+  source: string;
+  target: string;
+  message: string;
+  imports: EdgeImportDetail[];
+}
+
+export interface RuleCheckResult {
+  violations: RuleViolation[];
+  warnings: string[];
+}
+
+interface RuleContext {
+  edges: GraphEdge[];
+  clusterLayers: Record<string, Layer>;
+  features: RuleCheckInput['features'];
+  baselineEdgeKeys: Set<string> | null;
+  warnings: string[];
+}
+
+type RuleEvaluator<T extends Rule['type']> = (
+  rule: Extract<Rule, { type: T }>,
+  context: RuleContext
+) => RuleViolation[];
+
+const EVALUATORS: { [T in Rule['type']]: RuleEvaluator<T> } = {
+  'layer-dependency': checkLayerDependency,
+  'allowed-dependencies': checkAllowedDependencies,
+  'no-deprecated-features': checkNoDeprecatedFeatures,
+  'no-new-dependencies': checkNoNewDependencies,
+};
+
+/**
+ * Evaluates architecture rules against cluster edges of graph.yaml. Violations are
+ * reported per edge with the imported symbols that create it.
+ */
+export function checkRules(rules: Rule[], input: RuleCheckInput): RuleCheckResult {
+  const context: RuleContext = {
+    edges: getClusterEdges(input.graph),
+    clusterLayers: input.clusterLayers,
+    features: input.features,
+    baselineEdgeKeys: input.baselineGraph
+      ? new Set(getClusterEdges(input.baselineGraph).map(getEdgeKey))
+      : null,
+    warnings: [],
+  };
+
+  const violations: RuleViolation[] = [];
+  for (const rule of rules) {
+    const evaluate = EVALUATORS[rule.type] as RuleEvaluator<Rule['type']>;
+    violations.push(...evaluate(rule, context));
+  }
+
+  return { violations, warnings: context.warnings };
+}
+
+function checkLayerDependency(
+  rule: Extract<Rule, { type: 'layer-dependency' }>,
+  context: RuleContext
+): RuleViolation[] {
+  const forbidden = new Set(rule.to);
+  return context.edges
+    .filter((edge) => context.clusterLayers[edge.source] === rule.from)
+    .filter((edge) => forbidden.has(context.clusterLayers[edge.target]))
+    .map((edge) =>
+      buildViolation(
+        rule,
+        edge,
+        `${rule.from} must not depend on ${context.clusterLayers[edge.target]}`
+      )
+    );
+}
+
+function checkAllowedDependencies(
+  rule: Extract<Rule, { type: 'allowed-dependencies' }>,
+  context: RuleContext
+): RuleViolation[] {
+  if (!(rule.cluster in context.clusterLayers)) {
+    context.warnings.push(`Rule "${rule.id}": cluster "${rule.cluster}" not found`);
+    return [];
+  }
+
+  const allowed = new Set(rule.allow);
+  return context.edges
+    .filter((edge) => edge.source === rule.cluster && !allowed.has(edge.target))
+    .map((edge) =>
+      buildViolation(rule, edge, `${rule.cluster} may only depend on ${formatList(rule.allow)}`)
+    );
+}
+
+function checkNoDeprecatedFeatures(
+  rule: Extract<Rule, { type: 'no-deprecated-features' }>,
+  context: RuleContext
+): RuleViolation[] {
+  const deprecated = context.features.filter((feature) => feature.status === 'deprecated');
+  if (deprecated.length === 0) {
+    return [];
+  }
+
+  const scope = rule.features ? new Set(rule.features) : null;
+  const deprecatedIds = new Set(deprecated.map((feature) => feature.id));
+  const featureByCluster = new Map<string, string>();
+  for (const feature of context.features) {
+    for (const clusterId of feature.clusters) {
+      featureByCluster.set(clusterId, feature.id);
+    }
+  }
+
+  // Code-level dependencies come from cluster edges; declared dependsOn entries without
+  // a matching edge are still reported, just without import details.
+  const dependencies = new Map<
+    string,
+    { source: string; target: string; imports: EdgeImportDetail[] }
+  >();
+  const addDependency = (source: string, target: string, imports: EdgeImportDetail[]): void => {
+    const key = getEdgeKey({ source, target });
+    const entry = dependencies.get(key) ?? { source, target, imports: [] };
+    entry.imports.push(...imports);
+    dependencies.set(key, entry);
+  };
+  for (const edge of context.edges) {
+    const sourceFeature = featureByCluster.get(edge.source);
+    const targetFeature = featureByCluster.get(edge.target);
+    if (sourceFeature && targetFeature && sourceFeature !== targetFeature) {
+      addDependency(sourceFeature, targetFeature, edge.imports ?? []);
+    }
+  }
+  for (const feature of context.features) {
+    for (const dependency of feature.dependsOn ?? []) {
+      addDependency(feature.id, dependency, []);
+    }
+  }
+
+  const violations: RuleViolation[] = [];
+  for (const { source, target, imports } of dependencies.values()) {
+    if (deprecatedIds.has(source) || !deprecatedIds.has(target)) {
+      continue;
+    }
+    if (scope && !scope.has(source)) {
+      continue;
+    }
+    violations.push({
+      ruleId: rule.id,
+      severity: rule.severity ?? 'error',
+      source,
+      target,
+      message: `${target} is deprecated`,
+      imports,
+    });
+  }
+
+  return violations.sort((left, right) => getEdgeKey(left).localeCompare(getEdgeKey(right)));
+}
+
+function checkNoNewDependencies(
+  rule: Extract<Rule, { type: 'no-new-dependencies' }>,
+  context: RuleContext
+): RuleViolation[] {
+  const baseline = context.baselineEdgeKeys;
+  if (!baseline) {
+    context.warnings.push(`Rule "${rule.id}" skipped: no baseline graph to compare against`);
+    return [];
+  }
+
+  return context.edges
+    .filter((edge) => context.clusterLayers[edge.target] === rule.layer)
+    .filter((edge) => !baseline.has(getEdgeKey(edge)))
+    .map((edge) => buildViolation(rule, edge, `new dependency into ${rule.layer} layer`));
+}
+
+function getClusterEdges(graph: Graph): GraphEdge[] {
+  const clusterIds = new Set(
+    graph.nodes.filter((node) => node.type === 'cluster').map((node) => node.id)
+  );
+  return graph.edges
+    .filter((edge) => clusterIds.has(edge.source) && clusterIds.has(edge.target))
+    .filter((edge) => edge.source !== edge.target)
+    .sort((left, right) => getEdgeKey(left).localeCompare(getEdgeKey(right)));
+}
+
+function buildViolation(rule: Rule, edge: GraphEdge, message: string): RuleViolation {
+  return {
+    ruleId: rule.id,
+    severity: rule.severity ?? 'error',
+    source: edge.source,
+    target: edge.target,
+    message,
+    imports: edge.imports ?? [],
+  };
+}
+
+function getEdgeKey(edge: { source: string; target: string }): string {
+  return `${edge.source}->${edge.target}`;
+}
+
+function formatList(values: string[]): string {
+  return values.length > 0 ? values.join(', ') : '(nothing)';
+}
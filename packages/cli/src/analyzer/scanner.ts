@@ -5,16 +5,38 @@ import { Config, ConfigSchema } from '../types/config.js';
 import { loadYAML } from '../utils/yaml-loader.js';
 import { parseGoFile, type ParsedGoFile } from './go-parser.js';
 import { readGoMod, type GoModule } from './go-module.js';
+import { parsePythonFile, type ParsedPythonFile, type PythonFileExport } from './python-parser.js';
+import {
+  findImportablePackages,
+  findPythonSourceRoot,
+  getPythonModuleName,
+  resolvePythonImports,
+  type PythonModuleFile,
+} from './python-module.js';
 
 export interface ParsedGoFileWithModule extends ParsedGoFile {
   moduleRoot: string;
   modulePath?: string;
 }
 
+export interface ParsedPythonFileWithModule {
+  path: string;
+  module: string;
+  sourceRoot: string;
+  exports: PythonFileExport[];
+  imports: {
+    internal: string[];
+    external: string[];
+  };
+  dependencies: string[];
+  linesOfCode: number;
+}
+
 export interface ScanResult {
   config: Config;
   files: string[];
   goFiles?: ParsedGoFileWithModule[];
+  pythonFiles?: ParsedPythonFileWithModule[];
   projectRoot: string;
 }
 
@@ -43,18 +65,72 @@ export async function scanProject(projectRoot: string): Promise<ScanResult> {
   const tsFiles = files.filter((file) => /\.(ts|tsx|js|jsx)$/i.test(file));
   const goFilePaths = files.filter((file) => /\.go$/i.test(file));
   const parsedGoFiles = await parseGoFiles(goFilePaths, scanRoot, projectRoot);
+  const pythonFilePaths = files.filter((file) => /\.py$/i.test(file));
+  const parsedPythonFiles = parsePythonFiles(pythonFilePaths, scanRoot, projectRoot);
 
   tsFiles.sort((a, b) => a.localeCompare(b));
   parsedGoFiles.sort((a, b) => a.path.localeCompare(b.path));
+  parsedPythonFiles.sort((a, b) => a.path.localeCompare(b.path));
 
   return {
     config,
     files: tsFiles,
     goFiles: parsedGoFiles.length > 0 ? parsedGoFiles : undefined,
+    pythonFiles: parsedPythonFiles.length > 0 ? parsedPythonFiles : undefined,
     projectRoot: scanRoot,
   };
 }
 
+function parsePythonFiles(
+  pythonFilePaths: string[],
+  scanRoot: string,
+  projectRoot: string
+): ParsedPythonFileWithModule[] {
+  const markerCache = new Map<string, string | null>();
+  const moduleFiles: Array<PythonModuleFile & { parsed: ParsedPythonFile }> = [];
+  const importablePackages = new Map<string, Set<string>>();
+
+  for (const absolutePath of pythonFilePaths) {
+    const parsed = parsePythonFile(absolutePath);
+    if (!parsed) {
+      continue;
+    }
+
+    const sourceRoot = findPythonSourceRoot(absolutePath, projectRoot, markerCache);
+    const { module, isPackage } = getPythonModuleName(absolutePath, sourceRoot);
+    const relativeSourceRoot = normalizePath(getRelativePath(sourceRoot, scanRoot) || '.');
+    if (!importablePackages.has(relativeSourceRoot)) {
+      importablePackages.set(relativeSourceRoot, findImportablePackages(sourceRoot));
+    }
+    moduleFiles.push({
+      path: getRelativePath(absolutePath, scanRoot),
+      sourceRoot: relativeSourceRoot,
+      module,
+      isPackage,
+      imports: parsed.imports,
+      parsed,
+    });
+  }
+
+  const resolved = resolvePythonImports(moduleFiles, importablePackages);
+
+  return moduleFiles.map((file) => {
+    const imports = resolved.get(file.path);
+    return {
+      path: file.path,
+      module: file.module,
+      sourceRoot: file.sourceRoot,
+      exports: file.parsed.exports,
+      imports: {
+        internal: imports?.internal ?? [],
+        external: imports?.external ?? [],
+      },
+      dependencies: imports?.dependencies ?? [],
+      linesOfCode: file.parsed.linesOfCode,
+    };
+  });
+}
+
 async function parseGoFiles(
   goFilePaths: string[],
   scanRoot: string,
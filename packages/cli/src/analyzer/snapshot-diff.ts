@@ -0,0 +1,145 @@
+import type { Snapshot } from '../types/index.js';
+import { matchCluster } from './cluster-matcher.js';
+
+type SnapshotEdge = Snapshot['graph']['edges'][number];
+
+export interface ClusterRename {
+  from: string;
+  to: string;
+  overlap: number;
+}
+
+export interface FeatureHashChange {
+  id: string;
+  name: string;
+  fromHash: string;
+  toHash: string;
+}
+
+export interface SnapshotDiff {
+  from: { id: string; createdAt: string };
+  to: { id: string; createdAt: string };
+  clusters: {
+    added: string[];
+    removed: string[];
+    renamed: ClusterRename[];
+  };
+  edges: {
+    added: SnapshotEdge[];
+    removed: SnapshotEdge[];
+  };
+  features: {
+    added: string[];
+    removed: string[];
+    changed: FeatureHashChange[];
+  };
+}
+
+/**
+ * Compares two snapshots. A cluster that disappeared and a new cluster that took over
+ * most of its files are reported as a rename; edges are compared after applying renames
+ * so a renamed cluster does not show up as edge churn.
+ */
+export function diffSnapshots(from: Snapshot, to: Snapshot): SnapshotDiff {
+  const fromClusterIds = new Set(from.clusters.map((cluster) => cluster.id));
+  const toClusterIds = new Set(to.clusters.map((cluster) => cluster.id));
+  const removedCandidates = from.clusters.filter((cluster) => !toClusterIds.has(cluster.id));
+  const addedCandidates = to.clusters.filter((cluster) => !fromClusterIds.has(cluster.id));
+
+  const renamed = detectRenames(removedCandidates, addedCandidates);
+  const renamedFrom = new Set(renamed.map((rename) => rename.from));
+  const renamedTo = new Set(renamed.map((rename) => rename.to));
+  const renameMap = new Map(renamed.map((rename) => [rename.from, rename.to]));
+
+  const fromEdges = new Map(
+    from.graph.edges.map((edge) => {
+      const mapped = {
+        ...edge,
+        source: renameMap.get(edge.source) ?? edge.source,
+        target: renameMap.get(edge.target) ?? edge.target,
+      };
+      return [getEdgeKey(mapped), edge] as const;
+    })
+  );
+  const toEdges = new Map(to.graph.edges.map((edge) => [getEdgeKey(edge), edge] as const));
+
+  const fromFeatures = new Map(from.features.map((feature) => [feature.id, feature]));
+  const toFeatures = new Map(to.features.map((feature) => [feature.id, feature]));
+  const changed: FeatureHashChange[] = [];
+  for (const [id, feature] of toFeatures) {
+    const previous = fromFeatures.get(id);
+    if (previous && previous.compositionHash !== feature.compositionHash) {
+      changed.push({
+        id,
+        name: feature.name,
+        fromHash: previous.compositionHash,
+        toHash: feature.compositionHash,
+      });
+    }
+  }
+
+  return {
+    from: { id: from.id, createdAt: from.createdAt },
+    to: { id: to.id, createdAt: to.createdAt },
+    clusters: {
+      added: sortIds(
+        addedCandidates.map((cluster) => cluster.id).filter((id) => !renamedTo.has(id))
+      ),
+      removed: sortIds(
+        removedCandidates.map((cluster) => cluster.id).filter((id) => !renamedFrom.has(id))
+      ),
+      renamed,
+    },
+    edges: {
+      added: sortEdges(
+        [...toEdges].filter(([key]) => !fromEdges.has(key)).map(([, edge]) => edge)
+      ),
+      removed: sortEdges(
+        [...fromEdges].filter(([key]) => !toEdges.has(key)).map(([, edge]) => edge)
+      ),
+    },
+    features: {
+      added: sortIds([...toFeatures.keys()].filter((id) => !fromFeatures.has(id))),
+      removed: sortIds([...fromFeatures.keys()].filter((id) => !toFeatures.has(id))),
+      changed: changed.sort((left, right) => left.id.localeCompare(right.id)),
+    },
+  };
+}
+
+function detectRenames(
+  removed: Snapshot['clusters'],
+  added: Snapshot['clusters']
+): ClusterRename[] {
+  const candidates = added
+    .map((cluster) => ({
+      cluster,
+      match: matchCluster({ suggestedId: cluster.id, files: cluster.files }, removed),
+    }))
+    .filter((candidate) => candidate.match.matchedId !== null)
+    .sort((left, right) => right.match.confidence - left.match.confidence);
+
+  const claimed = new Set<string>();
+  const renames: ClusterRename[] = [];
+  for (const { cluster, match } of candidates) {
+    const matchedId = match.matchedId as string;
+    if (claimed.has(matchedId)) {
+      continue;
+    }
+    claimed.add(matchedId);
+    renames.push({ from: matchedId, to: cluster.id, overlap: match.confidence });
+  }
+
+  return renames.sort((left, right) => left.from.localeCompare(right.from));
+}
+
+function getEdgeKey(edge: SnapshotEdge): string {
+  return `${edge.type ?? ''}|${edge.source}->${edge.target}`;
+}
+
+function sortIds(ids: string[]): string[] {
+  return [...ids].sort((a, b) => a.localeCompare(b));
+}
+
+function sortEdges(edges: SnapshotEdge[]): SnapshotEdge[] {
+  return [...edges].sort((left, right) => getEdgeKey(left).localeCompare(getEdgeKey(right)));
+}
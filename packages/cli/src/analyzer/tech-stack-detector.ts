@@ -118,6 +118,9 @@ function detectPrimaryLanguage(languages: TechStack['languages']): TechStack['la
   if (names.has('go')) {
     return 'go';
   }
+  if (names.has('python')) {
+    return 'python';
+  }
   return 'unknown';
 }
 
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { CyclesSchema } from '../types/index.js';
+import { detectCycles, findCycles } from './cycle-detector.js';
+
+// a -> b -> c -> a is one cycle, d -> e -> d a second; f only points into the first.
+const FILE_DEPENDENCIES: Record<string, string[]> = {
+  'src/a.ts': ['src/b.ts'],
+  'src/b.ts': ['src/c.ts'],
+  'src/c.ts': ['src/a.ts'],
+  'src/d.ts': ['src/e.ts'],
+  'src/e.ts': ['src/d.ts'],
+  'src/f.ts': ['src/a.ts', 'src/external.ts'],
+};
+
+function main(): void {
+  console.log('=== Components are found, sorted and ordered by size ===');
+  assert.deepStrictEqual(findCycles(FILE_DEPENDENCIES), [
+    ['src/a.ts', 'src/b.ts', 'src/c.ts'],
+    ['src/d.ts', 'src/e.ts'],
+  ]);
+
+  console.log('\n=== Acyclic graphs have no cycles ===');
+  assert.deepStrictEqual(findCycles({ a: ['b', 'c'], b: ['c'], c: [] }), []);
+
+  console.log('\n=== A node depending on itself is a cycle ===');
+  assert.deepStrictEqual(findCycles({ a: ['a', 'b'], b: [] }), [['a']]);
+
+  console.log('\n=== Deep chains do not overflow the stack ===');
+  const chain: Record<string, string[]> = {};
+  const length = 20000;
+  for (let index = 0; index < length; index += 1) {
+    chain[`n${index}`] = [`n${(index + 1) % length}`];
+  }
+  const [longCycle] = findCycles(chain);
+  assert.strictEqual(longCycle.length, length);
+
+  console.log('\n=== detectCycles reports every level and validates ===');
+  const cycles = detectCycles({
+    fileDependencies: FILE_DEPENDENCIES,
+    clusterDependencies: { api: ['core'], core: ['api'], web: ['api'] },
+    featureDependencies: { billing: ['auth'], auth: [] },
+  });
+  assert.strictEqual(cycles.files.length, 2);
+  assert.deepStrictEqual(cycles.clusters, [{ nodes: ['api', 'core'] }]);
+  assert.deepStrictEqual(cycles.features, []);
+  assert.ok(CyclesSchema.safeParse(cycles).success, 'cycles.yaml content should validate');
+
+  console.log('\nOK cycle tests passed');
+}
+
+main();
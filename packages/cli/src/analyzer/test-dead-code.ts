@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DeadCodeSchema, type ExportSymbol, type ImportList } from '../types/index.js';
+import { detectDeadCode, findPackageEntryFiles } from './dead-code.js';
+import type { DependencyGraph } from './graph.js';
+
+interface FixtureFile {
+  exports?: ExportSymbol[];
+  imports?: Array<{ from: string; symbols: string[] }>;
+}
+
+// index.ts uses helper and the default Button, reads ns.ts as a namespace and nothing
+// imports orphan.ts. utils.ts also exports unusedFn.
+const FILES: Record<string, FixtureFile> = {
+  'src/index.ts': {
+    exports: [{ name: 'start', type: 'function', isDefault: false }],
+    imports: [
+      { from: './utils', symbols: ['helper'] },
+      { from: './Button', symbols: ['Button'] },
+      { from: './ns', symbols: ['ns'] },
+    ],
+  },
+  'src/utils.ts': {
+    exports: [
+      { name: 'helper', type: 'function', isDefault: false },
+      { name: 'unusedFn', type: 'function', isDefault: false },
+    ],
+  },
+  'src/Button.tsx': {
+    exports: [{ name: 'Button', type: 'function', isDefault: true }],
+  },
+  'src/ns.ts': {
+    exports: [
+      { name: 'a', type: 'variable', isDefault: false },
+      { name: 'b', type: 'variable', isDefault: false },
+    ],
+  },
+  'src/orphan.ts': {
+    exports: [{ name: 'orphanFn', type: 'function', isDefault: false }],
+  },
+};
+
+function buildGraph(): DependencyGraph {
+  const graph: DependencyGraph = { files: {}, dependencies: {}, dependents: {} };
+  for (const [file, fixture] of Object.entries(FILES)) {
+    const imports: ImportList = {
+      internal: (fixture.imports ?? []).map((entry) => entry.from),
+      external: [],
+      internalDetails: (fixture.imports ?? []).map((entry) => ({ ...entry, isTypeOnly: false })),
+    };
+    graph.files[file] = { path: file, exports: fixture.exports ?? [], imports, linesOfCode: 1 };
+    graph.dependencies[file] = [];
+    graph.dependents[file] ??= [];
+  }
+  for (const [file, fixture] of Object.entries(FILES)) {
+    for (const { from } of fixture.imports ?? []) {
+      const target = Object.keys(FILES).find((candidate) =>
+        candidate.startsWith(path.posix.join('src', from))
+      ) as string;
+      graph.dependencies[file].push(target);
+      graph.dependents[target].push(file);
+    }
+  }
+  return graph;
+}
+
+function main(): void {
+  const graph = buildGraph();
+  const clusters = [{ id: 'src', files: Object.keys(FILES) }];
+
+  console.log('=== Unused exports and unreachable files are reported per cluster ===');
+  const deadCode = detectDeadCode({ graph, clusters, roots: ['src/index.ts', 'src/missing.ts'] });
+  assert.ok(DeadCodeSchema.safeParse(deadCode).success, 'dead-code.yaml content should validate');
+  assert.deepStrictEqual(deadCode.roots, ['src/index.ts'], 'unknown roots are dropped');
+  assert.deepStrictEqual(deadCode.clusters, [
+    {
+      id: 'src',
+      unusedExports: [{ file: 'src/utils.ts', name: 'unusedFn', type: 'function' }],
+      unreachableFiles: ['src/orphan.ts'],
+    },
+  ]);
+
+  console.log('\n=== Without roots the entry file is unreachable too ===');
+  const rootless = detectDeadCode({ graph, clusters, roots: [] });
+  assert.deepStrictEqual(rootless.clusters[0].unreachableFiles, ['src/index.ts', 'src/orphan.ts']);
+
+  console.log('\n=== Clean clusters are left out ===');
+  const clean = detectDeadCode({
+    graph,
+    clusters: [{ id: 'ui', files: ['src/Button.tsx'] }],
+    roots: ['src/index.ts'],
+  });
+  assert.deepStrictEqual(clean.clusters, []);
+
+  console.log('\n=== package.json build entries map back to src/ ===');
+  const packageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'featuremap-dead-code-'));
+  try {
+    const packageJsonPath = path.join(packageDir, 'package.json');
+    const manifest = {
+      main: 'dist/index.js',
+      bin: { tool: './dist/orphan.js' },
+      exports: './lib/*',
+    };
+    fs.writeFileSync(packageJsonPath, JSON.stringify(manifest), 'utf-8');
+    assert.deepStrictEqual(findPackageEntryFiles([packageJsonPath], packageDir, graph), [
+      'src/index.ts',
+      'src/orphan.ts',
+    ]);
+  } finally {
+    fs.rmSync(packageDir, { recursive: true, force: true });
+  }
+
+  console.log('\nOK dead-code tests passed');
+}
+
+main();
@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import fg from 'fast-glob';
+import * as yaml from 'yaml';
+import { ConfigSchema } from '../types/index.js';
+import { MIGRATIONS, type MigrationStep } from '../utils/migrations.js';
+import { loadYAML } from '../utils/yaml-loader.js';
+import { runMigrations } from '../commands/migrate.js';
+
+// Fixture step: a "v0" config kept its hints at the top level instead of under `features`.
+const HOISTED_HINTS_STEP: MigrationStep = {
+  from: 0,
+  description: 'Move top-level hints under features',
+  migrate: ({ hints, ...rest }) => ({ ...rest, features: { hints: hints ?? [] } }),
+};
+
+// Forgets `project`, so the migrated file fails validation.
+const BROKEN_STEP: MigrationStep = {
+  from: 0,
+  description: 'Drop project',
+  migrate: ({ project: _project, ...rest }) => rest,
+};
+
+// Fixture step for rules.yaml, so a failing config leaves a valid migration unwritten.
+const NOOP_RULES_STEP: MigrationStep = {
+  from: 0,
+  description: 'No changes',
+  migrate: (data) => data,
+};
+
+const V0_CONFIG = {
+  version: 0,
+  project: { name: 'fixture', root: '.' },
+  scan: { include: ['src/**/*.ts'], exclude: [] },
+  hints: [{ pattern: 'src/auth/**', type: 'auth' }],
+};
+
+function writeFixture(featuremapDir: string): void {
+  fs.mkdirSync(featuremapDir, { recursive: true });
+  fs.writeFileSync(path.join(featuremapDir, 'config.yaml'), yaml.stringify(V0_CONFIG), 'utf-8');
+  const rules = { version: 1, rules: [] };
+  fs.writeFileSync(path.join(featuremapDir, 'rules.yaml'), yaml.stringify(rules), 'utf-8');
+}
+
+function listFiles(featuremapDir: string): string[] {
+  return fg.sync('**/*', { cwd: featuremapDir, dot: true }).sort((a, b) => a.localeCompare(b));
+}
+
+function listBackups(featuremapDir: string): string[] {
+  return fg.sync('cache/migrate-backup-*', { cwd: featuremapDir, onlyDirectories: true });
+}
+
+function readVersion(filePath: string): unknown {
+  return (yaml.parse(fs.readFileSync(filePath, 'utf-8')) as { version?: unknown }).version;
+}
+
+function main(): void {
+  const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'featuremap-migrate-'));
+  const featuremapDir = path.join(projectRoot, '.featuremap');
+  const configPath = path.join(featuremapDir, 'config.yaml');
+
+  try {
+    console.log('=== v0 config is upgraded, backed up and validated ===');
+    writeFixture(featuremapDir);
+    const migrated = runMigrations(featuremapDir, { backup: true }, {
+      ...MIGRATIONS,
+      config: [HOISTED_HINTS_STEP],
+    });
+    assert.strictEqual(migrated, true, 'migration should succeed');
+
+    const config = loadYAML(configPath, ConfigSchema, { fileType: 'config' });
+    assert.strictEqual(config.version, 1);
+    assert.deepStrictEqual(config.features.hints, V0_CONFIG.hints);
+    const raw = yaml.parse(fs.readFileSync(configPath, 'utf-8')) as Record<string, unknown>;
+    assert.ok(!('hints' in raw), 'top-level hints should be gone');
+
+    const backups = listBackups(featuremapDir);
+    assert.strictEqual(backups.length, 1, 'one backup directory');
+    assert.strictEqual(readVersion(path.join(featuremapDir, backups[0], 'config.yaml')), 0);
+    assert.strictEqual(readVersion(path.join(featuremapDir, backups[0], 'rules.yaml')), 1);
+
+    console.log('\n=== Second run is a no-op ===');
+    assert.strictEqual(runMigrations(featuremapDir, { backup: true }), true);
+    assert.strictEqual(listBackups(featuremapDir).length, 1, 'no backup without changes');
+
+    console.log('\n=== Dry run does not touch .featuremap/ ===');
+    fs.rmSync(featuremapDir, { recursive: true, force: true });
+    writeFixture(featuremapDir);
+    const before = listFiles(featuremapDir);
+    const configBefore = fs.readFileSync(configPath, 'utf-8');
+    const dryRun = runMigrations(featuremapDir, { backup: true, dryRun: true }, {
+      ...MIGRATIONS,
+      config: [HOISTED_HINTS_STEP],
+    });
+    assert.strictEqual(dryRun, true);
+    assert.deepStrictEqual(listFiles(featuremapDir), before);
+    assert.strictEqual(fs.readFileSync(configPath, 'utf-8'), configBefore);
+
+    console.log('\n=== One invalid file aborts the whole run ===');
+    const rulesPath = path.join(featuremapDir, 'rules.yaml');
+    fs.writeFileSync(rulesPath, yaml.stringify({ version: 0, rules: [] }), 'utf-8');
+    const failed = runMigrations(featuremapDir, { backup: true }, {
+      ...MIGRATIONS,
+      config: [BROKEN_STEP],
+      rules: [NOOP_RULES_STEP],
+    });
+    assert.strictEqual(failed, false, 'migration should fail validation');
+    assert.strictEqual(readVersion(configPath), 0, 'config.yaml left untouched');
+    assert.strictEqual(readVersion(rulesPath), 0, 'valid rules.yaml not written either');
+    assert.deepStrictEqual(listBackups(featuremapDir), []);
+
+    console.log('\nOK migrate tests passed');
+  } finally {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import type { Graph, Layer, Rule } from '../types/index.js';
+import { checkRules, type RuleCheckInput } from './rule-checker.js';
+
+function buildGraph(edges: Array<[string, string]>): Graph {
+  return {
+    version: 1,
+    generatedAt: '2024-01-01T00:00:00.000Z',
+    nodes: ['web-ui', 'api', 'db', 'shared'].map((id) => ({ id, label: id, type: 'cluster' })),
+    edges: edges.map(([source, target]) => ({
+      source,
+      target,
+      imports: [{ symbol: `${target}Fn`, sourceFiles: [`src/${source}/index.ts`] }],
+    })),
+  };
+}
+
+// web-ui -> db skips the api layer; api -> db and web-ui -> api are fine.
+const GRAPH = buildGraph([
+  ['web-ui', 'api'],
+  ['web-ui', 'db'],
+  ['api', 'db'],
+  ['api', 'shared'],
+]);
+
+const CLUSTER_LAYERS: Record<string, Layer> = {
+  'web-ui': 'frontend',
+  api: 'backend',
+  db: 'infrastructure',
+  shared: 'shared',
+};
+
+const INPUT: RuleCheckInput = {
+  graph: GRAPH,
+  clusterLayers: CLUSTER_LAYERS,
+  features: [
+    { id: 'checkout', status: 'active', clusters: ['web-ui'], dependsOn: ['legacy-auth'] },
+    { id: 'orders', status: 'active', clusters: ['api'] },
+    { id: 'storage', status: 'deprecated', clusters: ['db'] },
+    { id: 'legacy-auth', status: 'deprecated', clusters: [] },
+  ],
+};
+
+function check(rule: Rule, input: RuleCheckInput = INPUT) {
+  return checkRules([rule], input);
+}
+
+function main(): void {
+  console.log('=== layer-dependency reports forbidden edges with their imports ===');
+  const layerResult = check({
+    id: 'ui-no-infra',
+    type: 'layer-dependency',
+    from: 'frontend',
+    to: ['infrastructure'],
+  });
+  assert.deepStrictEqual(layerResult.violations, [
+    {
+      ruleId: 'ui-no-infra',
+      severity: 'error',
+      source: 'web-ui',
+      target: 'db',
+      message: 'frontend must not depend on infrastructure',
+      imports: [{ symbol: 'dbFn', sourceFiles: ['src/web-ui/index.ts'] }],
+    },
+  ]);
+
+  console.log('\n=== allowed-dependencies flags everything outside the list ===');
+  const allowedResult = check({
+    id: 'api-deps',
+    type: 'allowed-dependencies',
+    severity: 'warning',
+    cluster: 'api',
+    allow: ['shared'],
+  });
+  assert.deepStrictEqual(
+    allowedResult.violations.map((violation) => [violation.target, violation.severity]),
+    [['db', 'warning']]
+  );
+
+  console.log('\n=== allowed-dependencies warns about unknown clusters ===');
+  const unknownResult = check({
+    id: 'ghost-deps',
+    type: 'allowed-dependencies',
+    cluster: 'ghost',
+    allow: [],
+  });
+  assert.deepStrictEqual(unknownResult.violations, []);
+  assert.deepStrictEqual(unknownResult.warnings, ['Rule "ghost-deps": cluster "ghost" not found']);
+
+  console.log('\n=== no-deprecated-features covers edges and declared dependsOn ===');
+  const deprecatedResult = check({ id: 'no-deprecated', type: 'no-deprecated-features' });
+  assert.deepStrictEqual(
+    deprecatedResult.violations.map((violation) => `${violation.source}->${violation.target}`),
+    ['checkout->legacy-auth', 'checkout->storage', 'orders->storage']
+  );
+  const scopedResult = check({
+    id: 'no-deprecated',
+    type: 'no-deprecated-features',
+    features: ['orders'],
+  });
+  assert.deepStrictEqual(
+    scopedResult.violations.map((violation) => violation.source),
+    ['orders']
+  );
+
+  console.log('\n=== no-new-dependencies compares against the baseline ===');
+  const freezeRule: Rule = {
+    id: 'freeze-infra',
+    type: 'no-new-dependencies',
+    layer: 'infrastructure',
+  };
+  const skipped = check(freezeRule);
+  assert.deepStrictEqual(skipped.violations, []);
+  assert.strictEqual(skipped.warnings.length, 1, 'skipped without a baseline');
+  const frozen = check(freezeRule, { ...INPUT, baselineGraph: buildGraph([['api', 'db']]) });
+  assert.deepStrictEqual(
+    frozen.violations.map((violation) => `${violation.source}->${violation.target}`),
+    ['web-ui->db']
+  );
+
+  console.log('\nOK rule tests passed');
+}
+
+main();
@@ -1,14 +1,32 @@
 export { scanProject } from './analyzer/scanner.js';
+export { getChangedFilesSince, getCommitStats, getFileAuthors } from './utils/git.js';
 export { scanProjectStructure } from './analyzer/structure-scanner.js';
 export { buildGraph, getGraphStats } from './analyzer/graph.js';
 export { groupByFolders } from './analyzer/grouper.js';
+export { groupFiles } from './analyzer/clustering.js';
+export { matchFeatureHints } from './analyzer/feature-hints.js';
 export { loadExistingClusters } from './analyzer/cluster-loader.js';
 export { applyClusterMatching } from './analyzer/cluster-id-matching.js';
 export { detectTechStack } from './analyzer/tech-stack-detector.js';
 export { detectConventions } from './analyzer/conventions-detector.js';
 export { detectStatistics } from './analyzer/statistics-detector.js';
+export { detectCycles, findCycles } from './analyzer/cycle-detector.js';
+export { detectDeadCode, findPackageEntryFiles } from './analyzer/dead-code.js';
+export { DEFAULT_HOTSPOTS_SINCE, detectHotspots } from './analyzer/hotspots.js';
+export { buildFeatureUnits, computeUnitMetrics, detectMetrics } from './analyzer/metrics.js';
+export { detectOwnership, loadCodeowners, parseCodeowners } from './analyzer/ownership.js';
+export { checkRules } from './analyzer/rule-checker.js';
+export { analyzeChangeImpact } from './analyzer/change-impact.js';
+export { loadFeatures } from './analyzer/feature-loader.js';
+export { diffSnapshots } from './analyzer/snapshot-diff.js';
 export { detectStructureContext } from './analyzer/structure-detector.js';
 export { detectTesting } from './analyzer/testing-detector.js';
+export {
+  detectTestCoverage,
+  findTestFiles,
+  loadLineCoverage,
+  mapTestFiles,
+} from './analyzer/coverage-mapper.js';
 export { buildClusterFile } from './utils/cluster-builder.js';
 export {
   buildUpdatedMetadata,
@@ -16,28 +34,105 @@ export {
   areGraphsEquivalent,
 } from './utils/scanCompare.js';
 export { buildDefaultLayout } from './utils/layout-builder.js';
+export { buildExportMap } from './utils/mapExport.js';
+export { DIAGRAM_FORMATS, filterExportView, renderDiagram } from './utils/diagramExport.js';
 export { saveGraphYaml } from './utils/graphYaml.js';
+export { saveRawGraphYaml } from './utils/rawGraphYaml.js';
+export { buildSnapshot, listSnapshots, resolveSnapshot, saveSnapshot } from './utils/snapshots.js';
 export {
   buildConventionsInput,
   countFeatureFiles,
   findGoModPaths,
   findPackageJsonPaths,
+  loadFeatureClusters,
+  loadFeatureDependencies,
+  refreshFeatureCycles,
   saveAutoContext,
 } from './utils/contextUtils.js';
+export {
+  buildScanAnalysisInputs,
+  runScanAnalyses,
+  saveCycles,
+  saveDeadCode,
+  saveHotspots,
+  saveMetrics,
+  saveOwnership,
+  saveTestCoverage,
+} from './commands/scanAnalyses.js';
+export { runScanPipeline } from './commands/scanPipeline.js';
 export { saveYAML, loadYAML, writeYamlTemplate } from './utils/yaml-loader.js';
 export { buildContextTemplates } from './utils/contextTemplates.js';
 export { SUPPORTED_VERSIONS } from './constants/versions.js';
 export {
+  BUILT_IN_LAYERS,
   ClusterSchema,
+  ConfigSchema,
   ConventionsSchema,
+  CyclesSchema,
+  DeadCodeSchema,
+  FeatureHintSchema,
   GraphSchema,
+  HotspotsSchema,
+  LAYER_NAME_PATTERN,
+  LayerFilterParamSchema,
+  LayerSchema,
   LayoutSchema,
+  MetricsSchema,
+  OwnershipSchema,
+  RulesSchema,
+  SavedViewSchema,
+  SnapshotSchema,
   StatisticsSchema,
   StructureSchema,
+  TestCoverageSchema,
   TestingSchema,
   TechStackSchema,
 } from './types/index.js';
 
 export type { DependencyGraph } from './analyzer/graph.js';
+export type {
+  ScanAnalysesResult,
+  ScanAnalysisContext,
+  ScanAnalysisInputs,
+} from './commands/scanAnalyses.js';
+export type {
+  ScanLogger,
+  ScanPipelineOptions,
+  ScanPipelineResult,
+} from './commands/scanPipeline.js';
+export type { Codeowners, CodeownersRule } from './analyzer/ownership.js';
+export type { CommitStats } from './utils/git.js';
+export type { LineCoverage } from './analyzer/coverage-mapper.js';
 export type { Cluster as FolderCluster } from './analyzer/grouper.js';
-export type { Cluster as ClusterFile, Graph, Layer } from './types/index.js';
+export type { FeatureHintMatch } from './analyzer/feature-hints.js';
+export type { RuleCheckResult, RuleViolation } from './analyzer/rule-checker.js';
+export type { ChangeImpact } from './analyzer/change-impact.js';
+export type { SnapshotDiff } from './analyzer/snapshot-diff.js';
+export type { SnapshotSummary } from './utils/snapshots.js';
+export type { ExportMap, ExportView, ExportViewMode } from './utils/mapExport.js';
+export type { DiagramFilters, DiagramFormat } from './utils/diagramExport.js';
+export type {
+  BuiltInLayer,
+  ClusteringConfig,
+  CodeMetrics,
+  Cluster as ClusterFile,
+  Config,
+  Cycles,
+  DeadCode,
+  FeatureHint,
+  Graph,
+  Hotspots,
+  HotspotsConfig,
+  Layer,
+  LayerFilterParam,
+  LayersConfig,
+  LayerSignals,
+  Metrics,
+  Ownership,
+  OwnershipConfig,
+  Rule,
+  Rules,
+  SavedView,
+  Snapshot,
+  TestCoverage,
+} from './types/index.js';
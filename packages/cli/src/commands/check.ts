@@ -0,0 +1,159 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadFeatures } from '../analyzer/feature-loader.js';
+import { checkRules, type RuleViolation } from '../analyzer/rule-checker.js';
+import {
+  ClusterSchema,
+  GraphSchema,
+  RulesSchema,
+  type Graph,
+  type Layer,
+} from '../types/index.js';
+import { loadYAML } from '../utils/yaml-loader.js';
+import { runScanPipeline } from './scanPipeline.js';
+
+interface CheckOptions {
+  scan: boolean;
+  cache: boolean;
+  baseline?: string;
+}
+
+const MAX_IMPORTS_PER_VIOLATION = 5;
+
+export function createCheckCommand(): Command {
+  const command = new Command('check');
+
+  command
+    .description('Rescan and check the dependency graph against .featuremap/rules.yaml')
+    .option('--no-scan', 'Check the existing graph.yaml without rescanning')
+    .option('--no-cache', 'Ignore the parse cache and re-parse every file')
+    .option(
+      '--baseline <file>',
+      'graph.yaml to compare no-new-dependencies rules against (default: graph.yaml before the scan)'
+    )
+    .action(async (options: CheckOptions) => {
+      const projectRoot = process.cwd();
+      const featuremapDir = path.join(projectRoot, '.featuremap');
+      const rulesPath = path.join(featuremapDir, 'rules.yaml');
+      const graphPath = path.join(featuremapDir, 'graph.yaml');
+
+      if (!fs.existsSync(featuremapDir)) {
+        console.error('ERROR: .featuremap/ not found. Run "featuremap init" first.');
+        process.exit(1);
+      }
+
+      if (!fs.existsSync(rulesPath)) {
+        console.error('ERROR: .featuremap/rules.yaml not found.');
+        process.exit(1);
+      }
+
+      try {
+        const { rules } = loadYAML(rulesPath, RulesSchema, { fileType: 'rules' });
+        const baselinePath = options.baseline ? path.resolve(options.baseline) : graphPath;
+        if (options.baseline && !fs.existsSync(baselinePath)) {
+          console.error(`ERROR: Baseline graph not found: ${options.baseline}`);
+          process.exit(1);
+        }
+        const baselineGraph = loadGraph(baselinePath);
+
+        if (options.scan) {
+          console.log('Scanning project...');
+          await runScanPipeline({
+            projectRoot,
+            featuremapDir,
+            useCache: options.cache,
+            logger: { log: () => {}, warn: (message) => console.warn(message) },
+          });
+        }
+
+        const graph = loadGraph(graphPath);
+        if (!graph) {
+          console.error('ERROR: graph.yaml not found. Run "featuremap scan" first.');
+          process.exit(1);
+        }
+
+        const result = checkRules(rules, {
+          graph,
+          clusterLayers: loadClusterLayers(path.join(featuremapDir, 'clusters')),
+          features: loadFeatures(path.join(featuremapDir, 'features')),
+          baselineGraph,
+        });
+
+        console.log(`Checking ${rules.length} rules...\n`);
+        for (const warning of result.warnings) {
+          console.log(`  WARN ${warning}`);
+        }
+        for (const violation of result.violations) {
+          printViolation(violation);
+        }
+
+        const errorCount = result.violations.filter((entry) => entry.severity === 'error').length;
+        const warningCount = result.violations.length - errorCount;
+        if (result.violations.length === 0) {
+          console.log('\n✓ No rule violations');
+          return;
+        }
+
+        const errorSuffix = errorCount === 1 ? '' : 's';
+        const warningSuffix = warningCount === 1 ? '' : 's';
+        console.log(
+          `\n${errorCount > 0 ? '✗' : '⚠'} Found ${errorCount} violation${errorSuffix}, ${warningCount} warning${warningSuffix}`
+        );
+        if (errorCount > 0) {
+          process.exitCode = 1;
+        }
+      } catch (error) {
+        console.error(
+          `ERROR: ${error instanceof Error ? error.message : 'Failed to check rules.'}`
+        );
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function loadGraph(filePath: string): Graph | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return loadYAML(filePath, GraphSchema, { fileType: 'graph' });
+}
+
+function loadClusterLayers(clustersDir: string): Record<string, Layer> {
+  const layers: Record<string, Layer> = {};
+  for (const fileName of listYamlFiles(clustersDir)) {
+    const cluster = loadYAML(path.join(clustersDir, fileName), ClusterSchema, {
+      skipVersionCheck: true,
+    });
+    layers[cluster.id] = cluster.layer;
+  }
+  return layers;
+}
+
+function listYamlFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((fileName) => fileName.endsWith('.yaml'))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+function printViolation(violation: RuleViolation): void {
+  const marker = violation.severity === 'error' ? '✗' : '⚠';
+  console.log(
+    `  ${marker} [${violation.ruleId}] ${violation.source} -> ${violation.target}: ${violation.message}`
+  );
+
+  for (const detail of violation.imports.slice(0, MAX_IMPORTS_PER_VIOLATION)) {
+    const target = detail.targetFile ? ` (${detail.targetFile})` : '';
+    console.log(`      ${detail.symbol}${target} <- ${detail.sourceFiles.join(', ')}`);
+  }
+  const remaining = violation.imports.length - MAX_IMPORTS_PER_VIOLATION;
+  if (remaining > 0) {
+    console.log(`      ... ${remaining} more`);
+  }
+}
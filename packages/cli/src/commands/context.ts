@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
 import { buildGraph, getGraphStats } from '../analyzer/graph.js';
-import { groupByFolders } from '../analyzer/grouper.js';
+import { groupFiles } from '../analyzer/clustering.js';
 import { detectStatistics } from '../analyzer/statistics-detector.js';
 import { detectStructureContext } from '../analyzer/structure-detector.js';
 import { detectTesting } from '../analyzer/testing-detector.js';
@@ -98,7 +98,10 @@ export function createContextCommand(): Command {
         const scanResult = await scanProject(projectRoot);
         const graph = await buildGraph(scanResult);
         const graphStats = getGraphStats(graph);
-        const grouping = groupByFolders(graph);
+        const grouping = groupFiles(graph, {
+          clustering: scanResult.config.scan.clustering,
+          hints: scanResult.config.features.hints,
+        });
         const conventionsInput = buildConventionsInput(graph);
         const conventions = detectConventions(conventionsInput);
         const conventionsPath = path.join(contextDir, 'conventions.yaml');
@@ -0,0 +1,102 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeadCodeSchema, type DeadCode } from '../types/index.js';
+import { loadYAML } from '../utils/yaml-loader.js';
+import { runScanPipeline } from './scanPipeline.js';
+
+interface DeadCodeOptions {
+  scan: boolean;
+  cache: boolean;
+  cluster?: string;
+  json?: boolean;
+}
+
+export function createDeadCodeCommand(): Command {
+  const command = new Command('dead-code');
+
+  command
+    .description('Report exports nothing imports and files nothing depends on, per cluster')
+    .option('--no-scan', 'Report the existing context/dead-code.yaml without rescanning')
+    .option('--no-cache', 'Ignore the parse cache and re-parse every file')
+    .option('--cluster <id>', 'Only report this cluster')
+    .option('--json', 'Print the report as JSON')
+    .action(async (options: DeadCodeOptions) => {
+      const projectRoot = process.cwd();
+      const featuremapDir = path.join(projectRoot, '.featuremap');
+      const reportPath = path.join(featuremapDir, 'context', 'dead-code.yaml');
+
+      if (!fs.existsSync(featuremapDir)) {
+        console.error('ERROR: .featuremap/ not found. Run "featuremap init" first.');
+        process.exit(1);
+      }
+
+      try {
+        if (options.scan) {
+          if (!options.json) {
+            console.log('Scanning project...');
+          }
+          await runScanPipeline({
+            projectRoot,
+            featuremapDir,
+            useCache: options.cache,
+            logger: { log: () => {}, warn: (message) => console.warn(message) },
+          });
+        }
+
+        if (!fs.existsSync(reportPath)) {
+          console.error('ERROR: context/dead-code.yaml not found. Run "featuremap scan" first.');
+          process.exit(1);
+        }
+
+        const report = loadYAML(reportPath, DeadCodeSchema, { fileType: 'context' });
+        const clusters = options.cluster
+          ? report.clusters.filter((cluster) => cluster.id === options.cluster)
+          : report.clusters;
+
+        if (options.json) {
+          console.log(JSON.stringify({ ...report, clusters }, null, 2));
+          return;
+        }
+        printReport(report, clusters);
+      } catch (error) {
+        console.error(
+          `ERROR: ${error instanceof Error ? error.message : 'Failed to detect dead code.'}`
+        );
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function printReport(report: DeadCode, clusters: DeadCode['clusters']): void {
+  const rootSuffix = report.roots.length === 1 ? '' : 's';
+  console.log(`Roots: ${report.roots.length} entry file${rootSuffix}`);
+  if (report.roots.length === 0) {
+    console.log(
+      '  WARN No roots found. Add entry_points to cluster files or main/bin/exports to package.json.'
+    );
+  }
+
+  if (clusters.length === 0) {
+    console.log('\n✓ No unused exports or unreachable files');
+    return;
+  }
+
+  for (const cluster of clusters) {
+    console.log(`\n  ${cluster.id}`);
+    for (const file of cluster.unreachableFiles) {
+      console.log(`    unreachable  ${file}`);
+    }
+    for (const entry of cluster.unusedExports) {
+      console.log(`    unused       ${entry.file}: ${entry.name} (${entry.type})`);
+    }
+  }
+
+  const exportCount = clusters.reduce((sum, cluster) => sum + cluster.unusedExports.length, 0);
+  const fileCount = clusters.reduce((sum, cluster) => sum + cluster.unreachableFiles.length, 0);
+  console.log(
+    `\n⚠ ${exportCount} unused export${exportCount === 1 ? '' : 's'}, ${fileCount} unreachable file${fileCount === 1 ? '' : 's'} in ${clusters.length} cluster${clusters.length === 1 ? '' : 's'}`
+  );
+}
@@ -0,0 +1,210 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeChangeImpact, type ChangeImpact } from '../analyzer/change-impact.js';
+import { loadExistingClusters } from '../analyzer/cluster-loader.js';
+import { applyClusterMatching } from '../analyzer/cluster-id-matching.js';
+import { groupFiles } from '../analyzer/clustering.js';
+import { loadFeatures } from '../analyzer/feature-loader.js';
+import { buildGraph, type DependencyGraph } from '../analyzer/graph.js';
+import { loadParseCache } from '../analyzer/parse-cache.js';
+import { scanProject } from '../analyzer/scanner.js';
+import type { Config } from '../types/index.js';
+import { getChangedFilesSince } from '../utils/git.js';
+
+type DiffFormat = 'text' | 'json' | 'markdown';
+
+interface DiffOptions {
+  format: string;
+  depth?: string;
+}
+
+const DIFF_FORMATS: DiffFormat[] = ['text', 'json', 'markdown'];
+
+export function createDiffCommand(): Command {
+  const command = new Command('diff');
+
+  command
+    .description('Show which clusters and features are touched by changes since a git ref')
+    .argument('<base>', 'Git ref to compare against (uses <base>...HEAD)')
+    .option('-f, --format <format>', 'Output format: text, json or markdown', 'text')
+    .option('--depth <n>', 'Limit how many levels of dependents are followed (default: all)')
+    .action(async (base: string, options: DiffOptions) => {
+      const projectRoot = process.cwd();
+      const featuremapDir = path.join(projectRoot, '.featuremap');
+
+      if (!fs.existsSync(featuremapDir)) {
+        console.error('ERROR: .featuremap/ not found. Run "featuremap init" first.');
+        process.exit(1);
+      }
+
+      const format = parseFormat(options.format);
+      const maxDepth = options.depth !== undefined ? parseDepth(options.depth) : undefined;
+
+      try {
+        const scanResult = await scanProject(projectRoot);
+        const changedFiles = getChangedFilesSince(scanResult.projectRoot, base);
+        const parseCache = loadParseCache({
+          featuremapDir,
+          projectRoot: scanResult.projectRoot,
+          filePaths: scanResult.files,
+        });
+        const graph = await buildGraph(scanResult, { parseCache });
+
+        const impact = analyzeChangeImpact({
+          changedFiles,
+          dependents: graph.dependents,
+          fileToCluster: buildFileToCluster(featuremapDir, graph, scanResult.config),
+          features: loadFeatures(path.join(featuremapDir, 'features')),
+          maxDepth,
+        });
+
+        if (format === 'json') {
+          console.log(JSON.stringify({ base, ...impact }, null, 2));
+        } else if (format === 'markdown') {
+          console.log(formatMarkdown(base, impact));
+        } else {
+          console.log(formatText(base, impact));
+        }
+      } catch (error) {
+        console.error(`ERROR: ${error instanceof Error ? error.message : 'Diff failed.'}`);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Assigns files to the same cluster IDs a scan would produce. Files that no longer
+ * exist (deleted in the diff) keep the cluster recorded in clusters/*.yaml.
+ */
+function buildFileToCluster(
+  featuremapDir: string,
+  graph: DependencyGraph,
+  config: Config
+): Record<string, string> {
+  const existingClusters = loadExistingClusters(path.join(featuremapDir, 'clusters'));
+  const grouping = groupFiles(graph, {
+    clustering: config.scan.clustering,
+    hints: config.features.hints,
+  });
+  const { clusters } = applyClusterMatching(grouping.clusters, existingClusters);
+
+  const fileToCluster: Record<string, string> = {};
+  for (const cluster of existingClusters) {
+    for (const file of cluster.files) {
+      fileToCluster[file] = cluster.id;
+    }
+  }
+  for (const cluster of clusters) {
+    for (const file of cluster.files) {
+      fileToCluster[file] = cluster.id;
+    }
+  }
+  return fileToCluster;
+}
+
+function parseFormat(value: string): DiffFormat {
+  const format = DIFF_FORMATS.find((entry) => entry === value);
+  if (!format) {
+    console.error(`ERROR: Unknown format "${value}". Use one of: ${DIFF_FORMATS.join(', ')}.`);
+    process.exit(1);
+  }
+  return format;
+}
+
+function parseDepth(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.error('ERROR: --depth must be a non-negative integer.');
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function formatText(base: string, impact: ChangeImpact): string {
+  const lines = [`Changes since ${base}: ${impact.changedFiles.length} files\n`];
+
+  lines.push(`Features touched (${impact.features.length}):`);
+  for (const feature of impact.features) {
+    lines.push(`  - ${feature.name} [${feature.id}] via ${feature.clusters.join(', ')}`);
+  }
+
+  lines.push(`\nClusters touched (${impact.clusters.length}):`);
+  for (const cluster of impact.clusters) {
+    lines.push(`  - ${cluster.id} (${cluster.files.length} files)`);
+    for (const file of cluster.files) {
+      lines.push(`      ${file}`);
+    }
+  }
+
+  lines.push(`\nDownstream (${impact.downstream.files.length} dependent files):`);
+  lines.push(`  Features: ${formatIdList(impact.downstream.features.map((feature) => feature.id))}`);
+  lines.push(`  Clusters: ${formatIdList(impact.downstream.clusters.map((cluster) => cluster.id))}`);
+
+  if (impact.unmappedFiles.length > 0) {
+    lines.push(`\nNot in any cluster (${impact.unmappedFiles.length}):`);
+    for (const file of impact.unmappedFiles) {
+      lines.push(`  - ${file}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatMarkdown(base: string, impact: ChangeImpact): string {
+  const lines = [
+    `### FeatureMap impact (\`${base}...HEAD\`)`,
+    '',
+    `**${impact.changedFiles.length}** changed files, **${impact.clusters.length}** clusters, **${impact.features.length}** features.`,
+    '',
+  ];
+
+  if (impact.features.length > 0) {
+    lines.push('| Feature | Clusters |', '| --- | --- |');
+    for (const feature of impact.features) {
+      lines.push(
+        `| ${escapeCell(feature.name)} (\`${feature.id}\`) | ${formatCodeList(feature.clusters)} |`
+      );
+    }
+    lines.push('');
+  }
+
+  if (impact.clusters.length > 0) {
+    lines.push('| Cluster | Changed files |', '| --- | --- |');
+    for (const cluster of impact.clusters) {
+      lines.push(`| \`${cluster.id}\` | ${cluster.files.length} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push('**Downstream impact**', '');
+  lines.push(`- Features: ${formatCodeList(impact.downstream.features.map((feature) => feature.id))}`);
+  lines.push(`- Clusters: ${formatCodeList(impact.downstream.clusters.map((cluster) => cluster.id))}`);
+  lines.push(`- Dependent files: ${impact.downstream.files.length}`);
+
+  if (impact.unmappedFiles.length > 0) {
+    lines.push(`- Not in any cluster: ${formatCodeList(impact.unmappedFiles)}`);
+  }
+
+  lines.push('', `<details><summary>Changed files (${impact.changedFiles.length})</summary>`, '');
+  for (const file of impact.changedFiles) {
+    lines.push(`- \`${file}\``);
+  }
+  lines.push('', '</details>');
+
+  return lines.join('\n');
+}
+
+function formatIdList(ids: string[]): string {
+  return ids.length > 0 ? ids.join(', ') : '(none)';
+}
+
+function formatCodeList(ids: string[]): string {
+  return ids.length > 0 ? ids.map((id) => `\`${id}\``).join(', ') : '_none_';
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
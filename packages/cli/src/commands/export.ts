@@ -0,0 +1,154 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BUILT_IN_LAYERS, LayerSchema, type Layer } from '../types/index.js';
+import {
+  DIAGRAM_FORMATS,
+  renderDiagram,
+  type DiagramFilters,
+  type DiagramFormat,
+} from '../utils/diagramExport.js';
+import { buildExportMap, type ExportViewMode } from '../utils/mapExport.js';
+import { renderMapHtml, renderMapSvg } from '../utils/mapExportRender.js';
+
+type ExportFormat = 'html' | 'svg' | 'png' | DiagramFormat;
+
+interface ExportOptions {
+  format: string;
+  view: string;
+  out?: string;
+  scale: string;
+  layer?: string;
+  group?: string;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['html', 'svg', 'png', ...DIAGRAM_FORMATS];
+const EXPORT_VIEWS: ExportViewMode[] = ['clusters', 'features'];
+// Optional dependency; resolved at runtime so SVG/HTML export still works where it failed to install.
+const PNG_RENDERER_MODULE = '@resvg/resvg-js';
+
+export function createExportCommand(): Command {
+  const command = new Command('export');
+
+  command
+    .description('Export the map as HTML, SVG/PNG images or Mermaid, DOT and Structurizr diagrams')
+    .option('-f, --format <format>', `Output format: ${EXPORT_FORMATS.join(', ')}`, 'html')
+    .option('--view <view>', 'View to render: clusters or features (html starts on it)', 'clusters')
+    .option('-o, --out <path>', 'Output file (default: featuremap.html, featuremap-<view>.<svg|png>; diagrams print to stdout)')
+    .option('--scale <n>', 'PNG pixel ratio', '2')
+    .option('--layer <layer>', 'Diagram formats: only nodes in this layer')
+    .option('--group <groupId>', 'Diagram formats: only nodes in this group')
+    .action(async (options: ExportOptions) => {
+      const projectRoot = process.cwd();
+      const featuremapDir = path.join(projectRoot, '.featuremap');
+
+      if (!fs.existsSync(featuremapDir)) {
+        console.error('ERROR: .featuremap/ not found. Run "featuremap init" first.');
+        process.exit(1);
+      }
+
+      const format = parseChoice(options.format, EXPORT_FORMATS, 'format');
+      const view = parseChoice(options.view, EXPORT_VIEWS, 'view');
+      const scale = parseScale(options.scale);
+      const filters: DiagramFilters = {
+        ...(options.layer ? { layer: parseLayer(options.layer) } : {}),
+        ...(options.group ? { groupId: options.group } : {}),
+      };
+      if (!isDiagramFormat(format) && (filters.layer || filters.groupId)) {
+        console.error('ERROR: --layer and --group only apply to mermaid, dot and structurizr.');
+        process.exit(1);
+      }
+
+      if (isDiagramFormat(format) && !options.out) {
+        try {
+          process.stdout.write(renderDiagram(buildExportMap(featuremapDir), view, format, filters));
+        } catch (error) {
+          console.error(`ERROR: ${error instanceof Error ? error.message : 'Export failed.'}`);
+          process.exit(1);
+        }
+        return;
+      }
+
+      const outPath = path.resolve(
+        projectRoot,
+        options.out ?? (format === 'html' ? 'featuremap.html' : `featuremap-${view}.${format}`)
+      );
+
+      try {
+        const map = buildExportMap(featuremapDir);
+        if (isDiagramFormat(format)) {
+          fs.writeFileSync(outPath, renderDiagram(map, view, format, filters), 'utf-8');
+        } else if (format === 'html') {
+          fs.writeFileSync(outPath, renderMapHtml(map, view), 'utf-8');
+        } else {
+          const svg = renderMapSvg(map.views[view], `${map.projectName} ${view}`);
+          if (format === 'svg') {
+            fs.writeFileSync(outPath, svg, 'utf-8');
+          } else {
+            fs.writeFileSync(outPath, await renderPng(svg, map.views[view].bounds.width * scale));
+          }
+        }
+
+        const source = isDiagramFormat(format)
+          ? ''
+          : map.layoutSource === 'layout.yaml' ? ' (saved layout)' : ' (default layout)';
+        console.log(`OK Exported ${format.toUpperCase()}${source} to ${path.relative(projectRoot, outPath) || outPath}`);
+      } catch (error) {
+        console.error(`ERROR: ${error instanceof Error ? error.message : 'Export failed.'}`);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+async function renderPng(svg: string, width: number): Promise<Buffer> {
+  type ResvgModule = {
+    Resvg: new (svg: string, options?: unknown) => { render: () => { asPng: () => Buffer } };
+  };
+  let resvg: ResvgModule;
+  try {
+    resvg = (await import(PNG_RENDERER_MODULE)) as ResvgModule;
+  } catch {
+    throw new Error(
+      `PNG export needs ${PNG_RENDERER_MODULE}, which could not be loaded. Reinstall it (npm install ${PNG_RENDERER_MODULE}) or use --format svg.`
+    );
+  }
+  const renderer = new resvg.Resvg(svg, {
+    fitTo: { mode: 'width', value: Math.round(width) },
+    font: { loadSystemFonts: true },
+  });
+  return renderer.render().asPng();
+}
+
+function isDiagramFormat(format: ExportFormat): format is DiagramFormat {
+  return DIAGRAM_FORMATS.some((entry) => entry === format);
+}
+
+function parseChoice<T extends string>(value: string, choices: T[], label: string): T {
+  const choice = choices.find((entry) => entry === value);
+  if (!choice) {
+    console.error(`ERROR: Unknown ${label} "${value}". Use one of: ${choices.join(', ')}.`);
+    process.exit(1);
+  }
+  return choice;
+}
+
+function parseLayer(value: string): Layer | 'all' {
+  if (value !== 'all' && !LayerSchema.safeParse(value).success) {
+    console.error(
+      `ERROR: Invalid layer "${value}". Use "all", a built-in layer (${BUILT_IN_LAYERS.join(', ')}) or a custom one.`
+    );
+    process.exit(1);
+  }
+  return value;
+}
+
+function parseScale(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed > 8) {
+    console.error('ERROR: --scale must be a number between 0 and 8.');
+    process.exit(1);
+  }
+  return parsed;
+}
@@ -0,0 +1,132 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { diffSnapshots, type SnapshotDiff } from '../analyzer/snapshot-diff.js';
+import { listSnapshots, resolveSnapshot, saveSnapshot } from '../utils/snapshots.js';
+
+interface HistoryDiffOptions {
+  json?: boolean;
+}
+
+export function createHistoryCommand(): Command {
+  const command = new Command('history');
+
+  command.description('Save and compare snapshots of the map');
+
+  command
+    .command('list')
+    .description('List saved snapshots')
+    .action(() => {
+      const featuremapDir = requireFeaturemapDir();
+      const snapshots = listSnapshots(featuremapDir);
+      if (snapshots.length === 0) {
+        console.log(
+          'No snapshots saved. Run "featuremap scan --snapshot" or "featuremap history save".'
+        );
+        return;
+      }
+      for (const snapshot of snapshots) {
+        console.log(`  ${snapshot.id}  (${snapshot.createdAt})`);
+      }
+    });
+
+  command
+    .command('save')
+    .description('Save a snapshot of the current graph.yaml, clusters and features')
+    .action(() => {
+      const featuremapDir = requireFeaturemapDir();
+      try {
+        const snapshot = saveSnapshot(featuremapDir);
+        console.log(`OK Saved snapshot ${snapshot.id}`);
+      } catch (error) {
+        console.error(
+          `ERROR: ${error instanceof Error ? error.message : 'Failed to save snapshot.'}`
+        );
+        process.exit(1);
+      }
+    });
+
+  command
+    .command('diff')
+    .description('Compare two snapshots (IDs, unique ID prefixes, "latest" or "current")')
+    .argument('<a>', 'Older snapshot')
+    .argument('[b]', 'Newer snapshot', 'current')
+    .option('--json', 'Print the diff as JSON')
+    .action((a: string, b: string, options: HistoryDiffOptions) => {
+      const featuremapDir = requireFeaturemapDir();
+      try {
+        const diff = diffSnapshots(
+          resolveSnapshot(featuremapDir, a),
+          resolveSnapshot(featuremapDir, b)
+        );
+        if (options.json) {
+          console.log(JSON.stringify(diff, null, 2));
+          return;
+        }
+        printDiff(diff);
+      } catch (error) {
+        console.error(
+          `ERROR: ${error instanceof Error ? error.message : 'Failed to diff snapshots.'}`
+        );
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function requireFeaturemapDir(): string {
+  const featuremapDir = path.join(process.cwd(), '.featuremap');
+  if (!fs.existsSync(featuremapDir)) {
+    console.error('ERROR: .featuremap/ not found. Run "featuremap init" first.');
+    process.exit(1);
+  }
+  return featuremapDir;
+}
+
+function printDiff(diff: SnapshotDiff): void {
+  console.log(`Comparing ${diff.from.id} -> ${diff.to.id}\n`);
+
+  console.log('Clusters:');
+  printList('+', diff.clusters.added);
+  printList('-', diff.clusters.removed);
+  for (const rename of diff.clusters.renamed) {
+    const overlap = Math.round(rename.overlap * 100);
+    console.log(`  ~ ${rename.from} -> ${rename.to} (${overlap}% file overlap)`);
+  }
+  printEmpty(
+    diff.clusters.added.length + diff.clusters.removed.length + diff.clusters.renamed.length
+  );
+
+  console.log('\nEdges:');
+  printList('+', diff.edges.added.map(formatEdge));
+  printList('-', diff.edges.removed.map(formatEdge));
+  printEmpty(diff.edges.added.length + diff.edges.removed.length);
+
+  console.log('\nFeatures:');
+  printList('+', diff.features.added);
+  printList('-', diff.features.removed);
+  for (const change of diff.features.changed) {
+    console.log(`  ~ ${change.id} (composition changed)`);
+  }
+  printEmpty(
+    diff.features.added.length + diff.features.removed.length + diff.features.changed.length
+  );
+}
+
+function printList(marker: string, values: string[]): void {
+  for (const value of values) {
+    console.log(`  ${marker} ${value}`);
+  }
+}
+
+function printEmpty(count: number): void {
+  if (count === 0) {
+    console.log('  (no changes)');
+  }
+}
+
+function formatEdge(edge: SnapshotDiff['edges']['added'][number]): string {
+  const type = edge.type ? ` [${edge.type}]` : '';
+  return `${edge.source} -> ${edge.target}${type}`;
+}
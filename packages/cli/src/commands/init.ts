@@ -25,6 +25,11 @@ const DEFAULT_EXCLUDES = [
   '**/*.d.ts',
   '**/*_test.go',
   '**/testdata/**',
+  '**/test_*.py',
+  '**/*_test.py',
+  '**/__pycache__/**',
+  '**/.venv/**',
+  '**/venv/**',
 ];
 
 const DEFAULT_CONFIG_TEMPLATE = `version: ${SUPPORTED_VERSIONS.config}
@@ -37,6 +42,7 @@ scan:
   # TypeScript:  "src/**/*.{ts,tsx}"
   # JavaScript:  "src/**/*.{js,jsx}"
   # Go:          "**/*.go"
+  # Python:      "**/*.py"
   # Monorepo:    "packages/*/src/**/*.{ts,tsx}"
   include: []
 
@@ -50,9 +56,43 @@ scan:
     - "**/*.d.ts"
     - "**/*_test.go"
     - "**/testdata/**"
+    - "**/test_*.py"
+    - "**/*_test.py"
+    - "**/__pycache__/**"
+    - "**/.venv/**"
+    - "**/venv/**"
+
+  # Optional clustering strategy (defaults to folders):
+  #   folders:      packages/<pkg>/src/<a>/<b> folder heuristic
+  #   folder-depth: first <depth> directories, e.g. { strategy: folder-depth, depth: 3 }
+  #   community:    tightly coupled files by dependency graph, wherever they live
+  # clustering:
+  #   strategy: folders
 
 features:
+  # Optional grouping hints. Patterns are globs relative to project.root.
+  #   cluster: force matching files into this cluster (hints sharing an ID merge folders)
+  #   layer:   pre-assign frontend | backend | shared | infrastructure | fullstack
+  #   type:    feature type reported to AI grouping
+  # Example:
+  #   - pattern: "src/features/auth/**"
+  #     cluster: "auth"
+  #     layer: "backend"
+  #     type: "authentication"
   hints: []
+
+# Optional layer detection rules (merged with the built-in signals):
+#   signals:   per layer; imports/importPrefixes match packages, paths match folder
+#              segments, fileNamePrefixes match file names. New names add custom layers.
+#   overrides: first pattern matching every file of a cluster sets its layer.
+# layers:
+#   signals:
+#     data:
+#       imports: ["prisma", "drizzle-orm"]
+#       paths: ["db", "migrations"]
+#   overrides:
+#     - pattern: "packages/cli/"
+#       layer: "backend"
 `;
 
 const MCP_TIMEOUT_MS = 3000;
@@ -216,18 +256,19 @@ function writeTemplateFile(filePath: string, content: string, label: string): vo
 
 function updateGitignore(projectRoot: string): void {
   const gitignorePath = path.join(projectRoot, '.gitignore');
-  const gitignoreEntry = '\n# FeatureMap cache\n.featuremap/raw-graph.yaml\n';
+  const ignoredPaths = ['.featuremap/raw-graph.yaml', '.featuremap/cache/'];
 
   if (!fs.existsSync(gitignorePath)) {
     return;
   }
 
   const gitignoreContent = fs.readFileSync(gitignorePath, 'utf-8');
-  if (gitignoreContent.includes('.featuremap/raw-graph.yaml')) {
+  const missingPaths = ignoredPaths.filter((entry) => !gitignoreContent.includes(entry));
+  if (missingPaths.length === 0) {
     return;
   }
 
-  fs.appendFileSync(gitignorePath, gitignoreEntry);
+  fs.appendFileSync(gitignorePath, `\n# FeatureMap cache\n${missingPaths.join('\n')}\n`);
   console.log('OK Updated .gitignore');
 }
 
@@ -253,15 +294,20 @@ function formatFolderSummary(folder: FolderInfo): string {
     )
   );
   const hasJsTs = counts.ts + counts.tsx + counts.js + counts.jsx > 0 || hasFrontendMarkers;
-  const hasScripts = counts.py + counts.sh + counts.ps1 + counts.bat > 0;
+  const hasPython =
+    counts.py > 0 &&
+    (markersLower.includes('pyproject.toml') || counts.py >= counts.sh + counts.ps1 + counts.bat);
+  const hasScripts = counts.sh + counts.ps1 + counts.bat > 0;
 
   let label = 'Other';
   if (hasGo) {
     label = 'Go project';
   } else if (hasJsTs) {
     label = counts.tsx > 0 ? 'TypeScript/React' : 'TypeScript/JavaScript';
+  } else if (hasPython) {
+    label = 'Python project';
   } else if (hasScripts) {
-    label = 'Shell/Python';
+    label = 'Shell scripts';
   }
 
   let countLabel = `~${folder.fileCount} files`;
@@ -277,6 +323,9 @@ function formatFolderSummary(folder: FolderInfo): string {
     const extLabel = tsCount > 0 ? '.ts/.tsx' : '.js/.jsx';
     countLabel = `~${total} ${extLabel} files`;
     supportedSuffix = '';
+  } else if (hasPython) {
+    countLabel = `~${counts.py} .py files`;
+    supportedSuffix = '';
   }
 
   return `${normalizedPath}/ - ${label}${markerLabel}, ${countLabel}${supportedSuffix}`;
@@ -366,6 +415,11 @@ function deriveIncludePatterns(structure: ProjectStructure): string[] {
     includes.add('**/*.go');
   }
 
+  const pythonCount = rootFolder?.extensions['.py'] ?? 0;
+  if (pythonCount > 0) {
+    includes.add('**/*.py');
+  }
+
   return [...includes].sort((a, b) => a.localeCompare(b));
 }
 
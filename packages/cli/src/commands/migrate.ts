@@ -0,0 +1,180 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import fg from 'fast-glob';
+import * as yaml from 'yaml';
+import type { FileType } from '../constants/versions.js';
+import { getSchemaForFile, type SchemaTarget } from '../utils/file-schemas.js';
+import {
+  MIGRATIONS,
+  migrateData,
+  type MigrationResult,
+  type MigrationStep,
+} from '../utils/migrations.js';
+import { buildErrorMessage, saveYAML } from '../utils/yaml-loader.js';
+
+export interface MigrateOptions {
+  dryRun?: boolean;
+  backup: boolean;
+}
+
+/** Backups go under the cache directory, which `featuremap init` adds to .gitignore. */
+const BACKUP_PARENT_DIR = 'cache';
+const BACKUP_DIR_PREFIX = 'migrate-backup-';
+
+interface PlannedMigration {
+  file: string;
+  result: MigrationResult;
+  target: SchemaTarget;
+  /** Migrated content, already validated against the file's schema. */
+  data: unknown;
+}
+
+export function createMigrateCommand(): Command {
+  const command = new Command('migrate');
+
+  command
+    .description('Upgrade .featuremap/ files to the schema versions this CLI supports')
+    .option('--dry-run', 'Show which files would be upgraded without writing them')
+    .option('--no-backup', 'Do not copy .featuremap/ aside before writing')
+    .action((options: MigrateOptions) => {
+      const projectRoot = process.cwd();
+      const featuremapDir = path.join(projectRoot, '.featuremap');
+
+      if (!fs.existsSync(featuremapDir)) {
+        console.error('ERROR: .featuremap/ not found. Run "featuremap init" first.');
+        process.exit(1);
+      }
+
+      if (!runMigrations(featuremapDir, options)) {
+        process.exitCode = 1;
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Migrates every outdated file in `featuremapDir` with the given registry and prints a
+ * report. All files are migrated and validated in memory first; if any fails, nothing is
+ * written and false is returned.
+ */
+export function runMigrations(
+  featuremapDir: string,
+  options: MigrateOptions,
+  migrations: Record<FileType, MigrationStep[]> = MIGRATIONS
+): boolean {
+  const files = fg
+    .sync('**/*.yaml', { cwd: featuremapDir, onlyFiles: true, ignore: [`${BACKUP_PARENT_DIR}/**`] })
+    .sort((a, b) => a.localeCompare(b));
+  const planned: PlannedMigration[] = [];
+  const failures: Array<{ file: string; message: string }> = [];
+
+  for (const file of files) {
+    const target = getSchemaForFile(file);
+    if (!target) {
+      continue;
+    }
+    try {
+      const migration = prepareMigration(path.join(featuremapDir, file), file, target, migrations);
+      if (migration) {
+        planned.push(migration);
+      }
+    } catch (error) {
+      failures.push({
+        file,
+        message: error instanceof Error ? error.message : 'Migration failed.',
+      });
+    }
+  }
+
+  if (planned.length === 0 && failures.length === 0) {
+    console.log('OK All .featuremap/ files are up to date');
+    return true;
+  }
+
+  for (const { file, result } of planned) {
+    console.log(`  ${file}: v${result.fromVersion} -> v${result.toVersion}`);
+    for (const description of result.applied) {
+      console.log(`    - ${description}`);
+    }
+  }
+  for (const failure of failures) {
+    console.log(`  ✗ ${failure.file}`);
+    for (const line of failure.message.split('\n').filter(Boolean)) {
+      console.log(`    ${line.startsWith('- ') ? line : `- ${line}`}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    const failureSuffix = failures.length === 1 ? '' : 's';
+    console.log(
+      `\n✗ ${failures.length} file${failureSuffix} could not be migrated; nothing was written.`
+    );
+    return false;
+  }
+
+  const fileCount = `${planned.length} file${planned.length === 1 ? '' : 's'}`;
+  if (options.dryRun) {
+    console.log(`\nDry run: ${fileCount} would be migrated, nothing was written.`);
+    return true;
+  }
+
+  if (options.backup) {
+    const backupDir = backupFeaturemapDir(featuremapDir);
+    const backupPath = path.relative(path.dirname(featuremapDir), backupDir).replace(/\\/g, '/');
+    console.log(`\nOK Backed up .featuremap/ to ${backupPath}/`);
+  }
+  for (const { file, target, data } of planned) {
+    saveYAML(path.join(featuremapDir, file), data, target.schema, {
+      sortArrayFields: target.sortArrayFields,
+    });
+  }
+  console.log(`OK Migrated ${fileCount}`);
+  return true;
+}
+
+/** Copies `.featuremap/` (without the cache) to `cache/migrate-backup-<timestamp>/`. */
+function backupFeaturemapDir(featuremapDir: string): string {
+  const backupDir = path.join(
+    featuremapDir,
+    BACKUP_PARENT_DIR,
+    `${BACKUP_DIR_PREFIX}${new Date().toISOString().replace(/[:.]/g, '-')}`
+  );
+  // Copied entry by entry: cpSync refuses to copy a directory into itself.
+  for (const entry of fs.readdirSync(featuremapDir)) {
+    if (entry === BACKUP_PARENT_DIR) {
+      continue;
+    }
+    fs.cpSync(path.join(featuremapDir, entry), path.join(backupDir, entry), { recursive: true });
+  }
+  return backupDir;
+}
+
+/**
+ * Migrates one file in memory and validates the result against its schema, so a broken
+ * step never reaches the disk. Returns null when the file is current.
+ */
+function prepareMigration(
+  filePath: string,
+  file: string,
+  target: SchemaTarget,
+  migrations: Record<FileType, MigrationStep[]>
+): PlannedMigration | null {
+  const result = migrateData(
+    target.fileType,
+    yaml.parse(fs.readFileSync(filePath, 'utf-8')),
+    file,
+    migrations
+  );
+  if (!result) {
+    return null;
+  }
+
+  const parsed = target.schema.safeParse(result.data);
+  if (!parsed.success) {
+    throw new Error(buildErrorMessage(file, parsed.error));
+  }
+
+  return { file, result, target, data: parsed.data };
+}
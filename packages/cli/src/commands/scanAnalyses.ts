@@ -0,0 +1,190 @@
+import * as path from 'path';
+import type { ExistingClusterInfo } from '../analyzer/cluster-loader.js';
+import {
+  detectTestCoverage,
+  findTestFiles,
+  loadLineCoverage,
+  mapTestFiles,
+} from '../analyzer/coverage-mapper.js';
+import { detectCycles } from '../analyzer/cycle-detector.js';
+import { detectDeadCode, findPackageEntryFiles } from '../analyzer/dead-code.js';
+import type { DependencyGraph } from '../analyzer/graph.js';
+import type { Cluster as FolderCluster } from '../analyzer/grouper.js';
+import { DEFAULT_HOTSPOTS_SINCE, detectHotspots } from '../analyzer/hotspots.js';
+import { buildFeatureUnits, detectMetrics, type MetricsUnit } from '../analyzer/metrics.js';
+import { detectOwnership, loadCodeowners } from '../analyzer/ownership.js';
+import type { ScanResult } from '../analyzer/scanner.js';
+import {
+  CyclesSchema,
+  DeadCodeSchema,
+  HotspotsSchema,
+  MetricsSchema,
+  OwnershipSchema,
+  TestCoverageSchema,
+} from '../types/index.js';
+import {
+  loadFeatureClusters,
+  loadFeatureDependencies,
+  saveAutoContext,
+} from '../utils/contextUtils.js';
+import { getCommitStats, getFileAuthors, type CommitStats } from '../utils/git.js';
+import type { ScanLogger } from './scanPipeline.js';
+
+export interface ScanAnalysisContext {
+  projectRoot: string;
+  featuremapDir: string;
+  scanResult: ScanResult;
+  graph: DependencyGraph;
+  clusters: FolderCluster[];
+  /** Clusters as saved before this scan; their entry points are dead-code roots. */
+  existingClusters: ExistingClusterInfo[];
+  packageJsonPaths: string[];
+  logger: ScanLogger;
+}
+
+/** Context plus the cluster/feature dependencies and feature units the analyses share. */
+export interface ScanAnalysisInputs extends ScanAnalysisContext {
+  clusterDependencies: Record<string, string[]>;
+  featureDependencies: Record<string, string[]>;
+  featureUnits: MetricsUnit[];
+}
+
+/** Which context files changed; feeds the watch-mode broadcasts. */
+export interface ScanAnalysesResult {
+  cyclesUpdated: boolean;
+  metricsUpdated: boolean;
+  deadCodeUpdated: boolean;
+  ownershipUpdated: boolean;
+  hotspotsUpdated: boolean;
+  testCoverageUpdated: boolean;
+}
+
+/** Runs the graph analyses after clusters are saved and writes their context files. */
+export async function runScanAnalyses(context: ScanAnalysisContext): Promise<ScanAnalysesResult> {
+  const inputs = buildScanAnalysisInputs(context);
+  return {
+    cyclesUpdated: saveCycles(inputs),
+    metricsUpdated: saveMetrics(inputs),
+    deadCodeUpdated: saveDeadCode(inputs),
+    ownershipUpdated: saveOwnership(inputs),
+    hotspotsUpdated: saveHotspots(inputs),
+    testCoverageUpdated: await saveTestCoverage(inputs),
+  };
+}
+
+export function buildScanAnalysisInputs(context: ScanAnalysisContext): ScanAnalysisInputs {
+  return {
+    ...context,
+    clusterDependencies: Object.fromEntries(
+      context.clusters.map((cluster) => [cluster.id, cluster.externalDependencies])
+    ),
+    featureDependencies: loadFeatureDependencies(context.featuremapDir),
+    featureUnits: buildFeatureUnits(loadFeatureClusters(context.featuremapDir), context.clusters),
+  };
+}
+
+export function saveCycles(inputs: ScanAnalysisInputs): boolean {
+  const cycles = detectCycles({
+    fileDependencies: inputs.graph.dependencies,
+    clusterDependencies: inputs.clusterDependencies,
+    featureDependencies: inputs.featureDependencies,
+  });
+  const cycleCount = cycles.files.length + cycles.clusters.length + cycles.features.length;
+  if (cycleCount > 0) {
+    inputs.logger.warn(
+      `  WARN Dependency cycles: ${cycles.files.length} file, ${cycles.clusters.length} cluster, ${cycles.features.length} feature (see context/cycles.yaml)`
+    );
+  }
+  return saveAutoContext(contextPath(inputs, 'cycles.yaml'), cycles, CyclesSchema);
+}
+
+export function saveMetrics(inputs: ScanAnalysisInputs): boolean {
+  const metrics = detectMetrics({
+    graph: inputs.graph,
+    clusters: inputs.clusters,
+    features: inputs.featureUnits,
+  });
+  return saveAutoContext(contextPath(inputs, 'metrics.yaml'), metrics, MetricsSchema);
+}
+
+export function saveDeadCode(inputs: ScanAnalysisInputs): boolean {
+  const { graph, scanResult } = inputs;
+  const deadCode = detectDeadCode({
+    graph,
+    clusters: inputs.clusters,
+    roots: [
+      ...inputs.existingClusters.flatMap((cluster) => cluster.entryPoints ?? []),
+      ...findPackageEntryFiles(inputs.packageJsonPaths, scanResult.projectRoot, graph),
+    ],
+  });
+  return saveAutoContext(contextPath(inputs, 'dead-code.yaml'), deadCode, DeadCodeSchema);
+}
+
+export function saveOwnership(inputs: ScanAnalysisInputs): boolean {
+  const { projectRoot, scanResult } = inputs;
+  const ownershipConfig = scanResult.config.ownership;
+  let authorsByFile: Map<string, Map<string, number>> | undefined;
+  if (ownershipConfig?.gitAuthors) {
+    try {
+      authorsByFile = getFileAuthors(scanResult.projectRoot, ownershipConfig.since);
+    } catch (error) {
+      inputs.logger.warn(
+        `  WARN Skipped git authors: ${error instanceof Error ? error.message : 'git log failed'}`
+      );
+    }
+  }
+  const ownership = detectOwnership({
+    projectRoot,
+    scanRoot: scanResult.projectRoot,
+    clusters: inputs.clusters,
+    features: inputs.featureUnits,
+    codeowners: loadCodeowners(projectRoot),
+    authorsByFile,
+  });
+  return saveAutoContext(contextPath(inputs, 'ownership.yaml'), ownership, OwnershipSchema);
+}
+
+/** Skipped (returns false) outside a git repository. */
+export function saveHotspots(inputs: ScanAnalysisInputs): boolean {
+  const hotspotsConfig = inputs.scanResult.config.hotspots;
+  const since = hotspotsConfig?.since ?? DEFAULT_HOTSPOTS_SINCE;
+  let commits: CommitStats[];
+  try {
+    commits = getCommitStats(inputs.scanResult.projectRoot, since);
+  } catch (error) {
+    inputs.logger.warn(
+      `  WARN Skipped hotspots: ${error instanceof Error ? error.message : 'git log failed'}`
+    );
+    return false;
+  }
+  const hotspots = detectHotspots({
+    graph: inputs.graph,
+    clusters: inputs.clusters,
+    features: inputs.featureUnits,
+    commits,
+    since,
+    clusterDependencies: inputs.clusterDependencies,
+    featureDependencies: inputs.featureDependencies,
+    minCoChanges: hotspotsConfig?.minCoChanges,
+  });
+  return saveAutoContext(contextPath(inputs, 'hotspots.yaml'), hotspots, HotspotsSchema);
+}
+
+export async function saveTestCoverage(inputs: ScanAnalysisInputs): Promise<boolean> {
+  const { graph, scanResult } = inputs;
+  const testCoverage = detectTestCoverage({
+    clusters: inputs.clusters,
+    features: inputs.featureUnits,
+    testDependencies: await mapTestFiles(scanResult, graph, findTestFiles(scanResult.projectRoot)),
+    lineCoverage: loadLineCoverage(inputs.projectRoot, scanResult.projectRoot, graph),
+  });
+  return saveAutoContext(
+    contextPath(inputs, 'test-coverage.yaml'),
+    testCoverage,
+    TestCoverageSchema
+  );
+}
+
+function contextPath(inputs: ScanAnalysisContext, fileName: string): string {
+  return path.join(inputs.featuremapDir, 'context', fileName);
+}
@@ -1,30 +1,53 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import type { ExistingClusterInfo } from '../analyzer/cluster-loader.js';
 import type { DependencyGraph } from '../analyzer/graph.js';
 import type { Cluster as FolderCluster } from '../analyzer/grouper.js';
 import {
+  BUILT_IN_LAYERS,
   ClusterSchema,
   LayoutSchema,
   type Cluster as ClusterFile,
+  type CodeMetrics,
   type Layer,
+  type LayersConfig,
 } from '../types/index.js';
 import { loadYAML, saveYAML } from '../utils/yaml-loader.js';
-import { areClustersEquivalent, buildUpdatedMetadata } from '../utils/scanCompare.js';
+import {
+  areClustersEquivalent,
+  areMetricsEquivalent,
+  buildUpdatedMetadata,
+} from '../utils/scanCompare.js';
 import { buildClusterFile } from '../utils/cluster-builder.js';
+import { generateCompositionHash } from '../utils/composition-hash.js';
 import { buildDefaultLayout } from '../utils/layout-builder.js';
 
 export interface ClusterSaveResult {
   created: number;
-  layerSummary: Record<Layer, string[]>;
+  skipped: number;
+  updatedIds: string[];
+  layerSummary: Record<string, string[]>;
+}
+
+export interface ClusterSaveOptions {
+  /** Clusters that must be rebuilt; others keep their file on disk. Null rebuilds all. */
+  changedClusterIds?: Set<string> | null;
+  /** Cluster metrics; they depend on other clusters, so a change here forces a rewrite. */
+  metricsById?: Map<string, CodeMetrics>;
+  /** config.yaml `layers`, passed through to layer detection. */
+  layers?: LayersConfig;
 }
 
-export function migrateLegacyClusters(featuremapDir: string): void {
+export function migrateLegacyClusters(
+  featuremapDir: string,
+  log: (message: string) => void = console.log
+): void {
   const legacyFeaturesDir = path.join(featuremapDir, 'features');
   const clustersDir = path.join(featuremapDir, 'clusters');
 
   if (fs.existsSync(legacyFeaturesDir) && !fs.existsSync(clustersDir)) {
     fs.renameSync(legacyFeaturesDir, clustersDir);
-    console.log('  OK Migrated features/ to clusters/');
+    log('  OK Migrated features/ to clusters/');
   }
 }
 
@@ -34,21 +57,68 @@ export function ensureDirectory(dirPath: string): void {
   }
 }
 
+/**
+ * Finds clusters whose composition, file contents or resolved imports changed since the
+ * previous scan. Returns null when the changed file set is unknown.
+ */
+export function findChangedClusterIds(
+  clusters: FolderCluster[],
+  existingClusters: ExistingClusterInfo[],
+  graph: DependencyGraph,
+  changedFiles: Set<string> | null
+): Set<string> | null {
+  if (!changedFiles) {
+    return null;
+  }
+
+  const existingHashes = new Map(
+    existingClusters.map((cluster) => [cluster.id, cluster.compositionHash])
+  );
+  const fileToCluster = new Map<string, string>();
+  const recomposed = new Set<string>();
+
+  for (const cluster of clusters) {
+    for (const file of cluster.files) {
+      fileToCluster.set(file, cluster.id);
+    }
+    if (existingHashes.get(cluster.id) !== generateCompositionHash(cluster.files)) {
+      recomposed.add(cluster.id);
+    }
+  }
+
+  const changed = new Set(recomposed);
+  for (const cluster of clusters) {
+    if (changed.has(cluster.id)) {
+      continue;
+    }
+    const touched = cluster.files.some(
+      (file) =>
+        changedFiles.has(file) ||
+        (graph.dependencies[file] ?? []).some((target) =>
+          recomposed.has(fileToCluster.get(target) ?? '')
+        )
+    );
+    if (touched) {
+      changed.add(cluster.id);
+    }
+  }
+
+  return changed;
+}
+
 export function saveClusters(
   featuremapDir: string,
   clusters: FolderCluster[],
-  graph: DependencyGraph
+  graph: DependencyGraph,
+  options: ClusterSaveOptions = {}
 ): ClusterSaveResult {
   const clustersDir = path.join(featuremapDir, 'clusters');
   let created = 0;
-  const layerSummary: Record<Layer, string[]> = {
-    frontend: [],
-    backend: [],
-    fullstack: [],
-    shared: [],
-    infrastructure: [],
-    smell: [],
-  };
+  let skipped = 0;
+  const updatedIds: string[] = [];
+  const layerSummary: Record<string, string[]> = Object.fromEntries(
+    BUILT_IN_LAYERS.map((layer) => [layer, []])
+  );
 
   for (const cluster of clusters) {
     const clusterFile = path.join(clustersDir, `${cluster.id}.yaml`);
@@ -70,18 +140,32 @@ export function saveClusters(
       }
     }
 
+    const metrics = options.metricsById?.get(cluster.id);
+    if (
+      existing &&
+      !versionInjected &&
+      options.changedClusterIds?.has(cluster.id) === false &&
+      areMetricsEquivalent(existing.metrics, metrics)
+    ) {
+      (layerSummary[existing.layer] ??= []).push(existing.id);
+      skipped++;
+      continue;
+    }
+
     const baseMetadata = existing?.metadata ?? buildUpdatedMetadata(undefined);
     const nextCluster = buildClusterFile(cluster, graph, {
       metadata: baseMetadata,
       version: existing?.version,
       purpose_hint: existing?.purpose_hint,
       entry_points: existing?.entry_points,
+      metrics,
       existingCluster: existing,
+      layers: options.layers,
     });
     const contentChanged = !existing || !areClustersEquivalent(existing, nextCluster);
     const shouldWrite = contentChanged || versionInjected;
 
-    layerSummary[nextCluster.layer].push(nextCluster.id);
+    (layerSummary[nextCluster.layer] ??= []).push(nextCluster.id);
 
     if (!shouldWrite) {
       continue;
@@ -97,6 +181,7 @@ export function saveClusters(
       sortArrayFields: ['files', 'exports', 'entry_points', 'internal', 'external'],
     });
 
+    updatedIds.push(nextCluster.id);
     if (isNewCluster) {
       created++;
     }
@@ -106,10 +191,14 @@ export function saveClusters(
     layerSummary[layer].sort((a, b) => a.localeCompare(b));
   }
 
-  return { created, layerSummary };
+  return { created, skipped, updatedIds, layerSummary };
 }
 
-export function ensureLayout(featuremapDir: string, clusters: FolderCluster[]): void {
+export function ensureLayout(
+  featuremapDir: string,
+  clusters: FolderCluster[],
+  log: (message: string) => void = console.log
+): void {
   const layoutPath = path.join(featuremapDir, 'layout.yaml');
   if (fs.existsSync(layoutPath)) {
     try {
@@ -131,11 +220,14 @@ export function ensureLayout(featuremapDir: string, clusters: FolderCluster[]):
   );
   const layout = buildDefaultLayout(nodeIds, edges);
   saveYAML(layoutPath, layout, LayoutSchema);
-  console.log('  OK Generated layout.yaml');
+  log('  OK Generated layout.yaml');
 }
 
-export function printLayerSummary(layerSummary: Record<Layer, string[]>): void {
-  console.log('\nLayer distribution:');
+export function printLayerSummary(
+  layerSummary: Record<string, string[]>,
+  log: (message: string) => void = console.log
+): void {
+  log('\nLayer distribution:');
   const order: Layer[] = [
     'frontend',
     'backend',
@@ -143,15 +235,18 @@ export function printLayerSummary(layerSummary: Record<Layer, string[]>): void {
     'shared',
     'infrastructure',
     'smell',
+    ...Object.keys(layerSummary)
+      .filter((layer) => !(BUILT_IN_LAYERS as readonly string[]).includes(layer))
+      .sort((a, b) => a.localeCompare(b)),
   ];
 
   for (const layer of order) {
     const clusters = layerSummary[layer];
     if (!clusters || clusters.length === 0) {
-      console.log(`  - ${layer}: 0 clusters`);
+      log(`  - ${layer}: 0 clusters`);
       continue;
     }
-    console.log(`  - ${layer}: ${clusters.length} clusters (${clusters.join(', ')})`);
+    log(`  - ${layer}: ${clusters.length} clusters (${clusters.join(', ')})`);
   }
-  console.log('');
+  log('');
 }
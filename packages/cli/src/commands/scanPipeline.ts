@@ -0,0 +1,282 @@
+import * as path from 'path';
+import { buildGraph, getGraphStats } from '../analyzer/graph.js';
+import { groupFiles } from '../analyzer/clustering.js';
+import type { Cluster as FolderCluster } from '../analyzer/grouper.js';
+import { detectStatistics } from '../analyzer/statistics-detector.js';
+import { detectStructureContext } from '../analyzer/structure-detector.js';
+import { detectTesting } from '../analyzer/testing-detector.js';
+import { detectConventions } from '../analyzer/conventions-detector.js';
+import { detectTechStack } from '../analyzer/tech-stack-detector.js';
+import { detectRunCommands } from '../analyzer/run-commands-detector.js';
+import { loadExistingClusters } from '../analyzer/cluster-loader.js';
+import { computeUnitMetrics } from '../analyzer/metrics.js';
+import { applyClusterMatching } from '../analyzer/cluster-id-matching.js';
+import { hashFileContent, loadParseCache } from '../analyzer/parse-cache.js';
+import { loadConfig, scanProject } from '../analyzer/scanner.js';
+import { scanProjectStructure } from '../analyzer/structure-scanner.js';
+import {
+  ConventionsSchema,
+  RunCommandsSchema,
+  StatisticsSchema,
+  StructureSchema,
+  TestingSchema,
+  TechStackSchema,
+} from '../types/index.js';
+import {
+  buildConventionsInput,
+  countFeatureFiles,
+  findGoModPaths,
+  findPackageJsonPaths,
+  saveAutoContext,
+} from '../utils/contextUtils.js';
+import { saveGraphYaml } from '../utils/graphYaml.js';
+import { saveRawGraphYaml } from '../utils/rawGraphYaml.js';
+import {
+  ensureDirectory,
+  ensureLayout,
+  findChangedClusterIds,
+  migrateLegacyClusters,
+  printLayerSummary,
+  saveClusters,
+} from './scanHelpers.js';
+import { runScanAnalyses, type ScanAnalysesResult } from './scanAnalyses.js';
+
+export interface ScanLogger {
+  log: (message: string) => void;
+  warn: (message: string) => void;
+}
+
+export interface ScanPipelineOptions {
+  projectRoot: string;
+  featuremapDir: string;
+  useCache: boolean;
+  logger?: ScanLogger;
+}
+
+export interface ScanPipelineResult extends ScanAnalysesResult {
+  clusters: FolderCluster[];
+  updatedClusterIds: string[];
+  /** TypeScript, Go and Python files parsed. */
+  filesScanned: number;
+  dependenciesCount: number;
+  /** Cluster ids per layer, sorted. */
+  layerSummary: Record<string, string[]>;
+  /** Previously saved clusters that no longer match any group of files. */
+  orphanedClusterIds: string[];
+  graphUpdated: boolean;
+  rawGraphUpdated: boolean;
+}
+
+const consoleLogger: ScanLogger = {
+  log: (message) => console.log(message),
+  warn: (message) => console.warn(message),
+};
+
+/**
+ * Runs the full scan: graph, clusters, graph.yaml and auto context.
+ * Shared by `featuremap scan` and watch mode.
+ */
+export async function runScanPipeline(options: ScanPipelineOptions): Promise<ScanPipelineResult> {
+  const { projectRoot, featuremapDir } = options;
+  const logger = options.logger ?? consoleLogger;
+
+  migrateLegacyClusters(featuremapDir, logger.log);
+  ensureDirectory(path.join(featuremapDir, 'clusters'));
+  ensureDirectory(path.join(featuremapDir, 'features'));
+  ensureDirectory(path.join(featuremapDir, 'context'));
+
+  const config = loadConfig(path.join(featuremapDir, 'config.yaml'));
+  if (config.scan.include.length === 0) {
+    throw new Error('No include patterns in config.');
+  }
+
+  const scanResult = await scanProject(projectRoot);
+  const tsCount = scanResult.files.length;
+  const goCount = scanResult.goFiles?.length ?? 0;
+  const pythonCount = scanResult.pythonFiles?.length ?? 0;
+  const totalScannedFiles = tsCount + goCount + pythonCount;
+
+  if (goCount > 0 || pythonCount > 0) {
+    logger.log(`  OK Found ${tsCount} TypeScript files`);
+    if (goCount > 0) {
+      logger.log(`  OK Found ${goCount} Go files`);
+    }
+    if (pythonCount > 0) {
+      logger.log(`  OK Found ${pythonCount} Python files`);
+    }
+  } else {
+    logger.log(`  OK Found ${tsCount} files`);
+  }
+
+  if (totalScannedFiles < 5) {
+    const structure = await scanProjectStructure(projectRoot);
+    const projectHasMoreFiles = structure.totalFiles > totalScannedFiles;
+    if (projectHasMoreFiles) {
+      logger.warn(`WARNING: Only found ${totalScannedFiles} files.`);
+      logger.warn('Your config.scan.include patterns might be too restrictive.');
+      logger.warn('Config format changed. Run "featuremap init" to regenerate.');
+    }
+  }
+
+  const packageJsonPaths = findPackageJsonPaths(projectRoot);
+  const goModPaths = findGoModPaths(projectRoot);
+  const techStack = detectTechStack({
+    rootDir: projectRoot,
+    packageJsonPaths,
+    goModPaths,
+  });
+  saveAutoContext(
+    path.join(featuremapDir, 'context', 'tech-stack.yaml'),
+    techStack,
+    TechStackSchema
+  );
+  const structure = detectStructureContext({
+    projectRoot,
+    packageJsonPaths,
+    goModPaths,
+  });
+  saveAutoContext(
+    path.join(featuremapDir, 'context', 'structure.yaml'),
+    structure,
+    StructureSchema
+  );
+  const testing = detectTesting({ projectRoot, packageJsonPaths });
+  saveAutoContext(
+    path.join(featuremapDir, 'context', 'testing.yaml'),
+    testing,
+    TestingSchema
+  );
+  const runCommands = detectRunCommands({
+    projectRoot,
+    packageJsonPaths,
+    goModPaths,
+  });
+  saveAutoContext(
+    path.join(featuremapDir, 'context', 'run-commands.yaml'),
+    runCommands,
+    RunCommandsSchema
+  );
+
+  const parseCache = options.useCache
+    ? loadParseCache({
+        featuremapDir,
+        projectRoot: scanResult.projectRoot,
+        filePaths: scanResult.files,
+        groupingKey: hashFileContent(
+          JSON.stringify({
+            clustering: config.scan.clustering,
+            hints: config.features.hints,
+            layers: config.layers,
+          })
+        ),
+      })
+    : undefined;
+  const graph = await buildGraph(scanResult, { parseCache });
+  const graphStats = getGraphStats(graph);
+  logger.log(`  OK Built dependency graph (${graphStats.totalDependencies} dependencies)`);
+  if (parseCache) {
+    const cacheStats = parseCache.getStats();
+    logger.log(`  INFO Parse cache: ${cacheStats.reused} reused, ${cacheStats.parsed} parsed`);
+  }
+
+  const existingClusters = loadExistingClusters(path.join(featuremapDir, 'clusters'));
+  const grouping = groupFiles(graph, {
+    clustering: config.scan.clustering,
+    hints: config.features.hints,
+  });
+  const matching = applyClusterMatching(grouping.clusters, existingClusters);
+  const clusters = matching.clusters;
+  logger.log(`  OK Identified ${clusters.length} clusters`);
+
+  if (existingClusters.length > 0) {
+    const stableCount = matching.matchedIds.size;
+    const newCount = clusters.length - stableCount;
+    logger.log(`  INFO ${stableCount} clusters matched, ${newCount} new`);
+  }
+
+  for (const match of matching.matches) {
+    const confidence = Math.round(match.confidence * 100);
+    logger.log(
+      `  INFO Cluster "${match.suggestedId}" matched to existing "${match.matchedId}" (${confidence}% overlap)`
+    );
+  }
+
+  if (matching.orphaned.length > 0) {
+    logger.log(`  WARN ${matching.orphaned.length} clusters no longer exist:`);
+    for (const orphan of matching.orphaned) {
+      logger.log(`    - ${orphan.id}`);
+    }
+  }
+
+  const changedClusterIds = parseCache
+    ? findChangedClusterIds(
+        clusters,
+        existingClusters,
+        graph,
+        parseCache.getChangedFiles(graph.dependencies)
+      )
+    : null;
+  const clusterMetrics = computeUnitMetrics(graph, clusters);
+  const clusterSave = saveClusters(featuremapDir, clusters, graph, {
+    changedClusterIds,
+    metricsById: clusterMetrics,
+    layers: config.layers,
+  });
+  logger.log(`  OK Created ${clusterSave.created} cluster files`);
+  if (clusterSave.skipped > 0) {
+    logger.log(`  INFO ${clusterSave.skipped} unchanged clusters skipped`);
+  }
+  printLayerSummary(clusterSave.layerSummary, logger.log);
+
+  const graphUpdated = saveGraphYaml(featuremapDir, clusters, graph, { changedClusterIds });
+  logger.log('  OK Generated graph.yaml');
+  const rawGraphUpdated = saveRawGraphYaml(featuremapDir, clusters, graph);
+  parseCache?.save(graph.dependencies);
+
+  const analyses = await runScanAnalyses({
+    projectRoot,
+    featuremapDir,
+    scanResult,
+    graph,
+    clusters,
+    existingClusters,
+    packageJsonPaths,
+    logger,
+  });
+
+  const conventionsInput = buildConventionsInput(graph);
+  const conventions = detectConventions(conventionsInput);
+  saveAutoContext(
+    path.join(featuremapDir, 'context', 'conventions.yaml'),
+    conventions,
+    ConventionsSchema
+  );
+
+  const statistics = detectStatistics({
+    totalFiles: graphStats.totalFiles,
+    totalDependencies: graphStats.totalDependencies,
+    clusterCount: clusters.length,
+    featureCount: countFeatureFiles(featuremapDir),
+  });
+  saveAutoContext(
+    path.join(featuremapDir, 'context', 'statistics.yaml'),
+    statistics,
+    StatisticsSchema
+  );
+
+  logger.log('  OK Updated project context');
+
+  ensureLayout(featuremapDir, clusters, logger.log);
+
+  return {
+    clusters,
+    updatedClusterIds: clusterSave.updatedIds,
+    filesScanned: totalScannedFiles,
+    dependenciesCount: graphStats.totalDependencies,
+    layerSummary: clusterSave.layerSummary,
+    orphanedClusterIds: matching.orphaned.map((orphan) => orphan.id),
+    graphUpdated,
+    rawGraphUpdated,
+    ...analyses,
+  };
+}
@@ -0,0 +1,182 @@
+import * as path from 'path';
+import chokidar, { type FSWatcher } from 'chokidar';
+import { loadConfig } from '../analyzer/scanner.js';
+import type { Config } from '../types/index.js';
+import {
+  runScanPipeline,
+  type ScanLogger,
+  type ScanPipelineResult,
+} from './scanPipeline.js';
+
+export interface ScanWatcherResult extends ScanPipelineResult {
+  changedFiles: string[];
+}
+
+export interface ScanWatcherOptions {
+  projectRoot: string;
+  featuremapDir: string;
+  debounceMs?: number;
+  onScanStart?: (changedFiles: string[]) => void;
+  onScanComplete: (result: ScanWatcherResult) => void;
+  onScanError: (error: unknown) => void;
+}
+
+export interface ScanWatcher {
+  /** Resolves once the initial scan has finished. */
+  ready: Promise<void>;
+  close: () => Promise<void>;
+}
+
+const DEFAULT_DEBOUNCE_MS = 300;
+const ALWAYS_IGNORED = ['**/node_modules/**', '**/.git/**', '**/.featuremap/**'];
+/** Reported in `changedFiles` when a config edit triggers the rescan. */
+const CONFIG_FILE = '.featuremap/config.yaml';
+const WRITE_FINISH = { stabilityThreshold: 100, pollInterval: 50 };
+
+const silentLogger: ScanLogger = {
+  log: () => undefined,
+  warn: () => undefined,
+};
+
+/**
+ * Watches files matched by `config.scan.include` and re-runs the incremental scan
+ * pipeline after each burst of changes. Scans never overlap; changes that arrive
+ * while a scan is running are picked up by a follow-up scan. Editing config.yaml
+ * re-applies its include/exclude patterns and triggers a rescan.
+ */
+export function createScanWatcher(options: ScanWatcherOptions): ScanWatcher {
+  const configPath = path.join(options.featuremapDir, 'config.yaml');
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const pendingFiles = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+  let rerunRequested = false;
+  let closed = false;
+
+  const runScan = async (): Promise<void> => {
+    const changedFiles = [...pendingFiles].sort((a, b) => a.localeCompare(b));
+    pendingFiles.clear();
+    options.onScanStart?.(changedFiles);
+
+    try {
+      const result = await runScanPipeline({
+        projectRoot: options.projectRoot,
+        featuremapDir: options.featuremapDir,
+        useCache: true,
+        logger: silentLogger,
+      });
+      if (!closed) {
+        options.onScanComplete({ ...result, changedFiles });
+      }
+    } catch (error) {
+      if (!closed) {
+        options.onScanError(error);
+      }
+    }
+  };
+
+  const triggerScan = (): Promise<void> => {
+    if (running) {
+      rerunRequested = true;
+      return running;
+    }
+
+    running = (async () => {
+      do {
+        rerunRequested = false;
+        await runScan();
+      } while (rerunRequested && !closed);
+      running = null;
+    })();
+    return running;
+  };
+
+  const scheduleScan = (filePath: string): void => {
+    if (closed) {
+      return;
+    }
+    pendingFiles.add(filePath.replace(/\\/g, '/'));
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      void triggerScan();
+    }, debounceMs);
+  };
+
+  const watchSources = (config: Config): FSWatcher => {
+    const watcher = chokidar.watch(config.scan.include, {
+      cwd: path.resolve(options.projectRoot, config.project.root),
+      ignored: [...ALWAYS_IGNORED, ...config.scan.exclude],
+      ignoreInitial: true,
+      awaitWriteFinish: WRITE_FINISH,
+    });
+    watcher.on('add', scheduleScan);
+    watcher.on('change', scheduleScan);
+    watcher.on('unlink', scheduleScan);
+    return watcher;
+  };
+
+  // An invalid edit keeps the previous patterns; the error is reported like a failed scan.
+  const reloadConfig = async (): Promise<void> => {
+    if (closed) {
+      return;
+    }
+    let config: Config;
+    try {
+      config = loadConfig(configPath);
+    } catch (error) {
+      options.onScanError(error);
+      return;
+    }
+    await sourceWatcher.close();
+    if (closed) {
+      return;
+    }
+    sourceWatcher = watchSources(config);
+    scheduleScan(CONFIG_FILE);
+  };
+
+  let sourceWatcher = watchSources(loadConfig(configPath));
+  const configWatcher = chokidar.watch(configPath, {
+    ignoreInitial: true,
+    awaitWriteFinish: WRITE_FINISH,
+  });
+  // Reloads run one after another so a burst of saves never leaves two source watchers.
+  let reloading: Promise<void> = Promise.resolve();
+  const scheduleReload = (): void => {
+    if (!closed) {
+      reloading = reloading.then(reloadConfig);
+    }
+  };
+  configWatcher.on('add', scheduleReload);
+  configWatcher.on('change', scheduleReload);
+
+  const ready = triggerScan();
+
+  const close = async (): Promise<void> => {
+    closed = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    await configWatcher.close();
+    await reloading;
+    await sourceWatcher.close();
+    if (running) {
+      await running;
+    }
+  };
+
+  return { ready, close };
+}
+
+export function formatScanSummary(result: ScanWatcherResult): string {
+  const trigger =
+    result.changedFiles.length === 0
+      ? 'Initial scan'
+      : `Rescanned after ${result.changedFiles.length} changed file(s)`;
+  const graphStatus = result.graphUpdated ? 'graph.yaml updated' : 'graph.yaml unchanged';
+  return `${trigger}: ${result.updatedClusterIds.length} clusters updated, ${graphStatus}`;
+}
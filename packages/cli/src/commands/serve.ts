@@ -3,12 +3,21 @@ import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
 import { createServer } from '../server/createServer.js';
+import { syncFeaturemapDataFile } from '../server/featuremapDataMirror.js';
+import type { WsHub } from '../server/wsHub.js';
 import { copyFeatureMapData, findWebPackagePath } from '../utils/featuremapWebSync.js';
+import {
+  createScanWatcher,
+  formatScanSummary,
+  type ScanWatcher,
+  type ScanWatcherResult,
+} from './scanWatcher.js';
 
 interface ServeOptions {
   port: string;
   dev?: boolean;
   ws?: boolean;
+  watch?: boolean;
 }
 
 export function createServeCommand(): Command {
@@ -19,6 +28,7 @@ export function createServeCommand(): Command {
     .option('-p, --port <port>', 'Port to run on', '3000')
     .option('--dev', 'Use Vite middleware for the web UI')
     .option('--no-ws', 'Disable WebSocket server')
+    .option('--watch', 'Rescan on source changes and push updates to the web UI')
     .action(async (options: ServeOptions) => {
       const port = parsePort(options.port);
       const projectRoot = process.cwd();
@@ -57,7 +67,25 @@ export function createServeCommand(): Command {
           console.log(`WebSocket: ws://localhost:${port}/ws`);
         }
 
+        let watcher: ScanWatcher | null = null;
+        if (options.watch) {
+          watcher = createScanWatcher({
+            projectRoot,
+            featuremapDir,
+            onScanComplete: (result) => {
+              publishScanResult(projectRoot, server.wsHub, result);
+              console.log(formatScanSummary(result));
+            },
+            onScanError: (error) => {
+              const message = error instanceof Error ? error.message : String(error);
+              console.error(`Watch: scan failed: ${message}`);
+            },
+          });
+          console.log('Watching scanned files for changes');
+        }
+
         process.on('SIGINT', async () => {
+          await watcher?.close();
           await server.close();
           process.exit(0);
         });
@@ -72,6 +100,67 @@ export function createServeCommand(): Command {
   return command;
 }
 
+type ScanUpdateFlag = {
+  [K in keyof ScanWatcherResult]: ScanWatcherResult[K] extends boolean ? K : never;
+}[keyof ScanWatcherResult];
+
+// Context files a scan can rewrite, with the result flag that reports each change.
+const SCAN_CONTEXT_FILES: Array<[ScanUpdateFlag, string]> = [
+  ['cyclesUpdated', 'context/cycles.yaml'],
+  ['metricsUpdated', 'context/metrics.yaml'],
+  ['deadCodeUpdated', 'context/dead-code.yaml'],
+  ['ownershipUpdated', 'context/ownership.yaml'],
+  ['hotspotsUpdated', 'context/hotspots.yaml'],
+  ['testCoverageUpdated', 'context/test-coverage.yaml'],
+];
+
+function publishScanResult(
+  projectRoot: string,
+  wsHub: WsHub | null,
+  result: ScanWatcherResult
+): void {
+  for (const clusterId of result.updatedClusterIds) {
+    syncFeaturemapDataFile(projectRoot, `clusters/${clusterId}.yaml`);
+  }
+  if (result.graphUpdated) {
+    syncFeaturemapDataFile(projectRoot, 'graph.yaml');
+  }
+  if (result.rawGraphUpdated) {
+    syncFeaturemapDataFile(projectRoot, 'raw-graph.yaml');
+  }
+  const updatedContextFiles = SCAN_CONTEXT_FILES.filter(([flag]) => result[flag]).map(
+    ([, file]) => file
+  );
+  for (const file of updatedContextFiles) {
+    syncFeaturemapDataFile(projectRoot, file);
+  }
+
+  if (result.updatedClusterIds.length > 0) {
+    wsHub?.broadcast({
+      type: 'featuremap_changed',
+      reason: 'clusters_updated',
+      file: 'clusters/',
+    });
+  }
+  if (result.graphUpdated) {
+    wsHub?.broadcast({
+      type: 'featuremap_changed',
+      reason: 'graph_updated',
+      file: 'graph.yaml',
+    });
+  }
+  if (result.rawGraphUpdated && !result.graphUpdated) {
+    wsHub?.broadcast({
+      type: 'featuremap_changed',
+      reason: 'graph_updated',
+      file: 'raw-graph.yaml',
+    });
+  }
+  for (const file of updatedContextFiles) {
+    wsHub?.broadcast({ type: 'featuremap_changed', reason: 'context_updated', file });
+  }
+}
+
 function parsePort(value: string): number {
   const port = Number.parseInt(value, 10);
 
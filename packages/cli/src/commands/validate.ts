@@ -1,28 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import fg from 'fast-glob';
-import type { ZodType } from 'zod';
-import {
-  ClusterSchema,
-  CommentNodeSchema,
-  ConfigSchema,
-  ConventionsSchema,
-  ConstraintsSchema,
-  DecisionsSchema,
-  DesignSystemSchema,
-  FeatureSchema,
-  GroupSchema,
-  GraphSchema,
-  RawGraphSchema,
-  LayoutSchema,
-  OverviewSchema,
-  RunCommandsSchema,
-  StatisticsSchema,
-  StructureSchema,
-  TestingSchema,
-  TechStackSchema,
-} from '../types/index.js';
-import type { FileType } from '../constants/versions.js';
+import { ConfigSchema } from '../types/index.js';
+import { getSchemaForFile } from '../utils/file-schemas.js';
+import { findUnknownLayers, getKnownLayers } from '../utils/layerNames.js';
 import { loadYAML } from '../utils/yaml-loader.js';
 import { VersionCheckError } from '../utils/version-checker.js';
 
@@ -33,95 +14,14 @@ interface ValidationResult {
   status: ValidationStatus;
   messages?: string[];
   version?: number;
+  /** Older than the minimum supported version; `featuremap migrate` can upgrade it. */
+  outdated?: boolean;
 }
 
 interface ValidateOptions {
   quiet?: boolean;
 }
 
-interface SchemaTarget {
-  schema: ZodType<unknown>;
-  fileType: FileType;
-}
-
-function getSchemaForFile(filePath: string, featuremapDir: string): SchemaTarget | null {
-  const relativePath = path.relative(featuremapDir, filePath).replace(/\\/g, '/');
-
-  if (relativePath === 'config.yaml') {
-    return { schema: ConfigSchema, fileType: 'config' };
-  }
-
-  if (relativePath === 'raw-graph.yaml') {
-    return { schema: RawGraphSchema, fileType: 'rawGraph' };
-  }
-
-  if (relativePath === 'graph.yaml') {
-    return { schema: GraphSchema, fileType: 'graph' };
-  }
-
-  if (relativePath === 'layout.yaml') {
-    return { schema: LayoutSchema, fileType: 'layout' };
-  }
-
-  if (relativePath === 'context/tech-stack.yaml') {
-    return { schema: TechStackSchema, fileType: 'context' };
-  }
-
-  if (relativePath === 'context/conventions.yaml') {
-    return { schema: ConventionsSchema, fileType: 'context' };
-  }
-
-  if (relativePath === 'context/statistics.yaml') {
-    return { schema: StatisticsSchema, fileType: 'context' };
-  }
-
-  if (relativePath === 'context/structure.yaml') {
-    return { schema: StructureSchema, fileType: 'context' };
-  }
-
-  if (relativePath === 'context/testing.yaml') {
-    return { schema: TestingSchema, fileType: 'context' };
-  }
-
-  if (relativePath === 'context/decisions.yaml') {
-    return { schema: DecisionsSchema, fileType: 'context' };
-  }
-
-  if (relativePath === 'context/constraints.yaml') {
-    return { schema: ConstraintsSchema, fileType: 'context' };
-  }
-
-  if (relativePath === 'context/overview.yaml') {
-    return { schema: OverviewSchema, fileType: 'context' };
-  }
-
-  if (relativePath === 'context/design-system.yaml') {
-    return { schema: DesignSystemSchema, fileType: 'context' };
-  }
-
-  if (relativePath === 'context/run-commands.yaml') {
-    return { schema: RunCommandsSchema, fileType: 'context' };
-  }
-
-  if (relativePath.startsWith('features/')) {
-    return { schema: FeatureSchema, fileType: 'feature' };
-  }
-
-  if (relativePath.startsWith('clusters/')) {
-    return { schema: ClusterSchema, fileType: 'cluster' };
-  }
-
-  if (relativePath.startsWith('groups/')) {
-    return { schema: GroupSchema, fileType: 'group' };
-  }
-
-  if (relativePath.startsWith('comments/')) {
-    return { schema: CommentNodeSchema, fileType: 'comment' };
-  }
-
-  return null;
-}
-
 function getRelativePath(featuremapDir: string, filePath: string): string {
   return path.relative(featuremapDir, filePath).replace(/\\/g, '/');
 }
@@ -162,9 +62,13 @@ function formatErrorMessages(error: unknown): string[] {
   return ['Unknown error'];
 }
 
-function validateFile(filePath: string, featuremapDir: string): ValidationResult {
+function validateFile(
+  filePath: string,
+  featuremapDir: string,
+  knownLayers: Set<string> | null
+): ValidationResult {
   const relativePath = getRelativePath(featuremapDir, filePath);
-  const target = getSchemaForFile(filePath, featuremapDir);
+  const target = getSchemaForFile(relativePath);
 
   if (!target) {
     return {
@@ -176,6 +80,17 @@ function validateFile(filePath: string, featuremapDir: string): ValidationResult
   try {
     const data = loadYAML(filePath, target.schema, { fileType: target.fileType });
     const version = getVersionValue(data);
+    const unknownLayers = knownLayers ? findUnknownLayers(target.fileType, data, knownLayers) : [];
+    if (unknownLayers.length > 0) {
+      return {
+        file: relativePath,
+        status: 'warning',
+        version,
+        messages: unknownLayers.map(
+          (layer) => `Unknown layer "${layer}": not built in and not defined under layers in config.yaml`
+        ),
+      };
+    }
     return {
       file: relativePath,
       status: 'valid',
@@ -189,6 +104,7 @@ function validateFile(filePath: string, featuremapDir: string): ValidationResult
         status,
         version: error.result.fileVersion,
         messages: [error.result.message ?? 'Version check failed.'],
+        outdated: error.result.error === 'too_old',
       };
     }
 
@@ -205,13 +121,26 @@ function validateAll(featuremapDir: string): ValidationResult[] {
     cwd: featuremapDir,
     absolute: true,
     onlyFiles: true,
+    // Parse cache and `featuremap migrate` backups.
+    ignore: ['cache/**'],
   });
 
   files.sort((left, right) =>
     getRelativePath(featuremapDir, left).localeCompare(getRelativePath(featuremapDir, right))
   );
 
-  return files.map((filePath) => validateFile(filePath, featuremapDir));
+  const knownLayers = loadKnownLayers(featuremapDir);
+  return files.map((filePath) => validateFile(filePath, featuremapDir, knownLayers));
+}
+
+/** Null when config.yaml is missing or invalid; its own result reports that, so layers go unchecked. */
+function loadKnownLayers(featuremapDir: string): Set<string> | null {
+  try {
+    const config = loadYAML(path.join(featuremapDir, 'config.yaml'), ConfigSchema, { fileType: 'config' });
+    return getKnownLayers(config.layers);
+  } catch {
+    return null;
+  }
 }
 
 function countMessages(results: ValidationResult[], status: ValidationStatus): number {
@@ -273,11 +202,16 @@ function printValidationResults(results: ValidationResult[], quiet: boolean): vo
 
   const errorCount = countMessages(results, 'error');
   const warningCount = countMessages(results, 'warning');
+  const outdatedCount = results.filter((result) => result.outdated).length;
+  const migrateHint =
+    outdatedCount > 0
+      ? `\n  Run "featuremap migrate" to upgrade ${outdatedCount} outdated file${outdatedCount === 1 ? '' : 's'}.`
+      : '';
 
   if (quiet) {
     if (errorCount > 0) {
       const errorSuffix = errorCount === 1 ? '' : 's';
-      console.log(`\n✗ Found ${errorCount} error${errorSuffix} in ${validated.length} files`);
+      console.log(`\n✗ Found ${errorCount} error${errorSuffix} in ${validated.length} files${migrateHint}`);
     }
     return;
   }
@@ -291,7 +225,9 @@ function printValidationResults(results: ValidationResult[], quiet: boolean): vo
     const errorSuffix = errorCount === 1 ? '' : 's';
     const warningSuffix = warningCount === 1 ? '' : 's';
     const warningPart = warningCount > 0 ? `, ${warningCount} warning${warningSuffix}` : '';
-    console.log(`\n✗ Found ${errorCount} error${errorSuffix}${warningPart} in ${validated.length} files`);
+    console.log(
+      `\n✗ Found ${errorCount} error${errorSuffix}${warningPart} in ${validated.length} files${migrateHint}`
+    );
     return;
   }
 
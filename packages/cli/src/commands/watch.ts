@@ -0,0 +1,79 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  createScanWatcher,
+  formatScanSummary,
+  type ScanWatcherResult,
+} from './scanWatcher.js';
+
+interface WatchOptions {
+  debounce: string;
+}
+
+export function createWatchCommand(): Command {
+  const command = new Command('watch');
+
+  command
+    .description('Rescan the project incrementally whenever scanned files change')
+    .option('--debounce <ms>', 'Delay before rescanning after a change', '300')
+    .action(async (options: WatchOptions) => {
+      const projectRoot = process.cwd();
+      const featuremapDir = path.join(projectRoot, '.featuremap');
+
+      if (!fs.existsSync(featuremapDir)) {
+        console.error('ERROR: .featuremap/ not found. Run "featuremap init" first.');
+        process.exit(1);
+      }
+
+      const debounceMs = parseDebounce(options.debounce);
+
+      try {
+        const watcher = createScanWatcher({
+          projectRoot,
+          featuremapDir,
+          debounceMs,
+          onScanComplete: printScanSummary,
+          onScanError: printScanError,
+        });
+
+        await watcher.ready;
+        console.log('Watching for changes (Ctrl+C to stop)...');
+
+        process.on('SIGINT', async () => {
+          await watcher.close();
+          process.exit(0);
+        });
+      } catch (error) {
+        console.error(
+          `ERROR: ${error instanceof Error ? error.message : 'Failed to start watcher.'}`
+        );
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function printScanSummary(result: ScanWatcherResult): void {
+  console.log(`  OK ${formatScanSummary(result)}`);
+  for (const clusterId of result.updatedClusterIds) {
+    console.log(`    - ${clusterId}`);
+  }
+}
+
+function printScanError(error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`  WARN Scan failed: ${message}`);
+}
+
+function parseDebounce(value: string): number {
+  const debounceMs = Number.parseInt(value, 10);
+
+  if (!Number.isFinite(debounceMs) || debounceMs < 0) {
+    console.error(`ERROR: Invalid debounce "${value}".`);
+    process.exit(1);
+  }
+
+  return debounceMs;
+}
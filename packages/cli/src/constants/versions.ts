@@ -8,6 +8,9 @@ export const SUPPORTED_VERSIONS = {
   group: 1,
   comment: 1,
   context: 1,
+  rules: 1,
+  history: 1,
+  view: 1,
 } as const;
 
 export const MIN_SUPPORTED_VERSIONS = {
@@ -20,6 +23,9 @@ export const MIN_SUPPORTED_VERSIONS = {
   group: 1,
   comment: 1,
   context: 1,
+  rules: 1,
+  history: 1,
+  view: 1,
 } as const;
 
 export type FileType = keyof typeof SUPPORTED_VERSIONS;
@@ -7,6 +7,13 @@ import { validateCommand } from './commands/validate.js';
 import { createWebCommand } from './commands/web.js';
 import { createContextCommand } from './commands/context.js';
 import { createServeCommand } from './commands/serve.js';
+import { createWatchCommand } from './commands/watch.js';
+import { createCheckCommand } from './commands/check.js';
+import { createDeadCodeCommand } from './commands/deadCode.js';
+import { createDiffCommand } from './commands/diff.js';
+import { createHistoryCommand } from './commands/history.js';
+import { createExportCommand } from './commands/export.js';
+import { createMigrateCommand } from './commands/migrate.js';
 
 const program = new Command();
 
@@ -26,5 +33,12 @@ program
   .action(validateCommand);
 program.addCommand(createWebCommand());
 program.addCommand(createServeCommand());
+program.addCommand(createWatchCommand());
+program.addCommand(createCheckCommand());
+program.addCommand(createDeadCodeCommand());
+program.addCommand(createDiffCommand());
+program.addCommand(createHistoryCommand());
+program.addCommand(createExportCommand());
+program.addCommand(createMigrateCommand());
 
 program.parse();
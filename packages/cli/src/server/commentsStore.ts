@@ -6,13 +6,19 @@ import {
   type CommentHomeView,
   type CommentLink,
   type CommentNode,
+  type CommentReply,
+  type CommentStatus,
 } from '../types/index.js';
 import { loadYAML, saveYAML } from '../utils/yaml-loader.js';
+import { NotFoundError } from './errors.js';
 
 const COMMENT_FILE_PREFIX = 'comment-';
 const INDEX_FILE = 'index.yaml';
 const DRAFT_PREFIX = 'draft-';
 const KEBAB_CASE_REGEX = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+const REPLY_ID_PREFIX = 'reply-';
+// An @ that does not follow a word character, so e-mail addresses are not mentions.
+const MENTION_REGEX = /(?<![\w@.])@([A-Za-z0-9](?:[\w.-]*[A-Za-z0-9])?)/g;
 
 export interface CommentUpsertInput {
   id?: string;
@@ -28,6 +34,16 @@ export interface CommentUpsertInput {
   updatedAt?: string;
 }
 
+export interface CommentReplyInput {
+  content: string;
+  author?: string;
+}
+
+export interface CommentStatusInput {
+  status: CommentStatus;
+  resolvedBy?: string;
+}
+
 export function listComments(projectRoot: string): CommentNode[] {
   const commentsDir = getCommentsDir(projectRoot);
 
@@ -82,6 +98,7 @@ export function upsertComment(projectRoot: string, input: CommentUpsertInput): C
   const author = input.author ?? existing?.author;
   const homeView = input.homeView ?? existing?.homeView ?? inferHomeViewFromLinks(links);
   const pinned = input.pinned ?? existing?.pinned ?? false;
+  const mentions = extractMentions(content);
 
   const comment: CommentNode = {
     version: SUPPORTED_VERSIONS.comment,
@@ -93,21 +110,71 @@ export function upsertComment(projectRoot: string, input: CommentUpsertInput): C
     ...(pinned ? { pinned } : {}),
     ...(tags.length > 0 ? { tags } : {}),
     ...(priority ? { priority } : {}),
+    ...(existing?.status ? { status: existing.status } : {}),
+    ...(existing?.resolvedBy ? { resolvedBy: existing.resolvedBy } : {}),
+    ...(existing?.resolvedAt ? { resolvedAt: existing.resolvedAt } : {}),
     ...(author ? { author } : {}),
+    ...(mentions.length > 0 ? { mentions } : {}),
+    ...(existing?.replies?.length ? { replies: existing.replies } : {}),
     ...(createdAt ? { createdAt } : {}),
     ...(updatedAt ? { updatedAt } : {}),
   };
 
-  const filePath = path.join(commentsDir, buildCommentFileName(finalId));
-  saveYAML(filePath, comment, CommentNodeSchema, {
-    sortArrayFields: ['tags'],
-  });
-  const legacyPath = path.join(commentsDir, `${COMMENT_FILE_PREFIX}${finalId}.yaml`);
-  if (legacyPath !== filePath && fs.existsSync(legacyPath)) {
-    fs.unlinkSync(legacyPath);
+  saveComment(commentsDir, comment);
+  return comment;
+}
+
+export function addCommentReply(
+  projectRoot: string,
+  id: string,
+  input: CommentReplyInput
+): CommentNode {
+  const comment = getComment(projectRoot, id);
+  const content = input.content.trim();
+  if (!content) {
+    throw new Error('Reply content is required.');
   }
 
-  return comment;
+  const replies = comment.replies ?? [];
+  const now = new Date().toISOString();
+  const mentions = extractMentions(content);
+  const author = input.author?.trim();
+  const reply: CommentReply = {
+    id: generateReplyId(replies),
+    content,
+    ...(author ? { author } : {}),
+    ...(mentions.length > 0 ? { mentions } : {}),
+    createdAt: now,
+  };
+
+  const updated: CommentNode = { ...comment, replies: [...replies, reply], updatedAt: now };
+  saveComment(ensureCommentsDir(projectRoot), updated);
+  return updated;
+}
+
+/** Sets the thread status; reopening clears who resolved it and when. */
+export function setCommentStatus(
+  projectRoot: string,
+  id: string,
+  input: CommentStatusInput
+): CommentNode {
+  const { status: _status, resolvedBy: _resolvedBy, resolvedAt: _resolvedAt, ...comment } =
+    getComment(projectRoot, id);
+  const now = new Date().toISOString();
+  const resolvedBy = input.resolvedBy?.trim();
+
+  const updated: CommentNode =
+    input.status === 'open'
+      ? { ...comment, updatedAt: now }
+      : {
+          ...comment,
+          status: input.status,
+          ...(resolvedBy ? { resolvedBy } : {}),
+          resolvedAt: now,
+          updatedAt: now,
+        };
+  saveComment(ensureCommentsDir(projectRoot), updated);
+  return updated;
 }
 
 export function deleteComment(projectRoot: string, id: string): void {
@@ -122,7 +189,7 @@ export function deleteComment(projectRoot: string, id: string): void {
   const existingPaths = [...paths].filter((entry) => fs.existsSync(entry));
 
   if (existingPaths.length === 0) {
-    throw new Error('Comment not found.');
+    throw new NotFoundError('Comment not found.');
   }
 
   for (const existingPath of existingPaths) {
@@ -130,6 +197,28 @@ export function deleteComment(projectRoot: string, id: string): void {
   }
 }
 
+function getComment(projectRoot: string, id: string): CommentNode {
+  if (!KEBAB_CASE_REGEX.test(id)) {
+    throw new Error('Invalid comment id.');
+  }
+  const comment = listComments(projectRoot).find((entry) => entry.id === id);
+  if (!comment) {
+    throw new NotFoundError('Comment not found.');
+  }
+  return comment;
+}
+
+function saveComment(commentsDir: string, comment: CommentNode): void {
+  const filePath = path.join(commentsDir, buildCommentFileName(comment.id));
+  saveYAML(filePath, comment, CommentNodeSchema, {
+    sortArrayFields: ['tags', 'mentions'],
+  });
+  const legacyPath = path.join(commentsDir, `${COMMENT_FILE_PREFIX}${comment.id}.yaml`);
+  if (legacyPath !== filePath && fs.existsSync(legacyPath)) {
+    fs.unlinkSync(legacyPath);
+  }
+}
+
 function getCommentsDir(projectRoot: string): string {
   return path.join(projectRoot, '.featuremap', 'comments');
 }
@@ -165,6 +254,20 @@ function generateCommentId(existingIds: Set<string>): string {
   return `${base}-${index}`;
 }
 
+function generateReplyId(replies: CommentReply[]): string {
+  const existingIds = new Set(replies.map((reply) => reply.id));
+  let index = replies.length + 1;
+  while (existingIds.has(`${REPLY_ID_PREFIX}${index}`)) {
+    index += 1;
+  }
+  return `${REPLY_ID_PREFIX}${index}`;
+}
+
+function extractMentions(content: string): string[] {
+  const mentions = [...content.matchAll(MENTION_REGEX)].map((match) => match[1]);
+  return normalizeStringList(mentions);
+}
+
 function sortLinks(links: CommentLink[]): CommentLink[] {
   return [...links].sort((a, b) => {
     if (a.type !== b.type) {
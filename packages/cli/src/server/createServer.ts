@@ -4,11 +4,17 @@ import type { Socket } from 'net';
 import express from 'express';
 import * as fs from 'fs';
 import * as path from 'path';
+import { stringify } from 'yaml';
+import { listGroupIds } from '../utils/groupIndex.js';
+import { listSnapshots } from '../utils/snapshots.js';
 import { createContextUpdateHandler } from './routes/contextUpdate.js';
 import { createCommentsRouter } from './routes/commentsRoutes.js';
+import { createFeatureRouter } from './routes/featureRoutes.js';
 import { createGroupRouter } from './routes/groupRoutes.js';
 import { createLayoutRouter } from './routes/layoutRoutes.js';
+import { createViewRouter } from './routes/viewRoutes.js';
 import { enforceLocalhost, requireToken } from './security.js';
+import { listViewIds } from './viewStore.js';
 import { createWsHub } from './wsHub.js';
 import type { WsHub } from './wsHub.js';
 import { setupWebHosting } from './webHosting.js';
@@ -77,30 +83,30 @@ export async function createServer(options: CreateServerOptions): Promise<Featur
       wsHub,
     })
   );
+  apiRouter.use(
+    '/views',
+    createViewRouter({
+      projectRoot: options.projectRoot,
+      sessionToken: options.sessionToken,
+      wsHub,
+    })
+  );
+  apiRouter.use(
+    '/features',
+    createFeatureRouter({
+      projectRoot: options.projectRoot,
+      sessionToken: options.sessionToken,
+      wsHub,
+    })
+  );
   app.use('/api', apiRouter);
   app.get('/featuremap-data/groups/index.yaml', (_req, res) => {
-    const indexPath = path.join(options.projectRoot, '.featuremap', 'groups', 'index.yaml');
-    if (fs.existsSync(indexPath)) {
-      res.sendFile(indexPath);
-      return;
-    }
-    const groupsDir = path.join(options.projectRoot, '.featuremap', 'groups');
-    if (fs.existsSync(groupsDir)) {
-      const files = fs
-        .readdirSync(groupsDir)
-        .filter((file) => file.endsWith('.yaml') && file !== 'index.yaml');
-      const groupIds = files
-        .map((file) => path.basename(file, '.yaml'))
-        .sort((a, b) => a.localeCompare(b));
-      if (groupIds.length > 0) {
-        const yaml = `version: 1\ngroups:\n${groupIds
-          .map((id) => `  - ${id}`)
-          .join('\n')}\n`;
-        res.type('text/yaml').send(yaml);
-        return;
-      }
-    }
-    res.type('text/yaml').send('version: 1\ngroups: []\n');
+    const groupIds = listGroupIds(path.join(options.projectRoot, '.featuremap'));
+    res.type('text/yaml').send(stringify({ version: 1, groups: groupIds }, { lineWidth: 0 }));
+  });
+  app.get('/featuremap-data/views/index.yaml', (_req, res) => {
+    const viewIds = listViewIds(options.projectRoot);
+    res.type('text/yaml').send(stringify({ version: 1, views: viewIds }, { lineWidth: 0 }));
   });
   app.get('/featuremap-data/comments/index.yaml', (_req, res) => {
     const indexPath = path.join(options.projectRoot, '.featuremap', 'comments', 'index.yaml');
@@ -126,6 +132,10 @@ export async function createServer(options: CreateServerOptions): Promise<Featur
     }
     res.type('text/yaml').send('version: 1\ncomments: []\n');
   });
+  app.get('/featuremap-data/history/index.yaml', (_req, res) => {
+    const snapshots = listSnapshots(path.join(options.projectRoot, '.featuremap'));
+    res.type('text/yaml').send(stringify({ version: 1, snapshots }, { lineWidth: 0 }));
+  });
   app.use('/featuremap-data', express.static(path.join(options.projectRoot, '.featuremap')));
 
   const webHosting = await setupWebHosting(app, {
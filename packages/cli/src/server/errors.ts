@@ -0,0 +1,12 @@
+/** Thrown by the stores when the addressed resource does not exist. */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** Status for a store error: 404 for a missing resource, 400 for anything else. */
+export function getErrorStatus(error: unknown): number {
+  return error instanceof NotFoundError ? 404 : 400;
+}
@@ -0,0 +1,245 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ClusterSchema,
+  FeatureSchema,
+  GraphSchema,
+  type Feature,
+  type FeatureScope,
+  type FeatureStatus,
+} from '../types/index.js';
+import { loadYAML, saveYAML } from '../utils/yaml-loader.js';
+
+const FEATURE_CONTAINS_EDGE_TYPE = 'contains';
+
+export interface FeatureUpdateInput {
+  name?: string;
+  description?: string | null;
+  purpose?: string | null;
+  status?: FeatureStatus;
+  scope?: FeatureScope;
+  clusters?: string[];
+}
+
+export interface FeatureUpdateResult {
+  feature: Feature;
+  changed: string[];
+  graphUpdated: boolean;
+}
+
+type LockedField = 'name' | 'description' | 'status' | 'scope' | 'clusters';
+
+/**
+ * Applies a manual edit to features/<id>.yaml. Every changed field is locked so that
+ * save_features_from_grouping keeps the human value on the next AI regrouping.
+ */
+export function updateFeature(
+  projectRoot: string,
+  featureId: string,
+  input: FeatureUpdateInput
+): FeatureUpdateResult {
+  const featuremapDir = path.resolve(projectRoot, '.featuremap');
+  const featuresDir = path.resolve(featuremapDir, 'features');
+  const featurePath = path.resolve(featuresDir, `${featureId}.yaml`);
+
+  if (!fs.existsSync(featuremapDir)) {
+    throw new Error('Missing .featuremap/ directory.');
+  }
+
+  const relativePath = path.relative(featuresDir, featurePath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    throw new Error('Invalid feature id.');
+  }
+
+  if (!fs.existsSync(featurePath)) {
+    throw new Error('Feature not found.');
+  }
+
+  const existing = loadYAML(featurePath, FeatureSchema, { fileType: 'feature' });
+  const next: Feature = { ...existing, locks: { ...existing.locks } };
+  const changed: string[] = [];
+  const lock = (field: LockedField) => {
+    next.locks = { ...next.locks, [field]: true };
+  };
+
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Feature name is required.');
+    }
+    if (name !== existing.name) {
+      next.name = name;
+      changed.push('name');
+      lock('name');
+    }
+  }
+
+  if (input.description !== undefined) {
+    const description = input.description?.trim() || undefined;
+    if (description !== existing.description) {
+      setOptional(next, 'description', description);
+      changed.push('description');
+      lock('description');
+    }
+  }
+
+  if (input.purpose !== undefined) {
+    const purpose = input.purpose?.trim() || undefined;
+    if (purpose !== existing.purpose) {
+      setOptional(next, 'purpose', purpose);
+      changed.push('purpose');
+    }
+  }
+
+  if (input.status !== undefined && input.status !== existing.status) {
+    next.status = input.status;
+    changed.push('status');
+    lock('status');
+  }
+
+  if (input.scope !== undefined && input.scope !== existing.scope) {
+    next.scope = input.scope;
+    changed.push('scope');
+    lock('scope');
+  }
+
+  if (input.clusters !== undefined) {
+    const clusters = normalizeIds(input.clusters);
+    if (clusters.length === 0) {
+      throw new Error('A feature needs at least one cluster.');
+    }
+    const clusterFiles = loadClusterFiles(featuremapDir, clusters);
+    if (clusters.join('|') !== normalizeIds(existing.clusters).join('|')) {
+      next.clusters = clusters;
+      next.composition = { hash: computeFeatureCompositionHash(clusters, clusterFiles) };
+      changed.push('clusters');
+      lock('clusters');
+    }
+  }
+
+  if (changed.length === 0) {
+    return { feature: existing, changed, graphUpdated: false };
+  }
+
+  const semanticChanged = changed.some((field) => field !== 'purpose');
+  next.source = 'user';
+  next.metadata = {
+    ...existing.metadata,
+    updatedAt: new Date().toISOString(),
+    lastModifiedBy: 'user',
+    ...(semanticChanged ? { version: (existing.metadata.version ?? 0) + 1 } : {}),
+  };
+  if (Object.keys(next.locks ?? {}).length === 0) {
+    delete next.locks;
+  }
+
+  saveYAML(featurePath, next, FeatureSchema);
+
+  const graphUpdated =
+    changed.includes('name') || changed.includes('clusters')
+      ? updateFeatureGraphNode(featuremapDir, next)
+      : false;
+
+  return { feature: next, changed, graphUpdated };
+}
+
+/**
+ * Keeps the feature overlay in graph.yaml (node label, file count, "contains" edges) in
+ * line with the edited feature. Returns false when graph.yaml has no node for it.
+ */
+function updateFeatureGraphNode(featuremapDir: string, feature: Feature): boolean {
+  const graphPath = path.join(featuremapDir, 'graph.yaml');
+  if (!fs.existsSync(graphPath)) {
+    return false;
+  }
+
+  const graph = loadYAML(graphPath, GraphSchema, { fileType: 'graph' });
+  const nodeIndex = graph.nodes.findIndex(
+    (node) => node.id === feature.id && node.type === 'feature'
+  );
+  if (nodeIndex < 0) {
+    return false;
+  }
+
+  const clusterFiles = loadClusterFiles(featuremapDir, feature.clusters);
+  const fileCount = [...clusterFiles.values()].reduce((total, cluster) => total + cluster.files.length, 0);
+  const nodes = graph.nodes.map((node, index) =>
+    index === nodeIndex ? { ...node, label: feature.name, fileCount } : node
+  );
+  const edges = [
+    ...graph.edges.filter(
+      (edge) => !(edge.source === feature.id && edge.type === FEATURE_CONTAINS_EDGE_TYPE)
+    ),
+    ...feature.clusters.map((clusterId) => ({
+      source: feature.id,
+      target: clusterId,
+      type: FEATURE_CONTAINS_EDGE_TYPE,
+    })),
+  ];
+
+  saveYAML(
+    graphPath,
+    { ...graph, generatedAt: new Date().toISOString(), nodes, edges },
+    GraphSchema,
+    { sortArrayFields: ['nodes', 'edges'] }
+  );
+  return true;
+}
+
+function loadClusterFiles(
+  featuremapDir: string,
+  clusterIds: string[]
+): Map<string, { files: string[]; compositionHash?: string }> {
+  const clustersDir = path.join(featuremapDir, 'clusters');
+  const result = new Map<string, { files: string[]; compositionHash?: string }>();
+  const missing: string[] = [];
+
+  for (const clusterId of clusterIds) {
+    const clusterPath = path.join(clustersDir, `${clusterId}.yaml`);
+    if (path.basename(clusterId) !== clusterId || !fs.existsSync(clusterPath)) {
+      missing.push(clusterId);
+      continue;
+    }
+    const cluster = loadYAML(clusterPath, ClusterSchema, { fileType: 'cluster' });
+    result.set(clusterId, { files: cluster.files, compositionHash: cluster.compositionHash });
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Unknown cluster ids: ${missing.join(', ')}`);
+  }
+  return result;
+}
+
+// Same hash as save_features_from_grouping, so a regrouping with locked clusters is a no-op.
+function computeFeatureCompositionHash(
+  clusterIds: string[],
+  clusters: Map<string, { files: string[]; compositionHash?: string }>
+): string {
+  const parts = clusterIds.map((id) => {
+    const cluster = clusters.get(id);
+    if (!cluster) {
+      return `${id}:missing`;
+    }
+    const signature = cluster.compositionHash
+      ? cluster.compositionHash
+      : normalizeIds(cluster.files).join('|');
+    return `${id}:${signature}`;
+  });
+
+  return createHash('sha256').update(parts.join('|')).digest('hex').slice(0, 16);
+}
+
+function setOptional(feature: Feature, key: 'description' | 'purpose', value: string | undefined): void {
+  if (value === undefined) {
+    delete feature[key];
+  } else {
+    feature[key] = value;
+  }
+}
+
+function normalizeIds(ids: string[]): string[] {
+  return [...new Set(ids.map((id) => id.trim()).filter((id) => id.length > 0))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+}
@@ -23,6 +23,15 @@ export function syncFeaturemapDataFile(projectRoot: string, relativePath: string
   }
 }
 
+export function removeFeaturemapDataFile(projectRoot: string, relativePath: string): void {
+  for (const targetRoot of resolveDataTargets(projectRoot)) {
+    const targetPath = path.join(targetRoot, relativePath);
+    if (fs.existsSync(targetPath)) {
+      fs.unlinkSync(targetPath);
+    }
+  }
+}
+
 function resolveDataTargets(projectRoot: string): string[] {
   const targets: string[] = [];
   const webRoot = findWebPackagePath();
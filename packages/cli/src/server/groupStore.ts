@@ -1,47 +1,237 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { GroupSchema, type Group } from '../types/index.js';
+import { SUPPORTED_VERSIONS } from '../constants/versions.js';
+import { GroupIndexSchema, GroupSchema, type Group } from '../types/index.js';
+import { GROUP_INDEX_FILE, listGroupIds } from '../utils/groupIndex.js';
 import { loadYAML, saveYAML } from '../utils/yaml-loader.js';
+import { NotFoundError } from './errors.js';
 
-export function updateGroupNote(
+const KEBAB_CASE_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export interface GroupCreateInput {
+  id?: string;
+  name: string;
+  description?: string;
+  featureIds?: string[];
+}
+
+export interface GroupUpdateInput {
+  name?: string;
+  description?: string | null;
+}
+
+export interface GroupFeaturesUpdate {
+  add?: string[];
+  remove?: string[];
+}
+
+export function createGroup(projectRoot: string, input: GroupCreateInput): Group {
+  const featuremapDir = resolveFeaturemapDir(projectRoot);
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Group name is required.');
+  }
+
+  const id = input.id ?? slugify(name);
+  if (!KEBAB_CASE_REGEX.test(id)) {
+    throw new Error('Group id must be kebab-case.');
+  }
+
+  const groupPath = resolveGroupPath(featuremapDir, id);
+  if (fs.existsSync(groupPath)) {
+    throw new Error(`Group "${id}" already exists.`);
+  }
+
+  const featureIds = uniqueIds(input.featureIds ?? []);
+  assertFeaturesExist(featuremapDir, featureIds);
+
+  const now = new Date().toISOString();
+  const description = input.description?.trim();
+  const group: Group = {
+    version: SUPPORTED_VERSIONS.group,
+    id,
+    name,
+    ...(description ? { description } : {}),
+    featureIds,
+    source: 'user',
+    metadata: {
+      createdAt: now,
+      updatedAt: now,
+      lastModifiedBy: 'user',
+      version: 1,
+    },
+  };
+
+  fs.mkdirSync(path.dirname(groupPath), { recursive: true });
+  saveYAML(groupPath, group, GroupSchema);
+  writeGroupIndex(featuremapDir, [...listGroupIds(featuremapDir).filter((groupId) => groupId !== id), id]);
+  return group;
+}
+
+export function updateGroup(projectRoot: string, groupId: string, input: GroupUpdateInput): Group {
+  const featuremapDir = resolveFeaturemapDir(projectRoot);
+  const groupPath = resolveExistingGroupPath(featuremapDir, groupId);
+  const existing = loadYAML(groupPath, GroupSchema, { fileType: 'group' });
+
+  const next: Group = { ...existing };
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Group name is required.');
+    }
+    if (name !== existing.name && existing.locks?.name) {
+      throw new Error('Group name is locked.');
+    }
+    next.name = name;
+  }
+
+  if (input.description !== undefined) {
+    const description = input.description?.trim() || undefined;
+    if (description !== existing.description && existing.locks?.description) {
+      throw new Error('Group description is locked.');
+    }
+    if (description) {
+      next.description = description;
+    } else {
+      delete next.description;
+    }
+  }
+
+  return saveUserEdit(groupPath, next);
+}
+
+export function updateGroupFeatures(
   projectRoot: string,
   groupId: string,
-  note: string | null | undefined
+  update: GroupFeaturesUpdate
 ): Group {
-  const featuremapDir = path.resolve(projectRoot, '.featuremap');
-  const groupsDir = path.resolve(featuremapDir, 'groups');
-  const groupPath = path.resolve(groupsDir, `${groupId}.yaml`);
-
-  if (!fs.existsSync(featuremapDir)) {
-    throw new Error('Missing .featuremap/ directory.');
+  const featuremapDir = resolveFeaturemapDir(projectRoot);
+  const groupPath = resolveExistingGroupPath(featuremapDir, groupId);
+  const existing = loadYAML(groupPath, GroupSchema, { fileType: 'group' });
+  if (existing.locks?.featureIds) {
+    throw new Error('Group features are locked.');
   }
 
-  const relativePath = path.relative(groupsDir, groupPath);
-  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
-    throw new Error('Invalid group id.');
+  const added = uniqueIds(update.add ?? []);
+  assertFeaturesExist(featuremapDir, added);
+  const removed = new Set(update.remove ?? []);
+  const featureIds = uniqueIds([...existing.featureIds, ...added]).filter((id) => !removed.has(id));
+
+  return saveUserEdit(groupPath, { ...existing, featureIds });
+}
+
+export function deleteGroup(projectRoot: string, groupId: string): void {
+  const featuremapDir = resolveFeaturemapDir(projectRoot);
+  const groupPath = resolveExistingGroupPath(featuremapDir, groupId);
+  const existing = loadYAML(groupPath, GroupSchema, { fileType: 'group' });
+  const locks = existing.locks;
+  if (locks?.name || locks?.description || locks?.featureIds) {
+    throw new Error('Group is locked and cannot be deleted.');
   }
 
-  if (!fs.existsSync(groupPath)) {
-    throw new Error('Group not found.');
+  fs.unlinkSync(groupPath);
+  writeGroupIndex(featuremapDir, listGroupIds(featuremapDir));
+}
+
+export function reorderGroups(projectRoot: string, groupIds: string[]): string[] {
+  const featuremapDir = resolveFeaturemapDir(projectRoot);
+  const current = listGroupIds(featuremapDir);
+  const known = new Set(current);
+  const unknown = groupIds.filter((id) => !known.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown group ids: ${unknown.join(', ')}`);
   }
 
+  const ordered = uniqueIds(groupIds);
+  const orderedSet = new Set(ordered);
+  const next = [...ordered, ...current.filter((id) => !orderedSet.has(id))];
+  writeGroupIndex(featuremapDir, next);
+  return next;
+}
+
+export function updateGroupNote(
+  projectRoot: string,
+  groupId: string,
+  note: string | null | undefined
+): Group {
+  const featuremapDir = resolveFeaturemapDir(projectRoot);
+  const groupPath = resolveExistingGroupPath(featuremapDir, groupId);
   const existing = loadYAML(groupPath, GroupSchema, { fileType: 'group' });
   const trimmed = typeof note === 'string' ? note.trimEnd() : note;
   const nextNote = trimmed && trimmed.length > 0 ? trimmed : undefined;
   const next: Group = {
     ...existing,
     ...(nextNote !== undefined ? { note: nextNote } : {}),
-    metadata: {
-      ...existing.metadata,
-      updatedAt: new Date().toISOString(),
-      lastModifiedBy: 'user',
-    },
   };
 
   if (nextNote === undefined && 'note' in next) {
     delete next.note;
   }
 
+  return saveUserEdit(groupPath, next);
+}
+
+function saveUserEdit(groupPath: string, group: Group): Group {
+  const next: Group = {
+    ...group,
+    metadata: {
+      ...group.metadata,
+      updatedAt: new Date().toISOString(),
+      lastModifiedBy: 'user',
+    },
+  };
   saveYAML(groupPath, next, GroupSchema);
   return next;
 }
+
+function writeGroupIndex(featuremapDir: string, groupIds: string[]): void {
+  const indexPath = path.join(featuremapDir, 'groups', GROUP_INDEX_FILE);
+  saveYAML(indexPath, { version: SUPPORTED_VERSIONS.group, groups: groupIds }, GroupIndexSchema);
+}
+
+function resolveFeaturemapDir(projectRoot: string): string {
+  const featuremapDir = path.resolve(projectRoot, '.featuremap');
+  if (!fs.existsSync(featuremapDir)) {
+    throw new Error('Missing .featuremap/ directory.');
+  }
+  return featuremapDir;
+}
+
+function resolveGroupPath(featuremapDir: string, groupId: string): string {
+  const groupsDir = path.resolve(featuremapDir, 'groups');
+  const groupPath = path.resolve(groupsDir, `${groupId}.yaml`);
+  const relativePath = path.relative(groupsDir, groupPath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath) || groupId === 'index') {
+    throw new Error('Invalid group id.');
+  }
+  return groupPath;
+}
+
+function resolveExistingGroupPath(featuremapDir: string, groupId: string): string {
+  const groupPath = resolveGroupPath(featuremapDir, groupId);
+  if (!fs.existsSync(groupPath)) {
+    throw new NotFoundError('Group not found.');
+  }
+  return groupPath;
+}
+
+function assertFeaturesExist(featuremapDir: string, featureIds: string[]): void {
+  const featuresDir = path.join(featuremapDir, 'features');
+  const missing = featureIds.filter(
+    (id) => path.basename(id) !== id || !fs.existsSync(path.join(featuresDir, `${id}.yaml`))
+  );
+  if (missing.length > 0) {
+    throw new Error(`Unknown feature ids: ${missing.join(', ')}`);
+  }
+}
+
+function uniqueIds(ids: string[]): string[] {
+  return [...new Set(ids.map((id) => id.trim()).filter((id) => id.length > 0))];
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -1,8 +1,15 @@
 import express from 'express';
 import { z } from 'zod';
 import type { WsHub } from '../wsHub.js';
+import { getErrorStatus } from '../errors.js';
 import { requireToken } from '../security.js';
-import { deleteComment, listComments, upsertComment } from '../commentsStore.js';
+import {
+  addCommentReply,
+  deleteComment,
+  listComments,
+  setCommentStatus,
+  upsertComment,
+} from '../commentsStore.js';
 import { CommentNodeSchema } from '../../types/index.js';
 
 const CommentUpsertSchema = z.object({
@@ -19,6 +26,18 @@ const CommentUpsertSchema = z.object({
   updatedAt: z.string().optional(),
 });
 
+const CommentReplyInputSchema = z.object({
+  content: z.string().refine((value) => value.trim().length > 0, {
+    message: 'content required',
+  }),
+  author: z.string().optional(),
+});
+
+const CommentResolveSchema = z.object({
+  status: CommentNodeSchema.shape.status.unwrap().default('resolved'),
+  resolvedBy: z.string().optional(),
+});
+
 interface CommentsRouterOptions {
   projectRoot: string;
   sessionToken: string;
@@ -42,15 +61,45 @@ export function createCommentsRouter(options: CommentsRouterOptions): express.Ro
 
     try {
       const saved = upsertComment(options.projectRoot, parsed.data);
-      options.wsHub?.broadcast({
-        type: 'featuremap_changed',
-        reason: 'comments_updated',
-        file: `comments/${saved.id}`,
-      });
+      broadcastCommentChange(options.wsHub, saved.id);
       res.json(saved);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to save comment.';
-      res.status(400).json({ error: message });
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
+  router.post('/:id/replies', requireToken(options.sessionToken), (req, res) => {
+    const parsed = CommentReplyInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: formatZodError(parsed.error) });
+      return;
+    }
+
+    try {
+      const saved = addCommentReply(options.projectRoot, req.params.id, parsed.data);
+      broadcastCommentChange(options.wsHub, saved.id);
+      res.json(saved);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to add reply.';
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
+  router.post('/:id/resolve', requireToken(options.sessionToken), (req, res) => {
+    const parsed = CommentResolveSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: formatZodError(parsed.error) });
+      return;
+    }
+
+    try {
+      const saved = setCommentStatus(options.projectRoot, req.params.id, parsed.data);
+      broadcastCommentChange(options.wsHub, saved.id);
+      res.json(saved);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update comment status.';
+      res.status(getErrorStatus(error)).json({ error: message });
     }
   });
 
@@ -63,15 +112,11 @@ export function createCommentsRouter(options: CommentsRouterOptions): express.Ro
 
     try {
       deleteComment(options.projectRoot, id);
-      options.wsHub?.broadcast({
-        type: 'featuremap_changed',
-        reason: 'comments_updated',
-        file: `comments/${id}`,
-      });
+      broadcastCommentChange(options.wsHub, id);
       res.json({ id });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to delete comment.';
-      res.status(400).json({ error: message });
+      res.status(getErrorStatus(error)).json({ error: message });
     }
   });
 
@@ -82,6 +127,14 @@ export function createCommentsRouter(options: CommentsRouterOptions): express.Ro
   return router;
 }
 
+function broadcastCommentChange(wsHub: WsHub | null, id: string): void {
+  wsHub?.broadcast({
+    type: 'featuremap_changed',
+    reason: 'comments_updated',
+    file: `comments/${id}`,
+  });
+}
+
 function formatZodError(error: z.ZodError): string {
   return error.issues
     .map((issue) => `${issue.path.join('.') || '<root>'}: ${issue.message}`)
@@ -17,6 +17,12 @@ const AUTO_CONTEXT_FILES = new Set([
   'statistics.yaml',
   'structure.yaml',
   'testing.yaml',
+  'cycles.yaml',
+  'metrics.yaml',
+  'dead-code.yaml',
+  'ownership.yaml',
+  'hotspots.yaml',
+  'test-coverage.yaml',
 ]);
 
 const MANUAL_CONTEXT_SCHEMAS = {
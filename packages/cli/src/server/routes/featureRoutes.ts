@@ -0,0 +1,74 @@
+import express from 'express';
+import { z } from 'zod';
+import type { WsHub } from '../wsHub.js';
+import { requireToken } from '../security.js';
+import { updateFeature } from '../featureStore.js';
+import { syncFeaturemapDataFile } from '../featuremapDataMirror.js';
+
+const FeatureUpdateSchema = z
+  .object({
+    name: z.string().optional(),
+    description: z.string().nullable().optional(),
+    purpose: z.string().nullable().optional(),
+    status: z.enum(['active', 'ignored', 'deprecated']).optional(),
+    scope: z.enum(['frontend', 'backend', 'fullstack', 'shared']).optional(),
+    clusters: z.array(z.string()).optional(),
+  })
+  .refine((value) => Object.values(value).some((field) => field !== undefined), {
+    message: 'Provide at least one field to update.',
+  });
+
+interface FeatureRouterOptions {
+  projectRoot: string;
+  sessionToken: string;
+  wsHub: WsHub | null;
+}
+
+export function createFeatureRouter(options: FeatureRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.patch('/:featureId', requireToken(options.sessionToken), (req, res) => {
+    const featureId = req.params.featureId;
+    if (!featureId) {
+      res.status(400).json({ error: 'Feature id is required.' });
+      return;
+    }
+
+    const parsed = FeatureUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: formatZodError(parsed.error) });
+      return;
+    }
+
+    try {
+      const result = updateFeature(options.projectRoot, featureId, parsed.data);
+      if (result.changed.length > 0) {
+        syncFeaturemapDataFile(options.projectRoot, `features/${featureId}.yaml`);
+        if (result.graphUpdated) {
+          syncFeaturemapDataFile(options.projectRoot, 'graph.yaml');
+        }
+        options.wsHub?.broadcast({
+          type: 'featuremap_changed',
+          reason: 'features_updated',
+          file: `features/${featureId}.yaml`,
+        });
+      }
+      res.json({ feature: result.feature, changed: result.changed });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update feature.';
+      res.status(400).json({ error: message });
+    }
+  });
+
+  router.use((_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  return router;
+}
+
+function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join('.') || '<root>'}: ${issue.message}`)
+    .join('; ');
+}
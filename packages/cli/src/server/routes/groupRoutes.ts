@@ -1,14 +1,53 @@
 import express from 'express';
 import { z } from 'zod';
 import type { WsHub } from '../wsHub.js';
+import { getErrorStatus } from '../errors.js';
 import { requireToken } from '../security.js';
-import { updateGroupNote } from '../groupStore.js';
-import { syncFeaturemapDataFile } from '../featuremapDataMirror.js';
+import {
+  createGroup,
+  deleteGroup,
+  reorderGroups,
+  updateGroup,
+  updateGroupFeatures,
+  updateGroupNote,
+} from '../groupStore.js';
+import { removeFeaturemapDataFile, syncFeaturemapDataFile } from '../featuremapDataMirror.js';
 
 const NoteUpdateSchema = z.object({
   note: z.string().nullable().optional(),
 });
 
+const GroupCreateSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  description: z.string().optional(),
+  featureIds: z.array(z.string()).optional(),
+});
+
+const GroupUpdateSchema = z
+  .object({
+    name: z.string().optional(),
+    description: z.string().nullable().optional(),
+  })
+  .refine((value) => value.name !== undefined || value.description !== undefined, {
+    message: 'Provide name or description.',
+  });
+
+const GroupFeaturesUpdateSchema = z
+  .object({
+    add: z.array(z.string()).optional(),
+    remove: z.array(z.string()).optional(),
+  })
+  .refine((value) => (value.add?.length ?? 0) + (value.remove?.length ?? 0) > 0, {
+    message: 'Provide feature ids to add or remove.',
+  });
+
+const GroupOrderSchema = z.object({
+  groupIds: z.array(z.string()),
+});
+
+const GROUP_INDEX_PATH = 'groups/index.yaml';
+
 interface GroupRouterOptions {
   projectRoot: string;
   sessionToken: string;
@@ -18,6 +57,118 @@ interface GroupRouterOptions {
 export function createGroupRouter(options: GroupRouterOptions): express.Router {
   const router = express.Router();
 
+  const publishGroupChange = (file: string, removed = false) => {
+    if (removed) {
+      removeFeaturemapDataFile(options.projectRoot, file);
+    } else {
+      syncFeaturemapDataFile(options.projectRoot, file);
+    }
+    options.wsHub?.broadcast({
+      type: 'featuremap_changed',
+      reason: 'groups_updated',
+      file,
+    });
+  };
+
+  router.post('/', requireToken(options.sessionToken), (req, res) => {
+    const parsed = GroupCreateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: formatZodError(parsed.error) });
+      return;
+    }
+
+    try {
+      const group = createGroup(options.projectRoot, parsed.data);
+      syncFeaturemapDataFile(options.projectRoot, GROUP_INDEX_PATH);
+      publishGroupChange(`groups/${group.id}.yaml`);
+      res.status(201).json(group);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create group.';
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
+  router.post('/order', requireToken(options.sessionToken), (req, res) => {
+    const parsed = GroupOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: formatZodError(parsed.error) });
+      return;
+    }
+
+    try {
+      const groupIds = reorderGroups(options.projectRoot, parsed.data.groupIds);
+      publishGroupChange(GROUP_INDEX_PATH);
+      res.json({ groupIds });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to reorder groups.';
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
+  router.patch('/:groupId', requireToken(options.sessionToken), (req, res) => {
+    const groupId = req.params.groupId;
+    if (!groupId) {
+      res.status(400).json({ error: 'Group id is required.' });
+      return;
+    }
+
+    const parsed = GroupUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: formatZodError(parsed.error) });
+      return;
+    }
+
+    try {
+      const group = updateGroup(options.projectRoot, groupId, parsed.data);
+      publishGroupChange(`groups/${groupId}.yaml`);
+      res.json(group);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update group.';
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
+  router.delete('/:groupId', requireToken(options.sessionToken), (req, res) => {
+    const groupId = req.params.groupId;
+    if (!groupId) {
+      res.status(400).json({ error: 'Group id is required.' });
+      return;
+    }
+
+    try {
+      deleteGroup(options.projectRoot, groupId);
+      syncFeaturemapDataFile(options.projectRoot, GROUP_INDEX_PATH);
+      publishGroupChange(`groups/${groupId}.yaml`, true);
+      res.json({ deleted: true, groupId });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete group.';
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
+  router.post('/:groupId/features', requireToken(options.sessionToken), (req, res) => {
+    const groupId = req.params.groupId;
+    if (!groupId) {
+      res.status(400).json({ error: 'Group id is required.' });
+      return;
+    }
+
+    const parsed = GroupFeaturesUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: formatZodError(parsed.error) });
+      return;
+    }
+
+    try {
+      const group = updateGroupFeatures(options.projectRoot, groupId, parsed.data);
+      publishGroupChange(`groups/${groupId}.yaml`);
+      res.json(group);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update group features.';
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
   router.post('/:groupId/note', requireToken(options.sessionToken), (req, res) => {
     const groupId = req.params.groupId;
     if (!groupId) {
@@ -33,16 +184,11 @@ export function createGroupRouter(options: GroupRouterOptions): express.Router {
 
     try {
       updateGroupNote(options.projectRoot, groupId, parsed.data.note);
-      syncFeaturemapDataFile(options.projectRoot, `groups/${groupId}.yaml`);
-      options.wsHub?.broadcast({
-        type: 'featuremap_changed',
-        reason: 'groups_updated',
-        file: `groups/${groupId}.yaml`,
-      });
+      publishGroupChange(`groups/${groupId}.yaml`);
       res.json({ updated: true, groupId });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to update group.';
-      res.status(400).json({ error: message });
+      res.status(getErrorStatus(error)).json({ error: message });
     }
   });
 
@@ -0,0 +1,179 @@
+import express from 'express';
+import { z } from 'zod';
+import type { WsHub } from '../wsHub.js';
+import { getErrorStatus } from '../errors.js';
+import { requireToken } from '../security.js';
+import {
+  createView,
+  deleteView,
+  listViews,
+  updateView,
+  updateViewPositions,
+  VIEW_INDEX_FILE,
+} from '../viewStore.js';
+import { removeFeaturemapDataFile, syncFeaturemapDataFile } from '../featuremapDataMirror.js';
+import { LayerSchema } from '../../types/index.js';
+
+const PositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+const ViewStateSchema = z.object({
+  viewMode: z.enum(['clusters', 'features']).optional(),
+  filters: z
+    .object({
+      layer: z.union([z.literal('all'), LayerSchema]).optional(),
+      groupId: z.string().optional(),
+      owner: z.string().optional(),
+    })
+    .optional(),
+  collapsedGroupIds: z.array(z.string()).optional(),
+  edgeStyle: z.enum(['bezier', 'straight', 'step', 'smoothstep']).optional(),
+  viewport: z.object({ x: z.number(), y: z.number(), zoom: z.number() }).optional(),
+});
+
+const ViewCreateSchema = ViewStateSchema.extend({
+  id: z.string().optional(),
+  name: z.string(),
+  description: z.string().optional(),
+  viewMode: z.enum(['clusters', 'features']),
+  positions: z.record(z.string(), PositionSchema).optional(),
+});
+
+const ViewUpdateSchema = ViewStateSchema.extend({
+  name: z.string().optional(),
+  description: z.string().nullable().optional(),
+}).refine((value) => Object.values(value).some((field) => field !== undefined), {
+  message: 'Provide at least one field to update.',
+});
+
+const ViewPositionsUpdateSchema = z.object({
+  positions: z.record(z.string(), PositionSchema).refine(
+    (positions) => Object.keys(positions).length > 0,
+    { message: 'At least one position is required.' },
+  ),
+});
+
+const VIEW_INDEX_PATH = `views/${VIEW_INDEX_FILE}`;
+
+interface ViewRouterOptions {
+  projectRoot: string;
+  sessionToken: string;
+  wsHub: WsHub | null;
+}
+
+export function createViewRouter(options: ViewRouterOptions): express.Router {
+  const router = express.Router();
+
+  const publishViewChange = (viewId: string, removed = false) => {
+    const file = `views/${viewId}.yaml`;
+    if (removed) {
+      removeFeaturemapDataFile(options.projectRoot, file);
+    } else {
+      syncFeaturemapDataFile(options.projectRoot, file);
+    }
+    syncFeaturemapDataFile(options.projectRoot, VIEW_INDEX_PATH);
+    options.wsHub?.broadcast({
+      type: 'featuremap_changed',
+      reason: 'views_updated',
+      file,
+    });
+  };
+
+  router.get('/', (_req, res) => {
+    res.json(listViews(options.projectRoot));
+  });
+
+  router.post('/', requireToken(options.sessionToken), (req, res) => {
+    const parsed = ViewCreateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: formatZodError(parsed.error) });
+      return;
+    }
+
+    try {
+      const view = createView(options.projectRoot, parsed.data);
+      publishViewChange(view.id);
+      res.status(201).json(view);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create view.';
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
+  router.patch('/:viewId', requireToken(options.sessionToken), (req, res) => {
+    const viewId = req.params.viewId;
+    if (!viewId) {
+      res.status(400).json({ error: 'View id is required.' });
+      return;
+    }
+
+    const parsed = ViewUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: formatZodError(parsed.error) });
+      return;
+    }
+
+    try {
+      const view = updateView(options.projectRoot, viewId, parsed.data);
+      publishViewChange(viewId);
+      res.json(view);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update view.';
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
+  router.post('/:viewId/positions', requireToken(options.sessionToken), (req, res) => {
+    const viewId = req.params.viewId;
+    if (!viewId) {
+      res.status(400).json({ error: 'View id is required.' });
+      return;
+    }
+
+    const parsed = ViewPositionsUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: formatZodError(parsed.error) });
+      return;
+    }
+
+    try {
+      const view = updateViewPositions(options.projectRoot, viewId, parsed.data.positions);
+      publishViewChange(viewId);
+      res.json({ updated: true, positions: view.positions ?? {} });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update view.';
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
+  router.delete('/:viewId', requireToken(options.sessionToken), (req, res) => {
+    const viewId = req.params.viewId;
+    if (!viewId) {
+      res.status(400).json({ error: 'View id is required.' });
+      return;
+    }
+
+    try {
+      deleteView(options.projectRoot, viewId);
+      publishViewChange(viewId, true);
+      res.json({ deleted: true, viewId });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete view.';
+      res.status(getErrorStatus(error)).json({ error: message });
+    }
+  });
+
+  router.use((_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  return router;
+}
+
+function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join('.') || '<root>'}: ${issue.message}`)
+    .join('; ');
+}
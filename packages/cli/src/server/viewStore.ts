@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SUPPORTED_VERSIONS } from '../constants/versions.js';
+import { SavedViewIndexSchema, SavedViewSchema, type SavedView } from '../types/index.js';
+import { loadYAML, saveYAML } from '../utils/yaml-loader.js';
+import { NotFoundError } from './errors.js';
+
+const KEBAB_CASE_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const VIEW_INDEX_FILE = 'index.yaml';
+
+type Position = { x: number; y: number };
+
+export interface SavedViewState {
+  viewMode?: SavedView['viewMode'];
+  filters?: SavedView['filters'];
+  collapsedGroupIds?: string[];
+  edgeStyle?: SavedView['edgeStyle'];
+  viewport?: SavedView['viewport'];
+}
+
+export interface SavedViewCreateInput extends SavedViewState {
+  id?: string;
+  name: string;
+  description?: string;
+  viewMode: SavedView['viewMode'];
+  positions?: Record<string, Position>;
+}
+
+export interface SavedViewUpdateInput extends SavedViewState {
+  name?: string;
+  description?: string | null;
+}
+
+/** Saved views sorted by name; files that fail to load are skipped. */
+export function listViews(projectRoot: string): SavedView[] {
+  const viewsDir = path.join(path.resolve(projectRoot, '.featuremap'), 'views');
+  if (!fs.existsSync(viewsDir)) {
+    return [];
+  }
+
+  const views: SavedView[] = [];
+  for (const file of fs.readdirSync(viewsDir)) {
+    if (!file.endsWith('.yaml') || file === VIEW_INDEX_FILE) {
+      continue;
+    }
+    try {
+      views.push(loadYAML(path.join(viewsDir, file), SavedViewSchema, { fileType: 'view' }));
+    } catch {
+      // Broken files are reported by `featuremap validate`.
+    }
+  }
+  return views.sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+}
+
+export function listViewIds(projectRoot: string): string[] {
+  return listViews(projectRoot).map((view) => view.id);
+}
+
+export function createView(projectRoot: string, input: SavedViewCreateInput): SavedView {
+  const featuremapDir = resolveFeaturemapDir(projectRoot);
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('View name is required.');
+  }
+
+  const id = input.id ?? slugify(name);
+  if (!KEBAB_CASE_REGEX.test(id)) {
+    throw new Error('View id must be kebab-case.');
+  }
+
+  const viewPath = resolveViewPath(featuremapDir, id);
+  if (fs.existsSync(viewPath)) {
+    throw new Error(`View "${id}" already exists.`);
+  }
+
+  const now = new Date().toISOString();
+  const description = input.description?.trim();
+  const view: SavedView = {
+    ...applyState(
+      {
+        version: SUPPORTED_VERSIONS.view,
+        id,
+        name,
+        ...(description ? { description } : {}),
+        viewMode: input.viewMode,
+      },
+      input
+    ),
+    ...(input.positions && Object.keys(input.positions).length > 0
+      ? { positions: input.positions }
+      : {}),
+    metadata: {
+      createdAt: now,
+      updatedAt: now,
+    },
+  };
+
+  fs.mkdirSync(path.dirname(viewPath), { recursive: true });
+  saveYAML(viewPath, view, SavedViewSchema);
+  writeViewIndex(projectRoot, featuremapDir);
+  return view;
+}
+
+export function updateView(
+  projectRoot: string,
+  viewId: string,
+  input: SavedViewUpdateInput
+): SavedView {
+  const featuremapDir = resolveFeaturemapDir(projectRoot);
+  const viewPath = resolveExistingViewPath(featuremapDir, viewId);
+  const existing = loadYAML(viewPath, SavedViewSchema, { fileType: 'view' });
+
+  const next = applyState({ ...existing }, input);
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('View name is required.');
+    }
+    next.name = name;
+  }
+  if (input.description !== undefined) {
+    const description = input.description?.trim();
+    if (description) {
+      next.description = description;
+    } else {
+      delete next.description;
+    }
+  }
+
+  const saved = saveView(viewPath, next);
+  if (saved.name !== existing.name) {
+    writeViewIndex(projectRoot, featuremapDir);
+  }
+  return saved;
+}
+
+export function updateViewPositions(
+  projectRoot: string,
+  viewId: string,
+  positions: Record<string, Position>
+): SavedView {
+  const featuremapDir = resolveFeaturemapDir(projectRoot);
+  const viewPath = resolveExistingViewPath(featuremapDir, viewId);
+  const existing = loadYAML(viewPath, SavedViewSchema, { fileType: 'view' });
+  return saveView(viewPath, {
+    ...existing,
+    positions: { ...existing.positions, ...positions },
+  });
+}
+
+export function deleteView(projectRoot: string, viewId: string): void {
+  const featuremapDir = resolveFeaturemapDir(projectRoot);
+  fs.unlinkSync(resolveExistingViewPath(featuremapDir, viewId));
+  writeViewIndex(projectRoot, featuremapDir);
+}
+
+/** Copies the given state fields onto `view`; empty filters and lists are dropped. */
+function applyState<T extends Partial<SavedView>>(view: T, state: SavedViewState): T {
+  if (state.viewMode !== undefined) {
+    view.viewMode = state.viewMode;
+  }
+  if (state.filters !== undefined) {
+    const filters: NonNullable<SavedView['filters']> = Object.fromEntries(
+      Object.entries(state.filters).filter(([, value]) => value !== undefined && value !== 'all')
+    );
+    if (Object.keys(filters).length > 0) {
+      view.filters = filters;
+    } else {
+      delete view.filters;
+    }
+  }
+  if (state.collapsedGroupIds !== undefined) {
+    const collapsed = [...new Set(state.collapsedGroupIds)].sort((a, b) => a.localeCompare(b));
+    if (collapsed.length > 0) {
+      view.collapsedGroupIds = collapsed;
+    } else {
+      delete view.collapsedGroupIds;
+    }
+  }
+  if (state.edgeStyle !== undefined) {
+    view.edgeStyle = state.edgeStyle;
+  }
+  if (state.viewport !== undefined) {
+    view.viewport = state.viewport;
+  }
+  return view;
+}
+
+function saveView(viewPath: string, view: SavedView): SavedView {
+  const next: SavedView = {
+    ...view,
+    metadata: {
+      ...view.metadata,
+      updatedAt: new Date().toISOString(),
+    },
+  };
+  saveYAML(viewPath, next, SavedViewSchema);
+  return next;
+}
+
+function writeViewIndex(projectRoot: string, featuremapDir: string): void {
+  const indexPath = path.join(featuremapDir, 'views', VIEW_INDEX_FILE);
+  saveYAML(
+    indexPath,
+    { version: SUPPORTED_VERSIONS.view, views: listViewIds(projectRoot) },
+    SavedViewIndexSchema
+  );
+}
+
+function resolveFeaturemapDir(projectRoot: string): string {
+  const featuremapDir = path.resolve(projectRoot, '.featuremap');
+  if (!fs.existsSync(featuremapDir)) {
+    throw new Error('Missing .featuremap/ directory.');
+  }
+  return featuremapDir;
+}
+
+function resolveViewPath(featuremapDir: string, viewId: string): string {
+  const viewsDir = path.resolve(featuremapDir, 'views');
+  const viewPath = path.resolve(viewsDir, `${viewId}.yaml`);
+  const relativePath = path.relative(viewsDir, viewPath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath) || viewId === 'index') {
+    throw new Error('Invalid view id.');
+  }
+  return viewPath;
+}
+
+function resolveExistingViewPath(featuremapDir: string, viewId: string): string {
+  const viewPath = resolveViewPath(featuremapDir, viewId);
+  if (!fs.existsSync(viewPath)) {
+    throw new NotFoundError('View not found.');
+  }
+  return viewPath;
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -4,7 +4,15 @@ import { isLocalhostRequest } from './security.js';
 
 export type FeaturemapWsMessage = {
   type: 'featuremap_changed';
-  reason: 'context_updated' | 'comments_updated' | 'groups_updated' | 'layout_updated';
+  reason:
+    | 'context_updated'
+    | 'comments_updated'
+    | 'groups_updated'
+    | 'features_updated'
+    | 'layout_updated'
+    | 'views_updated'
+    | 'graph_updated'
+    | 'clusters_updated';
   file: string;
 };
 
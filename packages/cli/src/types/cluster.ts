@@ -1,5 +1,11 @@
 import { z } from 'zod';
-import { ExportSchema, ImportListSchema, LayerSchema, MetadataSchema } from './common.js';
+import {
+  CodeMetricsSchema,
+  ExportSchema,
+  ImportListSchema,
+  LayerSchema,
+  MetadataSchema,
+} from './common.js';
 
 const LayerDetectionSchema = z.object({
   layer: LayerSchema.optional(),
@@ -23,6 +29,7 @@ export const ClusterSchema = z.object({
   imports: ImportListSchema,
   purpose_hint: z.string().optional(),
   entry_points: z.array(z.string()).optional(),
+  metrics: CodeMetricsSchema.optional(),
   compositionHash: z.string(),
   metadata: MetadataSchema,
 });
@@ -15,20 +15,43 @@ const CommentPositionSchema = z.object({
 
 const CommentHomeViewSchema = z.enum(['features', 'clusters']);
 
+const CommentStatusSchema = z.enum(['open', 'resolved', 'wontfix']);
+
+const CommentContentSchema = z.string().refine((value) => value.trim().length > 0, {
+  message: 'content required',
+});
+
+export const CommentReplySchema = z
+  .object({
+    id: z.string().regex(KEBAB_CASE_REGEX, 'id must be kebab-case'),
+    content: CommentContentSchema,
+    author: z.string().optional(),
+    mentions: z.array(z.string()).optional(),
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+  })
+  .strict()
+  .describe('Reply in a comment thread');
+
 export const CommentNodeSchema = z
   .object({
     version: z.number().int().positive(),
     id: z.string().regex(KEBAB_CASE_REGEX, 'id must be kebab-case'),
     homeView: CommentHomeViewSchema.optional(),
-    content: z.string().refine((value) => value.trim().length > 0, {
-      message: 'content required',
-    }),
+    content: CommentContentSchema,
     position: CommentPositionSchema,
     links: z.array(CommentLinkSchema).max(MAX_COMMENT_LINKS),
     pinned: z.boolean().optional(),
     tags: z.array(z.string()).optional(),
     priority: z.enum(['low', 'medium', 'high']).optional(),
+    /** Thread status; a comment without one is open. */
+    status: CommentStatusSchema.optional(),
+    resolvedBy: z.string().optional(),
+    resolvedAt: z.string().optional(),
     author: z.string().optional(),
+    /** Authors @-mentioned in `content`, derived on save. */
+    mentions: z.array(z.string()).optional(),
+    replies: z.array(CommentReplySchema).optional(),
     createdAt: z.string().optional(),
     updatedAt: z.string().optional(),
   })
@@ -38,3 +61,5 @@ export const CommentNodeSchema = z
 export type CommentNode = z.infer<typeof CommentNodeSchema>;
 export type CommentLink = z.infer<typeof CommentLinkSchema>;
 export type CommentHomeView = z.infer<typeof CommentHomeViewSchema>;
+export type CommentStatus = z.infer<typeof CommentStatusSchema>;
+export type CommentReply = z.infer<typeof CommentReplySchema>;
@@ -1,15 +1,30 @@
 import { z } from 'zod';
 
-export const LayerSchema = z.enum([
+export const BUILT_IN_LAYERS = [
   'frontend',
   'backend',
   'shared',
   'infrastructure',
   'fullstack',
   'smell',
-]);
+] as const;
 
-export type Layer = z.infer<typeof LayerSchema>;
+export type BuiltInLayer = (typeof BUILT_IN_LAYERS)[number];
+
+export const LAYER_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+export const LayerSchema = z
+  .string()
+  .regex(LAYER_NAME_PATTERN, 'Layer must be a lowercase name such as "backend" or "data-pipeline"')
+  .describe('Built-in layer or a custom one defined under layers.signals in config.yaml');
+
+export type Layer = BuiltInLayer | (string & {});
+
+export const LayerFilterParamSchema = z
+  .union([z.literal('all'), LayerSchema])
+  .describe('Layer to filter by, or "all"; custom layers from config.yaml are accepted');
+
+export type LayerFilterParam = z.infer<typeof LayerFilterParamSchema>;
 
 export const SourceSchema = z.enum(['auto', 'ai', 'user']);
 
@@ -32,10 +47,17 @@ export const ExportSchema = z.object({
 
 export type ExportSymbol = z.infer<typeof ExportSchema>;
 
+export const ImportKindSchema = z
+  .enum(['static', 'reexport', 'dynamic', 'require'])
+  .describe('How a dependency is declared: import, export ... from, import() or require()');
+
+export type ImportKind = z.infer<typeof ImportKindSchema>;
+
 const ImportDetailSchema = z.object({
   from: z.string().describe('Import module specifier or resolved internal path'),
   symbols: z.array(z.string()).describe('Imported symbols'),
   isTypeOnly: z.boolean().describe('Type-only import declaration'),
+  kind: ImportKindSchema.optional().describe('Omitted for static imports'),
 });
 
 export const ImportListSchema = z.object({
@@ -59,3 +81,23 @@ export const PositionSchema = z.object({
 });
 
 export type Position = z.infer<typeof PositionSchema>;
+
+const LargestFileSchema = z.object({
+  path: z.string(),
+  linesOfCode: z.number().int().nonnegative(),
+});
+
+export const CodeMetricsSchema = z.object({
+  afferentCoupling: z.number().int().nonnegative().describe('Ca: outside files that import this code'),
+  efferentCoupling: z.number().int().nonnegative().describe('Ce: outside files this code imports'),
+  fanIn: z.number().int().nonnegative().describe('Other clusters/features that depend on this one'),
+  fanOut: z.number().int().nonnegative().describe('Other clusters/features this one depends on'),
+  instability: z.number().min(0).max(1).describe('I = Ce / (Ca + Ce)'),
+  abstractness: z.number().min(0).max(1).describe('A = interface/type exports / all exports'),
+  distance: z.number().min(0).max(1).describe('Distance from the main sequence |A + I - 1|'),
+  linesOfCode: z.number().int().nonnegative(),
+  fileCount: z.number().int().nonnegative(),
+  largestFiles: z.array(LargestFileSchema),
+}).describe('Code-health metrics computed by scan');
+
+export type CodeMetrics = z.infer<typeof CodeMetricsSchema>;
@@ -1,10 +1,103 @@
 import { z } from 'zod';
+import { LayerSchema } from './common.js';
 
 export const FeatureHintSchema = z.object({
-  pattern: z.string(),
-  type: z.string(),
+  pattern: z.string().describe('Glob matched against file paths relative to project.root'),
+  type: z.string().optional().describe('Feature type suggested for matching clusters'),
+  cluster: z
+    .string()
+    .optional()
+    .describe('Cluster ID that matching files are forced into; hints sharing an ID merge folders'),
+  layer: LayerSchema.optional().describe('Layer pre-assigned to matching clusters'),
 }).describe('Pattern hint to guide feature grouping');
 
+export type FeatureHint = z.infer<typeof FeatureHintSchema>;
+
+export const ClusteringStrategySchema = z.enum(['folders', 'folder-depth', 'community']);
+
+export type ClusteringStrategy = z.infer<typeof ClusteringStrategySchema>;
+
+export const ClusteringConfigSchema = z.object({
+  strategy: ClusteringStrategySchema,
+  depth: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Directory depth used by the folder-depth strategy (default 2)'),
+}).describe('How scanned files are grouped into clusters');
+
+export type ClusteringConfig = z.infer<typeof ClusteringConfigSchema>;
+
+export const OwnershipConfigSchema = z.object({
+  gitAuthors: z
+    .boolean()
+    .optional()
+    .describe('Also count git log authors per file (default false)'),
+  since: z
+    .string()
+    .optional()
+    .describe('Only count commits after this date, passed to git log --since (e.g. "1 year ago")'),
+}).describe('Ownership detection for context/ownership.yaml');
+
+export type OwnershipConfig = z.infer<typeof OwnershipConfigSchema>;
+
+export const HotspotsConfigSchema = z.object({
+  since: z
+    .string()
+    .optional()
+    .describe('History window passed to git log --since (default "1 year ago")'),
+  minCoChanges: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Commits two files must share to count as temporally coupled (default 3)'),
+}).describe('Change-frequency analysis for context/hotspots.yaml');
+
+export type HotspotsConfig = z.infer<typeof HotspotsConfigSchema>;
+
+export const LayerSignalsSchema = z.object({
+  imports: z
+    .array(z.string())
+    .optional()
+    .describe('Package names whose import signals the layer (e.g. "@acme/rpc")'),
+  importPrefixes: z
+    .array(z.string())
+    .optional()
+    .describe('Package name prefixes whose import signals the layer (e.g. "@acme/ui-")'),
+  paths: z
+    .array(z.string())
+    .optional()
+    .describe('Path fragments that signal the layer (e.g. "/screens/")'),
+  fileNamePrefixes: z
+    .array(z.string())
+    .optional()
+    .describe('File name prefixes that signal the layer (e.g. "pipeline.")'),
+}).describe('Extra layer detection signals, added to the built-in ones');
+
+export type LayerSignals = z.infer<typeof LayerSignalsSchema>;
+
+export const LayerOverrideSchema = z.object({
+  pattern: z.string().describe('Glob matched against file paths relative to project.root'),
+  layer: LayerSchema.describe('Layer of clusters whose files all match the pattern'),
+}).describe('Layer forced for matching clusters, skipping detection');
+
+export type LayerOverride = z.infer<typeof LayerOverrideSchema>;
+
+export const LayersConfigSchema = z.object({
+  signals: z
+    .record(LayerSchema, LayerSignalsSchema)
+    .refine((signals) => !('fullstack' in signals) && !('smell' in signals), {
+      message: 'fullstack and smell are derived from other layers and take no signals',
+    })
+    .optional()
+    .describe('Signals per layer; a name that is not built in defines a new layer'),
+  overrides: z.array(LayerOverrideSchema).optional().describe('First matching override wins'),
+}).describe('Layer detection rules for cluster files');
+
+export type LayersConfig = z.infer<typeof LayersConfigSchema>;
+
 export const ConfigSchema = z.object({
   version: z.number().int().positive(),
   project: z.object({
@@ -14,10 +107,14 @@ export const ConfigSchema = z.object({
   scan: z.object({
     include: z.array(z.string()),
     exclude: z.array(z.string()),
+    clustering: ClusteringConfigSchema.optional(),
   }),
   features: z.object({
     hints: z.array(FeatureHintSchema),
   }),
+  layers: LayersConfigSchema.optional(),
+  ownership: OwnershipConfigSchema.optional(),
+  hotspots: HotspotsConfigSchema.optional(),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -1,11 +1,12 @@
 ﻿import { z } from 'zod';
+import { CodeMetricsSchema } from './common.js';
 
 // Tech Stack - auto-detected from package.json and imports
 export const TechStackSchema = z.object({
   version: z.number().int().positive(),
   source: z.literal('auto'),
   detectedAt: z.string(),
-  language: z.enum(['typescript', 'javascript', 'go', 'unknown']).optional(),
+  language: z.enum(['typescript', 'javascript', 'go', 'python', 'unknown']).optional(),
 
   frameworks: z.array(
     z.object({
@@ -119,6 +120,146 @@ export const StatisticsSchema = z.object({
   }),
 });
 
+// Cycles - strongly connected components at file, cluster and feature level
+const CycleSchema = z.object({
+  nodes: z.array(z.string()).describe('Members of one strongly connected component'),
+});
+
+export const CyclesSchema = z.object({
+  version: z.number().int().positive(),
+  source: z.literal('auto'),
+  detectedAt: z.string(),
+
+  files: z.array(CycleSchema),
+  clusters: z.array(CycleSchema),
+  features: z.array(CycleSchema),
+});
+
+// Metrics - code-health metrics per cluster and feature
+const MetricsEntrySchema = z.object({
+  id: z.string(),
+  ...CodeMetricsSchema.shape,
+});
+
+export const MetricsSchema = z.object({
+  version: z.number().int().positive(),
+  source: z.literal('auto'),
+  detectedAt: z.string(),
+
+  clusters: z.array(MetricsEntrySchema),
+  features: z.array(MetricsEntrySchema),
+});
+
+// Dead code - exports nothing imports and files nothing depends on, per cluster
+const UnusedExportSchema = z.object({
+  file: z.string(),
+  name: z.string(),
+  type: z.string().describe('Symbol kind (function, class, interface, etc.)'),
+});
+
+const DeadCodeClusterSchema = z.object({
+  id: z.string(),
+  unusedExports: z.array(UnusedExportSchema),
+  unreachableFiles: z.array(z.string()).describe('Files no other file imports that are not roots'),
+});
+
+export const DeadCodeSchema = z.object({
+  version: z.number().int().positive(),
+  source: z.literal('auto'),
+  detectedAt: z.string(),
+
+  roots: z.array(z.string()).describe('Entry files: cluster entry_points and package.json main/bin/exports'),
+  clusters: z.array(DeadCodeClusterSchema).describe('Clusters with at least one finding'),
+});
+
+// Ownership - CODEOWNERS owners and git authors per cluster and feature
+const OwnershipEntrySchema = z.object({
+  id: z.string(),
+  owners: z
+    .array(z.object({ name: z.string(), files: z.number().int().nonnegative() }))
+    .describe('CODEOWNERS owners, most files first'),
+  authors: z
+    .array(z.object({ name: z.string(), commits: z.number().int().nonnegative() }))
+    .optional()
+    .describe('Top git authors by commits touching the files (ownership.gitAuthors)'),
+  unownedFiles: z.number().int().nonnegative().describe('Files no CODEOWNERS rule assigns'),
+});
+
+export const OwnershipSchema = z.object({
+  version: z.number().int().positive(),
+  source: z.literal('auto'),
+  detectedAt: z.string(),
+
+  codeowners: z.string().optional().describe('CODEOWNERS file used, relative to the project root'),
+  clusters: z.array(OwnershipEntrySchema),
+  features: z.array(OwnershipEntrySchema),
+});
+
+// Hotspots - change frequency from git history and co-change (temporal) coupling
+const ChurnEntrySchema = z.object({
+  id: z.string(),
+  commits: z.number().int().nonnegative(),
+  churn: z.number().int().nonnegative().describe('Lines added plus lines deleted'),
+});
+
+const TemporalCouplingSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  coChanges: z.number().int().positive().describe('Commits that changed both'),
+  degree: z.number().describe('coChanges / average commits of source and target (0..1)'),
+});
+
+export const HotspotsSchema = z.object({
+  version: z.number().int().positive(),
+  source: z.literal('auto'),
+  detectedAt: z.string(),
+
+  since: z.string().describe('History window passed to git log --since'),
+  commitCount: z.number().int().nonnegative(),
+  files: z
+    .array(
+      z.object({
+        path: z.string(),
+        commits: z.number().int().nonnegative(),
+        churn: z.number().int().nonnegative(),
+        linesOfCode: z.number().int().nonnegative(),
+      })
+    )
+    .describe('Most frequently changed files'),
+  clusters: z.array(ChurnEntrySchema),
+  features: z.array(ChurnEntrySchema),
+  coupling: z
+    .object({
+      files: z.array(TemporalCouplingSchema),
+      clusters: z.array(TemporalCouplingSchema),
+      features: z.array(TemporalCouplingSchema),
+    })
+    .describe('Pairs that change together but have no dependency edge'),
+});
+
+// Test coverage - test files per cluster and feature plus line coverage from local reports
+const TestCoverageEntrySchema = z.object({
+  id: z.string(),
+  testFiles: z.array(z.string()).describe('Test files that import one of the unit files'),
+  linesFound: z.number().int().nonnegative().optional(),
+  linesHit: z.number().int().nonnegative().optional(),
+  lineCoverage: z
+    .number()
+    .optional()
+    .describe('linesHit / linesFound in percent; absent without coverage data'),
+});
+
+export const TestCoverageSchema = z.object({
+  version: z.number().int().positive(),
+  source: z.literal('auto'),
+  detectedAt: z.string(),
+
+  testFileCount: z.number().int().nonnegative(),
+  reports: z.array(z.string()).describe('Coverage reports read, relative to the project root'),
+  clusters: z.array(TestCoverageEntrySchema),
+  features: z.array(TestCoverageEntrySchema),
+});
+
 // Structure - repository organization and workspace info
 export const StructureSchema = z.object({
   version: z.number().int().positive(),
@@ -265,6 +406,12 @@ export const DesignSystemSchema = z
 export type TechStack = z.infer<typeof TechStackSchema>;
 export type Conventions = z.infer<typeof ConventionsSchema>;
 export type Statistics = z.infer<typeof StatisticsSchema>;
+export type Cycles = z.infer<typeof CyclesSchema>;
+export type Metrics = z.infer<typeof MetricsSchema>;
+export type DeadCode = z.infer<typeof DeadCodeSchema>;
+export type Ownership = z.infer<typeof OwnershipSchema>;
+export type Hotspots = z.infer<typeof HotspotsSchema>;
+export type TestCoverage = z.infer<typeof TestCoverageSchema>;
 export type Structure = z.infer<typeof StructureSchema>;
 export type Testing = z.infer<typeof TestingSchema>;
 export type RunCommands = z.infer<typeof RunCommandsSchema>;
@@ -12,6 +12,9 @@ const FeatureLocksSchema = z.object({
   name: z.boolean().optional(),
   description: z.boolean().optional(),
   clusters: z.boolean().optional(),
+  scope: z.boolean().optional(),
+  dependsOn: z.boolean().optional(),
+  status: z.boolean().optional(),
 }).describe('Manual edit protection');
 
 export const FeatureSchema = z.object({
@@ -32,3 +35,5 @@ export const FeatureSchema = z.object({
 }).describe('AI-grouped feature definition');
 
 export type Feature = z.infer<typeof FeatureSchema>;
+export type FeatureStatus = z.infer<typeof FeatureStatusSchema>;
+export type FeatureScope = z.infer<typeof FeatureScopeSchema>;
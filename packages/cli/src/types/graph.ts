@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ImportKindSchema } from './common.js';
 
 const GraphNodeSchema = z.object({
   id: z.string(),
@@ -12,6 +13,7 @@ const EdgeImportDetailSchema = z.object({
   symbol: z.string(),
   sourceFiles: z.array(z.string()),
   targetFile: z.string().optional(),
+  kind: ImportKindSchema.optional(),
 });
 
 const GraphEdgeSchema = z.object({
@@ -19,6 +21,7 @@ const GraphEdgeSchema = z.object({
   target: z.string(),
   type: z.string().optional(),
   imports: z.array(EdgeImportDetailSchema).optional(),
+  importKinds: z.array(ImportKindSchema).optional(),
 }).describe('React Flow edge');
 
 export const GraphSchema = z.object({
@@ -34,3 +34,12 @@ export const GroupSchema = z
   .describe('User-defined feature grouping');
 
 export type Group = z.infer<typeof GroupSchema>;
+
+export const GroupIndexSchema = z
+  .object({
+    version: z.number().int().positive(),
+    groups: z.array(z.string()),
+  })
+  .describe('Display order of groups');
+
+export type GroupIndex = z.infer<typeof GroupIndexSchema>;
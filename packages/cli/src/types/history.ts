@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { LayerSchema } from './common.js';
+
+const SnapshotNodeSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  type: z.enum(['cluster', 'feature']),
+  fileCount: z.number().optional(),
+  clusterCount: z.number().optional(),
+});
+
+const SnapshotEdgeSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  type: z.string().optional(),
+});
+
+const SnapshotClusterSchema = z.object({
+  id: z.string(),
+  layer: LayerSchema,
+  files: z.array(z.string()),
+  compositionHash: z.string(),
+});
+
+const SnapshotFeatureSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.string(),
+  clusters: z.array(z.string()),
+  compositionHash: z.string(),
+});
+
+export const SnapshotSchema = z.object({
+  version: z.number().int().positive(),
+  id: z.string(),
+  createdAt: z.string(),
+  graph: z.object({
+    nodes: z.array(SnapshotNodeSchema),
+    edges: z.array(SnapshotEdgeSchema).describe('graph.yaml edges without import details'),
+  }),
+  clusters: z.array(SnapshotClusterSchema),
+  features: z.array(SnapshotFeatureSchema),
+}).describe('Point-in-time copy of graph.yaml, clusters and feature hashes');
+
+export type Snapshot = z.infer<typeof SnapshotSchema>;
@@ -8,3 +8,6 @@ export * from './graph.js';
 export * from './layout.js';
 export * from './comment.js';
 export * from './context.js';
+export * from './rules.js';
+export * from './history.js';
+export * from './view.js';
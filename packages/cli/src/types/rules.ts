@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { LayerSchema } from './common.js';
+
+const RuleSeveritySchema = z
+  .enum(['error', 'warning'])
+  .describe('Only error violations make `featuremap check` fail');
+
+const RuleBaseSchema = z.object({
+  id: z.string(),
+  description: z.string().optional(),
+  severity: RuleSeveritySchema.optional(),
+});
+
+const LayerDependencyRuleSchema = RuleBaseSchema.extend({
+  type: z.literal('layer-dependency'),
+  from: LayerSchema,
+  to: z.array(LayerSchema).describe('Layers that clusters of `from` must not depend on'),
+}).describe('Forbid dependencies from one layer to others');
+
+const AllowedDependenciesRuleSchema = RuleBaseSchema.extend({
+  type: z.literal('allowed-dependencies'),
+  cluster: z.string(),
+  allow: z.array(z.string()).describe('The only cluster IDs the cluster may depend on'),
+}).describe('Restrict a cluster to an explicit list of dependencies');
+
+const NoDeprecatedFeaturesRuleSchema = RuleBaseSchema.extend({
+  type: z.literal('no-deprecated-features'),
+  features: z
+    .array(z.string())
+    .optional()
+    .describe('Features the rule applies to (default: every non-deprecated feature)'),
+}).describe('Forbid depending on features with status deprecated');
+
+const NoNewDependenciesRuleSchema = RuleBaseSchema.extend({
+  type: z.literal('no-new-dependencies'),
+  layer: LayerSchema.describe('Layer whose clusters must not gain new incoming dependencies'),
+}).describe('Freeze incoming dependencies of a layer relative to the baseline graph');
+
+export const RuleSchema = z.discriminatedUnion('type', [
+  LayerDependencyRuleSchema,
+  AllowedDependenciesRuleSchema,
+  NoDeprecatedFeaturesRuleSchema,
+  NoNewDependenciesRuleSchema,
+]);
+
+export const RulesSchema = z.object({
+  version: z.number().int().positive(),
+  rules: z.array(RuleSchema),
+}).describe('Machine-checkable architecture rules (user-authored)');
+
+export type Rule = z.infer<typeof RuleSchema>;
+export type RuleSeverity = z.infer<typeof RuleSeveritySchema>;
+export type Rules = z.infer<typeof RulesSchema>;
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { LayerSchema } from './common.js';
+
+const ViewPositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+const ViewViewportSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  zoom: z.number(),
+});
+
+const SavedViewFiltersSchema = z
+  .object({
+    layer: z.union([z.literal('all'), LayerSchema]).optional(),
+    groupId: z.string().optional(),
+    owner: z.string().optional(),
+  })
+  .describe('Map filters; omitted filters show everything');
+
+const SavedViewMetadataSchema = z.object({
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const SavedViewSchema = z
+  .object({
+    version: z.number().int().positive(),
+    id: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    viewMode: z.enum(['clusters', 'features']),
+    filters: SavedViewFiltersSchema.optional(),
+    collapsedGroupIds: z.array(z.string()).optional(),
+    edgeStyle: z.enum(['bezier', 'straight', 'step', 'smoothstep']).optional(),
+    positions: z
+      .record(z.string(), ViewPositionSchema)
+      .optional()
+      .describe('Node positions of this view, on top of layout.yaml'),
+    viewport: ViewViewportSchema.optional(),
+    metadata: SavedViewMetadataSchema,
+  })
+  .describe('Named map view with its own filters, collapsed groups and node positions');
+
+export type SavedView = z.infer<typeof SavedViewSchema>;
+
+export const SavedViewIndexSchema = z
+  .object({
+    version: z.number().int().positive(),
+    views: z.array(z.string()),
+  })
+  .describe('Saved view ids, sorted by name');
+
+export type SavedViewIndex = z.infer<typeof SavedViewIndexSchema>;
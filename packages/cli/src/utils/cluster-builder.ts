@@ -1,11 +1,14 @@
 import type { DependencyGraph } from '../analyzer/graph.js';
 import type { Cluster as FolderCluster } from '../analyzer/grouper.js';
 import { detectLayer } from '../analyzer/layer-detector.js';
+import { findLayerOverride } from '../analyzer/layer-rules.js';
 import { generateCompositionHash } from './composition-hash.js';
 import {
   type Cluster as ClusterFile,
+  type CodeMetrics,
   type ExportSymbol,
   type ImportList,
+  type LayersConfig,
   type Metadata,
 } from '../types/index.js';
 import { SUPPORTED_VERSIONS } from '../constants/versions.js';
@@ -15,7 +18,10 @@ interface ClusterBuildOptions {
   version?: number;
   purpose_hint?: string;
   entry_points?: string[];
+  metrics?: CodeMetrics;
   existingCluster?: ClusterFile | null;
+  /** config.yaml `layers`: custom signals and per-glob overrides. */
+  layers?: LayersConfig;
 }
 
 export function buildClusterFile(
@@ -25,11 +31,27 @@ export function buildClusterFile(
 ): ClusterFile {
   const exportSymbols = collectClusterExports(cluster, graph);
   const imports = collectClusterImports(cluster, graph);
-  const detection = detectLayer({
-    files: cluster.files,
-    imports,
-    exports: exportSymbols,
-  });
+  const layerOverride = findLayerOverride(cluster.files, options.layers?.overrides ?? []);
+  const detection = cluster.layerHint
+    ? {
+        layer: cluster.layerHint.layer,
+        confidence: 'high' as const,
+        signals: [`config hint: ${cluster.layerHint.pattern}`],
+      }
+    : layerOverride
+    ? {
+        layer: layerOverride.layer,
+        confidence: 'high' as const,
+        signals: [`config override: ${layerOverride.pattern}`],
+      }
+    : detectLayer(
+        {
+          files: cluster.files,
+          imports,
+          exports: exportSymbols,
+        },
+        { signals: options.layers?.signals }
+      );
   const layerLocked = options.existingCluster?.locks?.layer === true;
 
   return {
@@ -43,6 +65,7 @@ export function buildClusterFile(
     imports,
     ...(options.purpose_hint !== undefined ? { purpose_hint: options.purpose_hint } : {}),
     ...(options.entry_points !== undefined ? { entry_points: options.entry_points } : {}),
+    ...(options.metrics ? { metrics: options.metrics } : {}),
     compositionHash: generateCompositionHash(cluster.files),
     metadata: options.metadata,
   };
@@ -5,6 +5,8 @@ import * as yaml from 'yaml';
 import type { ZodType } from 'zod';
 import type { DependencyGraph } from '../analyzer/graph.js';
 import type { ConventionsDetectionInput } from '../analyzer/conventions-detector.js';
+import { findCycles } from '../analyzer/cycle-detector.js';
+import { CyclesSchema } from '../types/context.js';
 import { saveYAML } from './yaml-loader.js';
 
 const SCAN_IGNORES = [
@@ -49,6 +51,89 @@ export function countFeatureFiles(featuremapDir: string): number {
   return entries.filter((entry) => entry.isFile() && entry.name.endsWith('.yaml')).length;
 }
 
+/**
+ * Reads `dependsOn` of every feature in features/*.yaml. Unreadable files are skipped.
+ */
+export function loadFeatureDependencies(featuremapDir: string): Record<string, string[]> {
+  const featuresDir = path.join(featuremapDir, 'features');
+  if (!fs.existsSync(featuresDir)) {
+    return {};
+  }
+
+  const dependencies: Record<string, string[]> = {};
+  for (const fileName of fs.readdirSync(featuresDir)) {
+    if (!fileName.endsWith('.yaml')) {
+      continue;
+    }
+    try {
+      const parsed = yaml.parse(fs.readFileSync(path.join(featuresDir, fileName), 'utf-8')) as {
+        id?: unknown;
+        dependsOn?: unknown;
+      };
+      if (typeof parsed?.id !== 'string') {
+        continue;
+      }
+      dependencies[parsed.id] = Array.isArray(parsed.dependsOn)
+        ? parsed.dependsOn.filter((entry): entry is string => typeof entry === 'string')
+        : [];
+    } catch {
+      // Skip invalid feature files.
+    }
+  }
+
+  return dependencies;
+}
+
+/** Feature id -> cluster ids, read leniently so one broken feature does not block a scan. */
+export function loadFeatureClusters(featuremapDir: string): Record<string, string[]> {
+  const featuresDir = path.join(featuremapDir, 'features');
+  if (!fs.existsSync(featuresDir)) {
+    return {};
+  }
+
+  const featureClusters: Record<string, string[]> = {};
+  for (const fileName of fs.readdirSync(featuresDir)) {
+    if (!fileName.endsWith('.yaml')) {
+      continue;
+    }
+    try {
+      const parsed = yaml.parse(fs.readFileSync(path.join(featuresDir, fileName), 'utf-8')) as {
+        id?: unknown;
+        clusters?: unknown;
+      };
+      if (typeof parsed?.id !== 'string') {
+        continue;
+      }
+      featureClusters[parsed.id] = Array.isArray(parsed.clusters)
+        ? parsed.clusters.filter((entry): entry is string => typeof entry === 'string')
+        : [];
+    } catch {
+      // Skip invalid feature files.
+    }
+  }
+
+  return featureClusters;
+}
+
+/**
+ * Recomputes the feature section of context/cycles.yaml after features change.
+ * Returns false when the scan has not produced cycles.yaml yet or nothing changed.
+ */
+export function refreshFeatureCycles(featuremapDir: string): boolean {
+  const cyclesPath = path.join(featuremapDir, 'context', 'cycles.yaml');
+  const existing = loadAutoContext(cyclesPath, CyclesSchema);
+  if (!existing) {
+    return false;
+  }
+
+  const features = findCycles(loadFeatureDependencies(featuremapDir)).map((nodes) => ({ nodes }));
+  return saveAutoContext(
+    cyclesPath,
+    { ...existing, detectedAt: new Date().toISOString(), features },
+    CyclesSchema
+  );
+}
+
 export function buildConventionsInput(graph: DependencyGraph): ConventionsDetectionInput {
   const files = Object.keys(graph.files).sort((a, b) => a.localeCompare(b));
   const exports: ConventionsDetectionInput['exports'] = [];
@@ -0,0 +1,253 @@
+import type { Layer } from '../types/index.js';
+import { sortLayers, type ExportMap, type ExportNode, type ExportView, type ExportViewMode } from './mapExport.js';
+import { getLayerColor } from './mapExportRender.js';
+
+export type DiagramFormat = 'mermaid' | 'dot' | 'structurizr';
+
+export const DIAGRAM_FORMATS: DiagramFormat[] = ['mermaid', 'dot', 'structurizr'];
+
+export interface DiagramFilters {
+  /** Keep nodes in this layer; 'all' (default) keeps every node. */
+  layer?: Layer | 'all';
+  /** Keep nodes that belong to this group (the group's features, or their clusters). */
+  groupId?: string;
+}
+
+/**
+ * Applies the same layer/group filters as get_architecture_overview to one view. Edges and
+ * group containers are trimmed to the nodes that remain.
+ */
+export function filterExportView(view: ExportView, filters: DiagramFilters = {}): ExportView {
+  const layer = filters.layer && filters.layer !== 'all' ? filters.layer : null;
+  const groupId = filters.groupId?.trim() || null;
+  const nodes = view.nodes.filter(
+    (node) =>
+      (!layer || node.layers.includes(layer)) && (!groupId || node.groupIds.includes(groupId))
+  );
+  const nodeIds = new Set(nodes.map((node) => node.id));
+
+  return {
+    ...view,
+    nodes,
+    edges: view.edges.filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target)),
+    groups: view.groups
+      .map((group) => ({ ...group, memberIds: group.memberIds.filter((id) => nodeIds.has(id)) }))
+      .filter((group) => group.memberIds.length > 0),
+  };
+}
+
+export function renderDiagram(
+  map: ExportMap,
+  mode: ExportViewMode,
+  format: DiagramFormat,
+  filters: DiagramFilters = {}
+): string {
+  const view = filterExportView(map.views[mode], filters);
+  if (format === 'mermaid') {
+    return renderMermaid(view);
+  }
+  if (format === 'dot') {
+    return renderDot(view, map.projectName);
+  }
+  return renderStructurizr(view, map.projectName);
+}
+
+function renderMermaid(view: ExportView): string {
+  const ids = buildIdentifiers(view.nodes.map((node) => node.id), 'n_');
+  const groupIds = buildIdentifiers(view.groups.map((group) => group.id), 'g_');
+  const layers = usedLayers(view.nodes);
+  const layerClasses = buildIdentifiers(layers, '');
+  const grouped = new Set(view.groups.flatMap((group) => group.memberIds));
+  const lines = ['flowchart TB'];
+
+  for (const group of view.groups) {
+    lines.push(`  subgraph ${groupIds.get(group.id)}["${escapeMermaid(group.name)}"]`);
+    for (const memberId of group.memberIds) {
+      lines.push(`    ${ids.get(memberId)}["${escapeMermaid(nodeLabel(view, memberId))}"]`);
+    }
+    lines.push('  end');
+  }
+  for (const node of view.nodes.filter((entry) => !grouped.has(entry.id))) {
+    lines.push(`  ${ids.get(node.id)}["${escapeMermaid(node.label)}"]`);
+  }
+  for (const edge of view.edges) {
+    lines.push(`  ${ids.get(edge.source)} --> ${ids.get(edge.target)}`);
+  }
+
+  for (const layer of layers) {
+    const color = getLayerColor(layer);
+    lines.push(`  classDef ${layerClasses.get(layer)} fill:${color},stroke:${color},color:#ffffff`);
+  }
+  for (const layer of layers) {
+    const members = view.nodes.filter((node) => node.layers[0] === layer).map((node) => ids.get(node.id));
+    if (members.length > 0) {
+      lines.push(`  class ${members.join(',')} ${layerClasses.get(layer)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function renderDot(view: ExportView, projectName: string): string {
+  const grouped = new Set(view.groups.flatMap((group) => group.memberIds));
+  const nodesById = new Map(view.nodes.map((node) => [node.id, node]));
+  const lines = [
+    `digraph ${quoteDot(projectName)} {`,
+    '  rankdir=TB;',
+    '  compound=true;',
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="Helvetica"];',
+    '  edge [color="#5c6678"];',
+  ];
+
+  for (const group of view.groups) {
+    lines.push(`  subgraph ${quoteDot(`cluster_${group.id}`)} {`);
+    lines.push(`    label=${quoteDot(group.name)};`);
+    lines.push('    style="rounded";');
+    for (const memberId of group.memberIds) {
+      const node = nodesById.get(memberId);
+      if (node) {
+        lines.push(`    ${renderDotNode(node)}`);
+      }
+    }
+    lines.push('  }');
+  }
+  for (const node of view.nodes.filter((entry) => !grouped.has(entry.id))) {
+    lines.push(`  ${renderDotNode(node)}`);
+  }
+  for (const edge of view.edges) {
+    lines.push(`  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)};`);
+  }
+  lines.push('}');
+
+  return `${lines.join('\n')}\n`;
+}
+
+function renderDotNode(node: ExportNode): string {
+  const layer = node.layers[0];
+  const attributes = [`label=${quoteDot(node.label)}`];
+  if (layer) {
+    attributes.push(`color=${quoteDot(getLayerColor(layer))}`, `penwidth=2`);
+  }
+  if (node.layers.length > 0) {
+    attributes.push(`tooltip=${quoteDot(node.layers.join(', '))}`);
+  }
+  return `${quoteDot(node.id)} [${attributes.join(', ')}];`;
+}
+
+/**
+ * Feature view: one software system with features as containers. Cluster view: one
+ * container with clusters as components. Groups become `group` boundaries, layers tags.
+ */
+function renderStructurizr(view: ExportView, projectName: string): string {
+  const ids = buildIdentifiers(
+    view.nodes.map((node) => node.id),
+    view.mode === 'features' ? 'feature_' : 'cluster_'
+  );
+  const grouped = new Set(view.groups.flatMap((group) => group.memberIds));
+  const nodesById = new Map(view.nodes.map((node) => [node.id, node]));
+  const elementKeyword = view.mode === 'features' ? 'container' : 'component';
+  const indent = view.mode === 'features' ? '      ' : '        ';
+
+  const renderElement = (node: ExportNode, prefix: string) => {
+    const technology = node.layers.join(', ');
+    const tags = ['Feature Map', ...node.layers].join(',');
+    return `${prefix}${ids.get(node.id)} = ${elementKeyword} ${quoteDsl(node.label)} ${quoteDsl(node.description ?? '')} ${quoteDsl(technology)} ${quoteDsl(tags)}`;
+  };
+
+  const elementLines: string[] = [];
+  for (const group of view.groups) {
+    elementLines.push(`${indent}group ${quoteDsl(group.name)} {`);
+    for (const memberId of group.memberIds) {
+      const node = nodesById.get(memberId);
+      if (node) {
+        elementLines.push(renderElement(node, `${indent}  `));
+      }
+    }
+    elementLines.push(`${indent}}`);
+  }
+  for (const node of view.nodes.filter((entry) => !grouped.has(entry.id))) {
+    elementLines.push(renderElement(node, indent));
+  }
+
+  const systemName = quoteDsl(projectName);
+  const model =
+    view.mode === 'features'
+      ? [`    system = softwareSystem ${systemName} {`, ...elementLines, '    }']
+      : [
+          `    system = softwareSystem ${systemName} {`,
+          `      app = container ${systemName} {`,
+          ...elementLines,
+          '      }',
+          '    }',
+        ];
+  const relationships = view.edges.map(
+    (edge) => `    ${ids.get(edge.source)} -> ${ids.get(edge.target)} "Depends on"`
+  );
+  const viewLines =
+    view.mode === 'features'
+      ? ['    container system "features" {', '      include *', '      autoLayout tb', '    }']
+      : ['    component app "clusters" {', '      include *', '      autoLayout tb', '    }'];
+  const styles = usedLayers(view.nodes).map(
+    (layer) => `      element ${quoteDsl(layer)} {\n        background ${getLayerColor(layer)}\n        color #ffffff\n      }`
+  );
+
+  return [
+    `workspace ${systemName} "Generated by featuremap export" {`,
+    '  model {',
+    ...model,
+    ...relationships,
+    '  }',
+    '  views {',
+    ...viewLines,
+    '    styles {',
+    ...styles,
+    '    }',
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Identifier per value, in order. Values that sanitize to the same identifier (`auth-api`
+ * and `auth_api`) get an index suffix, so Mermaid and Structurizr never merge them.
+ */
+function buildIdentifiers(values: string[], prefix: string): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const value of values) {
+    const base = buildIdentifier(value, prefix);
+    let candidate = base;
+    for (let suffix = 2; used.has(candidate); suffix += 1) {
+      candidate = `${base}_${suffix}`;
+    }
+    used.add(candidate);
+    ids.set(value, candidate);
+  }
+  return ids;
+}
+
+// Mermaid and Structurizr identifiers only allow word characters.
+function buildIdentifier(id: string, prefix: string): string {
+  return `${prefix}${id.replace(/[^A-Za-z0-9_]/g, '_')}`;
+}
+
+function nodeLabel(view: ExportView, nodeId: string): string {
+  return view.nodes.find((node) => node.id === nodeId)?.label ?? nodeId;
+}
+
+function usedLayers(nodes: ExportNode[]): Layer[] {
+  return sortLayers(nodes.flatMap((node) => node.layers));
+}
+
+function escapeMermaid(value: string): string {
+  return value.replace(/"/g, '#quot;');
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function quoteDsl(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s*\n\s*/g, ' ')}"`;
+}
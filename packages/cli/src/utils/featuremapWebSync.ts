@@ -3,6 +3,8 @@ import { fileURLToPath } from 'url';
 import * as fs from 'fs';
 import * as path from 'path';
 import { stringify } from 'yaml';
+import { listGroupIds } from './groupIndex.js';
+import { listSnapshots } from './snapshots.js';
 
 export function findWebPackagePath(): string | null {
   const __filename = fileURLToPath(import.meta.url);
@@ -43,6 +45,12 @@ export async function copyFeatureMapData(
     fs.copyFileSync(graphSource, graphTarget);
   }
 
+  const rawGraphSource = path.join(sourceDir, 'raw-graph.yaml');
+  const rawGraphTarget = path.join(targetDir, 'raw-graph.yaml');
+  if (fs.existsSync(rawGraphSource)) {
+    fs.copyFileSync(rawGraphSource, rawGraphTarget);
+  }
+
   const layoutSource = path.join(sourceDir, 'layout.yaml');
   const layoutTarget = path.join(targetDir, 'layout.yaml');
   if (fs.existsSync(layoutSource)) {
@@ -119,12 +127,9 @@ export async function copyFeatureMapData(
     }
     fs.mkdirSync(groupsTarget, { recursive: true });
 
-    const files = fs.readdirSync(groupsSource).filter((file) => file.endsWith('.yaml'));
-    const groupIds = files
-      .map((file) => path.basename(file, '.yaml'))
-      .sort((a, b) => a.localeCompare(b));
-
-    for (const file of files) {
+    const groupIds = listGroupIds(sourceDir);
+    for (const groupId of groupIds) {
+      const file = `${groupId}.yaml`;
       fs.copyFileSync(path.join(groupsSource, file), path.join(groupsTarget, file));
     }
 
@@ -133,4 +138,25 @@ export async function copyFeatureMapData(
   } else if (fs.existsSync(groupsTarget)) {
     fs.rmSync(groupsTarget, { recursive: true });
   }
+
+  const historySource = path.join(sourceDir, 'history');
+  const historyTarget = path.join(targetDir, 'history');
+
+  if (fs.existsSync(historySource)) {
+    if (fs.existsSync(historyTarget)) {
+      fs.rmSync(historyTarget, { recursive: true });
+    }
+    fs.mkdirSync(historyTarget, { recursive: true });
+
+    const snapshots = listSnapshots(sourceDir);
+    for (const snapshot of snapshots) {
+      const file = `${snapshot.id}.yaml`;
+      fs.copyFileSync(path.join(historySource, file), path.join(historyTarget, file));
+    }
+
+    const indexContent = stringify({ version: 1, snapshots }, { lineWidth: 0 });
+    fs.writeFileSync(path.join(historyTarget, 'index.yaml'), indexContent, 'utf-8');
+  } else if (fs.existsSync(historyTarget)) {
+    fs.rmSync(historyTarget, { recursive: true });
+  }
 }
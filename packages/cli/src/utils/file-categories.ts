@@ -1,3 +1,5 @@
+import { globToRegExp } from './glob.js';
+
 const DERIVED_FILES = [
   'graph.yaml',
   'context/tech-stack.yaml',
@@ -5,18 +7,26 @@ const DERIVED_FILES = [
   'context/statistics.yaml',
   'context/structure.yaml',
   'context/testing.yaml',
+  'context/cycles.yaml',
+  'context/metrics.yaml',
+  'context/dead-code.yaml',
+  'context/ownership.yaml',
+  'context/hotspots.yaml',
+  'context/test-coverage.yaml',
 ];
 
 const AUTHORED_PATTERNS = [
   'clusters/*.yaml',
   'features/*.yaml',
   'groups/*.yaml',
+  'views/*.yaml',
   'comments/*.yaml',
   'context/decisions.yaml',
   'context/constraints.yaml',
   'context/overview.yaml',
   'context/design-system.yaml',
   'layout.yaml',
+  'rules.yaml',
 ];
 
 function normalizePath(relativePath: string): string {
@@ -26,32 +36,6 @@ function normalizePath(relativePath: string): string {
     : normalized;
 }
 
-function globToRegExp(pattern: string): RegExp {
-  let regex = '';
-
-  for (let index = 0; index < pattern.length; index += 1) {
-    const char = pattern[index];
-
-    if (char === '*') {
-      if (pattern[index + 1] === '*') {
-        regex += '.*';
-        index += 1;
-      } else {
-        regex += '[^/]*';
-      }
-      continue;
-    }
-
-    if (/[.+^${}()|[\]\\]/.test(char)) {
-      regex += `\\${char}`;
-    } else {
-      regex += char;
-    }
-  }
-
-  return new RegExp(`^${regex}$`);
-}
-
 const derivedSet = new Set(DERIVED_FILES);
 const authoredRegexes = AUTHORED_PATTERNS.map((pattern) => globToRegExp(pattern));
 
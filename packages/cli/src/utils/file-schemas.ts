@@ -0,0 +1,162 @@
+import type { ZodType } from 'zod';
+import type { FileType } from '../constants/versions.js';
+import {
+  ClusterSchema,
+  CommentNodeSchema,
+  ConfigSchema,
+  ConventionsSchema,
+  ConstraintsSchema,
+  CyclesSchema,
+  DeadCodeSchema,
+  MetricsSchema,
+  OwnershipSchema,
+  HotspotsSchema,
+  TestCoverageSchema,
+  DecisionsSchema,
+  DesignSystemSchema,
+  FeatureSchema,
+  GroupIndexSchema,
+  GroupSchema,
+  GraphSchema,
+  RawGraphSchema,
+  RulesSchema,
+  SavedViewIndexSchema,
+  SavedViewSchema,
+  SnapshotSchema,
+  LayoutSchema,
+  OverviewSchema,
+  RunCommandsSchema,
+  StatisticsSchema,
+  StructureSchema,
+  TestingSchema,
+  TechStackSchema,
+} from '../types/index.js';
+
+export interface SchemaTarget {
+  schema: ZodType<unknown>;
+  fileType: FileType;
+  /** Array fields the file's regular writer sorts, so rewritten files keep the same order. */
+  sortArrayFields?: string[];
+}
+
+/** Schema and version file type of a `.featuremap/` file, by its path relative to that directory. */
+export function getSchemaForFile(relativePath: string): SchemaTarget | null {
+  if (relativePath === 'config.yaml') {
+    return { schema: ConfigSchema, fileType: 'config' };
+  }
+
+  if (relativePath === 'raw-graph.yaml') {
+    return { schema: RawGraphSchema, fileType: 'rawGraph' };
+  }
+
+  if (relativePath === 'graph.yaml') {
+    return { schema: GraphSchema, fileType: 'graph', sortArrayFields: ['nodes', 'edges'] };
+  }
+
+  if (relativePath === 'rules.yaml') {
+    return { schema: RulesSchema, fileType: 'rules' };
+  }
+
+  if (relativePath === 'layout.yaml') {
+    return { schema: LayoutSchema, fileType: 'layout' };
+  }
+
+  if (relativePath === 'context/tech-stack.yaml') {
+    return { schema: TechStackSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/conventions.yaml') {
+    return { schema: ConventionsSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/statistics.yaml') {
+    return { schema: StatisticsSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/cycles.yaml') {
+    return { schema: CyclesSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/metrics.yaml') {
+    return { schema: MetricsSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/dead-code.yaml') {
+    return { schema: DeadCodeSchema, fileType: 'context' };
+  }
+  if (relativePath === 'context/ownership.yaml') {
+    return { schema: OwnershipSchema, fileType: 'context' };
+  }
+  if (relativePath === 'context/hotspots.yaml') {
+    return { schema: HotspotsSchema, fileType: 'context' };
+  }
+  if (relativePath === 'context/test-coverage.yaml') {
+    return { schema: TestCoverageSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/structure.yaml') {
+    return { schema: StructureSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/testing.yaml') {
+    return { schema: TestingSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/decisions.yaml') {
+    return { schema: DecisionsSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/constraints.yaml') {
+    return { schema: ConstraintsSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/overview.yaml') {
+    return { schema: OverviewSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/design-system.yaml') {
+    return { schema: DesignSystemSchema, fileType: 'context' };
+  }
+
+  if (relativePath === 'context/run-commands.yaml') {
+    return { schema: RunCommandsSchema, fileType: 'context' };
+  }
+
+  if (relativePath.startsWith('features/')) {
+    return { schema: FeatureSchema, fileType: 'feature' };
+  }
+
+  if (relativePath.startsWith('clusters/')) {
+    return {
+      schema: ClusterSchema,
+      fileType: 'cluster',
+      sortArrayFields: ['files', 'exports', 'entry_points', 'internal', 'external'],
+    };
+  }
+
+  if (relativePath === 'groups/index.yaml') {
+    return { schema: GroupIndexSchema, fileType: 'group' };
+  }
+
+  if (relativePath.startsWith('groups/')) {
+    return { schema: GroupSchema, fileType: 'group' };
+  }
+
+  if (relativePath === 'views/index.yaml') {
+    return { schema: SavedViewIndexSchema, fileType: 'view' };
+  }
+
+  if (relativePath.startsWith('views/')) {
+    return { schema: SavedViewSchema, fileType: 'view' };
+  }
+
+  if (relativePath.startsWith('history/')) {
+    return { schema: SnapshotSchema, fileType: 'history' };
+  }
+
+  if (relativePath.startsWith('comments/')) {
+    return { schema: CommentNodeSchema, fileType: 'comment', sortArrayFields: ['tags', 'mentions'] };
+  }
+
+  return null;
+}
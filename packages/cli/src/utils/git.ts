@@ -0,0 +1,93 @@
+import { execFileSync } from 'child_process';
+
+/**
+ * Files changed between the merge base of `base` and HEAD, relative to `cwd`.
+ * Files outside `cwd` are left out.
+ */
+export function getChangedFilesSince(cwd: string, base: string): string[] {
+  const output = runGit(cwd, ['diff', '--name-only', '--relative', `${base}...HEAD`]);
+  return output
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Commit counts per author for every file touched in the history of `cwd`, keyed by
+ * path relative to `cwd`. Merge commits are skipped; `since` is passed to `git log --since`.
+ */
+export function getFileAuthors(cwd: string, since?: string): Map<string, Map<string, number>> {
+  const args = ['-c', 'core.quotepath=off', 'log', '--no-merges', '--relative', '--name-only'];
+  if (since) {
+    args.push(`--since=${since}`);
+  }
+  args.push('--format=%x00%aN', '--', '.');
+
+  const authorsByFile = new Map<string, Map<string, number>>();
+  for (const entry of runGit(cwd, args).split('\0')) {
+    const [author, ...files] = entry.split('\n').map((line) => line.trim());
+    if (!author) {
+      continue;
+    }
+    for (const file of files.filter(Boolean)) {
+      const authors = authorsByFile.get(file) ?? new Map<string, number>();
+      authors.set(author, (authors.get(author) ?? 0) + 1);
+      authorsByFile.set(file, authors);
+    }
+  }
+  return authorsByFile;
+}
+
+export interface CommitStats {
+  hash: string;
+  /** Files changed by the commit, relative to `cwd`; binary files count 0 lines. */
+  files: Array<{ path: string; added: number; deleted: number }>;
+}
+
+/**
+ * Non-merge commits touching `cwd` with their `--numstat` line counts, newest first.
+ * Renames are reported as a delete plus an add so paths always match the current tree.
+ */
+export function getCommitStats(cwd: string, since?: string): CommitStats[] {
+  const args = ['-c', 'core.quotepath=off', 'log', '--no-merges', '--no-renames', '--relative', '--numstat'];
+  if (since) {
+    args.push(`--since=${since}`);
+  }
+  args.push('--format=%x00%H', '--', '.');
+
+  const commits: CommitStats[] = [];
+  for (const entry of runGit(cwd, args).split('\0')) {
+    const [hash, ...lines] = entry.split('\n');
+    if (!hash.trim()) {
+      continue;
+    }
+    const files: CommitStats['files'] = [];
+    for (const line of lines) {
+      const [added, deleted, filePath] = line.split('\t');
+      if (filePath) {
+        files.push({ path: filePath, added: Number(added) || 0, deleted: Number(deleted) || 0 });
+      }
+    }
+    commits.push({ hash: hash.trim(), files });
+  }
+  return commits;
+}
+
+function runGit(cwd: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  } catch (error) {
+    const stderr =
+      error && typeof error === 'object' && 'stderr' in error
+        ? String((error as { stderr?: unknown }).stderr ?? '').trim()
+        : '';
+    const message = stderr || (error instanceof Error ? error.message : 'unknown error');
+    throw new Error(`git ${args.join(' ')} failed: ${message}`);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Converts a glob pattern into an anchored RegExp.
+ * Supports `**`, `*`, `?` and `{a,b}` alternatives; `**` followed by `/` also matches
+ * zero directories, so `src/**\/*.ts` matches `src/index.ts`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  let braceDepth = 0;
+
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+
+    if (char === '*') {
+      if (pattern[index + 1] === '*') {
+        if (pattern[index + 2] === '/') {
+          regex += '(?:.*/)?';
+          index += 2;
+        } else {
+          regex += '.*';
+          index += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+      continue;
+    }
+
+    if (char === '?') {
+      regex += '[^/]';
+      continue;
+    }
+
+    if (char === '{') {
+      braceDepth += 1;
+      regex += '(?:';
+      continue;
+    }
+
+    if (char === '}' && braceDepth > 0) {
+      braceDepth -= 1;
+      regex += ')';
+      continue;
+    }
+
+    if (char === ',' && braceDepth > 0) {
+      regex += '|';
+      continue;
+    }
+
+    if (/[.+^${}()|[\]\\]/.test(char)) {
+      regex += `\\${char}`;
+    } else {
+      regex += char;
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
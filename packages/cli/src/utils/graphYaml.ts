@@ -3,16 +3,30 @@ import * as path from 'path';
 import type { DependencyGraph } from '../analyzer/graph.js';
 import type { Cluster as FolderCluster } from '../analyzer/grouper.js';
 import { SUPPORTED_VERSIONS } from '../constants/versions.js';
-import type { EdgeImportDetail, Graph } from '../types/index.js';
+import type { EdgeImportDetail, Graph, ImportKind } from '../types/index.js';
 import { GraphSchema } from '../types/index.js';
 import { areGraphsEquivalent } from './scanCompare.js';
 import { loadYAML, saveYAML } from './yaml-loader.js';
 
+export interface SaveGraphYamlOptions {
+  /** Clusters whose edges must be recomputed; edges of other clusters are reused as-is. */
+  changedClusterIds?: Set<string> | null;
+}
+
+const IMPORT_KIND_ORDER: ImportKind[] = ['static', 'reexport', 'dynamic', 'require'];
+
+/**
+ * Writes cluster nodes and edges to graph.yaml. Returns false when the file was already up to date.
+ */
 export function saveGraphYaml(
   featuremapDir: string,
   clusters: FolderCluster[],
-  graph: DependencyGraph
-): void {
+  graph: DependencyGraph,
+  options: SaveGraphYamlOptions = {}
+): boolean {
+  const filePath = path.join(featuremapDir, 'graph.yaml');
+  const existing = loadExistingGraph(filePath);
+  const reusableEdges = collectReusableEdges(existing, options.changedClusterIds);
   const nodes: Graph['nodes'] = clusters.map((cluster) => ({
     id: cluster.id,
     label: cluster.name,
@@ -26,11 +40,16 @@ export function saveGraphYaml(
   const graphFiles = new Set(Object.keys(graph.files));
 
   for (const cluster of clusters) {
+    const reused = reusableEdges?.get(cluster.id);
+    if (reused) {
+      edges.push(...reused);
+      continue;
+    }
     for (const dep of cluster.externalDependencies) {
       const edge: Graph['edges'][number] = { source: cluster.id, target: dep };
       const targetCluster = clusterById.get(dep);
       if (targetCluster) {
-        const imports = buildEdgeImports(
+        const { imports, kinds } = buildEdgeImports(
           cluster,
           targetCluster,
           graph,
@@ -40,22 +59,18 @@ export function saveGraphYaml(
         if (imports.length > 0) {
           edge.imports = imports;
         }
+        if (kinds.length > 0) {
+          edge.importKinds = kinds;
+        }
       }
       edges.push(edge);
     }
   }
 
-  const filePath = path.join(featuremapDir, 'graph.yaml');
-  if (fs.existsSync(filePath)) {
-    try {
-      const existing = loadYAML(filePath, GraphSchema, { fileType: 'graph' });
-      const nextGraph = buildGraphData(nodes, edges, existing.version);
-
-      if (areGraphsEquivalent(existing, nextGraph)) {
-        return;
-      }
-    } catch {
-      // Fall through to regenerate graph with the latest schema.
+  if (existing) {
+    const nextGraph = buildGraphData(nodes, edges, existing.version);
+    if (areGraphsEquivalent(existing, nextGraph)) {
+      return false;
     }
   }
 
@@ -63,6 +78,46 @@ export function saveGraphYaml(
   saveYAML(filePath, graphYaml, GraphSchema, {
     sortArrayFields: ['nodes', 'edges'],
   });
+  return true;
+}
+
+function loadExistingGraph(filePath: string): Graph | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  try {
+    return loadYAML(filePath, GraphSchema, { fileType: 'graph' });
+  } catch {
+    // Regenerate graph with the latest schema.
+    return null;
+  }
+}
+
+function collectReusableEdges(
+  existing: Graph | null,
+  changedClusterIds: Set<string> | null | undefined
+): Map<string, Graph['edges']> | null {
+  if (!existing || !changedClusterIds) {
+    return null;
+  }
+
+  const clusterIds = new Set(
+    existing.nodes.filter((node) => node.type === 'cluster').map((node) => node.id)
+  );
+  const edgesBySource = new Map<string, Graph['edges']>();
+  for (const clusterId of clusterIds) {
+    if (!changedClusterIds.has(clusterId)) {
+      edgesBySource.set(clusterId, []);
+    }
+  }
+  for (const edge of existing.edges) {
+    if (edge.type !== undefined || !clusterIds.has(edge.target)) {
+      continue;
+    }
+    edgesBySource.get(edge.source)?.push(edge);
+  }
+
+  return edgesBySource;
 }
 
 function buildGraphData(nodes: Graph['nodes'], edges: Graph['edges'], version: number): Graph {
@@ -90,8 +145,9 @@ function buildEdgeImports(
   graph: DependencyGraph,
   fileToCluster: Record<string, string>,
   graphFiles: Set<string>
-): EdgeImportDetail[] {
+): { imports: EdgeImportDetail[]; kinds: ImportKind[] } {
   const details = new Map<string, EdgeImportDetail>();
+  const kinds = new Set<ImportKind>();
 
   for (const sourceFile of sourceCluster.files) {
     const fileNode = graph.files[sourceFile];
@@ -114,8 +170,11 @@ function buildEdgeImports(
         continue;
       }
 
+      const kind = detail.kind ?? 'static';
+      kinds.add(kind);
+
       for (const symbol of detail.symbols) {
-        const key = `${symbol}|${resolvedTarget}`;
+        const key = `${symbol}|${resolvedTarget}|${kind}`;
         let entry = details.get(key);
         if (!entry) {
           entry = {
@@ -123,6 +182,9 @@ function buildEdgeImports(
             sourceFiles: [],
             targetFile: resolvedTarget,
           };
+          if (kind !== 'static') {
+            entry.kind = kind;
+          }
           details.set(key, entry);
         }
         if (!entry.sourceFiles.includes(sourceFile)) {
@@ -141,13 +203,20 @@ function buildEdgeImports(
     if (symbolCompare !== 0) {
       return symbolCompare;
     }
-    return (left.targetFile ?? '').localeCompare(right.targetFile ?? '');
+    const targetCompare = (left.targetFile ?? '').localeCompare(right.targetFile ?? '');
+    if (targetCompare !== 0) {
+      return targetCompare;
+    }
+    return (left.kind ?? 'static').localeCompare(right.kind ?? 'static');
   });
 
-  return sortedDetails;
+  return {
+    imports: sortedDetails,
+    kinds: IMPORT_KIND_ORDER.filter((kind) => kinds.has(kind)),
+  };
 }
 
-function resolveImportPath(
+export function resolveImportPath(
   importPath: string,
   fromFile: string,
   graphFiles: Set<string>
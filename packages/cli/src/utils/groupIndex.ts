@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GroupIndexSchema, GroupSchema } from '../types/index.js';
+import { loadYAML } from './yaml-loader.js';
+
+export const GROUP_INDEX_FILE = 'index.yaml';
+
+/**
+ * Group ids in display order: the order stored in groups/index.yaml first, then any
+ * groups missing from it sorted by name.
+ */
+export function listGroupIds(featuremapDir: string): string[] {
+  const groupsDir = path.join(featuremapDir, 'groups');
+  if (!fs.existsSync(groupsDir)) {
+    return [];
+  }
+
+  const groupIds = fs
+    .readdirSync(groupsDir)
+    .filter((file) => file.endsWith('.yaml') && file !== GROUP_INDEX_FILE)
+    .map((file) => path.basename(file, '.yaml'));
+  const available = new Set(groupIds);
+  const ordered = readIndexOrder(groupsDir).filter((id) => available.has(id));
+  const orderedSet = new Set(ordered);
+
+  const names = new Map<string, string>();
+  const remaining = groupIds.filter((id) => !orderedSet.has(id));
+  for (const id of remaining) {
+    names.set(id, readGroupName(path.join(groupsDir, `${id}.yaml`)) ?? id);
+  }
+  remaining.sort(
+    (a, b) => (names.get(a) ?? a).localeCompare(names.get(b) ?? b) || a.localeCompare(b)
+  );
+
+  return [...ordered, ...remaining];
+}
+
+function readIndexOrder(groupsDir: string): string[] {
+  const indexPath = path.join(groupsDir, GROUP_INDEX_FILE);
+  if (!fs.existsSync(indexPath)) {
+    return [];
+  }
+  try {
+    return uniqueIds(loadYAML(indexPath, GroupIndexSchema, { fileType: 'group' }).groups);
+  } catch {
+    return [];
+  }
+}
+
+function readGroupName(groupPath: string): string | null {
+  try {
+    return loadYAML(groupPath, GroupSchema, { fileType: 'group' }).name;
+  } catch {
+    return null;
+  }
+}
+
+function uniqueIds(ids: string[]): string[] {
+  return [...new Set(ids)];
+}
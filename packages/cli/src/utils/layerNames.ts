@@ -0,0 +1,52 @@
+import type { FileType } from '../constants/versions.js';
+import {
+  BUILT_IN_LAYERS,
+  type Cluster,
+  type Config,
+  type LayersConfig,
+  type Rules,
+  type SavedView,
+} from '../types/index.js';
+
+/** Layers a project defines: the built-in ones plus the signal and override layers of config.yaml `layers`. */
+export function getKnownLayers(layers?: LayersConfig): Set<string> {
+  return new Set<string>([
+    ...BUILT_IN_LAYERS,
+    ...Object.keys(layers?.signals ?? {}),
+    ...(layers?.overrides ?? []).map((override) => override.layer),
+  ]);
+}
+
+/** Layer names a validated `.featuremap/` file refers to that the project does not define. */
+export function findUnknownLayers(fileType: FileType, data: unknown, knownLayers: Set<string>): string[] {
+  const referenced = collectLayerReferences(fileType, data);
+  return [...new Set(referenced.filter((layer) => !knownLayers.has(layer)))];
+}
+
+function collectLayerReferences(fileType: FileType, data: unknown): string[] {
+  switch (fileType) {
+    case 'cluster': {
+      const cluster = data as Cluster;
+      return compact([cluster.layer, cluster.layerDetection?.layer]);
+    }
+    case 'config':
+      return compact((data as Config).features.hints.map((hint) => hint.layer));
+    case 'rules':
+      return (data as Rules).rules.flatMap((rule) => {
+        if (rule.type === 'layer-dependency') {
+          return [rule.from, ...rule.to];
+        }
+        return rule.type === 'no-new-dependencies' ? [rule.layer] : [];
+      });
+    case 'view': {
+      const layer = (data as Partial<SavedView>).filters?.layer;
+      return layer && layer !== 'all' ? [layer] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+function compact(values: Array<string | undefined>): string[] {
+  return values.filter((value): value is string => value !== undefined);
+}
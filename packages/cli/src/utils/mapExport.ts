@@ -0,0 +1,322 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ClusterSchema,
+  GraphSchema,
+  GroupSchema,
+  LayoutSchema,
+  type Graph,
+  type Group,
+  type Layer,
+  type Layout,
+} from '../types/index.js';
+import { loadFeatures } from '../analyzer/feature-loader.js';
+import { listGroupIds } from './groupIndex.js';
+import { buildDefaultLayout } from './layout-builder.js';
+import { loadYAML } from './yaml-loader.js';
+
+export type ExportViewMode = 'clusters' | 'features';
+
+export interface ExportNode {
+  id: string;
+  label: string;
+  type: 'cluster' | 'feature';
+  description?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fileCount: number;
+  layers: Layer[];
+  groupIds: string[];
+  status?: string;
+}
+
+export interface ExportEdge {
+  source: string;
+  target: string;
+}
+
+export interface ExportGroup {
+  id: string;
+  name: string;
+  description?: string;
+  note?: string;
+  /** Nodes drawn inside this group (each node belongs to its primary group only). */
+  memberIds: string[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  headerHeight: number;
+  noteHeight: number;
+}
+
+export interface ExportView {
+  mode: ExportViewMode;
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+  groups: ExportGroup[];
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+export interface ExportMap {
+  projectName: string;
+  generatedAt: string;
+  layoutSource: 'layout.yaml' | 'default';
+  views: Record<ExportViewMode, ExportView>;
+}
+
+// Sizes mirror the web map (FeatureNode, groupPacking) so exports look like the live view.
+export const EXPORT_NODE_WIDTH = 180;
+export const EXPORT_NODE_HEIGHT = 70;
+const GROUP_PADDING = 40;
+const GROUP_HEADER_HEIGHT = 36;
+const GROUP_HEADER_LINE_HEIGHT = 18;
+const GROUP_NOTE_HEIGHT = 44;
+const VIEW_MARGIN = 40;
+
+const FEATURE_DEP_EDGE_TYPE = 'feature_dep';
+const FEATURE_CONTAINS_EDGE_TYPE = 'contains';
+const LAYER_ORDER: Layer[] = ['frontend', 'backend', 'fullstack', 'shared', 'infrastructure', 'smell'];
+
+/**
+ * Reads graph.yaml, layout.yaml, clusters, features and groups into positioned cluster and
+ * feature views. Nodes without a saved position fall back to buildDefaultLayout.
+ */
+export function buildExportMap(featuremapDir: string): ExportMap {
+  const graphPath = path.join(featuremapDir, 'graph.yaml');
+  if (!fs.existsSync(graphPath)) {
+    throw new Error('graph.yaml not found. Run "featuremap scan" first.');
+  }
+
+  const graph = loadYAML(graphPath, GraphSchema, { fileType: 'graph' });
+  const layout = loadLayout(featuremapDir);
+  const clusterLayers = loadClusterLayers(featuremapDir);
+  const features = loadFeatures(path.join(featuremapDir, 'features'));
+  const featureClusters = new Map(features.map((feature) => [feature.id, feature.clusters]));
+  const featuresById = new Map(features.map((feature) => [feature.id, feature]));
+  const groups = loadGroups(featuremapDir);
+  const positions = layout?.positions ?? {};
+
+  const clusterView = buildView({
+    mode: 'clusters',
+    graph,
+    positions,
+    groups,
+    resolveLayers: (id) => sortLayers([clusterLayers.get(id)]),
+    resolveMembers: (group) =>
+      group.featureIds.flatMap((featureId) => featureClusters.get(featureId) ?? []),
+  });
+  const featureView = buildView({
+    mode: 'features',
+    graph,
+    positions,
+    groups,
+    resolveLayers: (id) => {
+      const layers = sortLayers((featureClusters.get(id) ?? []).map((clusterId) => clusterLayers.get(clusterId)));
+      const scope = featuresById.get(id)?.scope;
+      return layers.length > 0 || !scope ? layers : [scope];
+    },
+    resolveMembers: (group) => group.featureIds,
+    resolveDetails: (id) => {
+      const feature = featuresById.get(id);
+      return {
+        ...(feature?.description ? { description: feature.description } : {}),
+        ...(feature ? { status: feature.status } : {}),
+      };
+    },
+  });
+
+  return {
+    projectName: path.basename(path.dirname(path.resolve(featuremapDir))),
+    generatedAt: graph.generatedAt,
+    layoutSource: layout && Object.keys(positions).length > 0 ? 'layout.yaml' : 'default',
+    views: { clusters: clusterView, features: featureView },
+  };
+}
+
+interface BuildViewInput {
+  mode: ExportViewMode;
+  graph: Graph;
+  positions: Layout['positions'];
+  groups: Group[];
+  resolveLayers: (id: string) => Layer[];
+  resolveMembers: (group: Group) => string[];
+  resolveDetails?: (id: string) => { description?: string; status?: string };
+}
+
+function buildView({
+  mode,
+  graph,
+  positions,
+  groups,
+  resolveLayers,
+  resolveMembers,
+  resolveDetails,
+}: BuildViewInput): ExportView {
+  const graphNodes = graph.nodes
+    .filter((node) => (mode === 'features' ? node.type === 'feature' : node.type !== 'feature'))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  const nodeIds = new Set(graphNodes.map((node) => node.id));
+  const edges = graph.edges
+    .filter((edge) =>
+      mode === 'features'
+        ? edge.type === FEATURE_DEP_EDGE_TYPE
+        : edge.type !== FEATURE_DEP_EDGE_TYPE && edge.type !== FEATURE_CONTAINS_EDGE_TYPE
+    )
+    .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .map((edge) => ({ source: edge.source, target: edge.target }));
+
+  const missing = graphNodes.filter((node) => !isFinitePosition(positions[node.id]));
+  const fallback =
+    missing.length > 0 ? buildDefaultLayout([...nodeIds], edges).positions : {};
+
+  const groupIdsByNode = new Map<string, string[]>();
+  for (const group of groups) {
+    for (const memberId of new Set(resolveMembers(group))) {
+      groupIdsByNode.set(memberId, [...(groupIdsByNode.get(memberId) ?? []), group.id]);
+    }
+  }
+
+  const nodes: ExportNode[] = graphNodes.map((node) => {
+    const position = isFinitePosition(positions[node.id]) ? positions[node.id] : fallback[node.id];
+    return {
+      id: node.id,
+      label: node.label,
+      type: mode === 'features' ? 'feature' : 'cluster',
+      ...resolveDetails?.(node.id),
+      x: position?.x ?? 0,
+      y: position?.y ?? 0,
+      width: EXPORT_NODE_WIDTH,
+      height: EXPORT_NODE_HEIGHT,
+      fileCount: node.fileCount ?? node.clusterCount ?? 0,
+      layers: resolveLayers(node.id),
+      groupIds: (groupIdsByNode.get(node.id) ?? []).sort((a, b) => a.localeCompare(b)),
+    };
+  });
+
+  const exportGroups = buildGroupRectangles(nodes, groups);
+  return { mode, nodes, edges, groups: exportGroups, bounds: resolveBounds(nodes, exportGroups) };
+}
+
+/**
+ * Same container geometry as the web map: each node is drawn inside its primary group
+ * (the first group id in sort order), padded, with a header sized to the group title.
+ */
+function buildGroupRectangles(nodes: ExportNode[], groups: Group[]): ExportGroup[] {
+  const membership = new Map<string, ExportNode[]>();
+  for (const node of nodes) {
+    const primaryGroupId = node.groupIds[0];
+    if (primaryGroupId) {
+      membership.set(primaryGroupId, [...(membership.get(primaryGroupId) ?? []), node]);
+    }
+  }
+
+  const rectangles: ExportGroup[] = [];
+  for (const group of groups) {
+    const members = membership.get(group.id) ?? [];
+    if (members.length === 0) {
+      continue;
+    }
+    const minX = Math.min(...members.map((node) => node.x));
+    const minY = Math.min(...members.map((node) => node.y));
+    const maxX = Math.max(...members.map((node) => node.x + node.width));
+    const maxY = Math.max(...members.map((node) => node.y + node.height));
+    const width = maxX - minX + GROUP_PADDING * 2;
+    const headerHeight = estimateHeaderHeight(group.name, group.description, width);
+    const noteHeight = group.note ? GROUP_NOTE_HEIGHT : 0;
+    rectangles.push({
+      id: group.id,
+      name: group.name,
+      ...(group.description ? { description: group.description } : {}),
+      ...(group.note ? { note: group.note } : {}),
+      memberIds: members.map((node) => node.id),
+      x: minX - GROUP_PADDING,
+      y: minY - GROUP_PADDING - headerHeight,
+      width,
+      height: maxY - minY + GROUP_PADDING * 2 + headerHeight + noteHeight,
+      headerHeight,
+      noteHeight,
+    });
+  }
+  return rectangles;
+}
+
+function estimateHeaderHeight(name: string, description: string | undefined, width: number): number {
+  const contentWidth = Math.max(width - 32, 120);
+  const charsPerLine = Math.max(Math.floor(contentWidth / 7), 8);
+  const totalLength = name.length + (description ? description.length + 3 : 0);
+  const lineCount = Math.max(1, Math.ceil(totalLength / charsPerLine));
+  return GROUP_HEADER_HEIGHT + (lineCount - 1) * GROUP_HEADER_LINE_HEIGHT;
+}
+
+function resolveBounds(nodes: ExportNode[], groups: ExportGroup[]): ExportView['bounds'] {
+  const boxes = [...nodes, ...groups];
+  if (boxes.length === 0) {
+    return { x: 0, y: 0, width: 400, height: 200 };
+  }
+  const minX = Math.min(...boxes.map((box) => box.x)) - VIEW_MARGIN;
+  const minY = Math.min(...boxes.map((box) => box.y)) - VIEW_MARGIN;
+  const maxX = Math.max(...boxes.map((box) => box.x + box.width)) + VIEW_MARGIN;
+  const maxY = Math.max(...boxes.map((box) => box.y + box.height)) + VIEW_MARGIN;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function loadLayout(featuremapDir: string): Layout | null {
+  const layoutPath = path.join(featuremapDir, 'layout.yaml');
+  if (!fs.existsSync(layoutPath)) {
+    return null;
+  }
+  try {
+    return loadYAML(layoutPath, LayoutSchema, { fileType: 'layout' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`WARN Could not load layout.yaml, using default layout: ${message}`);
+    return null;
+  }
+}
+
+function loadClusterLayers(featuremapDir: string): Map<string, Layer> {
+  const clustersDir = path.join(featuremapDir, 'clusters');
+  const layers = new Map<string, Layer>();
+  if (!fs.existsSync(clustersDir)) {
+    return layers;
+  }
+  for (const file of fs.readdirSync(clustersDir).filter((entry) => entry.endsWith('.yaml'))) {
+    try {
+      const cluster = loadYAML(path.join(clustersDir, file), ClusterSchema, { skipVersionCheck: true });
+      layers.set(cluster.id, cluster.layer);
+    } catch {
+      // Unreadable clusters are drawn without a layer color; validate reports them.
+    }
+  }
+  return layers;
+}
+
+function loadGroups(featuremapDir: string): Group[] {
+  const groupsDir = path.join(featuremapDir, 'groups');
+  const groups: Group[] = [];
+  for (const groupId of listGroupIds(featuremapDir)) {
+    try {
+      groups.push(loadYAML(path.join(groupsDir, `${groupId}.yaml`), GroupSchema, { fileType: 'group' }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`WARN Could not load group ${groupId}: ${message}`);
+    }
+  }
+  return groups;
+}
+
+/** Distinct layers, built-in ones in map order followed by custom layers by name. */
+export function sortLayers(layers: Array<Layer | undefined>): Layer[] {
+  const present = new Set(layers.filter((layer): layer is Layer => layer !== undefined));
+  const custom = [...present]
+    .filter((layer) => !LAYER_ORDER.includes(layer))
+    .sort((a, b) => a.localeCompare(b));
+  return [...LAYER_ORDER.filter((layer) => present.has(layer)), ...custom];
+}
+
+function isFinitePosition(position: { x: number; y: number } | undefined): position is { x: number; y: number } {
+  return Boolean(position && Number.isFinite(position.x) && Number.isFinite(position.y));
+}
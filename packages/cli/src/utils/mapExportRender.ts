@@ -0,0 +1,302 @@
+import type { BuiltInLayer, Layer } from '../types/index.js';
+import {
+  sortLayers,
+  type ExportMap,
+  type ExportNode,
+  type ExportView,
+  type ExportViewMode,
+} from './mapExport.js';
+
+// Dark palette and layer hues used by the web map (index.css, tailwind *-500 colors).
+const COLORS = {
+  background: '#2e3440',
+  card: '#3b4252',
+  cardMuted: '#434c5e',
+  border: '#4c566a',
+  edge: '#5c6678',
+  groupFill: '#434c5e',
+  groupHeader: '#3b4252',
+  text: '#eceff4',
+  textMuted: '#7b88a1',
+};
+
+export const LAYER_COLORS: Record<BuiltInLayer, string> = {
+  frontend: '#0ea5e9',
+  backend: '#f59e0b',
+  fullstack: '#10b981',
+  shared: '#64748b',
+  infrastructure: '#6366f1',
+  smell: '#f43f5e',
+};
+
+// Custom layers from config.yaml pick one of these by name (same hash as the web map).
+const CUSTOM_LAYER_COLORS = ['#a855f7', '#14b8a6', '#ec4899', '#84cc16', '#f97316', '#06b6d4'];
+
+export function getLayerColor(layer: Layer): string {
+  if (layer in LAYER_COLORS) {
+    return LAYER_COLORS[layer as BuiltInLayer];
+  }
+  let hash = 0;
+  for (const char of layer) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return CUSTOM_LAYER_COLORS[hash % CUSTOM_LAYER_COLORS.length];
+}
+
+const LEGEND_HEIGHT = 36;
+const LABEL_MAX_CHARS = 22;
+const FONT_FAMILY = 'Inter, ui-sans-serif, system-ui, sans-serif';
+
+/**
+ * Standalone SVG for one view: group containers, dependency edges, then nodes with a
+ * layer-colored top bar, plus a layer legend above the map.
+ */
+export function renderMapSvg(view: ExportView, title?: string): string {
+  const { bounds } = view;
+  const viewBox = [bounds.x, bounds.y - LEGEND_HEIGHT, bounds.width, bounds.height + LEGEND_HEIGHT];
+  const nodesById = new Map(view.nodes.map((node) => [node.id, node]));
+  // Per view, so both SVGs can be inlined in one HTML document without duplicate ids.
+  const markerId = `fm-arrow-${view.mode}`;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox.map(formatNumber).join(' ')}" width="${formatNumber(viewBox[2])}" height="${formatNumber(viewBox[3])}" font-family="${FONT_FAMILY}">`,
+    ...(title ? [`<title>${escapeXml(title)}</title>`] : []),
+    `<defs><marker id="${markerId}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">` +
+      `<path d="M0,0 L10,5 L0,10 z" fill="${COLORS.edge}"/></marker></defs>`,
+    `<rect x="${formatNumber(viewBox[0])}" y="${formatNumber(viewBox[1])}" width="${formatNumber(viewBox[2])}" height="${formatNumber(viewBox[3])}" fill="${COLORS.background}"/>`,
+    renderLegend(view, bounds.x + 16, bounds.y - LEGEND_HEIGHT + 22),
+    '<g class="fm-groups">',
+    ...view.groups.map(renderGroup),
+    '</g>',
+    '<g class="fm-edges">',
+    ...view.edges.map((edge) =>
+      renderEdge(nodesById.get(edge.source), nodesById.get(edge.target), markerId)
+    ),
+    '</g>',
+    '<g class="fm-nodes">',
+    ...view.nodes.map(renderNode),
+    '</g>',
+    '</svg>',
+  ];
+
+  return parts.filter((part) => part.length > 0).join('\n');
+}
+
+/**
+ * Self-contained HTML page: both views pre-rendered as inline SVG, the export data inlined
+ * as JSON, and a small script for read-only pan/zoom and switching views.
+ */
+export function renderMapHtml(map: ExportMap, initialView: ExportViewMode): string {
+  const title = `${map.projectName} feature map`;
+  const views = (['clusters', 'features'] as ExportViewMode[])
+    .map(
+      (mode) =>
+        `<div class="fm-view" data-view="${mode}"${mode === initialView ? '' : ' hidden'}>\n${renderMapSvg(map.views[mode])}\n</div>`
+    )
+    .join('\n');
+  const counts = `${map.views.clusters.nodes.length} clusters · ${map.views.features.nodes.length} features`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>
+html, body { margin: 0; height: 100%; background: ${COLORS.background}; color: ${COLORS.text}; font-family: ${FONT_FAMILY}; }
+header { display: flex; align-items: center; gap: 16px; padding: 10px 16px; border-bottom: 1px solid ${COLORS.border}; font-size: 14px; }
+header h1 { margin: 0; font-size: 16px; }
+header .meta { color: ${COLORS.textMuted}; font-size: 12px; }
+header .spacer { flex: 1; }
+header button { background: ${COLORS.card}; color: ${COLORS.text}; border: 1px solid ${COLORS.border}; border-radius: 6px; padding: 4px 10px; cursor: pointer; font: inherit; font-size: 12px; }
+header button[aria-pressed="true"] { border-color: #d08770; color: #d08770; }
+main { position: absolute; top: 49px; left: 0; right: 0; bottom: 0; overflow: hidden; cursor: grab; }
+main.dragging { cursor: grabbing; }
+.fm-view, .fm-view svg { width: 100%; height: 100%; display: block; }
+.fm-view[hidden] { display: none; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeXml(title)}</h1>
+<span class="meta">${escapeXml(counts)} · generated ${escapeXml(map.generatedAt)}</span>
+<span class="spacer"></span>
+<button type="button" data-show="clusters">Clusters</button>
+<button type="button" data-show="features">Features</button>
+<button type="button" data-fit>Fit</button>
+</header>
+<main>
+${views}
+</main>
+<script type="application/json" id="featuremap-data">${serializeJson(map)}</script>
+<script>
+${VIEWER_SCRIPT}
+</script>
+</body>
+</html>
+`;
+}
+
+const VIEWER_SCRIPT = `(function () {
+  var main = document.querySelector('main');
+  var state = {};
+  var current = document.querySelector('.fm-view:not([hidden])').getAttribute('data-view');
+
+  function svgFor(view) { return document.querySelector('.fm-view[data-view="' + view + '"] svg'); }
+  function initial(view) { return svgFor(view).getAttribute('viewBox').split(' ').map(Number); }
+  function apply(view) { svgFor(view).setAttribute('viewBox', state[view].join(' ')); }
+  function fit(view) { state[view] = initial(view); apply(view); }
+  function show(view) {
+    current = view;
+    document.querySelectorAll('.fm-view').forEach(function (el) { el.hidden = el.getAttribute('data-view') !== view; });
+    document.querySelectorAll('[data-show]').forEach(function (el) { el.setAttribute('aria-pressed', String(el.getAttribute('data-show') === view)); });
+    if (!state[view]) { fit(view); }
+  }
+  function scale() {
+    var box = state[current];
+    var rect = main.getBoundingClientRect();
+    return Math.max(box[2] / rect.width, box[3] / rect.height);
+  }
+
+  main.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    var box = state[current];
+    var rect = main.getBoundingClientRect();
+    var factor = event.deltaY > 0 ? 1.1 : 1 / 1.1;
+    var s = scale();
+    var offsetX = (rect.width * s - box[2]) / 2;
+    var offsetY = (rect.height * s - box[3]) / 2;
+    var px = box[0] - offsetX + (event.clientX - rect.left) * s;
+    var py = box[1] - offsetY + (event.clientY - rect.top) * s;
+    state[current] = [px - (px - box[0]) * factor, py - (py - box[1]) * factor, box[2] * factor, box[3] * factor];
+    apply(current);
+  }, { passive: false });
+
+  var drag = null;
+  main.addEventListener('pointerdown', function (event) {
+    drag = { x: event.clientX, y: event.clientY };
+    main.classList.add('dragging');
+    main.setPointerCapture(event.pointerId);
+  });
+  main.addEventListener('pointermove', function (event) {
+    if (!drag) { return; }
+    var s = scale();
+    var box = state[current];
+    state[current] = [box[0] - (event.clientX - drag.x) * s, box[1] - (event.clientY - drag.y) * s, box[2], box[3]];
+    drag = { x: event.clientX, y: event.clientY };
+    apply(current);
+  });
+  main.addEventListener('pointerup', function () { drag = null; main.classList.remove('dragging'); });
+
+  document.querySelectorAll('[data-show]').forEach(function (el) {
+    el.addEventListener('click', function () { show(el.getAttribute('data-show')); });
+  });
+  document.querySelector('[data-fit]').addEventListener('click', function () { fit(current); });
+  show(current);
+})();`;
+
+function renderLegend(view: ExportView, x: number, y: number): string {
+  const entries = sortLayers(view.nodes.flatMap((node) => node.layers));
+  let cursor = x;
+  const items = entries.map((layer) => {
+    const item =
+      `<rect x="${formatNumber(cursor)}" y="${formatNumber(y - 10)}" width="12" height="12" rx="3" fill="${getLayerColor(layer)}"/>` +
+      `<text x="${formatNumber(cursor + 18)}" y="${formatNumber(y)}" font-size="12" fill="${COLORS.textMuted}">${layer}</text>`;
+    cursor += 30 + layer.length * 7;
+    return item;
+  });
+  return items.length > 0 ? `<g class="fm-legend">${items.join('')}</g>` : '';
+}
+
+function renderGroup(group: ExportView['groups'][number]): string {
+  const headerText = group.description ? `${group.name} | ${group.description}` : group.name;
+  const maxChars = Math.max(Math.floor((group.width - 32) / 7), 8);
+  const parts = [
+    `<g class="fm-group" data-id="${escapeXml(group.id)}">`,
+    `<rect x="${formatNumber(group.x)}" y="${formatNumber(group.y)}" width="${formatNumber(group.width)}" height="${formatNumber(group.height)}" rx="12" fill="${COLORS.groupFill}" fill-opacity="0.4" stroke="${COLORS.border}"/>`,
+    `<path d="${roundedTopPath(group.x, group.y, group.width, group.headerHeight, 12)}" fill="${COLORS.groupHeader}" fill-opacity="0.8" stroke="${COLORS.border}"/>`,
+    `<text x="${formatNumber(group.x + 16)}" y="${formatNumber(group.y + 23)}" font-size="14" font-weight="600" fill="${COLORS.text}">${escapeXml(truncate(headerText, maxChars))}</text>`,
+  ];
+  if (group.note) {
+    const noteY = group.y + group.height - group.noteHeight;
+    parts.push(
+      `<text x="${formatNumber(group.x + 16)}" y="${formatNumber(noteY + 26)}" font-size="12" fill="${COLORS.textMuted}">${escapeXml(truncate(group.note, maxChars + 10))}</text>`
+    );
+  }
+  parts.push('</g>');
+  return parts.join('');
+}
+
+function renderEdge(
+  source: ExportNode | undefined,
+  target: ExportNode | undefined,
+  markerId: string
+): string {
+  if (!source || !target) {
+    return '';
+  }
+  const startX = source.x + source.width / 2;
+  const startY = source.y + source.height;
+  const endX = target.x + target.width / 2;
+  const endY = target.y;
+  const curve = Math.max(Math.abs(endY - startY) / 2, 40);
+  const d = `M${formatNumber(startX)},${formatNumber(startY)} C${formatNumber(startX)},${formatNumber(startY + curve)} ${formatNumber(endX)},${formatNumber(endY - curve)} ${formatNumber(endX)},${formatNumber(endY)}`;
+  return `<path class="fm-edge" data-source="${escapeXml(source.id)}" data-target="${escapeXml(target.id)}" d="${d}" fill="none" stroke="${COLORS.edge}" stroke-width="1.5" marker-end="url(#${markerId})"/>`;
+}
+
+function renderNode(node: ExportNode): string {
+  const fill = node.status === 'deprecated' || node.status === 'ignored' ? COLORS.cardMuted : COLORS.card;
+  const opacity = node.status === 'ignored' ? ' opacity="0.6"' : '';
+  const unit = node.fileCount === 1 ? 'file' : 'files';
+  const subtitle = [`${node.fileCount} ${unit}`, ...(node.status && node.status !== 'active' ? [node.status] : [])];
+  const barWidth = node.layers.length > 0 ? (node.width - 16) / node.layers.length : 0;
+  const bars = node.layers.map(
+    (layer, index) =>
+      `<rect x="${formatNumber(node.x + 8 + index * barWidth)}" y="${formatNumber(node.y + 6)}" width="${formatNumber(barWidth)}" height="4" rx="2" fill="${getLayerColor(layer)}"/>`
+  );
+
+  return [
+    `<g class="fm-node" data-id="${escapeXml(node.id)}"${opacity}>`,
+    `<title>${escapeXml(node.label)}${node.layers.length > 0 ? ` (${node.layers.join(', ')})` : ''}</title>`,
+    `<rect x="${formatNumber(node.x)}" y="${formatNumber(node.y)}" width="${node.width}" height="${node.height}" rx="8" fill="${fill}" stroke="${COLORS.border}" stroke-width="2"/>`,
+    ...bars,
+    `<text x="${formatNumber(node.x + 16)}" y="${formatNumber(node.y + 34)}" font-size="14" font-weight="500" fill="${COLORS.text}">${escapeXml(truncate(node.label, LABEL_MAX_CHARS))}</text>`,
+    `<text x="${formatNumber(node.x + 16)}" y="${formatNumber(node.y + 54)}" font-size="12" fill="${COLORS.textMuted}">${escapeXml(subtitle.join(' · '))}</text>`,
+    '</g>',
+  ].join('');
+}
+
+function roundedTopPath(x: number, y: number, width: number, height: number, radius: number): string {
+  const r = Math.min(radius, height / 2, width / 2);
+  return [
+    `M${formatNumber(x)},${formatNumber(y + height)}`,
+    `V${formatNumber(y + r)}`,
+    `Q${formatNumber(x)},${formatNumber(y)} ${formatNumber(x + r)},${formatNumber(y)}`,
+    `H${formatNumber(x + width - r)}`,
+    `Q${formatNumber(x + width)},${formatNumber(y)} ${formatNumber(x + width)},${formatNumber(y + r)}`,
+    `V${formatNumber(y + height)}`,
+    'Z',
+  ].join(' ');
+}
+
+function truncate(value: string, maxChars: number): string {
+  return value.length > maxChars ? `${value.slice(0, Math.max(maxChars - 1, 1))}…` : value;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Keeps the inlined JSON from closing the <script> element early.
+function serializeJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
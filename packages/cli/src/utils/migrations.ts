@@ -0,0 +1,100 @@
+import { SUPPORTED_VERSIONS, type FileType } from '../constants/versions.js';
+
+export type MigrationData = Record<string, unknown>;
+
+export interface MigrationStep {
+  /** Version this step upgrades from; the result is `from + 1`. */
+  from: number;
+  description: string;
+  /**
+   * Returns the upgraded file content without its `version`, which is set by the runner.
+   * `file` is the path relative to `.featuremap/`, so `context` steps can tell files apart.
+   */
+  migrate: (data: MigrationData, file: string) => MigrationData;
+}
+
+/**
+ * Upgrade steps per file type, in version order. When a format changes, bump its
+ * SUPPORTED_VERSIONS entry and add the step from the previous version here.
+ */
+export const MIGRATIONS: Record<FileType, MigrationStep[]> = {
+  config: [],
+  rawGraph: [],
+  graph: [],
+  layout: [],
+  feature: [],
+  cluster: [],
+  group: [],
+  comment: [],
+  context: [],
+  rules: [],
+  history: [],
+  view: [],
+};
+
+export interface MigrationResult {
+  data: MigrationData;
+  fromVersion: number;
+  toVersion: number;
+  /** Descriptions of the steps applied, oldest first. */
+  applied: string[];
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Applies the registered steps to bring `data` up to the supported version. Returns null
+ * when it is already current; throws MigrationError when it cannot be upgraded.
+ */
+export function migrateData(
+  fileType: FileType,
+  data: unknown,
+  file: string,
+  migrations: Record<FileType, MigrationStep[]> = MIGRATIONS
+): MigrationResult | null {
+  if (!isPlainObject(data)) {
+    throw new MigrationError('Expected a YAML mapping at the top level.');
+  }
+
+  const fromVersion = data.version;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion)) {
+    throw new MigrationError(
+      `Missing version field. Add the version the file was written with, or run "featuremap scan" for generated files.`
+    );
+  }
+
+  const target = SUPPORTED_VERSIONS[fileType];
+  if (fromVersion > target) {
+    throw new MigrationError(
+      `Version ${fromVersion} is newer than supported (${target}). Update your CLI: npm update featuremap`
+    );
+  }
+  if (fromVersion === target) {
+    return null;
+  }
+
+  let current: MigrationData = data;
+  const applied: string[] = [];
+  for (let version = fromVersion; version < target; version += 1) {
+    const step = migrations[fileType].find((entry) => entry.from === version);
+    if (!step) {
+      throw new MigrationError(
+        `No ${fileType} migration from version ${version} to ${version + 1}. Run "featuremap scan" for generated files.`
+      );
+    }
+    const { version: _previous, ...migrated } = step.migrate(current, file);
+    current = { version: version + 1, ...migrated };
+    applied.push(step.description);
+  }
+
+  return { data: current, fromVersion, toVersion: target, applied };
+}
+
+function isPlainObject(value: unknown): value is MigrationData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DependencyGraph } from '../analyzer/graph.js';
+import type { Cluster as FolderCluster } from '../analyzer/grouper.js';
+import { SUPPORTED_VERSIONS } from '../constants/versions.js';
+import type { RawGraph } from '../types/index.js';
+import { RawGraphSchema } from '../types/index.js';
+import { loadYAML, saveYAML } from './yaml-loader.js';
+
+/**
+ * Writes per-file exports, imports and dependencies to raw-graph.yaml so the web map can
+ * drill down from clusters to files. Returns false when the file was already up to date.
+ */
+export function saveRawGraphYaml(
+  featuremapDir: string,
+  clusters: FolderCluster[],
+  graph: DependencyGraph
+): boolean {
+  const filePath = path.join(featuremapDir, 'raw-graph.yaml');
+  const filePaths = Object.keys(graph.files).sort((a, b) => a.localeCompare(b));
+
+  const files: RawGraph['files'] = {};
+  const dependencies: RawGraph['dependencies'] = {};
+  for (const file of filePaths) {
+    const node = graph.files[file];
+    files[file] = {
+      exports: node.exports,
+      imports: { internal: node.imports.internal, external: node.imports.external },
+      linesOfCode: node.linesOfCode,
+    };
+    dependencies[file] = [...(graph.dependencies[file] ?? [])].sort((a, b) => a.localeCompare(b));
+  }
+
+  const rawClusters = clusters
+    .map((cluster) => ({
+      id: cluster.id,
+      files: [...cluster.files].sort((a, b) => a.localeCompare(b)),
+    }))
+    .sort((left, right) => left.id.localeCompare(right.id));
+
+  const existing = loadExistingRawGraph(filePath);
+  if (existing && isSameRawGraph(existing, { files, dependencies, clusters: rawClusters })) {
+    return false;
+  }
+
+  const rawGraph: RawGraph = {
+    version: SUPPORTED_VERSIONS.rawGraph,
+    generatedAt: new Date().toISOString(),
+    files,
+    dependencies,
+    clusters: rawClusters,
+  };
+  saveYAML(filePath, rawGraph, RawGraphSchema);
+  return true;
+}
+
+function isSameRawGraph(
+  existing: RawGraph,
+  next: Pick<RawGraph, 'files' | 'dependencies' | 'clusters'>
+): boolean {
+  const { version, generatedAt, ...rest } = existing;
+  return JSON.stringify(rest) === JSON.stringify(next);
+}
+
+function loadExistingRawGraph(filePath: string): RawGraph | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  try {
+    return loadYAML(filePath, RawGraphSchema, { fileType: 'rawGraph' });
+  } catch {
+    // Regenerate raw graph with the latest schema.
+    return null;
+  }
+}
@@ -1,4 +1,4 @@
-import { Cluster, Feature, Graph, Metadata } from '../types/index.js';
+import { Cluster, CodeMetrics, Feature, Graph, Metadata } from '../types/index.js';
 
 export function buildUpdatedMetadata(current: Metadata | undefined): Metadata {
   const now = new Date().toISOString();
@@ -29,6 +29,13 @@ export function areFeaturesEquivalent(left: Feature, right: Feature): boolean {
   );
 }
 
+export function areMetricsEquivalent(
+  left: CodeMetrics | undefined,
+  right: CodeMetrics | undefined
+): boolean {
+  return deepEqual(left ?? null, right ?? null);
+}
+
 export function areGraphsEquivalent(left: Graph, right: Graph): boolean {
   return deepEqual(
     normalizeGraphForComparison(left),
@@ -91,7 +98,11 @@ function normalizeGraphForComparison(graph: Graph): Omit<Graph, 'generatedAt'> {
           if (symbolCompare !== 0) {
             return symbolCompare;
           }
-          return (left.targetFile ?? '').localeCompare(right.targetFile ?? '');
+          const targetCompare = (left.targetFile ?? '').localeCompare(right.targetFile ?? '');
+          if (targetCompare !== 0) {
+            return targetCompare;
+          }
+          return (left.kind ?? 'static').localeCompare(right.kind ?? 'static');
         });
       return { ...edge, imports };
     })
@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadFeatures } from '../analyzer/feature-loader.js';
+import { SUPPORTED_VERSIONS } from '../constants/versions.js';
+import { ClusterSchema, GraphSchema, SnapshotSchema, type Snapshot } from '../types/index.js';
+import { loadYAML, saveYAML } from './yaml-loader.js';
+
+const HISTORY_DIR = 'history';
+
+/** Snapshot reference that resolves to the live .featuremap state instead of a saved file. */
+export const CURRENT_SNAPSHOT_REF = 'current';
+export const LATEST_SNAPSHOT_REF = 'latest';
+
+export interface SnapshotSummary {
+  id: string;
+  createdAt: string;
+}
+
+/**
+ * Captures graph.yaml, cluster compositions and feature hashes as they are on disk now.
+ */
+export function buildSnapshot(featuremapDir: string, id: string = createSnapshotId()): Snapshot {
+  const graphPath = path.join(featuremapDir, 'graph.yaml');
+  if (!fs.existsSync(graphPath)) {
+    throw new Error('graph.yaml not found. Run "featuremap scan" first.');
+  }
+
+  const graph = loadYAML(graphPath, GraphSchema, { fileType: 'graph' });
+  const graphClusterIds = new Set(
+    graph.nodes.filter((node) => node.type === 'cluster').map((node) => node.id)
+  );
+  // clusters/ can keep files for clusters that a later scan dropped; graph.yaml is authoritative.
+  const clustersDir = path.join(featuremapDir, 'clusters');
+  const clusters = listYamlFiles(clustersDir)
+    .map((fileName) =>
+      loadYAML(path.join(clustersDir, fileName), ClusterSchema, { skipVersionCheck: true })
+    )
+    .filter((cluster) => graphClusterIds.has(cluster.id))
+    .map((cluster) => ({
+      id: cluster.id,
+      layer: cluster.layer,
+      files: cluster.files,
+      compositionHash: cluster.compositionHash,
+    }));
+  const features = loadFeatures(path.join(featuremapDir, 'features')).map((feature) => ({
+    id: feature.id,
+    name: feature.name,
+    status: feature.status,
+    clusters: feature.clusters,
+    compositionHash: feature.composition.hash,
+  }));
+
+  return {
+    version: SUPPORTED_VERSIONS.history,
+    id,
+    createdAt: new Date().toISOString(),
+    graph: {
+      nodes: graph.nodes.map(({ id: nodeId, label, type, fileCount, clusterCount }) => ({
+        id: nodeId,
+        label,
+        type,
+        ...(fileCount !== undefined ? { fileCount } : {}),
+        ...(clusterCount !== undefined ? { clusterCount } : {}),
+      })),
+      edges: graph.edges.map(({ source, target, type }) => ({
+        source,
+        target,
+        ...(type !== undefined ? { type } : {}),
+      })),
+    },
+    clusters,
+    features,
+  };
+}
+
+export function saveSnapshot(featuremapDir: string): Snapshot {
+  const snapshot = buildSnapshot(featuremapDir);
+  const historyDir = path.join(featuremapDir, HISTORY_DIR);
+  if (!fs.existsSync(historyDir)) {
+    fs.mkdirSync(historyDir, { recursive: true });
+  }
+  saveYAML(path.join(historyDir, `${snapshot.id}.yaml`), snapshot, SnapshotSchema);
+  return snapshot;
+}
+
+/**
+ * Saved snapshots, oldest first.
+ */
+export function listSnapshots(featuremapDir: string): SnapshotSummary[] {
+  const historyDir = path.join(featuremapDir, HISTORY_DIR);
+  return listYamlFiles(historyDir)
+    .map((fileName) => {
+      try {
+        const snapshot = loadYAML(path.join(historyDir, fileName), SnapshotSchema, {
+          fileType: 'history',
+        });
+        return { id: path.basename(fileName, '.yaml'), createdAt: snapshot.createdAt };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`WARN Could not load snapshot ${fileName}: ${message}`);
+        return null;
+      }
+    })
+    .filter((summary): summary is SnapshotSummary => summary !== null)
+    .sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+}
+
+/**
+ * Loads a snapshot by ID (or unique ID prefix), `latest`, or `current` for the live map.
+ */
+export function resolveSnapshot(featuremapDir: string, ref: string): Snapshot {
+  if (ref === CURRENT_SNAPSHOT_REF) {
+    return buildSnapshot(featuremapDir, CURRENT_SNAPSHOT_REF);
+  }
+
+  const snapshots = listSnapshots(featuremapDir);
+  if (ref === LATEST_SNAPSHOT_REF) {
+    const latest = snapshots[snapshots.length - 1];
+    if (!latest) {
+      throw new Error('No snapshots saved yet. Run "featuremap scan --snapshot".');
+    }
+    return loadSnapshotById(featuremapDir, latest.id);
+  }
+
+  const exact = snapshots.find((snapshot) => snapshot.id === ref);
+  if (exact) {
+    return loadSnapshotById(featuremapDir, exact.id);
+  }
+
+  const candidates = snapshots.filter((snapshot) => snapshot.id.startsWith(ref));
+  if (candidates.length === 1) {
+    return loadSnapshotById(featuremapDir, candidates[0].id);
+  }
+  if (candidates.length > 1) {
+    throw new Error(
+      `Snapshot "${ref}" is ambiguous: ${candidates.map((snapshot) => snapshot.id).join(', ')}`
+    );
+  }
+  throw new Error(`Snapshot "${ref}" not found. Run "featuremap history list".`);
+}
+
+function loadSnapshotById(featuremapDir: string, id: string): Snapshot {
+  return loadYAML(path.join(featuremapDir, HISTORY_DIR, `${id}.yaml`), SnapshotSchema, {
+    fileType: 'history',
+  });
+}
+
+function createSnapshotId(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+function listYamlFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((fileName) => fileName.endsWith('.yaml') && fileName !== 'index.yaml')
+    .sort((a, b) => a.localeCompare(b));
+}
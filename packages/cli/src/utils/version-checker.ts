@@ -48,7 +48,7 @@ export function checkVersion(
       supportedVersion: supported,
       minVersion: min,
       error: 'too_old',
-      message: `Version ${fileVersion} is too old. Minimum supported: ${min}. Run "featuremap scan" or "featuremap migrate" when available.`,
+      message: `Version ${fileVersion} is too old. Minimum supported: ${min}. Run "featuremap migrate" to upgrade it.`,
     };
   }
 
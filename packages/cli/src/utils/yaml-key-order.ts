@@ -10,6 +10,7 @@ export const KEY_ORDER: Record<string, string[]> = {
     'imports',
     'purpose_hint',
     'entry_points',
+    'metrics',
     'compositionHash',
     'metadata',
   ],
@@ -49,7 +50,12 @@ export const KEY_ORDER: Record<string, string[]> = {
     'pinned',
     'tags',
     'priority',
+    'status',
+    'resolvedBy',
+    'resolvedAt',
     'author',
+    'mentions',
+    'replies',
     'createdAt',
     'updatedAt',
   ],
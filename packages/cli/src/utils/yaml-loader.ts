@@ -33,7 +33,7 @@ function formatIssuePath(pathSegments: Array<string | number | symbol>): string
   return joined.replace('.[', '[');
 }
 
-function buildErrorMessage(filePath: string, error: ZodError): string {
+export function buildErrorMessage(filePath: string, error: ZodError): string {
   const lines = error.issues.map((issue) => {
     const fieldPath = formatIssuePath(issue.path);
     return `- ${fieldPath}: ${issue.message}`;
@@ -11,6 +11,8 @@ import { saveFeaturesFromGroupingTool } from './tools/saveFeaturesFromGrouping.j
 import { createGroupTool } from './tools/createGroup.js';
 import { getArchitectureOverviewTool } from './tools/getArchitectureOverview.js';
 import { getFeatureDetailsTool } from './tools/getFeatureDetails.js';
+import { getFeatureCyclesTool } from './tools/getFeatureCycles.js';
+import { getDeadCodeTool } from './tools/getDeadCode.js';
 import { getClusterFilesTool } from './tools/getClusterFiles.js';
 import { findRelevantFeaturesTool } from './tools/findRelevantFeatures.js';
 import { getNodeCommentsTool } from './tools/getNodeComments.js';
@@ -19,6 +21,7 @@ import { analyzeProjectStructureTool } from './tools/analyzeProjectStructure.js'
 import { setupFeaturemapTool } from './tools/setupFeaturemap.js';
 import { saveProjectConfigTool } from './tools/saveProjectConfig.js';
 import { runScanTool } from './tools/runScan.js';
+import { exportDiagramTool } from './tools/exportDiagram.js';
 
 const server = new McpServer({
   name: 'featuremap',
@@ -157,6 +160,22 @@ server.tool(
   getFeatureDetailsTool.execute
 );
 
+// Tool: get_feature_cycles
+server.tool(
+  getFeatureCyclesTool.name,
+  getFeatureCyclesTool.description,
+  getFeatureCyclesTool.parameters,
+  getFeatureCyclesTool.execute
+);
+
+// Tool: get_dead_code
+server.tool(
+  getDeadCodeTool.name,
+  getDeadCodeTool.description,
+  getDeadCodeTool.parameters,
+  getDeadCodeTool.execute
+);
+
 // Tool: get_cluster_files
 server.tool(
   getClusterFilesTool.name,
@@ -221,10 +240,18 @@ server.tool(
   runScanTool.execute
 );
 
+// Tool: export_diagram
+server.tool(
+  exportDiagramTool.name,
+  exportDiagramTool.description,
+  exportDiagramTool.parameters,
+  exportDiagramTool.execute
+);
+
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error('FeatureMap MCP server started with 16 tools');
+  console.error('FeatureMap MCP server started with 19 tools');
 }
 
 main().catch((error) => {
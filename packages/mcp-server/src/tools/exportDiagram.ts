@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { buildExportMap, LayerFilterParamSchema, renderDiagram } from '@featuremap/cli/dist/api.js';
+import { findFeaturemapDir } from '../utils/findFeaturemapDir.js';
+
+const parametersSchema = z.object({
+  format: z
+    .enum(['mermaid', 'dot', 'structurizr'])
+    .describe('Diagram format: Mermaid flowchart, Graphviz DOT or Structurizr DSL.'),
+  level: z
+    .enum(['features', 'clusters'])
+    .optional()
+    .describe('Graph level to export (default: features).'),
+  layer: LayerFilterParamSchema.optional().describe('Optional layer filter.'),
+  groupId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Optional group filter (the group features, or their clusters at cluster level).'),
+});
+
+export const exportDiagramTool = {
+  name: 'export_diagram',
+  description: `Export the feature map as diagram source for Markdown docs and ADRs.
+
+Formats:
+- mermaid: flowchart with groups as subgraphs and layers as node classes
+- dot: Graphviz digraph with groups as cluster subgraphs
+- structurizr: Structurizr DSL workspace (features as containers or clusters as components, groups as boundaries, layers as tags)
+
+Returns the diagram text only; paste it into a fenced code block.`,
+  parameters: parametersSchema.shape,
+  execute: async (params: z.infer<typeof parametersSchema>) => {
+    const featuremapDir = findFeaturemapDir();
+    if (!featuremapDir) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'Error: No .featuremap directory found. Run "featuremap init" first.',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    try {
+      const diagram = renderDiagram(
+        buildExportMap(featuremapDir),
+        params.level ?? 'features',
+        params.format,
+        { layer: params.layer ?? 'all', groupId: params.groupId?.trim() }
+      );
+      return {
+        content: [{ type: 'text' as const, text: diagram }],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Error: ${error instanceof Error ? error.message : 'Failed to export diagram.'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+};
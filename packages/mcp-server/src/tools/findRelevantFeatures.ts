@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { LayerFilterParamSchema } from '@featuremap/cli/dist/api.js';
 import { findFeaturemapDir } from '../utils/findFeaturemapDir.js';
 import { normalizeStringList } from '../utils/listUtils.js';
 import {
@@ -8,10 +9,9 @@ import {
 } from '../utils/navigationLoaders.js';
 import { rankFeatures } from '../utils/searchScoring.js';
 
-const layerEnum = z.enum(['frontend', 'backend', 'shared', 'infrastructure', 'all']);
 const parametersSchema = z.object({
   query: z.string().min(1).describe('Free-text query to search for features.'),
-  layer: layerEnum.optional().describe('Optional layer filter for features.'),
+  layer: LayerFilterParamSchema.optional().describe('Optional layer filter for features.'),
   groupId: z.string().min(1).optional().describe('Optional group filter for features.'),
 });
 
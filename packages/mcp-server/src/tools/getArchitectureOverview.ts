@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { LayerFilterParamSchema } from '@featuremap/cli/dist/api.js';
 import { findFeaturemapDir } from '../utils/findFeaturemapDir.js';
 import { normalizeStringList } from '../utils/listUtils.js';
 import {
@@ -7,9 +8,8 @@ import {
   type DerivedLayer,
 } from '../utils/navigationLoaders.js';
 
-const layerEnum = z.enum(['frontend', 'backend', 'shared', 'infrastructure', 'all']);
 const parametersSchema = z.object({
-  layer: layerEnum.optional().describe('Optional layer filter for features.'),
+  layer: LayerFilterParamSchema.optional().describe('Optional layer filter for features.'),
   groupId: z.string().min(1).optional().describe('Optional group filter for features.'),
 });
 
@@ -3,7 +3,7 @@ import { findFeaturemapDir } from '../utils/findFeaturemapDir.js';
 import { buildGroupNotePreviews, buildGroupSummaries } from '../utils/groupNotes.js';
 import { normalizeStringList } from '../utils/listUtils.js';
 import { buildIndices } from '../utils/navigationLoaders.js';
-import { filterCommentsForNode, loadComments } from '../utils/commentLoader.js';
+import { filterCommentsForNode, getCommentStatus, loadComments } from '../utils/commentLoader.js';
 
 const parametersSchema = z.object({
   clusterId: z.string().min(1).describe('Cluster ID to inspect.'),
@@ -65,8 +65,10 @@ export const getClusterFilesTool = {
     const commentEntries = comments.map((comment) => ({
       id: comment.id,
       homeView: comment.homeView,
+      status: getCommentStatus(comment),
       content: comment.content,
       links: comment.links,
+      ...(comment.replies?.length ? { replyCount: comment.replies.length } : {}),
       ...(comment.createdAt ? { createdAt: comment.createdAt } : {}),
       ...(comment.updatedAt ? { updatedAt: comment.updatedAt } : {}),
     }));
@@ -0,0 +1,104 @@
+import { join } from 'path';
+import { z } from 'zod';
+import type { DeadCode } from '@featuremap/cli/dist/api.js';
+import { loadContextFile } from '../utils/contextLoader.js';
+import { findFeaturemapDir } from '../utils/findFeaturemapDir.js';
+import { normalizeStringList } from '../utils/listUtils.js';
+import { buildIndices } from '../utils/navigationLoaders.js';
+
+const parametersSchema = z.object({
+  clusterId: z.string().min(1).optional().describe('Only report this cluster.'),
+  featureId: z.string().min(1).optional().describe('Only report the clusters of this feature.'),
+});
+
+export const getDeadCodeTool = {
+  name: 'get_dead_code',
+  description: `List unused exports and unreachable files per cluster.
+
+Returns:
+- roots: entry files whose exports count as public API (cluster entry_points, package.json main/bin/exports)
+- clusters: clusters with findings, each with unusedExports ({ file, name, type }) and unreachableFiles
+
+An export is unused when no scanned file imports it; a file is unreachable when no scanned file imports it and it is not a root. Imports from tests and from outside the scanned files are not seen, so verify before deleting.
+
+Data comes from context/dead-code.yaml, which is refreshed by each scan.`,
+  parameters: parametersSchema.shape,
+  execute: async (params: z.infer<typeof parametersSchema>) => {
+    const featuremapDir = findFeaturemapDir();
+    if (!featuremapDir) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'Error: No .featuremap directory found. Run "featuremap init" first.',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const deadCode = loadContextFile<DeadCode>(join(featuremapDir, 'context'), 'dead-code.yaml');
+    if (!deadCode) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'Error: context/dead-code.yaml not found. Run a scan first.',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    let clusterIds: Set<string> | null = null;
+    if (params.featureId) {
+      const feature = buildIndices(featuremapDir).featuresById.get(params.featureId);
+      if (!feature) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: Feature "${params.featureId}" not found.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      clusterIds = new Set(normalizeStringList(feature.clusters));
+    }
+    if (params.clusterId) {
+      clusterIds = new Set(
+        clusterIds ? [...clusterIds].filter((id) => id === params.clusterId) : [params.clusterId]
+      );
+    }
+
+    const clusters = (deadCode.clusters ?? []).filter(
+      (cluster) => !clusterIds || clusterIds.has(cluster.id)
+    );
+    const hints: string[] = [];
+    if ((deadCode.roots ?? []).length === 0) {
+      hints.push('no roots found: add entry_points to cluster files or main/bin/exports to package.json');
+    }
+
+    const result = {
+      roots: deadCode.roots ?? [],
+      clusters,
+      _meta: {
+        counts: {
+          clusters: clusters.length,
+          unusedExports: clusters.reduce((sum, cluster) => sum + cluster.unusedExports.length, 0),
+          unreachableFiles: clusters.reduce(
+            (sum, cluster) => sum + cluster.unreachableFiles.length,
+            0
+          ),
+        },
+        detectedAt: deadCode.detectedAt ?? null,
+        hints,
+      },
+    };
+
+    return {
+      content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
+    };
+  },
+};
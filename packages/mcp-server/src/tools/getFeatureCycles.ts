@@ -0,0 +1,101 @@
+import { join } from 'path';
+import { z } from 'zod';
+import { findCycles, type Cycles } from '@featuremap/cli/dist/api.js';
+import { loadContextFile } from '../utils/contextLoader.js';
+import { findFeaturemapDir } from '../utils/findFeaturemapDir.js';
+import { normalizeStringList } from '../utils/listUtils.js';
+import { buildIndices } from '../utils/navigationLoaders.js';
+
+const parametersSchema = z.object({
+  featureId: z.string().min(1).describe('Feature ID whose cycles should be listed.'),
+});
+
+export const getFeatureCyclesTool = {
+  name: 'get_feature_cycles',
+  description: `List dependency cycles that involve a feature.
+
+Returns:
+- featureCycles: cycles between features (from features/*.yaml dependsOn) containing this feature
+- clusterCycles: cluster-level cycles that include at least one of the feature's clusters
+- fileCycles: file-level import cycles that include at least one file of the feature's clusters
+
+Cluster and file cycles come from context/cycles.yaml, which is refreshed by each scan.`,
+  parameters: parametersSchema.shape,
+  execute: async (params: z.infer<typeof parametersSchema>) => {
+    const featuremapDir = findFeaturemapDir();
+    if (!featuremapDir) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'Error: No .featuremap directory found. Run "featuremap init" first.',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const { featuresById, clustersById } = buildIndices(featuremapDir);
+    const feature = featuresById.get(params.featureId);
+    if (!feature) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Error: Feature "${params.featureId}" not found.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const featureDependencies: Record<string, string[]> = {};
+    for (const entry of featuresById.values()) {
+      featureDependencies[entry.id] = normalizeStringList(entry.dependsOn);
+    }
+    const featureCycles = findCycles(featureDependencies).filter((cycle) =>
+      cycle.includes(feature.id)
+    );
+
+    const clusterIds = new Set(normalizeStringList(feature.clusters));
+    const files = new Set<string>();
+    for (const clusterId of clusterIds) {
+      const cluster = clustersById.get(clusterId);
+      for (const file of Array.isArray(cluster?.files) ? cluster.files : []) {
+        files.add(file);
+      }
+    }
+
+    const hints: string[] = [];
+    const cycles = loadContextFile<Cycles>(join(featuremapDir, 'context'), 'cycles.yaml');
+    if (!cycles) {
+      hints.push('cluster/file cycles unavailable: context/cycles.yaml missing, run a scan');
+    }
+    const clusterCycles = (cycles?.clusters ?? [])
+      .map((cycle) => cycle.nodes)
+      .filter((nodes) => nodes.some((node) => clusterIds.has(node)));
+    const fileCycles = (cycles?.files ?? [])
+      .map((cycle) => cycle.nodes)
+      .filter((nodes) => nodes.some((node) => files.has(node)));
+
+    const result = {
+      featureId: feature.id,
+      featureCycles,
+      clusterCycles,
+      fileCycles,
+      _meta: {
+        counts: {
+          featureCycles: featureCycles.length,
+          clusterCycles: clusterCycles.length,
+          fileCycles: fileCycles.length,
+        },
+        detectedAt: cycles?.detectedAt ?? null,
+        hints,
+      },
+    };
+
+    return {
+      content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
+    };
+  },
+};
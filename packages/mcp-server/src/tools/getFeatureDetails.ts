@@ -1,9 +1,12 @@
+import { join } from 'path';
 import { z } from 'zod';
+import type { Ownership, TestCoverage } from '@featuremap/cli/dist/api.js';
+import { loadContextFile } from '../utils/contextLoader.js';
 import { findFeaturemapDir } from '../utils/findFeaturemapDir.js';
 import { buildGroupNotePreviews, buildGroupSummaries } from '../utils/groupNotes.js';
 import { normalizeStringList } from '../utils/listUtils.js';
 import { buildIndices } from '../utils/navigationLoaders.js';
-import { filterCommentsForNode, loadComments } from '../utils/commentLoader.js';
+import { filterCommentsForNode, getCommentStatus, loadComments } from '../utils/commentLoader.js';
 
 const parametersSchema = z.object({
   featureId: z.string().min(1).describe('Feature ID to inspect.'),
@@ -43,6 +46,15 @@ export const getFeatureDetailsTool = {
       };
     }
 
+    const ownership = loadContextFile<Ownership>(join(featuremapDir, 'context'), 'ownership.yaml');
+    const clusterOwnership = new Map((ownership?.clusters ?? []).map((entry) => [entry.id, entry]));
+    const featureOwnership = (ownership?.features ?? []).find((entry) => entry.id === feature.id);
+    const testCoverage = loadContextFile<TestCoverage>(
+      join(featuremapDir, 'context'),
+      'test-coverage.yaml'
+    );
+    const featureTests = (testCoverage?.features ?? []).find((entry) => entry.id === feature.id);
+
     const clusterIds = normalizeStringList(feature.clusters);
     const clusters = clusterIds.map((clusterId) => {
       const cluster = clustersById.get(clusterId);
@@ -52,6 +64,7 @@ export const getFeatureDetailsTool = {
         layer: cluster?.layer ?? 'unknown',
         purpose_hint: cluster?.purpose_hint ?? null,
         fileCount,
+        owners: (clusterOwnership.get(clusterId)?.owners ?? []).map((owner) => owner.name),
       };
     });
 
@@ -65,8 +78,10 @@ export const getFeatureDetailsTool = {
     const commentEntries = comments.map((comment) => ({
       id: comment.id,
       homeView: comment.homeView,
+      status: getCommentStatus(comment),
       content: comment.content,
       links: comment.links,
+      ...(comment.replies?.length ? { replyCount: comment.replies.length } : {}),
       ...(comment.createdAt ? { createdAt: comment.createdAt } : {}),
       ...(comment.updatedAt ? { updatedAt: comment.updatedAt } : {}),
     }));
@@ -87,6 +102,16 @@ export const getFeatureDetailsTool = {
 
     const result = {
       feature: featureDetails,
+      owners: featureOwnership?.owners ?? [],
+      ...(featureOwnership?.authors ? { authors: featureOwnership.authors } : {}),
+      ...(testCoverage
+        ? {
+            tests: {
+              files: featureTests?.testFiles ?? [],
+              lineCoverage: featureTests?.lineCoverage ?? null,
+            },
+          }
+        : {}),
       clusters,
       groups,
       groupIds,
@@ -97,6 +122,15 @@ export const getFeatureDetailsTool = {
       _meta: {
         clusterCount: clusters.length,
         missingClusters,
+        ownership: ownership
+          ? {
+              codeowners: ownership.codeowners ?? null,
+              unownedFiles: featureOwnership?.unownedFiles ?? 0,
+            }
+          : null,
+        testCoverage: testCoverage
+          ? { testFileCount: testCoverage.testFileCount, reports: testCoverage.reports }
+          : null,
         hints: {
           commentsTool: `Use get_node_comments(feature,${feature.id}) for truncation or metadata-only access`,
           groupDetailsTool: 'Use get_group_details(groupId) for full group note context',
@@ -1,5 +1,6 @@
 import { join } from 'path';
 import { z } from 'zod';
+import { LayerFilterParamSchema, type LayerFilterParam } from '@featuremap/cli/dist/api.js';
 import type { ClusterInfo, FeatureFile, FeatureLocks } from '../types/feature.js';
 import { findFeaturemapDir } from '../utils/findFeaturemapDir.js';
 import { loadProjectContext } from '../utils/contextLoader.js';
@@ -10,12 +11,12 @@ import {
   applyLimits,
   loadClusters,
   loadDependencies,
+  loadFeatureHints,
   summarizeCluster,
   type Limits,
   type RawCluster,
 } from './getGroupingInputUtils.js';
 
-const layerEnum = z.enum(['frontend', 'backend', 'shared', 'infrastructure']);
 const limitsSchema = z.object({
   externalImportsTopN: z.number().int().positive().max(100).optional(),
   keyPathsTopN: z.number().int().positive().max(50).optional(),
@@ -29,7 +30,7 @@ interface ExistingFeatureSummary {
   status?: string;
   clusters: string[];
   composition: { hash: string; currentHash: string; isStale: boolean };
-  locks?: Pick<FeatureLocks, 'name' | 'description' | 'clusters'>;
+  locks?: Pick<FeatureLocks, 'name' | 'description' | 'clusters' | 'scope' | 'status'>;
 }
 
 export const getGroupingInputTool = {
@@ -43,10 +44,11 @@ Guidance for AI usage:
 - If stability.staleFeatureIds is empty, do not change features; avoid renames or reclustering.
 - If some features are stale, update only those features unless the user explicitly requests a regroup.
 - Preserve existing feature IDs whenever possible.
-- Respect locks (name/description/clusters) when proposing updates.
+- Respect locks (name/description/clusters/scope/status) when proposing updates; locked fields are user edits.
+- Honor feature_hints from config.yaml: clusters covered by a hint with a type belong to a feature of that type.
 - After analysis, call save_features_from_grouping (next step).`,
   parameters: {
-    layer: layerEnum.optional().describe('Optional layer filter for clusters.'),
+    layer: LayerFilterParamSchema.optional().describe('Optional layer filter for clusters.'),
     includeExistingFeatures: z
       .boolean()
       .optional()
@@ -54,7 +56,7 @@ Guidance for AI usage:
     limits: limitsSchema.optional().describe('Payload limits to keep responses small.'),
   },
   execute: async (params: {
-    layer?: z.infer<typeof layerEnum>;
+    layer?: LayerFilterParam;
     includeExistingFeatures?: boolean;
     limits?: Partial<Limits>;
   }) => {
@@ -74,8 +76,9 @@ Guidance for AI usage:
     const limits = applyLimits(params.limits);
     const rawClusters = loadClusters(featuremapDir);
     const clustersById = buildClusterInfoMap(rawClusters);
-    const filteredClusters = params.layer
-      ? rawClusters.filter((cluster) => cluster.layer === params.layer)
+    const layerFilter = params.layer && params.layer !== 'all' ? params.layer : null;
+    const filteredClusters = layerFilter
+      ? rawClusters.filter((cluster) => cluster.layer === layerFilter)
       : rawClusters;
     const sortedClusters = [...filteredClusters].sort((a, b) =>
       (a.id ?? '').localeCompare(b.id ?? '')
@@ -90,12 +93,13 @@ Guidance for AI usage:
       join(featuremapDir, 'graph.yaml'),
       clusterIdSet
     );
-    const metaHints = [...dependencyResult.hints];
+    const featureHintResult = loadFeatureHints(join(featuremapDir, 'config.yaml'), rawClusters);
+    const metaHints = [...dependencyResult.hints, ...featureHintResult.hints];
     if (truncated) {
       metaHints.push(`clusters truncated to maxClusters=${limits.maxClusters}`);
     }
-    if (params.layer) {
-      metaHints.push(`layer filter applied: ${params.layer}`);
+    if (layerFilter) {
+      metaHints.push(`layer filter applied: ${layerFilter}`);
     }
 
     const context = loadProjectContext(featuremapDir);
@@ -115,6 +119,7 @@ Guidance for AI usage:
         tech_stack: context.techStack,
         conventions: context.conventions,
       },
+      feature_hints: featureHintResult.featureHints,
       existing_features: existingFeatures,
       stability,
       _meta: {
@@ -125,7 +130,7 @@ Guidance for AI usage:
           existingFeatures: existingFeatures.length,
         },
         appliedFilters: {
-          layer: params.layer ?? null,
+          layer: layerFilter,
         },
         limits: { ...limits },
         truncation: {
@@ -227,6 +232,12 @@ function pickLocks(
   if (locks.clusters) {
     selected.clusters = true;
   }
+  if (locks.scope) {
+    selected.scope = true;
+  }
+  if (locks.status) {
+    selected.status = true;
+  }
 
   return Object.keys(selected).length > 0 ? selected : undefined;
 }
@@ -1,5 +1,10 @@
 import { existsSync, readFileSync } from 'fs';
 import { parse } from 'yaml';
+import {
+  ConfigSchema,
+  matchFeatureHints,
+  type FeatureHintMatch,
+} from '@featuremap/cli/dist/api.js';
 import { normalizeStringList } from '../utils/listUtils.js';
 import type { RawCluster } from '../utils/navigationLoaders.js';
 export { loadClusters } from '../utils/navigationLoaders.js';
@@ -108,6 +113,44 @@ export function loadDependencies(
   }
 }
 
+export function loadFeatureHints(
+  configPath: string,
+  rawClusters: RawCluster[]
+): { featureHints: FeatureHintMatch[]; hints: string[] } {
+  const hints: string[] = [];
+
+  if (!existsSync(configPath)) {
+    hints.push('feature hints unavailable: config.yaml missing');
+    return { featureHints: [], hints };
+  }
+
+  try {
+    const parsed = ConfigSchema.safeParse(parse(readFileSync(configPath, 'utf-8')));
+    if (!parsed.success) {
+      hints.push('feature hints unavailable: config.yaml invalid');
+      return { featureHints: [], hints };
+    }
+
+    const clusters = rawClusters
+      .filter((cluster) => Boolean(cluster.id))
+      .map((cluster) => ({
+        id: cluster.id as string,
+        files: Array.isArray(cluster.files) ? cluster.files : [],
+      }));
+    const featureHints = matchFeatureHints(parsed.data.features.hints, clusters);
+    for (const hint of featureHints) {
+      if (hint.clusters.length === 0) {
+        hints.push(`feature hint matched no clusters: ${hint.pattern}`);
+      }
+    }
+
+    return { featureHints, hints };
+  } catch {
+    hints.push('feature hints unavailable: config.yaml parse error');
+    return { featureHints: [], hints };
+  }
+}
+
 function extractKeyPaths(files: string[], topN: number): string[] {
   const counts = new Map<string, number>();
 
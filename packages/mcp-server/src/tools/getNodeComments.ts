@@ -1,17 +1,22 @@
 import { z } from 'zod';
 import { findFeaturemapDir } from '../utils/findFeaturemapDir.js';
-import { filterCommentsForNode, loadComments } from '../utils/commentLoader.js';
+import { filterCommentsForNode, getCommentStatus, loadComments } from '../utils/commentLoader.js';
 
 const parametersSchema = z.object({
   nodeType: z.enum(['feature', 'cluster']).describe('Node type to inspect.'),
   id: z.string().min(1).describe('Feature or cluster id.'),
   includeContent: z.boolean().optional().describe('Include comment content (default: true).'),
   maxComments: z.number().int().positive().optional().describe('Max comments to return.'),
+  status: z
+    .enum(['open', 'resolved', 'wontfix', 'all'])
+    .optional()
+    .describe('Only return threads with this status (default: all).'),
 });
 
 export const getNodeCommentsTool = {
   name: 'get_node_comments',
-  description: 'Return comments directly linked to a node, scoped to the correct view.',
+  description:
+    'Return comment threads (comment, status and replies) directly linked to a node, scoped to the correct view.',
   parameters: parametersSchema.shape,
   execute: async (params: z.infer<typeof parametersSchema>) => {
     const featuremapDir = findFeaturemapDir();
@@ -28,11 +33,20 @@ export const getNodeCommentsTool = {
     }
 
     const includeContent = params.includeContent ?? true;
-    const comments = filterCommentsForNode(
+    const statusFilter = params.status ?? 'all';
+    const nodeComments = filterCommentsForNode(
       loadComments(featuremapDir),
       params.nodeType,
       params.id
     );
+    const comments =
+      statusFilter === 'all'
+        ? nodeComments
+        : nodeComments.filter((comment) => getCommentStatus(comment) === statusFilter);
+    const statusCounts = { open: 0, resolved: 0, wontfix: 0 };
+    nodeComments.forEach((comment) => {
+      statusCounts[getCommentStatus(comment)] += 1;
+    });
 
     const maxComments = params.maxComments ?? comments.length;
     const truncated = comments.length > maxComments;
@@ -42,12 +56,26 @@ export const getNodeCommentsTool = {
       comments: returned.map((comment) => ({
         id: comment.id,
         homeView: comment.homeView,
+        status: getCommentStatus(comment),
+        ...(comment.resolvedBy ? { resolvedBy: comment.resolvedBy } : {}),
+        ...(comment.resolvedAt ? { resolvedAt: comment.resolvedAt } : {}),
+        ...(comment.author ? { author: comment.author } : {}),
         ...(includeContent ? { content: comment.content } : {}),
+        ...(comment.mentions?.length ? { mentions: comment.mentions } : {}),
         links: comment.links,
+        replies: (comment.replies ?? []).map((reply) => ({
+          id: reply.id,
+          ...(reply.author ? { author: reply.author } : {}),
+          ...(includeContent ? { content: reply.content } : {}),
+          ...(reply.mentions?.length ? { mentions: reply.mentions } : {}),
+          ...(reply.createdAt ? { createdAt: reply.createdAt } : {}),
+        })),
         ...(comment.createdAt ? { createdAt: comment.createdAt } : {}),
         ...(comment.updatedAt ? { updatedAt: comment.updatedAt } : {}),
       })),
       _meta: {
+        statusFilter,
+        statusCounts,
         totalCount: comments.length,
         returnedCount: returned.length,
         truncated,
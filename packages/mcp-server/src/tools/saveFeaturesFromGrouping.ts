@@ -1,6 +1,7 @@
 import { existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import { z } from 'zod';
+import { refreshFeatureCycles } from '@featuremap/cli/dist/api.js';
 import type { FeatureInput } from '../types/feature.js';
 import { findFeaturemapDir } from '../utils/findFeaturemapDir.js';
 import { loadClusters, loadFeatures } from '../utils/featureLoader.js';
@@ -194,6 +195,7 @@ export const saveFeaturesFromGroupingTool = {
     const overlay = buildFeatureOverlay([...nextFeatures.values()], clusters, warnings);
     const graphData = mergeGraphs(existingGraph, overlay, startedAt);
     const graphWritten = !dryRun && writeGraphYaml(featuremapDir, graphData);
+    const cyclesWritten = !dryRun && refreshFeatureCycles(featuremapDir);
 
     const result = {
       saved,
@@ -216,6 +218,7 @@ export const saveFeaturesFromGroupingTool = {
           finishedAt: new Date().toISOString(),
         },
         graphWritten,
+        cyclesWritten,
         warnings,
       },
     };
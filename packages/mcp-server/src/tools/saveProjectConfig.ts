@@ -4,8 +4,10 @@ import { stringify } from 'yaml';
 import { z } from 'zod';
 import {
   buildContextTemplates,
+  FeatureHintSchema,
   SUPPORTED_VERSIONS,
   writeYamlTemplate,
+  type FeatureHint,
 } from '@featuremap/cli/dist/api.js';
 
 export const saveProjectConfigTool = {
@@ -27,6 +29,8 @@ PARAMETERS:
 - projectName: Name for the project (shown in UI)
 - includePaths: Array of folder paths to scan, e.g. ["backend/", "frontend/src/"]
 - excludePatterns: Optional additional exclude patterns
+- hints: Optional grouping hints { pattern, cluster?, layer?, type? }; files matching
+  pattern are forced into cluster, clusters get layer pre-assigned, type guides feature grouping
 
 EXAMPLE USAGE:
 After user says "scan backend and frontend":
@@ -45,12 +49,17 @@ This will generate config with patterns like:
       .array(z.string())
       .optional()
       .describe('Additional exclude patterns beyond defaults'),
+    hints: z
+      .array(FeatureHintSchema)
+      .optional()
+      .describe('Grouping hints written to features.hints'),
     projectRoot: z.string().optional().describe('Project root, defaults to cwd'),
   },
   execute: async (params: {
     projectName: string;
     includePaths: string[];
     excludePatterns?: string[];
+    hints?: FeatureHint[];
     projectRoot?: string;
   }) => {
     const projectRoot = params.projectRoot ? resolve(params.projectRoot) : process.cwd();
@@ -85,7 +94,7 @@ This will generate config with patterns like:
         ],
       },
       features: {
-        hints: [],
+        hints: params.hints ?? [],
       },
     };
 
@@ -109,6 +118,7 @@ This will generate config with patterns like:
                 projectName: config.project.name,
                 includePatterns: config.scan.include,
                 excludePatterns: config.scan.exclude,
+                hints: config.features.hints,
               },
               nextStep: {
                 action: 'Run technical scan',
@@ -18,20 +18,40 @@ const CommentPositionSchema = z.object({
   y: z.number().finite(),
 });
 
+const CommentStatusSchema = z.enum(['open', 'resolved', 'wontfix']);
+
+const CommentContentSchema = z.string().refine((value) => value.trim().length > 0, {
+  message: 'content required',
+});
+
+const CommentReplySchema = z
+  .object({
+    id: z.string().regex(KEBAB_CASE_REGEX, 'id must be kebab-case'),
+    content: CommentContentSchema,
+    author: z.string().optional(),
+    mentions: z.array(z.string()).optional(),
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+  })
+  .strict();
+
 export const CommentNodeSchema = z
   .object({
     version: z.number().int().positive(),
     id: z.string().regex(KEBAB_CASE_REGEX, 'id must be kebab-case'),
     homeView: CommentHomeViewSchema.optional(),
-    content: z.string().refine((value) => value.trim().length > 0, {
-      message: 'content required',
-    }),
+    content: CommentContentSchema,
     position: CommentPositionSchema,
     links: z.array(CommentLinkSchema).max(MAX_COMMENT_LINKS),
     pinned: z.boolean().optional(),
     tags: z.array(z.string()).optional(),
     priority: z.enum(['low', 'medium', 'high']).optional(),
+    status: CommentStatusSchema.optional(),
+    resolvedBy: z.string().optional(),
+    resolvedAt: z.string().optional(),
     author: z.string().optional(),
+    mentions: z.array(z.string()).optional(),
+    replies: z.array(CommentReplySchema).optional(),
     createdAt: z.string().optional(),
     updatedAt: z.string().optional(),
   })
@@ -41,6 +61,7 @@ export type CommentNode = z.infer<typeof CommentNodeSchema>;
 export type CommentNodeType = 'feature' | 'cluster';
 export type CommentHomeView = z.infer<typeof CommentHomeViewSchema>;
 export type CommentLink = z.infer<typeof CommentLinkSchema>;
+export type CommentStatus = z.infer<typeof CommentStatusSchema>;
 export type CommentNodeWithHomeView = CommentNode & { homeView: CommentHomeView };
 
 export function loadComments(featuremapDir: string): CommentNodeWithHomeView[] {
@@ -85,6 +106,11 @@ export function filterCommentsForNode(
     .sort((a, b) => a.id.localeCompare(b.id));
 }
 
+/** Comments without a status are open threads. */
+export function getCommentStatus(comment: CommentNode): CommentStatus {
+  return comment.status ?? 'open';
+}
+
 function ensureHomeView(comment: CommentNode): CommentNodeWithHomeView {
   return {
     ...comment,
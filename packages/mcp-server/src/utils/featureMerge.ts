@@ -34,7 +34,10 @@ export function mergeFeatureWithLocks(args: {
     locks?.scope && existing?.scope
       ? existing.scope
       : incoming.scope ?? deriveScopeFromClusters(clustersList, clusters);
-  const status = incoming.status ?? existing?.status ?? 'active';
+  const status =
+    locks?.status && existing?.status
+      ? existing.status
+      : incoming.status ?? existing?.status ?? 'active';
   const reasoning = incoming.reasoning !== undefined ? incoming.reasoning : existing?.reasoning;
 
   const compositionHash = computeFeatureCompositionHash(clustersList, clusters, warnings);
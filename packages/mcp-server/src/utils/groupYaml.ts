@@ -13,6 +13,7 @@ import { GroupSchema, type GroupFile, type GroupLocks, type GroupMetadata } from
 import { normalizeStringList } from './listUtils.js';
 
 const GROUPS_DIR = 'groups';
+const GROUP_INDEX_FILE = 'index.yaml';
 
 export function getGroupsDir(featuremapDir: string): string {
   return join(featuremapDir, GROUPS_DIR);
@@ -48,7 +49,9 @@ export function loadGroups(featuremapDir: string): Map<string, GroupFile> {
     return groups;
   }
 
-  const files = readdirSync(groupsDir).filter((file) => file.endsWith('.yaml'));
+  const files = readdirSync(groupsDir).filter(
+    (file) => file.endsWith('.yaml') && file !== GROUP_INDEX_FILE
+  );
   for (const file of files) {
     const group = readGroupYaml(join(groupsDir, file));
     if (group) {
@@ -1,6 +1,7 @@
 import { existsSync, readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
 import { parse } from 'yaml';
+import { LAYER_NAME_PATTERN } from '@featuremap/cli/dist/api.js';
 import type { FeatureFile } from '../types/feature.js';
 import type { GroupFile } from '../types/group.js';
 import { loadFeatures as loadFeatureFiles } from './featureLoader.js';
@@ -25,7 +26,9 @@ export type DerivedLayer =
   | 'shared'
   | 'infrastructure'
   | 'fullstack'
-  | 'smell';
+  | 'smell'
+  // Custom layers from config.yaml `layers`.
+  | (string & {});
 
 const LAYER_ORDER: DerivedLayer[] = [
   'frontend',
@@ -153,7 +156,7 @@ function normalizeLayerValue(layer?: string | null): DerivedLayer | null {
   if (normalized === 'fullstack' || normalized === 'full-stack') return 'fullstack';
   if (normalized === 'smell') return 'smell';
   if (normalized === 'infrastructure' || normalized === 'infra') return 'infrastructure';
-  return null;
+  return LAYER_NAME_PATTERN.test(normalized) ? normalized : null;
 }
 
 function deriveLayersFromScope(scope?: string | null): DerivedLayer[] {
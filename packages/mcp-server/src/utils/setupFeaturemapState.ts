@@ -23,7 +23,9 @@ function countYamlFiles(dirPath: string): number {
   }
 
   try {
-    return fs.readdirSync(dirPath).filter((file) => file.endsWith('.yaml')).length;
+    return fs
+      .readdirSync(dirPath)
+      .filter((file) => file.endsWith('.yaml') && file !== 'index.yaml').length;
   } catch {
     return 0;
   }
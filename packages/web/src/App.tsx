@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useMemo, useState, type MouseEvent } from 'react';
 import type { Edge, Node, ReactFlowInstance } from '@xyflow/react';
+import { CreateGroupDialog } from '@/components/CreateGroupDialog';
 import { FeatureMap } from '@/components/FeatureMap';
 import { Sidebar } from '@/components/Sidebar';
 import { LeftToolbar } from '@/components/LeftToolbar';
@@ -10,34 +11,69 @@ import { COMMENT_EDGE_TYPE, COMMENT_NODE_PREFIX, isCommentNodeId } from '@/lib/c
 import { EdgeDetailsPanel } from '@/components/EdgeDetailsPanel';
 import { applyGroupFilter } from '@/lib/groupFilters';
 import { buildGroupMembership, buildPrimaryGroupMembership } from '@/lib/groupMembership';
-import { applyLayerFilter } from '@/lib/layerFilters';
+import { applyLayerFilter, getLayerOrder } from '@/lib/layerFilters';
 import { getLayoutedPositions } from '@/lib/graphLayout';
 import { useCommentsTool } from '@/lib/useCommentsTool';
 import { useFeatureMapData } from '@/lib/useFeatureMapData';
 import { useGroupLayoutActions } from '@/lib/useGroupLayoutActions';
 import { useGroupSelection } from '@/lib/useGroupSelection';
 import { useSearchNavigation } from '@/lib/useSearchNavigation';
-import type { EdgeStyle, LayerFilter, ViewMode } from '@/lib/types';
+import { useMapUrlState } from '@/lib/useMapUrlState';
+import { useViewLayout } from '@/lib/useViewLayout';
+import { useSnapshotCompare } from '@/lib/useSnapshotCompare';
+import { buildDiffEdgeIds, compareWithSnapshot } from '@/lib/snapshotCompare';
+import { useFileScope } from '@/lib/useFileScope';
+import { useGroupEditing } from '@/lib/useGroupEditing';
+import type { EdgeStyle, GraphData, Group, LayerFilter, ViewMode } from '@/lib/types';
 import { buildEdgeId } from '@/lib/featureMapElements';
+import { buildCycleEdgeIds } from '@/lib/cycleEdges';
+import { buildNodeHeat, buildTemporalEdges, type HeatKey } from '@/lib/hotspotOverlay';
+import { buildNodeMetrics, type MetricKey, type MetricOverlayMode } from '@/lib/metricOverlay';
+import { ALL_OWNERS, applyOwnerFilter, buildPrimaryOwners, listOwners, type OwnerFilter } from '@/lib/ownerOverlay';
 function App() {
-  const { data, loading, error, loadData, updateLayoutPositions, updateGroupNote } =
+  const { data, loading, error, loadData, updateLayoutPositions, updateViewPositions, updateGroupNote } =
     useFeatureMapData();
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
   const [selectedCommentId, setSelectedCommentId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('clusters');
   const [selectedLayer, setSelectedLayer] = useState<LayerFilter>('all');
+  const [selectedOwner, setSelectedOwner] = useState<OwnerFilter>(ALL_OWNERS);
+  const [colorByOwner, setColorByOwner] = useState(false);
+  const [heat, setHeat] = useState<HeatKey>('none');
+  const [showTemporalCoupling, setShowTemporalCoupling] = useState(false);
   const [selectedGroupId, setSelectedGroupId] = useState<string>('all');
   const [showComments, setShowComments] = useState(true);
+  const [hideResolvedComments, setHideResolvedComments] = useState(false);
+  const [metric, setMetric] = useState<MetricKey>('none');
+  const [metricMode, setMetricMode] = useState<MetricOverlayMode>('color');
   const [edgeStyle, setEdgeStyle] = useState<EdgeStyle>('bezier');
   const [collapsedGroupIds, setCollapsedGroupIds] = useState<Set<string>>(new Set());
   const [readOnly, setReadOnly] = useState(false);
+  const [createGroupOpen, setCreateGroupOpen] = useState(false);
   const [reactFlowInstance, setReactFlowInstance] = useState<ReactFlowInstance | null>(null);
-  const [focusedFilePath, setFocusedFilePath] = useState<string | null>(null);
-  const activeGraph = data ? (viewMode === 'clusters' ? data.clusterGraph : data.featureGraph) : null;
-  const layoutPositions = data?.layout?.positions ?? {};
-  const primaryGroupMembership = useMemo(() => (data ? buildPrimaryGroupMembership(data.groups, data.entities, viewMode) : { membership: new Map<string, string[]>(), multiGroupNodeIds: [] }), [data, viewMode]);
-  const fullGroupMembership = useMemo(() => (data ? buildGroupMembership(data.groups, data.entities, viewMode) : new Map<string, string[]>()), [data, viewMode]);
+  const { snapshots, compareSnapshotId, compareSnapshot, compareError, setCompareSnapshotId, loadSnapshots } = useSnapshotCompare();
+  const { fileScope, fileGraph, focusedFilePath, setFocusedFilePath, sidebarNodeId, filesMessage, canShowFiles, scopeTo, focusFile } =
+    useFileScope({ data, viewMode, selectedNodeId });
+  const currentGraph = useMemo<GraphData | null>(() => {
+    if (!data) return null;
+    if (viewMode === 'files') return fileGraph?.graph ?? { ...data.clusterGraph, nodes: [], edges: [] };
+    return viewMode === 'clusters' ? data.clusterGraph : data.featureGraph;
+  }, [data, fileGraph, viewMode]);
+  const snapshotComparison = useMemo(
+    () => (currentGraph && compareSnapshot && viewMode !== 'files' ? compareWithSnapshot(currentGraph, compareSnapshot, viewMode) : null),
+    [compareSnapshot, currentGraph, viewMode]
+  );
+  const activeGraph = snapshotComparison?.graph ?? currentGraph;
+  const { activeView, selectView, layoutPositions, handleLayoutPositionsChange, viewSwitcher } = useViewLayout({
+    data, reactFlowInstance, viewMode, selectedLayer, selectedGroupId, selectedOwner, collapsedGroupIds, edgeStyle,
+    onViewModeChange: setViewMode, onSelectedLayerChange: setSelectedLayer, onSelectedGroupChange: setSelectedGroupId,
+    onSelectedOwnerChange: setSelectedOwner, onCollapsedGroupIdsChange: setCollapsedGroupIds, onEdgeStyleChange: setEdgeStyle,
+    onReload: loadData, onLayoutPositionsChange: updateLayoutPositions, onViewPositionsChange: updateViewPositions,
+  });
+  const groupsEnabled = viewMode !== 'files';
+  const primaryGroupMembership = useMemo(() => (data && groupsEnabled ? buildPrimaryGroupMembership(data.groups, data.entities, viewMode) : { membership: new Map<string, string[]>(), multiGroupNodeIds: [] }), [data, groupsEnabled, viewMode]);
+  const fullGroupMembership = useMemo(() => (data && groupsEnabled ? buildGroupMembership(data.groups, data.entities, viewMode) : new Map<string, string[]>()), [data, groupsEnabled, viewMode]);
   const hiddenNodeIds = useMemo(() => {
     if (!data || collapsedGroupIds.size === 0) {
       return new Set<string>();
@@ -51,10 +87,12 @@ function App() {
   }, [collapsedGroupIds, data, fullGroupMembership]);
   const visibleGraph = useMemo(() => {
     if (!activeGraph || !data) return null;
+    if (viewMode === 'files') return activeGraph;
     const layerFiltered = applyLayerFilter(activeGraph.nodes, activeGraph.edges, selectedLayer);
+    const ownerFiltered = applyOwnerFilter(layerFiltered.nodes, layerFiltered.edges, data.context.ownership.data, viewMode, selectedOwner);
     const groupFiltered = applyGroupFilter(
-      layerFiltered.nodes,
-      layerFiltered.edges,
+      ownerFiltered.nodes,
+      ownerFiltered.edges,
       viewMode,
       selectedGroupId,
       data.groupsById,
@@ -62,17 +100,19 @@ function App() {
       primaryGroupMembership.membership
     );
     return { ...activeGraph, nodes: groupFiltered.nodes, edges: groupFiltered.edges };
-  }, [activeGraph, data?.entities, data?.groupsById, primaryGroupMembership.membership, selectedGroupId, selectedLayer, viewMode]);
+  }, [activeGraph, data?.context.ownership.data, data?.entities, data?.groupsById, primaryGroupMembership.membership, selectedGroupId, selectedLayer, selectedOwner, viewMode]);
   const visibleNodeIds = useMemo(() => {
     if (!visibleGraph) return new Set<string>();
     return new Set(visibleGraph.nodes.filter((node) => !hiddenNodeIds.has(node.id)).map((node) => node.id));
   }, [hiddenNodeIds, visibleGraph]);
   const { clearGroupSelection, selectGroup, selectedGroupDetails, selectedGroupDetailsId, selectedGroupMembers, groupMembership, multiGroupNodeIds } = useGroupSelection({ data, viewMode, selectedGroupId, visibleNodeIds, groupMembership: primaryGroupMembership.membership, multiGroupNodeIds: primaryGroupMembership.multiGroupNodeIds });
   const { layoutMessage, packGroups, handleGroupDragStop, saveLayoutPositions } = useGroupLayoutActions({
-    reactFlowInstance, groups: data?.groups ?? [], groupMembership, selectedGroupId, multiGroupNodeIds, onLayoutPositionsChange: updateLayoutPositions,
+    reactFlowInstance, groups: data?.groups ?? [], groupMembership, selectedGroupId, multiGroupNodeIds, activeViewId: activeView?.id ?? null, onLayoutPositionsChange: handleLayoutPositionsChange,
   });
+  const reloadData = useCallback(() => { void loadData({ showLoading: false }); }, [loadData]);
+  const { groupMessage, handleNodeDropOnGroup } = useGroupEditing({ data, groupMembership, onGroupsChanged: reloadData });
   const handleAutoLayout = useCallback(async () => {
-    if (!reactFlowInstance) return;
+    if (!reactFlowInstance || viewMode === 'files') return;
     const graphNodes = reactFlowInstance.getNodes().filter((node) => node.type === 'feature' || node.type === 'cluster');
     if (graphNodes.length === 0) {
       await saveLayoutPositions({}, { emptyText: 'No visible nodes to layout.' });
@@ -82,7 +122,7 @@ function App() {
     const graphEdges = reactFlowInstance.getEdges().filter((edge) => graphNodeIds.has(edge.source) && graphNodeIds.has(edge.target));
     const positions = getLayoutedPositions(graphNodes, graphEdges, 'TB');
     await saveLayoutPositions(positions, { allowUnsaved: true, successText: 'Auto layout saved.' });
-  }, [reactFlowInstance, saveLayoutPositions]);
+  }, [reactFlowInstance, saveLayoutPositions, viewMode]);
   const handleSelectedNodeChange = useCallback((nodeId: string | null) => {
     setSelectedNodeId(nodeId);
     if (!nodeId) return;
@@ -91,20 +131,25 @@ function App() {
     setSelectedCommentId(null);
   }, [clearGroupSelection]);
   const { commentElements, commentToolMode, placementActive, handleNodeClick: handleCommentNodeClick, handlePaneClick, handleConnect, handleEdgeRemove, handleNodeDragStop: handleCommentNodeDragStop, handleNodeRemove, togglePlacementMode } = useCommentsTool({
-    data, visibleGraph, currentView: viewMode, selectedCommentId, showComments, reactFlowInstance, readOnly,
+    data, visibleGraph, currentView: viewMode === 'features' ? 'features' : 'clusters', selectedCommentId, showComments: showComments && viewMode !== 'files', hideResolved: hideResolvedComments, reactFlowInstance, readOnly: readOnly || viewMode === 'files',
   });
   const handleNodeDragStop = useCallback((node: Node) => {
     if (isCommentNodeId(node.id)) {
       handleCommentNodeDragStop(node);
       return;
     }
+    if (viewMode === 'files') return;
     void saveLayoutPositions({ [node.id]: node.position }, { allowUnsaved: true });
-  }, [handleCommentNodeDragStop, saveLayoutPositions]);
+  }, [handleCommentNodeDragStop, saveLayoutPositions, viewMode]);
+  const handleShowFile = useCallback((filePath: string, clusterId: string) => {
+    focusFile(filePath, clusterId);
+    setSelectedCommentId(null); setSelectedEdgeId(null); clearGroupSelection(); setSelectedNodeId(filePath);
+  }, [clearGroupSelection, focusFile]);
   const { searchOpen, setSearchOpen, searchQuery, setSearchQuery, searchResults, searchWarning, focusedNodeId, focusedUntil, onSearchSelect } = useSearchNavigation({
     data, viewMode, selectedLayer, selectedGroupId, reactFlowInstance, visibleNodeIds,
     onViewModeChange: setViewMode, onSelectedLayerChange: setSelectedLayer,
     onSelectedGroupChange: setSelectedGroupId, onSelectedNodeChange: handleSelectedNodeChange,
-    onFocusedFilePathChange: setFocusedFilePath,
+    onFocusedFilePathChange: setFocusedFilePath, onShowFile: handleShowFile,
   });
   const { dependencyEdgeIds, dependentEdgeIds, dependencyNodeIds, dependentNodeIds } = useMemo(() => {
     const dependencyEdgeIds = new Set<string>();
@@ -128,12 +173,47 @@ function App() {
     });
     return { dependencyEdgeIds, dependentEdgeIds, dependencyNodeIds, dependentNodeIds };
   }, [hiddenNodeIds, selectedNodeId, visibleGraph]);
+  const { addedEdgeIds, removedEdgeIds } = useMemo(
+    () => buildDiffEdgeIds(visibleGraph?.edges ?? [], snapshotComparison?.edgeStatus),
+    [snapshotComparison, visibleGraph]
+  );
+  const compareMessage = useMemo(() => {
+    if (compareError) return compareError;
+    if (!snapshotComparison || !compareSnapshot) return null;
+    const statuses = [...snapshotComparison.nodeStatus.values()];
+    const added = statuses.filter((status) => status === 'added').length;
+    const removed = statuses.length - added;
+    return `Compared with snapshot from ${new Date(compareSnapshot.createdAt).toLocaleString()}: ${added} added, ${removed} removed ${viewMode}.`;
+  }, [compareError, compareSnapshot, snapshotComparison, viewMode]);
+  const cycleEdgeIds = useMemo(
+    () => (visibleGraph ? buildCycleEdgeIds(visibleGraph.edges, data?.context.cycles.data, viewMode) : new Set<string>()),
+    [data?.context.cycles.data, viewMode, visibleGraph]
+  );
+  const metricOverlay = useMemo(
+    () => (metric === 'none' ? undefined : { metric, mode: metricMode, values: buildNodeMetrics(data?.context.metrics.data, viewMode, metric) }),
+    [data?.context.metrics.data, metric, metricMode, viewMode]
+  );
+  const heatOverlay = useMemo(
+    () => (heat === 'none' ? undefined : { heat, values: buildNodeHeat(data?.context.hotspots.data, viewMode, heat) }),
+    [data?.context.hotspots.data, heat, viewMode]
+  );
+  const temporalEdges = useMemo(
+    () => (showTemporalCoupling ? buildTemporalEdges(data?.context.hotspots.data, viewMode, visibleNodeIds) : undefined),
+    [data?.context.hotspots.data, showTemporalCoupling, viewMode, visibleNodeIds]
+  );
+  const layers = useMemo(() => getLayerOrder(data?.clusterGraph.nodes), [data?.clusterGraph]);
+  const owners = useMemo(() => listOwners(data?.context.ownership.data, viewMode), [data?.context.ownership.data, viewMode]);
+  const primaryOwners = useMemo(
+    () => (colorByOwner ? buildPrimaryOwners(data?.context.ownership.data, viewMode) : undefined),
+    [colorByOwner, data?.context.ownership.data, viewMode]
+  );
   const selectedNodeDependencies = useMemo(() => {
-    if (!selectedNodeId || !visibleGraph) return [];
-    return visibleGraph.edges
-      .filter((edge) => edge.source === selectedNodeId)
+    if (!sidebarNodeId || !visibleGraph || !data) return [];
+    const graph = viewMode === 'files' ? data.clusterGraph : visibleGraph;
+    return graph.edges
+      .filter((edge) => edge.source === sidebarNodeId)
       .map((edge) => edge.target);
-  }, [selectedNodeId, visibleGraph]);
+  }, [data, sidebarNodeId, viewMode, visibleGraph]);
   const selectedEdge = useMemo(() => {
     if (!selectedEdgeId || !visibleGraph) return null;
     return (
@@ -149,6 +229,21 @@ function App() {
     if (!selectedEdge || !data) return '';
     return data.entities[selectedEdge.target]?.label ?? selectedEdge.target;
   }, [data, selectedEdge]);
+  const selectedEdgeRef = useMemo(
+    () => (selectedEdge ? { source: selectedEdge.source, target: selectedEdge.target } : null),
+    [selectedEdge]
+  );
+  const { initialViewport, handleMoveEnd } = useMapUrlState({
+    data, reactFlowInstance, visibleGraph, activeView,
+    selection: {
+      viewMode, scopeId: fileScope?.id ?? null, nodeId: selectedNodeId, edge: selectedEdgeRef, groupDetailsId: selectedGroupDetailsId,
+      commentId: selectedCommentId, layer: selectedLayer, groupFilter: selectedGroupId, searchQuery: searchOpen ? searchQuery : null,
+    },
+    onSelectView: selectView, onScopeChange: scopeTo, onViewModeChange: setViewMode, onSelectedLayerChange: setSelectedLayer,
+    onSelectedGroupChange: setSelectedGroupId, onFocusedFilePathChange: setFocusedFilePath, onSelectedNodeChange: setSelectedNodeId,
+    onSelectedEdgeChange: setSelectedEdgeId, onSelectedCommentChange: setSelectedCommentId, onGroupSelect: selectGroup,
+    onGroupSelectionClear: clearGroupSelection, onSearchQueryChange: setSearchQuery, onSearchOpenChange: setSearchOpen,
+  });
   useEffect(() => {
     if (!selectedNodeId || !visibleGraph) return;
     const exists = visibleGraph.nodes.some((node) => node.id === selectedNodeId);
@@ -181,7 +276,7 @@ function App() {
       setSelectedCommentId(nodeId.slice(COMMENT_NODE_PREFIX.length));
       return;
     }
-    setFocusedFilePath(null); setSelectedCommentId(null); setSelectedEdgeId(null); clearGroupSelection(); setSelectedNodeId(nodeId);
+    setFocusedFilePath(fileGraph?.clusterIdByFile.has(nodeId) ? nodeId : null); setSelectedCommentId(null); setSelectedEdgeId(null); clearGroupSelection(); setSelectedNodeId(nodeId);
   };
   const handleEdgeClick = useCallback((event: MouseEvent, edge: Edge) => {
     if (edge.type === COMMENT_EDGE_TYPE || edge.id.startsWith('comment-link:')) return;
@@ -191,6 +286,10 @@ function App() {
   const handleGroupSelect = (groupId: string) => {
     setFocusedFilePath(null); setSelectedCommentId(null); setSelectedNodeId(null); setSelectedEdgeId(null); selectGroup(groupId);
   };
+  const handleGroupCreated = async (group: Group) => {
+    await loadData({ showLoading: false });
+    handleGroupSelect(group.id);
+  };
   const handleGroupCollapseToggle = useCallback((groupId: string) => {
     setCollapsedGroupIds((current) => {
       const next = new Set(current);
@@ -208,8 +307,7 @@ function App() {
   );
   const handleDependencyClick = (nodeId: string) => {
     if (!data?.entities[nodeId]) return;
-    const graph = viewMode === 'clusters' ? data.clusterGraph : data.featureGraph;
-    if (!graph.nodes.some((node) => node.id === nodeId) && viewMode === 'features') {
+    if (viewMode === 'files' || (viewMode === 'features' && !data.featureGraph.nodes.some((node) => node.id === nodeId))) {
       setViewMode('clusters');
     }
     setFocusedFilePath(null); setSelectedCommentId(null); setSelectedEdgeId(null); clearGroupSelection(); setSelectedNodeId(nodeId);
@@ -222,12 +320,25 @@ function App() {
     if (!selectedEdge) return;
     handleDependencyClick(selectedEdge.target);
   }, [handleDependencyClick, selectedEdge]);
+  const handleViewModeChange = (mode: ViewMode) => {
+    if (mode === 'files' && scopeTo(selectedNodeId)) setSelectedNodeId(null);
+    setViewMode(mode);
+  };
+  const handleShowFiles = (nodeId: string) => {
+    if (!scopeTo(nodeId)) return;
+    setSelectedNodeId(null); setSelectedEdgeId(null); clearGroupSelection();
+    setViewMode('files');
+  };
   const handleCloseSidebar = () => {
     setFocusedFilePath(null); setSelectedNodeId(null); setSelectedEdgeId(null); clearGroupSelection();
   };
   const handleMapPaneClick = useCallback((event: MouseEvent) => {
     setSelectedNodeId(null); setSelectedEdgeId(null); clearGroupSelection(); setSelectedCommentId(null); handlePaneClick(event);
   }, [clearGroupSelection, handlePaneClick]);
+  const handleRefresh = useCallback(() => {
+    void loadData();
+    void loadSnapshots();
+  }, [loadData, loadSnapshots]);
   const handleToggleReadOnly = useCallback(() => {
     setReadOnly((current) => !current);
   }, []);
@@ -238,7 +349,8 @@ function App() {
     return <ErrorScreen message={error} onRetry={loadData} />;
   }
   if (!data || !activeGraph || !visibleGraph) return null;
-  const selectedNode = selectedGroupDetailsId ? null : selectedNodeId ? data.entities[selectedNodeId] : null;
+  const selectedNode = selectedGroupDetailsId ? null : sidebarNodeId ? data.entities[sidebarNodeId] : null;
+  const selectedFeature = selectedNode?.kind === 'feature' ? { id: selectedNode.data.id, label: selectedNode.label } : null;
   const clusterCount = data.clusterGraph.nodes.length;
   const featureCount = data.featureGraph.nodes.length;
   const fileCount = Object.values(data.entities).reduce(
@@ -259,11 +371,12 @@ function App() {
   return (
     <div className="h-screen flex flex-col bg-background">
       <SearchPalette open={searchOpen} query={searchQuery} results={searchResults} warning={searchWarning} onOpenChange={setSearchOpen} onQueryChange={setSearchQuery} onSelectResult={onSearchSelect} />
-      <MapHeader viewMode={viewMode} selectedLayer={selectedLayer} selectedGroupId={selectedGroupId} groups={data.groups} missingGroupFeatures={missingGroupFeatures} hasGroups={hasGroups} context={data.context} showComments={showComments} layoutMessage={layoutMessage} onPackGroups={packGroups} onViewModeChange={setViewMode} onLayerChange={setSelectedLayer} onGroupChange={setSelectedGroupId} onToggleComments={() => setShowComments((current) => !current)} onAutoLayout={handleAutoLayout} onRefresh={loadData} />
+      <CreateGroupDialog open={createGroupOpen} initialFeature={selectedFeature} onOpenChange={setCreateGroupOpen} onCreated={handleGroupCreated} />
+      <MapHeader viewMode={viewMode} savedViews={viewSwitcher} selectedLayer={selectedLayer} layers={layers} selectedOwner={selectedOwner} owners={owners} ownershipAvailable={data.context.ownership.status === 'present'} colorByOwner={colorByOwner} heat={heat} hotspotsAvailable={data.context.hotspots.status === 'present'} showTemporalCoupling={showTemporalCoupling} selectedGroupId={selectedGroupId} groups={data.groups} snapshots={snapshots} compareSnapshotId={compareSnapshotId} compareMessage={compareMessage} filesMessage={filesMessage} missingGroupFeatures={missingGroupFeatures} hasGroups={hasGroups} context={data.context} showComments={showComments} hideResolvedComments={hideResolvedComments} metric={metric} metricMode={metricMode} metricsAvailable={data.context.metrics.status === 'present'} layoutMessage={layoutMessage} groupMessage={groupMessage} onPackGroups={packGroups} onCreateGroup={() => setCreateGroupOpen(true)} onViewModeChange={handleViewModeChange} onLayerChange={setSelectedLayer} onOwnerChange={setSelectedOwner} onToggleColorByOwner={() => setColorByOwner((current) => !current)} onHeatChange={setHeat} onToggleTemporalCoupling={() => setShowTemporalCoupling((current) => !current)} onGroupChange={setSelectedGroupId} onCompareSnapshotChange={setCompareSnapshotId} onToggleComments={() => setShowComments((current) => !current)} onToggleHideResolvedComments={() => setHideResolvedComments((current) => !current)} onMetricChange={setMetric} onMetricModeChange={setMetricMode} onAutoLayout={handleAutoLayout} onRefresh={handleRefresh} />
       <div className="flex-1 flex overflow-hidden">
         <main className="flex-1 relative">
           <LeftToolbar onSearchClick={() => setSearchOpen(true)} commentMode={commentToolMode} onToggleAddMode={togglePlacementMode} edgeStyle={edgeStyle} onEdgeStyleChange={setEdgeStyle} />
-          <FeatureMap graph={visibleGraph} entities={data.entities} viewMode={viewMode} layoutPositions={layoutPositions} groups={data.groups} groupMembership={groupMembership} selectedGroupId={selectedGroupId} selectedGroupDetailsId={selectedGroupDetailsId} onGroupSelect={handleGroupSelect} commentNodes={commentElements.nodes} commentEdges={commentElements.edges} onNodeClick={handleNodeClick} onPaneClick={handleMapPaneClick} onConnect={handleConnect} onEdgeClick={handleEdgeClick} onEdgeRemove={handleEdgeRemove} onNodeDragStop={handleNodeDragStop} onNodeRemove={handleNodeRemove} onGroupDragStop={handleGroupDragStop} commentPlacementActive={placementActive} onInit={setReactFlowInstance} selectedNodeId={selectedNodeId} selectedEdgeId={selectedEdgeId} dependencyEdgeIds={dependencyEdgeIds} dependentEdgeIds={dependentEdgeIds} dependencyNodeIds={dependencyNodeIds} dependentNodeIds={dependentNodeIds} hiddenNodeIds={hiddenNodeIds} focusedNodeId={focusedNodeId} focusedUntil={focusedUntil} readOnly={readOnly} onToggleReadOnly={handleToggleReadOnly} edgeStyle={edgeStyle} collapsedGroupIds={collapsedGroupIds} onGroupCollapseToggle={handleGroupCollapseToggle} />
+          <FeatureMap graph={visibleGraph} entities={data.entities} viewMode={viewMode} layoutPositions={layoutPositions} groups={groupsEnabled ? data.groups : []} groupMembership={groupMembership} selectedGroupId={selectedGroupId} selectedGroupDetailsId={selectedGroupDetailsId} onGroupSelect={handleGroupSelect} commentNodes={commentElements.nodes} commentEdges={commentElements.edges} temporalEdges={temporalEdges} onNodeClick={handleNodeClick} onPaneClick={handleMapPaneClick} onConnect={handleConnect} onEdgeClick={handleEdgeClick} onEdgeRemove={handleEdgeRemove} onNodeDragStop={handleNodeDragStop} onNodeDropOnGroup={groupsEnabled ? handleNodeDropOnGroup : undefined} onNodeRemove={handleNodeRemove} onGroupDragStop={handleGroupDragStop} commentPlacementActive={placementActive} onInit={setReactFlowInstance} defaultViewport={initialViewport} onMoveEnd={handleMoveEnd} selectedNodeId={selectedNodeId} selectedEdgeId={selectedEdgeId} dependencyEdgeIds={dependencyEdgeIds} dependentEdgeIds={dependentEdgeIds} cycleEdgeIds={cycleEdgeIds} addedEdgeIds={addedEdgeIds} removedEdgeIds={removedEdgeIds} nodeDiffStatus={snapshotComparison?.nodeStatus} metricOverlay={metricOverlay} heatOverlay={heatOverlay} primaryOwners={primaryOwners} dependencyNodeIds={dependencyNodeIds} dependentNodeIds={dependentNodeIds} hiddenNodeIds={hiddenNodeIds} focusedNodeId={focusedNodeId} focusedUntil={focusedUntil} readOnly={readOnly} onToggleReadOnly={handleToggleReadOnly} edgeStyle={edgeStyle} collapsedGroupIds={collapsedGroupIds} onGroupCollapseToggle={handleGroupCollapseToggle} />
         </main>
         {selectedEdge ? (
           <EdgeDetailsPanel
@@ -271,12 +384,13 @@ function App() {
             sourceLabel={selectedEdgeSourceLabel}
             targetLabel={selectedEdgeTargetLabel}
             imports={selectedEdge.imports}
+            importKinds={selectedEdge.importKinds}
             onClose={() => setSelectedEdgeId(null)}
             onViewSource={handleViewEdgeSource}
             onViewTarget={handleViewEdgeTarget}
           />
         ) : (
-          <Sidebar node={selectedNode} group={selectedGroupDetails} groupMembers={selectedGroupMembers} viewMode={viewMode} onClose={handleCloseSidebar} onGroupUpdated={handleGroupUpdated} onDependencyClick={handleDependencyClick} groups={data.groups} focusedFilePath={focusedFilePath} stats={projectStats} statistics={data.context.statistics} techStack={data.context.techStack} conventions={data.context.conventions} structure={data.context.structure} testing={data.context.testing} runCommands={data.context.runCommands} internalDependencies={selectedNodeDependencies} entities={data.entities} />
+          <Sidebar node={selectedNode} group={selectedGroupDetails} groupMembers={selectedGroupMembers} viewMode={viewMode} onClose={handleCloseSidebar} onGroupUpdated={handleGroupUpdated} onGroupsChanged={reloadData} onFeatureUpdated={reloadData} onDependencyClick={handleDependencyClick} onShowFiles={canShowFiles && sidebarNodeId ? () => handleShowFiles(sidebarNodeId) : undefined} groups={data.groups} focusedFilePath={focusedFilePath} stats={projectStats} statistics={data.context.statistics} metrics={data.context.metrics} deadCode={data.context.deadCode} ownership={data.context.ownership} hotspots={data.context.hotspots} testCoverage={data.context.testCoverage} techStack={data.context.techStack} conventions={data.context.conventions} structure={data.context.structure} testing={data.context.testing} runCommands={data.context.runCommands} internalDependencies={selectedNodeDependencies} entities={data.entities} />
         )}
       </div>
     </div>
@@ -1,10 +1,19 @@
-import { memo, useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import { memo, useEffect, useRef, useState, type FormEvent, type KeyboardEvent, type ReactNode } from 'react';
 import { Handle, Position, type Node, type NodeProps } from '@xyflow/react';
 import { Pin, PinOff } from 'lucide-react';
-import type { CommentNodeData } from '@/lib/commentTypes';
+import type { CommentNodeData, CommentStatus } from '@/lib/commentTypes';
 
 export type CommentFlowNode = Node<CommentNodeData, 'comment'>;
 
+const AUTHOR_STORAGE_KEY = 'featuremap-comment-author';
+// Same rule as the server: an @ that does not follow a word character.
+const MENTION_REGEX = /(?<![\w@.])(@[A-Za-z0-9](?:[\w.-]*[A-Za-z0-9])?)/g;
+
+const STATUS_BADGES: Record<Exclude<CommentStatus, 'open'>, { label: string; className: string }> = {
+  resolved: { label: 'Resolved', className: 'border border-[var(--success)] text-[var(--success)]' },
+  wontfix: { label: "Won't fix", className: 'bg-muted text-muted-foreground' },
+};
+
 function CommentNodeComponent({ data, selected }: NodeProps<CommentFlowNode>) {
   const {
     content,
@@ -18,10 +27,19 @@ function CommentNodeComponent({ data, selected }: NodeProps<CommentFlowNode>) {
     onCommitEdit,
     onCancelEdit,
     onTogglePin,
+    threadStatus,
+    resolvedBy,
+    author,
+    replies,
+    onReply,
+    onSetStatus,
   } = data;
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
   const skipCommitRef = useRef(false);
   const [draftValue, setDraftValue] = useState(content);
+  const [replyValue, setReplyValue] = useState('');
+  const [replyAuthor, setReplyAuthor] = useState(readStoredAuthor);
+  const statusBadge = threadStatus === 'open' ? null : STATUS_BADGES[threadStatus];
 
   const displayContent = isEditing ? draftValue : content;
 
@@ -50,11 +68,27 @@ function CommentNodeComponent({ data, selected }: NodeProps<CommentFlowNode>) {
     }
   };
 
+  const submitReply = () => {
+    if (!replyValue.trim()) {
+      return;
+    }
+    storeAuthor(replyAuthor);
+    onReply?.(replyValue.trim(), replyAuthor.trim() || undefined);
+    setReplyValue('');
+  };
+
+  const handleSetStatus = (status: CommentStatus) => {
+    storeAuthor(replyAuthor);
+    onSetStatus?.(status, replyAuthor.trim() || undefined);
+  };
+
   return (
     <div
       className={`rounded-lg border-2 bg-card shadow-sm px-4 py-3 min-w-[200px] max-w-[260px] ${
         isDraft ? 'border-dashed border-border' : 'border-border'
-      } ${selected ? 'border-primary ring-2 ring-primary/30 shadow-md' : ''}`}
+      } ${selected ? 'border-primary ring-2 ring-primary/30 shadow-md' : ''} ${
+        statusBadge && !selected ? 'opacity-70' : ''
+      }`}
       onDoubleClick={() => onStartEdit?.()}
     >
       <div className="flex items-center justify-between">
@@ -83,6 +117,14 @@ function CommentNodeComponent({ data, selected }: NodeProps<CommentFlowNode>) {
               Draft
             </span>
           )}
+          {statusBadge && (
+            <span
+              className={`text-[9px] px-1.5 py-0.5 rounded ${statusBadge.className}`}
+              title={resolvedBy ? `By ${resolvedBy}` : undefined}
+            >
+              {statusBadge.label}
+            </span>
+          )}
         </div>
       </div>
 
@@ -109,10 +151,84 @@ function CommentNodeComponent({ data, selected }: NodeProps<CommentFlowNode>) {
               displayContent.trim().length === 0 ? 'text-muted-foreground italic' : 'text-foreground'
             }`}
           >
-            {displayContent.trim().length === 0 ? 'Double-click to edit' : displayContent}
+            {displayContent.trim().length === 0 ? 'Double-click to edit' : renderMentions(displayContent)}
           </div>
         )}
       </div>
+      {author && !isEditing && <div className="mt-1 text-[10px] text-muted-foreground">{author}</div>}
+
+      {!selected && replies.length > 0 && (
+        <div className="mt-2 text-[10px] text-muted-foreground">
+          {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+        </div>
+      )}
+
+      {selected && (replies.length > 0 || onReply || onSetStatus) && (
+        <div
+          className="nodrag nopan mt-2 space-y-2 border-t border-border pt-2"
+          onDoubleClick={(event) => event.stopPropagation()}
+          onMouseDown={(event) => event.stopPropagation()}
+        >
+          {replies.map((reply) => (
+            <div key={reply.id} className="text-xs">
+              {reply.author && <span className="font-semibold text-foreground">{reply.author}: </span>}
+              <span className="whitespace-pre-wrap text-foreground">{renderMentions(reply.content)}</span>
+            </div>
+          ))}
+          {onReply && (
+            <form
+              className="space-y-1"
+              onSubmit={(event: FormEvent) => {
+                event.preventDefault();
+                submitReply();
+              }}
+            >
+              <textarea
+                className="w-full min-h-[40px] resize-none rounded border border-border bg-muted/70 px-2 py-1 text-xs text-foreground focus:outline-none"
+                value={replyValue}
+                onChange={(event) => setReplyValue(event.target.value)}
+                onKeyDown={(event) => {
+                  if ((event.metaKey || event.ctrlKey) && event.key === 'Enter') {
+                    submitReply();
+                  }
+                }}
+                placeholder="Reply, @mention someone"
+              />
+              <input
+                className="w-full rounded border border-border bg-muted/70 px-2 py-1 text-xs text-foreground focus:outline-none"
+                value={replyAuthor}
+                onChange={(event) => setReplyAuthor(event.target.value)}
+                placeholder="Your name (optional)"
+              />
+              <button
+                type="submit"
+                className="text-[10px] font-semibold text-primary hover:text-primary/80 disabled:text-muted-foreground"
+                disabled={!replyValue.trim()}
+              >
+                Reply
+              </button>
+            </form>
+          )}
+          {onSetStatus && (
+            <div className="flex gap-3 text-[10px] font-semibold">
+              {threadStatus === 'open' ? (
+                <>
+                  <button type="button" className="text-[var(--success)] hover:opacity-80" onClick={() => handleSetStatus('resolved')}>
+                    Resolve
+                  </button>
+                  <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => handleSetStatus('wontfix')}>
+                    Won't fix
+                  </button>
+                </>
+              ) : (
+                <button type="button" className="text-primary hover:text-primary/80" onClick={() => handleSetStatus('open')}>
+                  Reopen
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
 
       {showOrphanWarning && (
         <div className="mt-2 text-[10px] text-[var(--warning)]">
@@ -129,4 +245,36 @@ function CommentNodeComponent({ data, selected }: NodeProps<CommentFlowNode>) {
   );
 }
 
+function renderMentions(text: string): ReactNode[] {
+  return text.split(MENTION_REGEX).map((part, index) =>
+    index % 2 === 1 ? (
+      <span key={index} className="font-semibold text-primary">
+        {part}
+      </span>
+    ) : (
+      part
+    )
+  );
+}
+
+function readStoredAuthor(): string {
+  try {
+    return localStorage.getItem(AUTHOR_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+function storeAuthor(author: string): void {
+  try {
+    if (author.trim()) {
+      localStorage.setItem(AUTHOR_STORAGE_KEY, author.trim());
+    } else {
+      localStorage.removeItem(AUTHOR_STORAGE_KEY);
+    }
+  } catch {
+    // storage unavailable
+  }
+}
+
 export const CommentNode = memo(CommentNodeComponent);
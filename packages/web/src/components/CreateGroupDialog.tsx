@@ -0,0 +1,109 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatGroupError } from '@/lib/groupErrors';
+import type { Group } from '@/lib/types';
+import { useGroupApi } from '@/lib/useGroupApi';
+
+interface CreateGroupDialogProps {
+  open: boolean;
+  initialFeature?: { id: string; label: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (group: Group) => void;
+}
+
+export function CreateGroupDialog({
+  open,
+  initialFeature,
+  onOpenChange,
+  onCreated,
+}: CreateGroupDialogProps) {
+  const { createGroup } = useGroupApi();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [includeFeature, setIncludeFeature] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setDescription('');
+      setIncludeFeature(true);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      setError('Group name is required.');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const group = await createGroup({
+        name: name.trim(),
+        ...(description.trim() ? { description: description.trim() } : {}),
+        featureIds: initialFeature && includeFeature ? [initialFeature.id] : [],
+      });
+      onCreated(group);
+      onOpenChange(false);
+    } catch (createError) {
+      setError(formatGroupError(createError, 'create groups'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogTitle>New group</DialogTitle>
+        <DialogDescription>
+          Groups collect related features. Drag feature nodes onto a group to add them.
+        </DialogDescription>
+        <form className="space-y-3" onSubmit={handleSubmit}>
+          <input
+            autoFocus
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Group name"
+            className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <textarea
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            placeholder="Description (optional)"
+            className="w-full min-h-[80px] rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          {initialFeature && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={includeFeature}
+                onChange={(event) => setIncludeFeature(event.target.checked)}
+              />
+              Add {initialFeature.label}
+            </label>
+          )}
+          {error && <div className="text-xs text-destructive">{error}</div>}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={saving}>
+              {saving ? 'Creating...' : 'Create'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
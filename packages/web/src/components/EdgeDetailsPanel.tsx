@@ -2,7 +2,8 @@ import { ArrowRight, ChevronDown, ChevronRight, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ResizableSidebar } from '@/components/ResizableSidebar';
-import type { EdgeImportDetail } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import type { EdgeImportDetail, ImportKind } from '@/lib/types';
 import { cn } from '@/lib/utils';
 import { usePersistentStringSet } from '@/components/usePersistentStringSet';
 
@@ -11,6 +12,7 @@ interface EdgeDetailsPanelProps {
   sourceLabel: string;
   targetLabel: string;
   imports?: EdgeImportDetail[];
+  importKinds?: ImportKind[];
   onClose: () => void;
   onViewSource?: () => void;
   onViewTarget?: () => void;
@@ -21,6 +23,7 @@ export function EdgeDetailsPanel({
   sourceLabel,
   targetLabel,
   imports = [],
+  importKinds = [],
   onClose,
   onViewSource,
   onViewTarget,
@@ -76,6 +79,15 @@ export function EdgeDetailsPanel({
             {targetLabel}
           </button>
         </div>
+        {importKinds.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {importKinds.map((kind) => (
+              <Badge key={kind} variant="outline" className="text-xs">
+                {IMPORT_KIND_LABELS[kind]}
+              </Badge>
+            ))}
+          </div>
+        )}
       </div>
 
       <ScrollArea className="flex-1">
@@ -92,7 +104,7 @@ export function EdgeDetailsPanel({
                 </h3>
                 <div className="space-y-2">
                   {imports.map((detail, index) => {
-                    const storageKey = `${detail.symbol}|${detail.targetFile ?? ''}`;
+                    const storageKey = `${detail.symbol}|${detail.targetFile ?? ''}${detail.kind ? `|${detail.kind}` : ''}`;
                     const key = `${storageKey}|${index}`;
                     const isExpanded = expandedImports.has(storageKey);
                     const ChevronIcon = isExpanded ? ChevronDown : ChevronRight;
@@ -109,6 +121,11 @@ export function EdgeDetailsPanel({
                           <span className="text-sm font-semibold text-primary">
                             {detail.symbol}
                           </span>
+                          {detail.kind && detail.kind !== 'static' && (
+                            <span className="text-xs text-muted-foreground">
+                              {IMPORT_KIND_LABELS[detail.kind]}
+                            </span>
+                          )}
                         </button>
                         {isExpanded && (
                           <div className="pl-6 space-y-2">
@@ -150,6 +167,13 @@ export function EdgeDetailsPanel({
   );
 }
 
+const IMPORT_KIND_LABELS: Record<ImportKind, string> = {
+  static: 'static',
+  reexport: 're-export',
+  dynamic: 'dynamic import',
+  require: 'require',
+};
+
 function formatFilePath(filePath: string): string {
   const normalized = filePath.replace(/\\/g, '/');
   const segments = normalized.split('/').filter(Boolean);
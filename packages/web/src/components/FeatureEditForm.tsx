@@ -0,0 +1,155 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { Lock, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { FeatureDetails } from '@/lib/types';
+import { FeatureApiError, useFeatureApi, type FeatureUpdateInput } from '@/lib/useFeatureApi';
+
+const STATUS_OPTIONS: FeatureDetails['status'][] = ['active', 'deprecated', 'ignored'];
+const SCOPE_OPTIONS: FeatureDetails['scope'][] = ['frontend', 'backend', 'fullstack', 'shared'];
+const INPUT_CLASS =
+  'w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary';
+
+interface FeatureEditFormProps {
+  feature: FeatureDetails;
+  clusterOptions: Array<{ id: string; label: string }>;
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+export function FeatureEditForm({ feature, clusterOptions, onCancel, onSaved }: FeatureEditFormProps) {
+  const { updateFeature } = useFeatureApi();
+  const [name, setName] = useState(feature.name);
+  const [description, setDescription] = useState(feature.description ?? '');
+  const [purpose, setPurpose] = useState(feature.purpose ?? '');
+  const [status, setStatus] = useState(feature.status);
+  const [scope, setScope] = useState(feature.scope);
+  const [clusters, setClusters] = useState<string[]>(feature.clusters);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const locks = feature.locks ?? {};
+  const addableClusters = useMemo(
+    () => clusterOptions.filter((option) => !clusters.includes(option.id)),
+    [clusterOptions, clusters]
+  );
+
+  const handleSave = async () => {
+    const input: FeatureUpdateInput = {};
+    if (name.trim() !== feature.name) input.name = name;
+    if (description.trim() !== (feature.description ?? '')) input.description = description.trim() || null;
+    if (purpose.trim() !== (feature.purpose ?? '')) input.purpose = purpose.trim() || null;
+    if (status !== feature.status) input.status = status;
+    if (scope !== feature.scope) input.scope = scope;
+    if ([...clusters].sort().join('|') !== [...feature.clusters].sort().join('|')) input.clusters = clusters;
+    if (Object.keys(input).length === 0) {
+      onCancel();
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await updateFeature(feature.id, input);
+      onSaved();
+    } catch (saveError) {
+      setError(formatFeatureError(saveError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Edited fields are locked <Lock size={10} className="inline" /> and kept when AI regroups features.
+      </p>
+      <FormField label="Name" locked={locks.name}>
+        <input value={name} onChange={(event) => setName(event.target.value)} className={INPUT_CLASS} />
+      </FormField>
+      <FormField label="Description" locked={locks.description}>
+        <textarea value={description} onChange={(event) => setDescription(event.target.value)} className={`${INPUT_CLASS} min-h-[80px]`} />
+      </FormField>
+      <FormField label="Purpose">
+        <textarea value={purpose} onChange={(event) => setPurpose(event.target.value)} className={`${INPUT_CLASS} min-h-[60px]`} />
+      </FormField>
+      <div className="grid grid-cols-2 gap-2">
+        <FormField label="Status" locked={locks.status}>
+          <select value={status} onChange={(event) => setStatus(event.target.value as FeatureDetails['status'])} className={`${INPUT_CLASS} h-9 py-1`}>
+            {STATUS_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </FormField>
+        <FormField label="Scope" locked={locks.scope}>
+          <select value={scope} onChange={(event) => setScope(event.target.value as FeatureDetails['scope'])} className={`${INPUT_CLASS} h-9 py-1`}>
+            {SCOPE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </FormField>
+      </div>
+      <FormField label={`Clusters (${clusters.length})`} locked={locks.clusters}>
+        <div className="space-y-1">
+          {clusters.map((clusterId) => (
+            <div key={clusterId} className="flex items-center justify-between rounded border border-border bg-muted px-2 py-1 text-sm">
+              <span className="truncate">{clusterId}</span>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setClusters((current) => current.filter((id) => id !== clusterId))} disabled={clusters.length <= 1} title="Remove cluster">
+                <X size={12} />
+              </Button>
+            </div>
+          ))}
+          <select
+            className={`${INPUT_CLASS} h-9 py-1`}
+            value=""
+            onChange={(event) => event.target.value && setClusters((current) => [...current, event.target.value])}
+            disabled={addableClusters.length === 0}
+          >
+            <option value="">Add cluster...</option>
+            {addableClusters.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </FormField>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </section>
+  );
+}
+
+function FormField({ label, locked, children }: { label: string; locked?: boolean; children: ReactNode }) {
+  return (
+    <div className="text-xs text-muted-foreground">
+      <div className="mb-1 flex items-center gap-1">
+        {label}
+        {locked && <Lock size={12} aria-label="locked" />}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function formatFeatureError(error: unknown): string {
+  if (error instanceof FeatureApiError) {
+    if (error.type === 'token_missing' || error.type === 'forbidden') {
+      return 'Token required to edit features (run featuremap serve and paste token).';
+    }
+    if (error.type === 'network') {
+      return 'Serve not running / API unavailable.';
+    }
+    return error.message;
+  }
+  return 'Failed to save feature.';
+}
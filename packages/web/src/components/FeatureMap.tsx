@@ -1,22 +1,25 @@
-import { useEffect, useMemo, useRef, type MouseEvent } from 'react';
+import { useEffect, useMemo, useRef, useState, type MouseEvent } from 'react';
 import {
   Background, BezierEdge, ConnectionMode, ControlButton, Controls, Edge,
-  type Connection, Node, ReactFlow, type ReactFlowInstance,
+  type Connection, Node, type OnMove, ReactFlow, type ReactFlowInstance, type Viewport,
   useEdgesState, useNodesState, type EdgeTypes, type NodeTypes,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import { Lock, Unlock } from 'lucide-react';
 import { FeatureNode } from './FeatureNode';
+import { FileNode } from './FileNode';
 import { CommentNode } from './CommentNode';
 import { GroupContainerNode } from './GroupContainerNode';
 import { COMMENT_EDGE_TYPE } from '@/lib/commentTypes';
 import { buildDependencyCountById, buildGraphEdges, buildGraphNodes } from '@/lib/featureMapElements';
 import { buildStyledEdges } from '@/lib/flowEdges';
+import { TEMPORAL_EDGE_TYPE, type HeatKey } from '@/lib/hotspotOverlay';
 import { mergeMeasuredNodes } from '@/lib/flowNodes';
 import { buildGroupContainerNodes, GROUP_CONTAINER_NODE_TYPE } from '@/lib/groupContainers';
 import { type GroupDragStateEntry } from '@/lib/groupDrag';
 import { applyLayoutPositions, getLayoutedElements } from '@/lib/graphLayout';
-import type { EdgeStyle, GraphData, GroupSummary, MapEntity, ViewMode } from '@/lib/types';
+import type { MetricKey, MetricOverlayMode, NodeMetric } from '@/lib/metricOverlay';
+import type { DiffStatus, EdgeStyle, GraphData, GroupSummary, MapEntity, ViewMode } from '@/lib/types';
 import { useFlowHandlers } from '@/lib/useFlowHandlers';
 
 interface FeatureMapProps {
@@ -31,19 +34,31 @@ interface FeatureMapProps {
   onGroupSelect?: (groupId: string) => void;
   commentNodes?: Node[];
   commentEdges?: Edge[];
+  temporalEdges?: Edge[];
   onNodeClick?: (featureId: string) => void;
   onPaneClick?: (event: MouseEvent) => void;
   onEdgeClick?: (event: MouseEvent, edge: Edge) => void;
   onConnect?: (connection: Connection) => void;
   onEdgeRemove?: (edgeId: string) => void;
   onNodeDragStop?: (node: Node) => void;
+  onNodeDropOnGroup?: (nodeId: string, groupId: string) => void;
   onNodeRemove?: (nodeId: string) => void;
   commentPlacementActive?: boolean;
   onInit?: (instance: ReactFlowInstance) => void;
+  /** Viewport to open at instead of fitting the graph; only read on mount. */
+  defaultViewport?: Viewport | null;
+  onMoveEnd?: OnMove;
   selectedNodeId?: string | null;
   selectedEdgeId?: string | null;
   dependencyEdgeIds?: Set<string>;
   dependentEdgeIds?: Set<string>;
+  cycleEdgeIds?: Set<string>;
+  addedEdgeIds?: Set<string>;
+  removedEdgeIds?: Set<string>;
+  nodeDiffStatus?: Map<string, DiffStatus>;
+  metricOverlay?: { metric: MetricKey; mode: MetricOverlayMode; values: Map<string, NodeMetric> };
+  heatOverlay?: { heat: HeatKey; values: Map<string, NodeMetric> };
+  primaryOwners?: Map<string, string>;
   dependencyNodeIds?: Set<string>;
   dependentNodeIds?: Set<string>;
   hiddenNodeIds?: Set<string>;
@@ -60,6 +75,7 @@ interface FeatureMapProps {
 const nodeTypes: NodeTypes = {
   feature: FeatureNode,
   cluster: FeatureNode,
+  file: FileNode,
   comment: CommentNode,
   [GROUP_CONTAINER_NODE_TYPE]: GroupContainerNode,
 };
@@ -67,11 +83,13 @@ const nodeTypes: NodeTypes = {
 const edgeTypes: EdgeTypes = {
   bezier: BezierEdge,
   [COMMENT_EDGE_TYPE]: BezierEdge,
+  [TEMPORAL_EDGE_TYPE]: BezierEdge,
 };
 
 const VIEW_DESCRIPTIONS: Record<ViewMode, string> = {
   clusters: 'Technical view: file organization and module dependencies',
   features: 'Architectural view: what the system does and how parts connect',
+  files: 'Drill-down view: files of one cluster or feature and the clusters they touch',
 };
 
 export function FeatureMap({
@@ -86,19 +104,30 @@ export function FeatureMap({
   onGroupSelect,
   commentNodes = [],
   commentEdges = [],
+  temporalEdges = [],
   onNodeClick,
   onPaneClick,
   onEdgeClick,
   onConnect,
   onEdgeRemove,
   onNodeDragStop,
+  onNodeDropOnGroup,
   onNodeRemove,
   commentPlacementActive = false,
   onInit,
+  defaultViewport,
+  onMoveEnd,
   selectedNodeId,
   selectedEdgeId,
   dependencyEdgeIds,
   dependentEdgeIds,
+  cycleEdgeIds,
+  addedEdgeIds,
+  removedEdgeIds,
+  nodeDiffStatus,
+  metricOverlay,
+  heatOverlay,
+  primaryOwners,
   dependencyNodeIds,
   dependentNodeIds,
   hiddenNodeIds,
@@ -112,12 +141,13 @@ export function FeatureMap({
   onGroupCollapseToggle,
 }: FeatureMapProps) {
   const isReadOnly = Boolean(readOnly);
+  const [initialViewport] = useState(defaultViewport);
   const dependencyCountById = useMemo(() => buildDependencyCountById(graph.edges), [graph.edges]);
   const viewDescription = VIEW_DESCRIPTIONS[viewMode];
 
   const graphNodes: Node[] = useMemo(
-    () => buildGraphNodes({ nodes: graph.nodes, entities, dependencyCountById, dependencyNodeIds, dependentNodeIds, selectedNodeId, focusedNodeId, focusedUntil }),
-    [graph.nodes, entities, dependencyCountById, dependencyNodeIds, dependentNodeIds, selectedNodeId, focusedNodeId, focusedUntil]
+    () => buildGraphNodes({ nodes: graph.nodes, entities, dependencyCountById, dependencyNodeIds, dependentNodeIds, selectedNodeId, focusedNodeId, focusedUntil, nodeDiffStatus, metricOverlay, heatOverlay, primaryOwners }),
+    [graph.nodes, entities, dependencyCountById, dependencyNodeIds, dependentNodeIds, selectedNodeId, focusedNodeId, focusedUntil, nodeDiffStatus, metricOverlay, heatOverlay, primaryOwners]
   );
 
   const graphEdges: Edge[] = useMemo(
@@ -173,15 +203,18 @@ export function FeatureMap({
     [commentNodes, groupContainerNodes, visibleGraphNodes]
   );
   const layoutedEdges = useMemo(() => {
+    const filteredTemporal = temporalEdges.filter(
+      (edge) => visibleNodeIds.has(edge.source) && visibleNodeIds.has(edge.target)
+    );
     if (commentEdges.length === 0) {
-      return visibleGraphEdges;
+      return [...visibleGraphEdges, ...filteredTemporal];
     }
     const allNodeIds = new Set([...visibleNodeIds, ...commentNodes.map((node) => node.id)]);
     const filteredComments = commentEdges.filter(
       (edge) => allNodeIds.has(edge.source) && allNodeIds.has(edge.target)
     );
-    return [...visibleGraphEdges, ...filteredComments];
-  }, [commentEdges, commentNodes, visibleGraphEdges, visibleNodeIds]);
+    return [...visibleGraphEdges, ...filteredTemporal, ...filteredComments];
+  }, [commentEdges, commentNodes, temporalEdges, visibleGraphEdges, visibleNodeIds]);
 
   const [nodes, setNodes] = useNodesState(layoutedNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(layoutedEdges);
@@ -196,8 +229,18 @@ export function FeatureMap({
   }, [layoutedNodes, layoutedEdges, setNodes, setEdges]);
 
   const styledEdges = useMemo(
-    () => buildStyledEdges({ edges, selectedEdgeId, selectedNodeId, dependencyEdgeIds, dependentEdgeIds }),
-    [edges, selectedEdgeId, selectedNodeId, dependencyEdgeIds, dependentEdgeIds]
+    () =>
+      buildStyledEdges({
+        edges,
+        selectedEdgeId,
+        selectedNodeId,
+        dependencyEdgeIds,
+        dependentEdgeIds,
+        cycleEdgeIds,
+        addedEdgeIds,
+        removedEdgeIds,
+      }),
+    [edges, selectedEdgeId, selectedNodeId, dependencyEdgeIds, dependentEdgeIds, cycleEdgeIds, addedEdgeIds, removedEdgeIds]
   );
 
   const {
@@ -219,6 +262,7 @@ export function FeatureMap({
     onNodeRemove,
     onNodeClick,
     onNodeDragStop,
+    onNodeDropOnGroup,
     onGroupDragStop,
     onPaneClick,
     onConnect,
@@ -250,9 +294,11 @@ export function FeatureMap({
         onConnect={handleConnect}
         onNodeDragStop={handleNodeDragStop}
         onInit={onInit}
+        onMoveEnd={onMoveEnd}
         connectionMode={ConnectionMode.Loose}
         deleteKeyCode={isReadOnly ? null : ['Backspace', 'Delete']}
-        fitView
+        fitView={!initialViewport}
+        defaultViewport={initialViewport ?? undefined}
         fitViewOptions={{ padding: 0.2 }}
         minZoom={0.3}
         maxZoom={2}
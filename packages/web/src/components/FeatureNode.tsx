@@ -1,7 +1,7 @@
 import { memo } from 'react';
 import { Handle, Position, type Node, type NodeProps } from '@xyflow/react';
 import { Box, Folder, Layers } from 'lucide-react';
-import type { Layer } from '@/lib/types';
+import type { DiffStatus, Layer } from '@/lib/types';
 
 export interface FeatureNodeData extends Record<string, unknown> {
   label: string;
@@ -15,12 +15,22 @@ export interface FeatureNodeData extends Record<string, unknown> {
   isFocused?: boolean;
   isDependency?: boolean;
   isDependent?: boolean;
+  isBoundary?: boolean;
+  diffStatus?: DiffStatus;
+  metricLabel?: string;
+  metricColor?: string;
+  metricWidth?: number;
+  heatLabel?: string;
+  heatColor?: string;
+  ownerLabel?: string;
+  ownerColor?: string;
 }
 
 export type FeatureFlowNode = Node<FeatureNodeData, 'feature' | 'cluster'>;
 
 function FeatureNodeComponent({ data, selected }: NodeProps<FeatureFlowNode>) {
-  const { label, kind, fileCount, source, status, dependencyCount, isFocused, isDependency, isDependent } = data;
+  const { label, kind, fileCount, source, status, dependencyCount, isFocused, isDependency, isDependent, isBoundary, diffStatus, metricLabel, metricColor, metricWidth, heatLabel, heatColor, ownerLabel, ownerColor } = data;
+  const overlayColor = metricColor ?? heatColor ?? ownerColor;
 
   const Icon = fileCount > 5 ? Layers : fileCount > 1 ? Folder : Box;
 
@@ -43,6 +53,12 @@ function FeatureNodeComponent({ data, selected }: NodeProps<FeatureFlowNode>) {
 
   const focusRing = isFocused
     ? 'ring-2 ring-primary/60 ring-offset-2 ring-offset-background animate-pulse'
+    : diffStatus === 'added'
+    ? 'ring-2 ring-edge-added ring-offset-2 ring-offset-background'
+    : diffStatus === 'removed'
+    ? 'ring-2 ring-edge-removed ring-offset-2 ring-offset-background border-dashed opacity-60'
+    : isBoundary
+    ? 'border-dashed opacity-80'
     : '';
 
   return (
@@ -54,6 +70,10 @@ function FeatureNodeComponent({ data, selected }: NodeProps<FeatureFlowNode>) {
         ${selected ? 'shadow-lg outline outline-1 outline-white' : 'hover:shadow-md'}
         ${focusRing}
       `}
+      style={{
+        ...(overlayColor ? { backgroundColor: overlayColor } : {}),
+        ...(metricWidth ? { width: metricWidth } : {}),
+      }}
     >
       <Handle type="target" position={Position.Top} className="w-2 h-2 !bg-muted-foreground" />
 
@@ -84,7 +104,18 @@ function FeatureNodeComponent({ data, selected }: NodeProps<FeatureFlowNode>) {
               </span>
             )}
             <span className="text-[10px] uppercase text-muted-foreground/80">{kind}</span>
+            {metricLabel && (
+              <span className="text-[10px] font-mono text-foreground/80">{metricLabel}</span>
+            )}
+            {heatLabel && (
+              <span className="text-[10px] font-mono text-foreground/80">{heatLabel}</span>
+            )}
           </div>
+          {ownerLabel && (
+            <div className="text-[10px] font-mono text-foreground/80 truncate mt-0.5" title="Main owner">
+              {ownerLabel}
+            </div>
+          )}
         </div>
 
         {source !== 'auto' && (
@@ -0,0 +1,73 @@
+import { memo } from 'react';
+import { Handle, Position, type Node, type NodeProps } from '@xyflow/react';
+import { FileCode } from 'lucide-react';
+
+export interface FileNodeData extends Record<string, unknown> {
+  label: string;
+  kind: 'file';
+  path: string;
+  linesOfCode?: number;
+  dependencyCount: number;
+  isFocused?: boolean;
+  isDependency?: boolean;
+  isDependent?: boolean;
+}
+
+export type FileFlowNode = Node<FileNodeData, 'file'>;
+
+function FileNodeComponent({ data, selected }: NodeProps<FileFlowNode>) {
+  const { label, path, linesOfCode, dependencyCount, isFocused, isDependency, isDependent } = data;
+  const directory = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+  const borderColor = selected
+    ? 'border-white'
+    : isDependency
+    ? 'border-edge-dependency'
+    : isDependent
+    ? 'border-edge-dependent'
+    : 'border-border';
+
+  const focusRing = isFocused
+    ? 'ring-2 ring-primary/60 ring-offset-2 ring-offset-background animate-pulse'
+    : '';
+
+  return (
+    <div
+      className={`
+        px-3 py-2 rounded-md border-2 bg-card shadow-sm min-w-[140px] max-w-[220px]
+        transition-all duration-150
+        ${borderColor}
+        ${selected ? 'shadow-lg outline outline-1 outline-white' : 'hover:shadow-md'}
+        ${focusRing}
+      `}
+      title={path}
+    >
+      <Handle type="target" position={Position.Top} className="w-2 h-2 !bg-muted-foreground" />
+
+      <div className="flex items-start gap-2">
+        <FileCode size={16} className="mt-0.5 text-muted-foreground shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="font-mono text-xs text-foreground truncate">{label}</div>
+          {directory && (
+            <div className="font-mono text-[10px] text-muted-foreground/80 truncate">{directory}</div>
+          )}
+          <div className="flex items-center gap-2 mt-1">
+            {linesOfCode !== undefined && (
+              <span className="text-xs text-muted-foreground">{linesOfCode} lines</span>
+            )}
+            {dependencyCount > 0 && (
+              <span className="text-xs text-muted-foreground/80">
+                {'-> '}
+                {dependencyCount}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Handle type="source" position={Position.Bottom} className="w-2 h-2 !bg-muted-foreground" />
+    </div>
+  );
+}
+
+export const FileNode = memo(FileNodeComponent);
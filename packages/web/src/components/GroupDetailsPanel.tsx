@@ -1,39 +1,64 @@
-import { useEffect, useState } from 'react';
-import { AlertTriangle, Layers, Tag, X } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, Layers, Lock, Pencil, Tag, Trash2, X } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
+import { GroupEditForm } from '@/components/GroupEditForm';
 import { ResizableSidebar } from '@/components/ResizableSidebar';
-import type { GroupSummary, ViewMode } from '@/lib/types';
+import type { GroupSummary, MapEntity, ViewMode } from '@/lib/types';
 import type { GroupMember } from '@/lib/groupMembership';
-import { GroupApiError, useGroupApi } from '@/lib/useGroupApi';
+import { formatGroupError } from '@/lib/groupErrors';
+import { useGroupApi } from '@/lib/useGroupApi';
 
 interface GroupDetailsPanelProps {
   group: GroupSummary;
   groupMembers: GroupMember[];
   viewMode: ViewMode;
+  groups?: GroupSummary[];
+  entities?: Record<string, MapEntity>;
   onClose: () => void;
   onGroupUpdated?: (groupId: string, note: string | null) => void;
+  onGroupsChanged?: () => void;
 }
 
 export function GroupDetailsPanel({
   group,
   groupMembers,
   viewMode,
+  groups = [],
+  entities = {},
   onClose,
   onGroupUpdated,
+  onGroupsChanged,
 }: GroupDetailsPanelProps) {
   const memberLabel = viewMode === 'features' ? 'Features' : 'Clusters';
-  const { updateGroupNote } = useGroupApi();
+  const { updateGroupNote, updateGroupFeatures, deleteGroup, reorderGroups } =
+    useGroupApi();
   const [isEditing, setIsEditing] = useState(false);
   const [noteDraft, setNoteDraft] = useState(group.note ?? '');
   const [saveError, setSaveError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [isEditingDetails, setIsEditingDetails] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const locks = group.locks ?? {};
+  const isLocked = Boolean(locks.name || locks.description || locks.featureIds);
+  const canEditMembers = viewMode === 'features' && !locks.featureIds;
+  const groupIndex = groups.findIndex((entry) => entry.id === group.id);
+  const addableFeatures = useMemo(() => {
+    const memberIds = new Set(group.featureIds);
+    return Object.values(entities)
+      .filter((entity) => entity.kind === 'feature' && !memberIds.has(entity.data.id))
+      .map((entity) => ({ id: entity.data.id, label: entity.label }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [entities, group.featureIds]);
 
   useEffect(() => {
     setIsEditing(false);
     setNoteDraft(group.note ?? '');
     setSaveError(null);
+    setIsEditingDetails(false);
+    setActionError(null);
   }, [group.id]);
 
   useEffect(() => {
@@ -63,6 +88,53 @@ export function GroupDetailsPanel({
     setSaveError(null);
   };
 
+  const runGroupAction = async (action: () => Promise<unknown>, label: string) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      await action();
+      onGroupsChanged?.();
+    } catch (error) {
+      setActionError(formatGroupError(error, label));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete group "${group.name}"? Its features are not affected.`)) {
+      return;
+    }
+    void runGroupAction(() => deleteGroup(group.id), 'delete groups');
+  };
+
+  const handleMove = (offset: -1 | 1) => {
+    const ids = groups.map((entry) => entry.id);
+    const targetIndex = groupIndex + offset;
+    if (groupIndex < 0 || targetIndex < 0 || targetIndex >= ids.length) {
+      return;
+    }
+    [ids[groupIndex], ids[targetIndex]] = [ids[targetIndex], ids[groupIndex]];
+    void runGroupAction(() => reorderGroups(ids), 'reorder groups');
+  };
+
+  const handleRemoveMember = (featureId: string) => {
+    void runGroupAction(
+      () => updateGroupFeatures(group.id, { remove: [featureId] }),
+      'edit group features'
+    );
+  };
+
+  const handleAddMember = (featureId: string) => {
+    if (!featureId) {
+      return;
+    }
+    void runGroupAction(
+      () => updateGroupFeatures(group.id, { add: [featureId] }),
+      'edit group features'
+    );
+  };
+
   return (
     <ResizableSidebar initialWidth={350}>
       <div className="p-4 border-b border-border">
@@ -73,6 +145,27 @@ export function GroupDetailsPanel({
               <Badge variant="outline" className="text-xs">
                 group
               </Badge>
+              {isLocked && (
+                <Badge variant="outline" className="text-xs" title="Locked fields cannot be edited">
+                  <Lock size={12} className="mr-1" />
+                  locked
+                </Badge>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1 mt-3">
+              <Button variant="outline" size="sm" onClick={() => setIsEditingDetails(true)} disabled={busy || isEditingDetails || (locks.name && locks.description)}>
+                <Pencil size={14} className="mr-1" />
+                Edit
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleMove(-1)} disabled={busy || groupIndex <= 0} title="Move group up">
+                <ArrowUp size={14} />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleMove(1)} disabled={busy || groupIndex < 0 || groupIndex >= groups.length - 1} title="Move group down">
+                <ArrowDown size={14} />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleDelete} disabled={busy || isLocked} title={isLocked ? 'Locked groups cannot be deleted' : 'Delete group'}>
+                <Trash2 size={14} />
+              </Button>
             </div>
           </div>
           <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
@@ -83,7 +176,18 @@ export function GroupDetailsPanel({
 
       <ScrollArea className="flex-1">
         <div className="p-4 space-y-6">
-          {group.description ? (
+          {actionError && <div className="text-xs text-destructive">{actionError}</div>}
+
+          {isEditingDetails ? (
+            <GroupEditForm
+              group={group}
+              onCancel={() => setIsEditingDetails(false)}
+              onSaved={() => {
+                setIsEditingDetails(false);
+                onGroupsChanged?.();
+              }}
+            />
+          ) : group.description ? (
             <section>
               <p className="text-sm text-muted-foreground">{group.description}</p>
             </section>
@@ -135,6 +239,7 @@ export function GroupDetailsPanel({
             <h3 className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
               <Layers size={16} />
               {memberLabel} ({groupMembers.length})
+              {locks.featureIds && <Lock size={12} className="text-muted-foreground" />}
             </h3>
             {groupMembers.length === 0 ? (
               <p className="text-sm text-muted-foreground/80 italic">No members visible.</p>
@@ -150,33 +255,49 @@ export function GroupDetailsPanel({
                         {member.label}
                         <div className="text-xs text-muted-foreground font-mono">{member.id}</div>
                       </div>
-                      {member.missing && (
-                        <Badge variant="outline" className="bg-destructive/15 text-destructive border-destructive/40">
-                          <AlertTriangle size={12} className="mr-1" />
-                          missing
-                        </Badge>
-                      )}
+                      <div className="flex items-center gap-1">
+                        {member.missing && (
+                          <Badge variant="outline" className="bg-destructive/15 text-destructive border-destructive/40">
+                            <AlertTriangle size={12} className="mr-1" />
+                            missing
+                          </Badge>
+                        )}
+                        {canEditMembers && (
+                          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRemoveMember(member.id)} disabled={busy} title="Remove from group">
+                            <X size={12} />
+                          </Button>
+                        )}
+                      </div>
                     </div>
                   </div>
                 ))}
               </div>
             )}
+            {canEditMembers ? (
+              <select
+                className="mt-2 h-8 w-full rounded-md border border-border bg-background px-2 text-sm text-foreground"
+                value=""
+                onChange={(event) => handleAddMember(event.target.value)}
+                disabled={busy || addableFeatures.length === 0}
+              >
+                <option value="">Add feature...</option>
+                {addableFeatures.map((feature) => (
+                  <option key={feature.id} value={feature.id}>
+                    {feature.label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              viewMode !== 'features' &&
+              !locks.featureIds && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Switch to the Features view to edit members.
+                </p>
+              )
+            )}
           </section>
         </div>
       </ScrollArea>
     </ResizableSidebar>
   );
 }
-
-function formatGroupError(error: unknown): string {
-  if (error instanceof GroupApiError) {
-    if (error.type === 'token_missing' || error.type === 'forbidden') {
-      return 'Token required to save group notes (run featuremap serve and paste token).';
-    }
-    if (error.type === 'network') {
-      return 'Serve not running / API unavailable.';
-    }
-    return error.message;
-  }
-  return 'Failed to save group note.';
-}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { GroupSummary } from '@/lib/types';
+import { formatGroupError } from '@/lib/groupErrors';
+import { useGroupApi } from '@/lib/useGroupApi';
+
+const INPUT_CLASS =
+  'w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-60';
+
+interface GroupEditFormProps {
+  group: GroupSummary;
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+export function GroupEditForm({ group, onCancel, onSaved }: GroupEditFormProps) {
+  const { updateGroup } = useGroupApi();
+  const [name, setName] = useState(group.name);
+  const [description, setDescription] = useState(group.description ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const locks = group.locks ?? {};
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await updateGroup(group.id, {
+        ...(locks.name ? {} : { name }),
+        ...(locks.description ? {} : { description: description.trim() || null }),
+      });
+      onSaved();
+    } catch (saveError) {
+      setError(formatGroupError(saveError, 'edit groups'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-2">
+      <label className="block text-xs text-muted-foreground">
+        <span className="flex items-center gap-1 mb-1">
+          Name {locks.name && <Lock size={12} />}
+        </span>
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          disabled={locks.name}
+          className={INPUT_CLASS}
+        />
+      </label>
+      <label className="block text-xs text-muted-foreground">
+        <span className="flex items-center gap-1 mb-1">
+          Description {locks.description && <Lock size={12} />}
+        </span>
+        <textarea
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+          disabled={locks.description}
+          className={`${INPUT_CLASS} min-h-[80px]`}
+        />
+      </label>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </section>
+  );
+}
@@ -1,33 +1,54 @@
-import { RefreshCw } from 'lucide-react';
+import { Plus, RefreshCw } from 'lucide-react';
 import { ContextViewer } from '@/components/ContextViewer';
 import { Button } from '@/components/ui/button';
-import { getLayerOrder } from '@/lib/layerFilters';
 import type { ContextData } from '@/lib/contextTypes';
-import type { GroupSummary, LayerFilter, ViewMode } from '@/lib/types';
-
-const LAYER_FILTERS: Array<{ value: LayerFilter; label: string }> = [
-  { value: 'all', label: 'All' },
-  ...getLayerOrder().map((layer) => ({
-    value: layer,
-    label: `${layer[0].toUpperCase()}${layer.slice(1)}`,
-  })),
-];
+import { HEAT_OPTIONS, type HeatKey } from '@/lib/hotspotOverlay';
+import { METRIC_OPTIONS, type MetricKey, type MetricOverlayMode } from '@/lib/metricOverlay';
+import { ALL_OWNERS, UNOWNED, type OwnerFilter } from '@/lib/ownerOverlay';
+import type { GroupSummary, Layer, LayerFilter, SnapshotSummary, ViewMode } from '@/lib/types';
 
 interface MapControlsRowProps {
   viewMode: ViewMode;
   selectedLayer: LayerFilter;
+  /** Built-in layers plus custom layers from config.yaml that clusters use. */
+  layers: Layer[];
+  selectedOwner: OwnerFilter;
+  owners: string[];
+  ownershipAvailable: boolean;
+  colorByOwner: boolean;
+  heat: HeatKey;
+  hotspotsAvailable: boolean;
+  showTemporalCoupling: boolean;
   selectedGroupId: string;
   groups: GroupSummary[];
+  snapshots: SnapshotSummary[];
+  compareSnapshotId: string | null;
+  compareMessage: string | null;
+  filesMessage: string | null;
   missingGroupFeatures: string[];
   hasGroups: boolean;
   context: ContextData;
   showComments: boolean;
+  hideResolvedComments: boolean;
+  metric: MetricKey;
+  metricMode: MetricOverlayMode;
+  metricsAvailable: boolean;
   layoutMessage: { type: 'error' | 'warning' | 'success'; text: string } | null;
+  groupMessage: { type: 'error' | 'warning' | 'success'; text: string } | null;
   onPackGroups: () => void;
+  onCreateGroup: () => void;
   onViewModeChange: (mode: ViewMode) => void;
   onLayerChange: (layer: LayerFilter) => void;
+  onOwnerChange: (owner: OwnerFilter) => void;
+  onToggleColorByOwner: () => void;
+  onHeatChange: (heat: HeatKey) => void;
+  onToggleTemporalCoupling: () => void;
   onGroupChange: (groupId: string) => void;
+  onCompareSnapshotChange: (snapshotId: string | null) => void;
   onToggleComments: () => void;
+  onToggleHideResolvedComments: () => void;
+  onMetricChange: (metric: MetricKey) => void;
+  onMetricModeChange: (mode: MetricOverlayMode) => void;
   onAutoLayout: () => void;
   onRefresh: () => void;
 }
@@ -35,21 +56,55 @@ interface MapControlsRowProps {
 export function MapControlsRow({
   viewMode,
   selectedLayer,
+  layers,
+  selectedOwner,
+  owners,
+  ownershipAvailable,
+  colorByOwner,
+  heat,
+  hotspotsAvailable,
+  showTemporalCoupling,
   selectedGroupId,
   groups,
+  snapshots,
+  compareSnapshotId,
+  compareMessage,
+  filesMessage,
   missingGroupFeatures,
   hasGroups,
   context,
   showComments,
+  hideResolvedComments,
+  metric,
+  metricMode,
+  metricsAvailable,
   layoutMessage,
+  groupMessage,
   onPackGroups,
+  onCreateGroup,
   onViewModeChange,
   onLayerChange,
+  onOwnerChange,
+  onToggleColorByOwner,
+  onHeatChange,
+  onToggleTemporalCoupling,
   onGroupChange,
+  onCompareSnapshotChange,
   onToggleComments,
+  onToggleHideResolvedComments,
+  onMetricChange,
+  onMetricModeChange,
   onAutoLayout,
   onRefresh,
 }: MapControlsRowProps) {
+  const isFilesView = viewMode === 'files';
+  const layerFilters: Array<{ value: LayerFilter; label: string }> = [
+    { value: 'all', label: 'All' },
+    ...layers.map((layer) => ({
+      value: layer,
+      label: `${layer[0].toUpperCase()}${layer.slice(1)}`,
+    })),
+  ];
   return (
     <div className="flex flex-col gap-2">
       <div className="flex flex-wrap items-center justify-start gap-3 text-sm text-muted-foreground">
@@ -70,30 +125,91 @@ export function MapControlsRow({
             >
               Features
             </Button>
+            <Button
+              variant={isFilesView ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => onViewModeChange('files')}
+              title="Show the files of the selected cluster or feature"
+            >
+              Files
+            </Button>
           </div>
         </div>
         <div className="flex items-center gap-2">
           <span>Layer:</span>
           <div className="inline-flex rounded-md border border-border overflow-hidden">
-            {LAYER_FILTERS.map((filter) => (
+            {layerFilters.map((filter) => (
               <Button
                 key={filter.value}
                 variant={selectedLayer === filter.value ? 'secondary' : 'ghost'}
                 size="sm"
                 onClick={() => onLayerChange(filter.value)}
+                disabled={isFilesView}
               >
                 {filter.label}
               </Button>
             ))}
           </div>
         </div>
+        <div className="flex items-center gap-2">
+          <span>Owner:</span>
+          <select
+            className="h-8 rounded-md border border-border bg-background px-2 text-sm text-foreground"
+            value={selectedOwner}
+            onChange={(event) => onOwnerChange(event.target.value)}
+            disabled={!ownershipAvailable || isFilesView}
+            title={ownershipAvailable ? undefined : 'Run "featuremap scan" to generate context/ownership.yaml'}
+          >
+            <option value={ALL_OWNERS}>All owners</option>
+            <option value={UNOWNED}>Unowned</option>
+            {owners.map((owner) => (
+              <option key={owner} value={owner}>
+                {owner}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant={colorByOwner ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={onToggleColorByOwner}
+            disabled={!ownershipAvailable || isFilesView}
+            title="Tint nodes by their main owner"
+          >
+            Color by owner
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <span>Heat:</span>
+          <select
+            className="h-8 rounded-md border border-border bg-background px-2 text-sm text-foreground"
+            value={heat}
+            onChange={(event) => onHeatChange(event.target.value as HeatKey)}
+            disabled={!hotspotsAvailable || isFilesView}
+            title={hotspotsAvailable ? undefined : 'Run "featuremap scan" in a git repository to generate context/hotspots.yaml'}
+          >
+            {HEAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant={showTemporalCoupling ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={onToggleTemporalCoupling}
+            disabled={!hotspotsAvailable}
+            title="Show dashed edges between nodes that change together without a dependency"
+          >
+            Co-change
+          </Button>
+        </div>
         <div className="flex items-center gap-2">
           <span>Group:</span>
           <select
             className="h-8 rounded-md border border-border bg-background px-2 text-sm text-foreground"
             value={selectedGroupId}
             onChange={(event) => onGroupChange(event.target.value)}
-            disabled={!hasGroups}
+            disabled={!hasGroups || isFilesView}
           >
             <option value="all">All groups</option>
             {groups.map((group) => (
@@ -102,9 +218,30 @@ export function MapControlsRow({
               </option>
             ))}
           </select>
-          <Button variant="outline" size="sm" onClick={onPackGroups} disabled={!hasGroups}>
+          <Button variant="outline" size="sm" onClick={onPackGroups} disabled={!hasGroups || isFilesView}>
             Pack groups
           </Button>
+          <Button variant="outline" size="sm" onClick={onCreateGroup} disabled={isFilesView}>
+            <Plus size={14} className="mr-1" />
+            New group
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <span>Compare:</span>
+          <select
+            className="h-8 rounded-md border border-border bg-background px-2 text-sm text-foreground"
+            value={compareSnapshotId ?? ''}
+            onChange={(event) => onCompareSnapshotChange(event.target.value || null)}
+            disabled={snapshots.length === 0 || isFilesView}
+            title={snapshots.length === 0 ? 'Run "featuremap scan --snapshot" to save snapshots' : undefined}
+          >
+            <option value="">Off</option>
+            {snapshots.map((snapshot) => (
+              <option key={snapshot.id} value={snapshot.id}>
+                {new Date(snapshot.createdAt).toLocaleString()}
+              </option>
+            ))}
+          </select>
         </div>
         <div className="flex items-center gap-2">
           <span>Comments:</span>
@@ -115,8 +252,51 @@ export function MapControlsRow({
           >
             {showComments ? 'On' : 'Off'}
           </Button>
+          <Button
+            variant={hideResolvedComments ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={onToggleHideResolvedComments}
+            disabled={!showComments}
+            title="Hide resolved and won't-fix threads"
+          >
+            Hide resolved
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <span>Metric:</span>
+          <select
+            className="h-8 rounded-md border border-border bg-background px-2 text-sm text-foreground"
+            value={metric}
+            onChange={(event) => onMetricChange(event.target.value as MetricKey)}
+            disabled={!metricsAvailable || isFilesView}
+            title={metricsAvailable ? undefined : 'Run "featuremap scan" to generate context/metrics.yaml'}
+          >
+            {METRIC_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <div className="inline-flex rounded-md border border-border overflow-hidden">
+            <Button
+              variant={metricMode === 'color' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => onMetricModeChange('color')}
+              disabled={metric === 'none' || isFilesView}
+            >
+              Color
+            </Button>
+            <Button
+              variant={metricMode === 'size' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => onMetricModeChange('size')}
+              disabled={metric === 'none' || isFilesView}
+            >
+              Size
+            </Button>
+          </div>
         </div>
-        <Button variant="outline" size="sm" onClick={onAutoLayout}>
+        <Button variant="outline" size="sm" onClick={onAutoLayout} disabled={isFilesView}>
           Auto layout
         </Button>
         <ContextViewer context={context} onRefresh={onRefresh} />
@@ -130,6 +310,16 @@ export function MapControlsRow({
           Missing features in group: {missingGroupFeatures.join(', ')}
         </div>
       )}
+      {filesMessage && (
+        <div className="text-xs text-left text-muted-foreground">
+          {filesMessage}
+        </div>
+      )}
+      {compareMessage && (
+        <div className="text-xs text-left text-muted-foreground">
+          {compareMessage}
+        </div>
+      )}
       {layoutMessage && (
         <div
           className={`text-xs text-left ${
@@ -143,6 +333,19 @@ export function MapControlsRow({
           {layoutMessage.text}
         </div>
       )}
+      {groupMessage && (
+        <div
+          className={`text-xs text-left ${
+            groupMessage.type === 'success'
+              ? 'text-[var(--success)]'
+              : groupMessage.type === 'error'
+              ? 'text-destructive'
+              : 'text-[var(--warning)]'
+          }`}
+        >
+          {groupMessage.text}
+        </div>
+      )}
     </div>
   );
 }
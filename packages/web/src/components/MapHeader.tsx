@@ -1,43 +1,101 @@
 import { MapControlsRow } from '@/components/MapControlsRow';
+import { ViewSwitcher, type ViewSwitcherProps } from '@/components/ViewSwitcher';
 import type { ContextData } from '@/lib/contextTypes';
-import type { GroupSummary, LayerFilter, ViewMode } from '@/lib/types';
+import type { HeatKey } from '@/lib/hotspotOverlay';
+import type { MetricKey, MetricOverlayMode } from '@/lib/metricOverlay';
+import type { OwnerFilter } from '@/lib/ownerOverlay';
+import type { GroupSummary, Layer, LayerFilter, SnapshotSummary, ViewMode } from '@/lib/types';
 
 type LayoutMessage = { type: 'error' | 'warning' | 'success'; text: string } | null;
 
 interface MapHeaderProps {
   viewMode: ViewMode;
+  savedViews: ViewSwitcherProps;
   selectedLayer: LayerFilter;
+  layers: Layer[];
+  selectedOwner: OwnerFilter;
+  owners: string[];
+  ownershipAvailable: boolean;
+  colorByOwner: boolean;
+  heat: HeatKey;
+  hotspotsAvailable: boolean;
+  showTemporalCoupling: boolean;
   selectedGroupId: string;
   groups: GroupSummary[];
+  snapshots: SnapshotSummary[];
+  compareSnapshotId: string | null;
+  compareMessage: string | null;
+  filesMessage: string | null;
   missingGroupFeatures: string[];
   hasGroups: boolean;
   context: ContextData;
   showComments: boolean;
+  hideResolvedComments: boolean;
+  metric: MetricKey;
+  metricMode: MetricOverlayMode;
+  metricsAvailable: boolean;
   layoutMessage: LayoutMessage;
+  groupMessage: LayoutMessage;
   onPackGroups: () => void;
+  onCreateGroup: () => void;
   onViewModeChange: (mode: ViewMode) => void;
   onLayerChange: (layer: LayerFilter) => void;
+  onOwnerChange: (owner: OwnerFilter) => void;
+  onToggleColorByOwner: () => void;
+  onHeatChange: (heat: HeatKey) => void;
+  onToggleTemporalCoupling: () => void;
   onGroupChange: (groupId: string) => void;
+  onCompareSnapshotChange: (snapshotId: string | null) => void;
   onToggleComments: () => void;
+  onToggleHideResolvedComments: () => void;
+  onMetricChange: (metric: MetricKey) => void;
+  onMetricModeChange: (mode: MetricOverlayMode) => void;
   onAutoLayout: () => void;
   onRefresh: () => void;
 }
 
 export function MapHeader({
   viewMode,
+  savedViews,
   selectedLayer,
+  layers,
+  selectedOwner,
+  owners,
+  ownershipAvailable,
+  colorByOwner,
+  heat,
+  hotspotsAvailable,
+  showTemporalCoupling,
   selectedGroupId,
   groups,
+  snapshots,
+  compareSnapshotId,
+  compareMessage,
+  filesMessage,
   missingGroupFeatures,
   hasGroups,
   context,
   showComments,
+  hideResolvedComments,
+  metric,
+  metricMode,
+  metricsAvailable,
   layoutMessage,
+  groupMessage,
   onPackGroups,
+  onCreateGroup,
   onViewModeChange,
   onLayerChange,
+  onOwnerChange,
+  onToggleColorByOwner,
+  onHeatChange,
+  onToggleTemporalCoupling,
   onGroupChange,
+  onCompareSnapshotChange,
   onToggleComments,
+  onToggleHideResolvedComments,
+  onMetricChange,
+  onMetricModeChange,
   onAutoLayout,
   onRefresh,
 }: MapHeaderProps) {
@@ -47,22 +105,49 @@ export function MapHeader({
         <div>
           <h1 className="text-xl font-bold text-foreground">FeatureMap</h1>
         </div>
+        <ViewSwitcher {...savedViews} />
       </div>
       <MapControlsRow
         viewMode={viewMode}
         selectedLayer={selectedLayer}
+        layers={layers}
+        selectedOwner={selectedOwner}
+        owners={owners}
+        ownershipAvailable={ownershipAvailable}
+        colorByOwner={colorByOwner}
+        heat={heat}
+        hotspotsAvailable={hotspotsAvailable}
+        showTemporalCoupling={showTemporalCoupling}
         selectedGroupId={selectedGroupId}
         groups={groups}
+        snapshots={snapshots}
+        compareSnapshotId={compareSnapshotId}
+        compareMessage={compareMessage}
+        filesMessage={filesMessage}
         missingGroupFeatures={missingGroupFeatures}
         hasGroups={hasGroups}
         context={context}
         showComments={showComments}
+        hideResolvedComments={hideResolvedComments}
+        metric={metric}
+        metricMode={metricMode}
+        metricsAvailable={metricsAvailable}
         layoutMessage={layoutMessage}
+        groupMessage={groupMessage}
         onPackGroups={onPackGroups}
+        onCreateGroup={onCreateGroup}
         onViewModeChange={onViewModeChange}
         onLayerChange={onLayerChange}
+        onOwnerChange={onOwnerChange}
+        onToggleColorByOwner={onToggleColorByOwner}
+        onHeatChange={onHeatChange}
+        onToggleTemporalCoupling={onToggleTemporalCoupling}
         onGroupChange={onGroupChange}
+        onCompareSnapshotChange={onCompareSnapshotChange}
         onToggleComments={onToggleComments}
+        onToggleHideResolvedComments={onToggleHideResolvedComments}
+        onMetricChange={onMetricChange}
+        onMetricModeChange={onMetricModeChange}
         onAutoLayout={onAutoLayout}
         onRefresh={onRefresh}
       />
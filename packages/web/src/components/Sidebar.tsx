@@ -1,23 +1,37 @@
-import { AlertTriangle, ArrowRight, Clock, Layers, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { AlertTriangle, ArrowRight, Clock, FileCode, Layers, Lock, Pencil, X } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
+import { FeatureEditForm } from '@/components/FeatureEditForm';
 import { GroupDetailsPanel } from '@/components/GroupDetailsPanel';
 import { ProjectOverview, type ProjectStats } from '@/components/ProjectOverview';
 import { SidebarClusterDetails } from '@/components/SidebarClusterDetails';
+import { SidebarHotspots } from '@/components/SidebarHotspots';
+import { SidebarMetrics } from '@/components/SidebarMetrics';
+import { SidebarOwners } from '@/components/SidebarOwners';
+import { SidebarTests } from '@/components/SidebarTests';
 import { ResizableSidebar } from '@/components/ResizableSidebar';
 import type { Cluster, FeatureDetails, GroupSummary, MapEntity, ViewMode } from '@/lib/types';
 import { formatDate } from '@/lib/loadFeatureMap';
 import { getGroupsForFeature } from '@/lib/groupFilters';
+import { findChurnEntry, findCoupledNodes } from '@/lib/hotspotOverlay';
+import { findMetricsEntry } from '@/lib/metricOverlay';
+import { findOwnershipEntry } from '@/lib/ownerOverlay';
 import type { GroupMember } from '@/lib/groupMembership';
 import type {
   ContextFile,
   Conventions,
   ContextStatus,
+  DeadCode,
+  Hotspots,
+  Metrics,
+  Ownership,
   RunCommands,
   Statistics,
   Structure,
   TechStack,
+  TestCoverage,
   Testing,
 } from '@/lib/contextTypes';
 
@@ -28,11 +42,19 @@ interface SidebarProps {
   viewMode?: ViewMode;
   onClose: () => void;
   onGroupUpdated?: (groupId: string, note: string | null) => void;
+  onGroupsChanged?: () => void;
+  onFeatureUpdated?: () => void;
   onDependencyClick?: (featureId: string) => void;
+  onShowFiles?: () => void;
   groups?: GroupSummary[];
   focusedFilePath?: string | null;
   stats?: ProjectStats;
   statistics?: ContextFile<Statistics>;
+  metrics?: ContextFile<Metrics>;
+  deadCode?: ContextFile<DeadCode>;
+  ownership?: ContextFile<Ownership>;
+  hotspots?: ContextFile<Hotspots>;
+  testCoverage?: ContextFile<TestCoverage>;
   techStack?: ContextFile<TechStack>;
   conventions?: ContextFile<Conventions>;
   structure?: ContextFile<Structure>;
@@ -42,6 +64,9 @@ interface SidebarProps {
   entities?: Record<string, MapEntity>;
 }
 
+// Custom layers from config.yaml share one badge color.
+const CUSTOM_LAYER_COLOR = 'bg-fuchsia-500/20 text-fuchsia-200';
+
 export function Sidebar({
   node,
   group,
@@ -49,11 +74,19 @@ export function Sidebar({
   viewMode = 'clusters',
   onClose,
   onGroupUpdated,
+  onGroupsChanged,
+  onFeatureUpdated,
   onDependencyClick,
+  onShowFiles,
   groups = [],
   focusedFilePath,
   stats,
   statistics,
+  metrics,
+  deadCode,
+  ownership,
+  hotspots,
+  testCoverage,
   techStack,
   conventions,
   structure,
@@ -62,6 +95,11 @@ export function Sidebar({
   internalDependencies,
   entities,
 }: SidebarProps) {
+  const [isEditingFeature, setIsEditingFeature] = useState(false);
+  const nodeId = node?.data.id;
+  useEffect(() => {
+    setIsEditingFeature(false);
+  }, [nodeId]);
   const sourceColors = {
     auto: 'bg-muted text-muted-foreground',
     ai: 'bg-emerald-500/20 text-emerald-200',
@@ -72,7 +110,7 @@ export function Sidebar({
     deprecated: 'bg-amber-500/20 text-amber-200',
     ignored: 'bg-muted text-muted-foreground/80',
   };
-  const layerColors = {
+  const layerColors: Record<string, string> = {
     frontend: 'bg-sky-500/20 text-sky-200',
     backend: 'bg-amber-500/20 text-amber-200',
     fullstack: 'bg-emerald-500/20 text-emerald-200',
@@ -110,8 +148,11 @@ export function Sidebar({
         group={group}
         groupMembers={groupMembers}
         viewMode={viewMode}
+        groups={groups}
+        entities={entities}
         onClose={onClose}
         onGroupUpdated={onGroupUpdated}
+        onGroupsChanged={onGroupsChanged}
       />
     );
   }
@@ -152,6 +193,20 @@ export function Sidebar({
     : clusterData?.purpose_hint;
   const featureSource = featureData ? resolveFeatureSource(featureData) : 'auto';
   const featureGroups = featureData ? getGroupsForFeature(groups, featureData.id) : [];
+  const featureLocks = featureData?.locks ?? {};
+  const lockedFields = Object.entries(featureLocks)
+    .filter(([, locked]) => locked)
+    .map(([field]) => field);
+  const clusterOptions = Object.values(entities ?? {})
+    .filter((entity) => entity.kind === 'cluster')
+    .map((entity) => ({ id: entity.data.id, label: entity.label }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+  const nodeMetrics = findMetricsEntry(metrics?.data, node.kind, node.data.id);
+  const nodeOwnership = findOwnershipEntry(ownership?.data, node.kind, node.data.id);
+  const nodeChurn = findChurnEntry(hotspots?.data, node.kind, node.data.id);
+  const nodeTests = (
+    node.kind === 'cluster' ? testCoverage?.data?.clusters : testCoverage?.data?.features
+  )?.find((entry) => entry.id === node.data.id);
 
   return (
     <ResizableSidebar initialWidth={350}>
@@ -168,16 +223,36 @@ export function Sidebar({
                   <Badge variant="outline" className={statusColors[featureData.status]}>
                     {featureData.status}
                   </Badge>
+                  {lockedFields.length > 0 && (
+                    <Badge variant="outline" title={`Locked: ${lockedFields.join(', ')}`}>
+                      <Lock size={12} className="mr-1" />
+                      locked
+                    </Badge>
+                  )}
                 </>
               ) : (
                 <>
-                  <Badge variant="outline" className={layerColors[clusterData?.layer ?? 'shared']}>
+                  <Badge variant="outline" className={layerColors[clusterData?.layer ?? 'shared'] ?? CUSTOM_LAYER_COLOR}>
                     {clusterData?.layer ?? 'shared'}
                   </Badge>
                   <Badge variant="outline">cluster</Badge>
                 </>
               )}
             </div>
+            <div className="flex flex-wrap gap-2 mt-3">
+              {onShowFiles && (
+                <Button variant="outline" size="sm" onClick={onShowFiles}>
+                  <FileCode size={14} className="mr-1" />
+                  Show files
+                </Button>
+              )}
+              {featureData && onFeatureUpdated && !isEditingFeature && (
+                <Button variant="outline" size="sm" onClick={() => setIsEditingFeature(true)}>
+                  <Pencil size={14} className="mr-1" />
+                  Edit
+                </Button>
+              )}
+            </div>
           </div>
           <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
             <X size={16} />
@@ -187,7 +262,17 @@ export function Sidebar({
 
       <ScrollArea className="flex-1">
         <div className="p-4 space-y-6">
-          {description ? (
+          {featureData && isEditingFeature ? (
+            <FeatureEditForm
+              feature={featureData}
+              clusterOptions={clusterOptions}
+              onCancel={() => setIsEditingFeature(false)}
+              onSaved={() => {
+                setIsEditingFeature(false);
+                onFeatureUpdated?.();
+              }}
+            />
+          ) : description ? (
             <section>
               <p className="text-sm text-muted-foreground">{description}</p>
             </section>
@@ -249,11 +334,28 @@ export function Sidebar({
                 focusedFilePath={focusedFilePath}
                 internalDependencies={internalDependencies}
                 entities={entities}
+                deadCode={deadCode?.data?.clusters.find((entry) => entry.id === clusterData.id)}
                 onDependencyClick={onDependencyClick}
               />
             )
           )}
 
+          {nodeOwnership && <SidebarOwners ownership={nodeOwnership} />}
+
+          {nodeMetrics && <SidebarMetrics metrics={nodeMetrics} />}
+
+          {nodeTests && <SidebarTests tests={nodeTests} />}
+
+          {nodeChurn && hotspots?.data && (
+            <SidebarHotspots
+              churn={nodeChurn}
+              since={hotspots.data.since}
+              coupled={findCoupledNodes(hotspots.data, node.kind, node.data.id)}
+              labelFor={(id) => entities?.[id]?.label ?? id}
+              onNodeClick={onDependencyClick}
+            />
+          )}
+
           {featureData && featureGroups.length > 0 && (
             <section>
               <h3 className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { ArrowRight, FileCode, Package } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import type { DeadCodeCluster } from '@/lib/contextTypes';
 import type { Cluster, MapEntity } from '@/lib/types';
 
 interface SidebarClusterDetailsProps {
@@ -8,6 +9,7 @@ interface SidebarClusterDetailsProps {
   focusedFilePath?: string | null;
   internalDependencies?: string[];
   entities?: Record<string, MapEntity>;
+  deadCode?: DeadCodeCluster;
   onDependencyClick?: (featureId: string) => void;
 }
 
@@ -16,6 +18,7 @@ export function SidebarClusterDetails({
   focusedFilePath,
   internalDependencies = [],
   entities,
+  deadCode,
   onDependencyClick,
 }: SidebarClusterDetailsProps) {
   const fileRowRefs = useRef<Map<string, HTMLDivElement | null>>(new Map());
@@ -23,6 +26,12 @@ export function SidebarClusterDetails({
     (depId) => depId && depId !== cluster.id
   );
   const externalLibraries = cluster.imports?.external ?? [];
+  const unreachableFiles = new Set(deadCode?.unreachableFiles ?? []);
+  const unusedExportsByFile = new Map<string, string[]>();
+  for (const entry of deadCode?.unusedExports ?? []) {
+    unusedExportsByFile.set(entry.file, [...(unusedExportsByFile.get(entry.file) ?? []), entry.name]);
+  }
+  const unusedExportCount = deadCode?.unusedExports.length ?? 0;
 
   useEffect(() => {
     fileRowRefs.current.clear();
@@ -42,20 +51,49 @@ export function SidebarClusterDetails({
         <h3 className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
           <FileCode size={16} />
           Files ({cluster.files.length})
+          {unusedExportCount > 0 && (
+            <Badge
+              variant="outline"
+              className="bg-amber-500/20 text-amber-200"
+              title="Exports no scanned file imports (context/dead-code.yaml)"
+            >
+              {unusedExportCount} unused {unusedExportCount === 1 ? 'export' : 'exports'}
+            </Badge>
+          )}
+          {unreachableFiles.size > 0 && (
+            <Badge
+              variant="outline"
+              className="bg-rose-500/20 text-rose-200"
+              title="Files nothing imports that are not entry points (context/dead-code.yaml)"
+            >
+              {unreachableFiles.size} unreachable
+            </Badge>
+          )}
         </h3>
         <div className="space-y-1">
-          {cluster.files.map((file) => (
-            <div
-              key={file}
-              ref={(element) => fileRowRefs.current.set(file, element)}
-              className={`text-xs text-foreground/90 py-1.5 px-2 bg-muted rounded hover:bg-muted/80 font-mono ${
-                focusedFilePath === file ? 'ring-1 ring-primary/40 bg-primary/10' : ''
-              }`}
-              title={file}
-            >
-              {file.split('/').slice(-2).join('/')}
-            </div>
-          ))}
+          {cluster.files.map((file) => {
+            const unusedExports = unusedExportsByFile.get(file) ?? [];
+            const isUnreachable = unreachableFiles.has(file);
+            return (
+              <div
+                key={file}
+                ref={(element) => fileRowRefs.current.set(file, element)}
+                className={`flex items-center justify-between gap-2 text-xs text-foreground/90 py-1.5 px-2 bg-muted rounded hover:bg-muted/80 font-mono ${
+                  focusedFilePath === file ? 'ring-1 ring-primary/40 bg-primary/10' : ''
+                }`}
+                title={unusedExports.length > 0 ? `${file}\nUnused: ${unusedExports.join(', ')}` : file}
+              >
+                <span className="truncate">{file.split('/').slice(-2).join('/')}</span>
+                {isUnreachable ? (
+                  <span className="shrink-0 font-sans text-[10px] text-rose-300">unreachable</span>
+                ) : unusedExports.length > 0 ? (
+                  <span className="shrink-0 font-sans text-[10px] text-amber-300">
+                    {unusedExports.length} unused
+                  </span>
+                ) : null}
+              </div>
+            );
+          })}
         </div>
       </section>
 
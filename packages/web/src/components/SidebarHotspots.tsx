@@ -0,0 +1,48 @@
+import { Flame } from 'lucide-react';
+import type { ChurnEntry } from '@/lib/contextTypes';
+
+interface SidebarHotspotsProps {
+  churn: ChurnEntry;
+  since: string;
+  coupled: Array<{ id: string; coChanges: number; degree: number }>;
+  labelFor: (id: string) => string;
+  onNodeClick?: (id: string) => void;
+}
+
+export function SidebarHotspots({ churn, since, coupled, labelFor, onNodeClick }: SidebarHotspotsProps) {
+  return (
+    <section>
+      <h3 className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+        <Flame size={16} />
+        Change history
+      </h3>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        <div className="flex justify-between gap-2" title={`Commits since ${since}`}>
+          <span className="text-muted-foreground">Commits</span>
+          <span className="font-mono text-foreground">{churn.commits}</span>
+        </div>
+        <div className="flex justify-between gap-2" title={`Lines added plus deleted since ${since}`}>
+          <span className="text-muted-foreground">Churn</span>
+          <span className="font-mono text-foreground">{churn.churn}</span>
+        </div>
+      </div>
+      {coupled.length > 0 && (
+        <div className="mt-3 space-y-1">
+          <div className="text-xs text-muted-foreground">Changes together with (no dependency)</div>
+          {coupled.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              className="w-full flex justify-between gap-2 text-xs py-1 px-2 bg-muted rounded text-left hover:bg-muted/70"
+              title={`${entry.coChanges} shared commits, degree ${entry.degree.toFixed(2)}`}
+              onClick={() => onNodeClick?.(entry.id)}
+            >
+              <span className="truncate text-foreground/90">{labelFor(entry.id)}</span>
+              <span className="text-muted-foreground">{entry.coChanges}×</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,72 @@
+import { Activity } from 'lucide-react';
+import type { MetricsEntry } from '@/lib/contextTypes';
+
+interface SidebarMetricsProps {
+  metrics: MetricsEntry;
+}
+
+export function SidebarMetrics({ metrics }: SidebarMetricsProps) {
+  const rows: Array<{ label: string; value: string; title: string }> = [
+    {
+      label: 'Instability',
+      value: metrics.instability.toFixed(2),
+      title: 'Ce / (Ca + Ce): 0 is stable (only depended on), 1 is unstable (only depends on others)',
+    },
+    {
+      label: 'Abstractness',
+      value: metrics.abstractness.toFixed(2),
+      title: 'Share of exports that are interfaces or types',
+    },
+    {
+      label: 'Distance',
+      value: metrics.distance.toFixed(2),
+      title: 'Distance from the main sequence |A + I - 1|',
+    },
+    {
+      label: 'Afferent (Ca)',
+      value: String(metrics.afferentCoupling),
+      title: 'Outside files that import this',
+    },
+    {
+      label: 'Efferent (Ce)',
+      value: String(metrics.efferentCoupling),
+      title: 'Outside files this imports',
+    },
+    { label: 'Fan-in', value: String(metrics.fanIn), title: 'Other units that depend on this' },
+    { label: 'Fan-out', value: String(metrics.fanOut), title: 'Other units this depends on' },
+    { label: 'Lines of code', value: String(metrics.linesOfCode), title: 'Total lines of code' },
+    { label: 'Files', value: String(metrics.fileCount), title: 'Files with dependency data' },
+  ];
+
+  return (
+    <section>
+      <h3 className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+        <Activity size={16} />
+        Metrics
+      </h3>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between gap-2" title={row.title}>
+            <span className="text-muted-foreground">{row.label}</span>
+            <span className="font-mono text-foreground">{row.value}</span>
+          </div>
+        ))}
+      </div>
+      {metrics.largestFiles.length > 0 && (
+        <div className="mt-3 space-y-1">
+          <div className="text-xs text-muted-foreground">Largest files</div>
+          {metrics.largestFiles.map((file) => (
+            <div
+              key={file.path}
+              className="flex justify-between gap-2 text-xs py-1 px-2 bg-muted rounded font-mono"
+              title={file.path}
+            >
+              <span className="truncate text-foreground/90">{file.path.split('/').slice(-2).join('/')}</span>
+              <span className="text-muted-foreground">{file.linesOfCode}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,62 @@
+import { Users } from 'lucide-react';
+import type { OwnershipEntry } from '@/lib/contextTypes';
+import { getOwnerColor } from '@/lib/ownerOverlay';
+
+interface SidebarOwnersProps {
+  ownership: OwnershipEntry;
+}
+
+export function SidebarOwners({ ownership }: SidebarOwnersProps) {
+  const authors = ownership.authors ?? [];
+  if (ownership.owners.length === 0 && ownership.unownedFiles === 0 && authors.length === 0) {
+    return null;
+  }
+
+  return (
+    <section>
+      <h3 className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+        <Users size={16} />
+        Owners
+      </h3>
+      <div className="space-y-1 text-xs">
+        {ownership.owners.map((owner) => (
+          <div key={owner.name} className="flex items-center justify-between gap-2" title="CODEOWNERS">
+            <span className="flex items-center gap-2 min-w-0">
+              <span
+                className="inline-block w-2.5 h-2.5 rounded-full shrink-0"
+                style={{ backgroundColor: getOwnerColor(owner.name) }}
+              />
+              <span className="truncate font-mono text-foreground">{owner.name}</span>
+            </span>
+            <span className="text-muted-foreground">
+              {owner.files} {owner.files === 1 ? 'file' : 'files'}
+            </span>
+          </div>
+        ))}
+        {ownership.unownedFiles > 0 && (
+          <div className="flex justify-between gap-2" title="Files no CODEOWNERS rule assigns">
+            <span className="text-[var(--warning)]">Unowned</span>
+            <span className="text-muted-foreground">
+              {ownership.unownedFiles} {ownership.unownedFiles === 1 ? 'file' : 'files'}
+            </span>
+          </div>
+        )}
+      </div>
+      {authors.length > 0 && (
+        <div className="mt-3 space-y-1">
+          <div className="text-xs text-muted-foreground">Top authors</div>
+          {authors.map((author) => (
+            <div
+              key={author.name}
+              className="flex justify-between gap-2 text-xs py-1 px-2 bg-muted rounded"
+              title="Commits touching these files (git log)"
+            >
+              <span className="truncate text-foreground/90">{author.name}</span>
+              <span className="text-muted-foreground">{author.commits}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
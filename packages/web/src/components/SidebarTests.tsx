@@ -0,0 +1,46 @@
+import { FlaskConical } from 'lucide-react';
+import type { TestCoverageEntry } from '@/lib/contextTypes';
+
+const MAX_TEST_FILES = 8;
+
+interface SidebarTestsProps {
+  tests: TestCoverageEntry;
+}
+
+export function SidebarTests({ tests }: SidebarTestsProps) {
+  const count = tests.testFiles.length;
+  const hidden = count - MAX_TEST_FILES;
+
+  return (
+    <section>
+      <h3 className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+        <FlaskConical size={16} />
+        Tests
+      </h3>
+      <div className="text-xs">
+        <span className={count === 0 ? 'text-[var(--warning)]' : 'text-foreground'}>
+          Tested by {count} {count === 1 ? 'file' : 'files'}
+        </span>
+        {tests.lineCoverage !== undefined && (
+          <span
+            className="text-muted-foreground"
+            title={`${tests.linesHit ?? 0} of ${tests.linesFound ?? 0} lines hit (coverage report)`}
+          >
+            {' '}
+            / {tests.lineCoverage}% covered
+          </span>
+        )}
+      </div>
+      {count > 0 && (
+        <div className="mt-2 space-y-1">
+          {tests.testFiles.slice(0, MAX_TEST_FILES).map((file) => (
+            <div key={file} className="text-xs py-1 px-2 bg-muted rounded font-mono truncate" title={file}>
+              {file}
+            </div>
+          ))}
+          {hidden > 0 && <div className="text-xs text-muted-foreground">+{hidden} more</div>}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Link, Save, Trash2 } from 'lucide-react';
+import { SaveViewDialog } from '@/components/SaveViewDialog';
+import { Button } from '@/components/ui/button';
+import type { SavedView } from '@/lib/types';
+
+const DEFAULT_VIEW_VALUE = '';
+
+export interface ViewSwitcherProps {
+  views: SavedView[];
+  activeViewId: string | null;
+  /** Saved views cover the clusters and features views only. */
+  canSave: boolean;
+  message: { type: 'error' | 'warning' | 'success'; text: string } | null;
+  onSelectView: (viewId: string | null) => void;
+  onSaveAsView: (name: string, description?: string) => Promise<unknown>;
+  onUpdateView: () => void;
+  onDeleteView: () => void;
+  onCopyLink: () => void;
+}
+
+export function ViewSwitcher({
+  views,
+  activeViewId,
+  canSave,
+  message,
+  onSelectView,
+  onSaveAsView,
+  onUpdateView,
+  onDeleteView,
+  onCopyLink,
+}: ViewSwitcherProps) {
+  const [saveOpen, setSaveOpen] = useState(false);
+  const activeView = views.find((view) => view.id === activeViewId);
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <span>View:</span>
+      <select
+        className="h-8 rounded-md border border-border bg-background px-2 text-sm text-foreground"
+        value={activeViewId ?? DEFAULT_VIEW_VALUE}
+        onChange={(event) => onSelectView(event.target.value || null)}
+        title={activeView?.description}
+      >
+        <option value={DEFAULT_VIEW_VALUE}>Default layout</option>
+        {views.map((view) => (
+          <option key={view.id} value={view.id}>
+            {view.name}
+          </option>
+        ))}
+      </select>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onUpdateView}
+        disabled={!activeView || !canSave}
+        title="Save the current filters, collapsed groups and viewport to this view"
+      >
+        <Save size={14} className="mr-1" />
+        Update
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => setSaveOpen(true)} disabled={!canSave}>
+        Save as...
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onCopyLink} title="Copy a link to the map as it is shown now">
+        <Link size={14} />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onDeleteView} disabled={!activeView} title="Delete this view">
+        <Trash2 size={14} />
+      </Button>
+      {message && (
+        <span
+          className={`text-xs ${
+            message.type === 'success'
+              ? 'text-[var(--success)]'
+              : message.type === 'error'
+              ? 'text-destructive'
+              : 'text-[var(--warning)]'
+          }`}
+        >
+          {message.text}
+        </span>
+      )}
+      <SaveViewDialog open={saveOpen} onOpenChange={setSaveOpen} onSave={onSaveAsView} />
+    </div>
+  );
+}
@@ -15,20 +15,38 @@ const CommentPositionSchema = z.object({
 
 const CommentHomeViewSchema = z.enum(['features', 'clusters']);
 
+const CommentContentSchema = z.string().refine((value) => value.trim().length > 0, {
+  message: 'content required',
+});
+
+const CommentReplySchema = z
+  .object({
+    id: z.string().regex(KEBAB_CASE_REGEX, 'id must be kebab-case'),
+    content: CommentContentSchema,
+    author: z.string().optional(),
+    mentions: z.array(z.string()).optional(),
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+  })
+  .strict();
+
 export const CommentNodeSchema = z
   .object({
     version: z.number(),
     id: z.string().regex(KEBAB_CASE_REGEX, 'id must be kebab-case'),
     homeView: CommentHomeViewSchema.optional(),
-    content: z.string().refine((value) => value.trim().length > 0, {
-      message: 'content required',
-    }),
+    content: CommentContentSchema,
     position: CommentPositionSchema,
     links: z.array(CommentLinkSchema).max(MAX_COMMENT_LINKS),
     pinned: z.boolean().optional(),
     tags: z.array(z.string()).optional(),
     priority: z.enum(['low', 'medium', 'high']).optional(),
+    status: z.enum(['open', 'resolved', 'wontfix']).optional(),
+    resolvedBy: z.string().optional(),
+    resolvedAt: z.string().optional(),
     author: z.string().optional(),
+    mentions: z.array(z.string()).optional(),
+    replies: z.array(CommentReplySchema).optional(),
     createdAt: z.string().optional(),
     updatedAt: z.string().optional(),
   })
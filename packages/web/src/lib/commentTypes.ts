@@ -4,6 +4,7 @@ export const COMMENT_EDGE_TYPE = 'comment_link';
 export type CommentLinkType = 'feature' | 'cluster';
 export type CommentHomeView = 'features' | 'clusters';
 export type CommentPriority = 'low' | 'medium' | 'high';
+export type CommentStatus = 'open' | 'resolved' | 'wontfix';
 
 export interface CommentLink {
   type: CommentLinkType;
@@ -15,6 +16,15 @@ export interface CommentPosition {
   y: number;
 }
 
+export interface CommentReply {
+  id: string;
+  content: string;
+  author?: string;
+  mentions?: string[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 export interface CommentNode {
   version: number;
   id: string;
@@ -25,7 +35,13 @@ export interface CommentNode {
   pinned?: boolean;
   tags?: string[];
   priority?: CommentPriority;
+  /** Thread status; a comment without one is open. */
+  status?: CommentStatus;
+  resolvedBy?: string;
+  resolvedAt?: string;
   author?: string;
+  mentions?: string[];
+  replies?: CommentReply[];
   createdAt?: string;
   updatedAt?: string;
 }
@@ -44,10 +60,16 @@ export interface CommentNodeData extends Record<string, unknown> {
   showOrphanWarning?: boolean;
   saveState?: 'idle' | 'saving' | 'saved' | 'error';
   saveError?: string | null;
+  threadStatus: CommentStatus;
+  resolvedBy?: string;
+  author?: string;
+  replies: CommentReply[];
   onStartEdit?: () => void;
   onCommitEdit?: (value: string) => void;
   onCancelEdit?: () => void;
   onTogglePin?: () => void;
+  onReply?: (content: string, author?: string) => void;
+  onSetStatus?: (status: CommentStatus, resolvedBy?: string) => void;
 }
 
 export function buildCommentNodeId(commentId: string): string {
@@ -67,6 +89,10 @@ export function sortCommentLinks(links: CommentLink[]): CommentLink[] {
   });
 }
 
+export function getCommentStatus(comment: Pick<CommentNode, 'status'>): CommentStatus {
+  return comment.status ?? 'open';
+}
+
 export function inferCommentHomeView(links: CommentLink[]): CommentHomeView {
   if (links.some((link) => link.type === 'feature')) {
     return 'features';
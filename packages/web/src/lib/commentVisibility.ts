@@ -1,9 +1,10 @@
 import type { Edge, Node } from '@xyflow/react';
 import type { GraphData } from './types';
-import type { CommentNode } from './commentTypes';
+import type { CommentNode, CommentStatus } from './commentTypes';
 import {
   COMMENT_EDGE_TYPE,
   buildCommentNodeId,
+  getCommentStatus,
   resolveCommentHomeView,
   type CommentNodeData,
   sortCommentLinks,
@@ -19,7 +20,7 @@ interface CommentNodeWithUi extends CommentNode {
   isEditing?: boolean;
   saveState?: CommentNodeData['saveState'];
   saveError?: CommentNodeData['saveError'];
-  status?: 'draft' | 'saved';
+  persistence?: 'draft' | 'saved';
 }
 
 export interface CommentNodeHandlers {
@@ -27,18 +28,25 @@ export interface CommentNodeHandlers {
   onCommitEdit: (id: string, value: string) => void;
   onCancelEdit: (id: string) => void;
   onTogglePin?: (id: string) => void;
+  onReply?: (id: string, content: string, author?: string) => void;
+  onSetStatus?: (id: string, status: CommentStatus, resolvedBy?: string) => void;
 }
 
+/** Comments shown in the current view; `hideResolved` drops resolved and won't-fix threads. */
 export function getVisibleCommentIds(
   visibleNodeIds: Set<string>,
   comments: CommentNode[],
-  currentView: 'features' | 'clusters'
+  currentView: 'features' | 'clusters',
+  hideResolved = false
 ): Set<string> {
   const visible = new Set<string>();
   for (const comment of comments) {
     if (resolveCommentHomeView(comment) !== currentView) {
       continue;
     }
+    if (hideResolved && getCommentStatus(comment) !== 'open') {
+      continue;
+    }
     const isUnlinked = comment.links.length === 0;
     const hasVisibleLink = comment.links.some((link) => visibleNodeIds.has(link.id));
     if (!hasVisibleLink && !isUnlinked) {
@@ -55,6 +63,7 @@ export function buildCommentElements({
   currentView,
   selectedCommentId,
   showComments,
+  hideResolved = false,
   handlers,
 }: {
   graph: GraphData;
@@ -62,6 +71,7 @@ export function buildCommentElements({
   currentView: 'features' | 'clusters';
   selectedCommentId?: string | null;
   showComments: boolean;
+  hideResolved?: boolean;
   handlers?: CommentNodeHandlers;
 }): { nodes: Node[]; edges: Edge[] } {
   if (!showComments || comments.length === 0) {
@@ -69,7 +79,7 @@ export function buildCommentElements({
   }
 
   const visibleTargetIds = new Set(graph.nodes.map((node) => node.id));
-  const visibleCommentIds = getVisibleCommentIds(visibleTargetIds, comments, currentView);
+  const visibleCommentIds = getVisibleCommentIds(visibleTargetIds, comments, currentView, hideResolved);
   const sortedComments = [...comments]
     .filter((comment) => visibleCommentIds.has(comment.id))
     .sort((a, b) => a.id.localeCompare(b.id));
@@ -79,7 +89,7 @@ export function buildCommentElements({
     const isPinned = Boolean(comment.pinned);
     const hasLinks = comment.links.length > 0;
     const isDraft =
-      ('status' in comment ? comment.status === 'draft' : false) || !hasContent;
+      ('persistence' in comment ? comment.persistence === 'draft' : false) || !hasContent;
     const isEditing =
       'isEditing' in comment ? Boolean((comment as CommentNodeWithUi).isEditing) : false;
     const saveState =
@@ -87,7 +97,7 @@ export function buildCommentElements({
     const saveError =
       'saveError' in comment ? (comment as CommentNodeWithUi).saveError : undefined;
     const showOrphanWarning =
-      !hasLinks && !isPinned && ('status' in comment ? comment.status === 'saved' : false);
+      !hasLinks && !isPinned && ('persistence' in comment ? comment.persistence === 'saved' : false);
 
     const data: CommentNodeData = {
       id: comment.id,
@@ -98,12 +108,22 @@ export function buildCommentElements({
       showOrphanWarning,
       saveState,
       saveError,
+      threadStatus: getCommentStatus(comment),
+      resolvedBy: comment.resolvedBy,
+      author: comment.author,
+      replies: comment.replies ?? [],
       onStartEdit: handlers?.onStartEdit ? () => handlers.onStartEdit(comment.id) : undefined,
       onCommitEdit: handlers?.onCommitEdit
         ? (value) => handlers.onCommitEdit(comment.id, value)
         : undefined,
       onCancelEdit: handlers?.onCancelEdit ? () => handlers.onCancelEdit(comment.id) : undefined,
       onTogglePin: handlers?.onTogglePin ? () => handlers.onTogglePin?.(comment.id) : undefined,
+      onReply: handlers?.onReply && !isDraft
+        ? (content, author) => handlers.onReply?.(comment.id, content, author)
+        : undefined,
+      onSetStatus: handlers?.onSetStatus && !isDraft
+        ? (status, resolvedBy) => handlers.onSetStatus?.(comment.id, status, resolvedBy)
+        : undefined,
     };
 
     return {
@@ -5,7 +5,7 @@ export type CommentToolMode = 'off' | 'place';
 export type CommentSaveState = 'idle' | 'saving' | 'saved' | 'error';
 
 export interface UiComment extends CommentNode {
-  status: 'draft' | 'saved';
+  persistence: 'draft' | 'saved';
   isDirty?: boolean;
   isEditing?: boolean;
   saveState?: CommentSaveState;
@@ -23,7 +23,7 @@ export function createDraftComment(position: CommentPosition, homeView: CommentH
     content: '',
     position,
     links: [],
-    status: 'draft',
+    persistence: 'draft',
     isEditing: true,
     saveState: 'idle',
     saveError: null,
@@ -31,7 +31,7 @@ export function createDraftComment(position: CommentPosition, homeView: CommentH
 }
 
 export function isDraftComment(comment: UiComment): boolean {
-  return comment.status === 'draft';
+  return comment.persistence === 'draft';
 }
 
 export function isDraftId(id: string): boolean {
@@ -42,7 +42,7 @@ export function mergeSavedComments(
   saved: CommentNode[],
   existing: UiComment[]
 ): UiComment[] {
-  const drafts = existing.filter((comment) => comment.status === 'draft');
+  const drafts = existing.filter((comment) => comment.persistence === 'draft');
   const byId = new Map(existing.map((comment) => [comment.id, comment]));
 
   const merged = saved.map((comment) => {
@@ -54,7 +54,7 @@ export function mergeSavedComments(
     return {
       ...comment,
       pinned,
-      status: 'saved',
+      persistence: 'saved',
       isEditing: current?.isEditing ?? false,
       saveState: current?.saveState ?? 'idle',
       saveError: current?.saveError ?? null,
@@ -1,15 +1,21 @@
 import { z } from 'zod';
 import {
   ConventionsSchema,
+  CyclesSchema,
+  DeadCodeSchema,
+  HotspotsSchema,
   type ContextData,
   type ContextFile,
   ConstraintsSchema,
   DecisionsSchema,
   DesignSystemSchema,
+  MetricsSchema,
   OverviewSchema,
+  OwnershipSchema,
   RunCommandsSchema,
   StatisticsSchema,
   StructureSchema,
+  TestCoverageSchema,
   TestingSchema,
   TechStackSchema,
 } from './contextTypes';
@@ -25,6 +31,12 @@ const CONTEXT_FILES: Array<{
   schema: z.ZodTypeAny;
 }> = [
   { key: 'statistics', filename: 'statistics.yaml', schema: StatisticsSchema },
+  { key: 'cycles', filename: 'cycles.yaml', schema: CyclesSchema },
+  { key: 'metrics', filename: 'metrics.yaml', schema: MetricsSchema },
+  { key: 'deadCode', filename: 'dead-code.yaml', schema: DeadCodeSchema },
+  { key: 'ownership', filename: 'ownership.yaml', schema: OwnershipSchema },
+  { key: 'hotspots', filename: 'hotspots.yaml', schema: HotspotsSchema },
+  { key: 'testCoverage', filename: 'test-coverage.yaml', schema: TestCoverageSchema },
   { key: 'structure', filename: 'structure.yaml', schema: StructureSchema },
   { key: 'testing', filename: 'testing.yaml', schema: TestingSchema },
   { key: 'techStack', filename: 'tech-stack.yaml', schema: TechStackSchema },
@@ -40,6 +52,12 @@ export async function loadContextFiles(): Promise<ContextData> {
   const entries = await Promise.all(CONTEXT_FILES.map((entry) => loadContextFile(entry)));
   const result: Record<ContextKey, ContextFile<unknown>> = {
     statistics: { status: 'missing' },
+    cycles: { status: 'missing' },
+    metrics: { status: 'missing' },
+    deadCode: { status: 'missing' },
+    ownership: { status: 'missing' },
+    hotspots: { status: 'missing' },
+    testCoverage: { status: 'missing' },
     structure: { status: 'missing' },
     testing: { status: 'missing' },
     techStack: { status: 'missing' },
@@ -5,7 +5,7 @@ export const TechStackSchema = z
     version: z.number(),
     source: z.literal('auto'),
     detectedAt: z.string(),
-    language: z.enum(['typescript', 'javascript', 'go', 'unknown']).optional(),
+    language: z.enum(['typescript', 'javascript', 'go', 'python', 'unknown']).optional(),
     frameworks: z.array(
       z.object({
         name: z.string(),
@@ -113,6 +113,129 @@ export const StatisticsSchema = z
   })
   .passthrough();
 
+export const CyclesSchema = z
+  .object({
+    version: z.number(),
+    source: z.literal('auto'),
+    detectedAt: z.string(),
+    files: z.array(z.object({ nodes: z.array(z.string()) })),
+    clusters: z.array(z.object({ nodes: z.array(z.string()) })),
+    features: z.array(z.object({ nodes: z.array(z.string()) })),
+  })
+  .passthrough();
+
+const MetricsEntrySchema = z
+  .object({
+    id: z.string(),
+    afferentCoupling: z.number(),
+    efferentCoupling: z.number(),
+    fanIn: z.number(),
+    fanOut: z.number(),
+    instability: z.number(),
+    abstractness: z.number(),
+    distance: z.number(),
+    linesOfCode: z.number(),
+    fileCount: z.number(),
+    largestFiles: z.array(z.object({ path: z.string(), linesOfCode: z.number() })),
+  })
+  .passthrough();
+
+export const MetricsSchema = z
+  .object({
+    version: z.number(),
+    source: z.literal('auto'),
+    detectedAt: z.string(),
+    clusters: z.array(MetricsEntrySchema),
+    features: z.array(MetricsEntrySchema),
+  })
+  .passthrough();
+
+export const DeadCodeSchema = z
+  .object({
+    version: z.number(),
+    source: z.literal('auto'),
+    detectedAt: z.string(),
+    roots: z.array(z.string()),
+    clusters: z.array(
+      z.object({
+        id: z.string(),
+        unusedExports: z.array(z.object({ file: z.string(), name: z.string(), type: z.string() })),
+        unreachableFiles: z.array(z.string()),
+      })
+    ),
+  })
+  .passthrough();
+
+const OwnershipEntrySchema = z
+  .object({
+    id: z.string(),
+    owners: z.array(z.object({ name: z.string(), files: z.number() })),
+    authors: z.array(z.object({ name: z.string(), commits: z.number() })).optional(),
+    unownedFiles: z.number(),
+  })
+  .passthrough();
+
+export const OwnershipSchema = z
+  .object({
+    version: z.number(),
+    source: z.literal('auto'),
+    detectedAt: z.string(),
+    codeowners: z.string().optional(),
+    clusters: z.array(OwnershipEntrySchema),
+    features: z.array(OwnershipEntrySchema),
+  })
+  .passthrough();
+
+const ChurnEntrySchema = z
+  .object({ id: z.string(), commits: z.number(), churn: z.number() })
+  .passthrough();
+
+const TemporalCouplingSchema = z
+  .object({ source: z.string(), target: z.string(), coChanges: z.number(), degree: z.number() })
+  .passthrough();
+
+export const HotspotsSchema = z
+  .object({
+    version: z.number(),
+    source: z.literal('auto'),
+    detectedAt: z.string(),
+    since: z.string(),
+    commitCount: z.number(),
+    files: z.array(
+      z.object({ path: z.string(), commits: z.number(), churn: z.number(), linesOfCode: z.number() })
+    ),
+    clusters: z.array(ChurnEntrySchema),
+    features: z.array(ChurnEntrySchema),
+    coupling: z.object({
+      files: z.array(TemporalCouplingSchema),
+      clusters: z.array(TemporalCouplingSchema),
+      features: z.array(TemporalCouplingSchema),
+    }),
+  })
+  .passthrough();
+
+const TestCoverageEntrySchema = z
+  .object({
+    id: z.string(),
+    testFiles: z.array(z.string()),
+    linesFound: z.number().optional(),
+    linesHit: z.number().optional(),
+    lineCoverage: z.number().optional(),
+  })
+  .passthrough();
+
+export const TestCoverageSchema = z
+  .object({
+    version: z.number(),
+    source: z.literal('auto'),
+    detectedAt: z.string(),
+    testFileCount: z.number(),
+    reports: z.array(z.string()),
+    clusters: z.array(TestCoverageEntrySchema),
+    features: z.array(TestCoverageEntrySchema),
+  })
+  .passthrough();
+
 export const StructureSchema = z
   .object({
     version: z.number(),
@@ -256,6 +379,18 @@ export const DesignSystemSchema = z
 export type TechStack = z.infer<typeof TechStackSchema>;
 export type Conventions = z.infer<typeof ConventionsSchema>;
 export type Statistics = z.infer<typeof StatisticsSchema>;
+export type Cycles = z.infer<typeof CyclesSchema>;
+export type Metrics = z.infer<typeof MetricsSchema>;
+export type MetricsEntry = z.infer<typeof MetricsEntrySchema>;
+export type DeadCode = z.infer<typeof DeadCodeSchema>;
+export type DeadCodeCluster = DeadCode['clusters'][number];
+export type Ownership = z.infer<typeof OwnershipSchema>;
+export type OwnershipEntry = z.infer<typeof OwnershipEntrySchema>;
+export type Hotspots = z.infer<typeof HotspotsSchema>;
+export type ChurnEntry = z.infer<typeof ChurnEntrySchema>;
+export type TemporalCoupling = z.infer<typeof TemporalCouplingSchema>;
+export type TestCoverage = z.infer<typeof TestCoverageSchema>;
+export type TestCoverageEntry = z.infer<typeof TestCoverageEntrySchema>;
 export type Structure = z.infer<typeof StructureSchema>;
 export type Testing = z.infer<typeof TestingSchema>;
 export type RunCommands = z.infer<typeof RunCommandsSchema>;
@@ -275,6 +410,12 @@ export interface ContextFile<T> {
 
 export interface ContextData {
   statistics: ContextFile<Statistics>;
+  cycles: ContextFile<Cycles>;
+  metrics: ContextFile<Metrics>;
+  deadCode: ContextFile<DeadCode>;
+  ownership: ContextFile<Ownership>;
+  hotspots: ContextFile<Hotspots>;
+  testCoverage: ContextFile<TestCoverage>;
   structure: ContextFile<Structure>;
   testing: ContextFile<Testing>;
   techStack: ContextFile<TechStack>;
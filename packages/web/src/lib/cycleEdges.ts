@@ -0,0 +1,34 @@
+import type { Cycles } from './contextTypes';
+import { buildEdgeId } from './featureMapElements';
+import type { GraphData, ViewMode } from './types';
+
+/**
+ * Edge ids whose source and target belong to the same cycle in context/cycles.yaml,
+ * i.e. edges that take part in a dependency cycle in the current view.
+ */
+export function buildCycleEdgeIds(
+  edges: GraphData['edges'],
+  cycles: Cycles | undefined,
+  viewMode: ViewMode
+): Set<string> {
+  const edgeIds = new Set<string>();
+  if (!cycles) {
+    return edgeIds;
+  }
+
+  const componentByNode = new Map<string, number>();
+  const components =
+    viewMode === 'files' ? cycles.files : viewMode === 'clusters' ? cycles.clusters : cycles.features;
+  components.forEach((cycle, index) => {
+    cycle.nodes.forEach((nodeId) => componentByNode.set(nodeId, index));
+  });
+
+  edges.forEach((edge, index) => {
+    const component = componentByNode.get(edge.source);
+    if (component !== undefined && componentByNode.get(edge.target) === component) {
+      edgeIds.add(buildEdgeId(edge, index));
+    }
+  });
+
+  return edgeIds;
+}
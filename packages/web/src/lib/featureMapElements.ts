@@ -1,5 +1,16 @@
 import type { Edge, Node } from '@xyflow/react';
-import type { EdgeStyle, GraphData, MapEntity, NodeType } from './types';
+import {
+  formatMetricValue,
+  getMetricColor,
+  getMetricNodeWidth,
+  METRIC_OPTIONS,
+  type MetricKey,
+  type MetricOverlayMode,
+  type NodeMetric,
+} from './metricOverlay';
+import { getHeatColor, HEAT_OPTIONS, type HeatKey } from './hotspotOverlay';
+import { getOwnerColor } from './ownerOverlay';
+import type { DiffStatus, EdgeStyle, GraphData, MapEntity, NodeType } from './types';
 
 type NodeSource = 'auto' | 'ai' | 'user';
 
@@ -24,6 +35,10 @@ export function buildGraphNodes({
   selectedNodeId,
   focusedNodeId,
   focusedUntil,
+  nodeDiffStatus,
+  metricOverlay,
+  heatOverlay,
+  primaryOwners,
 }: {
   nodes: GraphData['nodes'];
   entities: Record<string, MapEntity>;
@@ -33,6 +48,11 @@ export function buildGraphNodes({
   selectedNodeId?: string | null;
   focusedNodeId?: string | null;
   focusedUntil?: number | null;
+  nodeDiffStatus?: Map<string, DiffStatus>;
+  metricOverlay?: { metric: MetricKey; mode: MetricOverlayMode; values: Map<string, NodeMetric> };
+  heatOverlay?: { heat: HeatKey; values: Map<string, NodeMetric> };
+  /** Node id -> main owner, set while nodes are colored by owner. */
+  primaryOwners?: Map<string, string>;
 }): Node[] {
   return nodes.map((node) => {
     const entity = entities[node.id];
@@ -49,6 +69,27 @@ export function buildGraphNodes({
     const isDependency = dependencyNodeIds?.has(node.id) ?? false;
     const isDependent = dependentNodeIds?.has(node.id) ?? false;
 
+    if (nodeType === 'file') {
+      return {
+        id: node.id,
+        type: nodeType,
+        data: {
+          label: node.label ?? node.id,
+          kind: nodeType,
+          path: typeof node.path === 'string' ? node.path : node.id,
+          linesOfCode: typeof node.linesOfCode === 'number' ? node.linesOfCode : undefined,
+          dependencyCount: dependencyCountById[node.id] ?? 0,
+          isDependency,
+          isDependent,
+          isFocused,
+        },
+        position: { x: 0, y: 0 },
+        selected: node.id === selectedNodeId,
+        deletable: false,
+        zIndex: 2,
+      };
+    }
+
     return {
       id: node.id,
       type: nodeType,
@@ -64,6 +105,11 @@ export function buildGraphNodes({
         isDependency,
         isDependent,
         isFocused,
+        isBoundary: node.boundary === true,
+        diffStatus: nodeDiffStatus?.get(node.id),
+        ...buildMetricData(node.id, metricOverlay),
+        ...buildHeatData(node.id, heatOverlay),
+        ...buildOwnerData(node.id, primaryOwners),
       },
       position: { x: 0, y: 0 },
       selected: node.id === selectedNodeId,
@@ -91,6 +137,43 @@ export function buildGraphEdges(edges: GraphData['edges'], edgeType: EdgeStyle):
   }));
 }
 
+function buildMetricData(
+  nodeId: string,
+  overlay: { metric: MetricKey; mode: MetricOverlayMode; values: Map<string, NodeMetric> } | undefined
+): { metricLabel?: string; metricColor?: string; metricWidth?: number } {
+  const nodeMetric = overlay?.values.get(nodeId);
+  if (!overlay || !nodeMetric) {
+    return {};
+  }
+  const short = METRIC_OPTIONS.find((option) => option.value === overlay.metric)?.short ?? overlay.metric;
+  return {
+    metricLabel: `${short} ${formatMetricValue(overlay.metric, nodeMetric.value)}`,
+    ...(overlay.mode === 'color'
+      ? { metricColor: getMetricColor(nodeMetric.ratio) }
+      : { metricWidth: getMetricNodeWidth(nodeMetric.ratio) }),
+  };
+}
+
+function buildHeatData(
+  nodeId: string,
+  overlay: { heat: HeatKey; values: Map<string, NodeMetric> } | undefined
+): { heatLabel?: string; heatColor?: string } {
+  const nodeHeat = overlay?.values.get(nodeId);
+  if (!overlay || !nodeHeat) {
+    return {};
+  }
+  const short = HEAT_OPTIONS.find((option) => option.value === overlay.heat)?.short ?? overlay.heat;
+  return { heatLabel: `${nodeHeat.value} ${short}`, heatColor: getHeatColor(nodeHeat.ratio) };
+}
+
+function buildOwnerData(
+  nodeId: string,
+  primaryOwners: Map<string, string> | undefined
+): { ownerLabel?: string; ownerColor?: string } {
+  const owner = primaryOwners?.get(nodeId);
+  return owner ? { ownerLabel: owner, ownerColor: getOwnerColor(owner) } : {};
+}
+
 function resolveSource(entity: MapEntity | undefined): NodeSource {
   if (!entity || entity.kind !== 'feature') {
     return 'auto';
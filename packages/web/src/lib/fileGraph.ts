@@ -0,0 +1,131 @@
+import type { FeatureMapData, FileScope, GraphData, GraphEdge, GraphNode, RawGraph } from './types';
+
+export interface FileGraph {
+  graph: GraphData;
+  fileCount: number;
+  boundaryCount: number;
+  clusterIdByFile: Map<string, string>;
+}
+
+/**
+ * Builds the files view for a cluster or feature: one node per file in scope, file-to-file
+ * edges from raw-graph.yaml, and dependencies that leave the scope collapsed onto one
+ * boundary node per neighbouring cluster.
+ */
+export function buildFileGraph(rawGraph: RawGraph, scope: FileScope, data: FeatureMapData): FileGraph {
+  const clusterIdByFile = buildClusterIdByFile(rawGraph, data);
+  const clusterNodesById = new Map(data.clusterGraph.nodes.map((node) => [node.id, node]));
+  const scopeFiles = resolveScopeFiles(rawGraph, scope, data);
+  const scopeFileSet = new Set(scopeFiles);
+
+  const nodes: GraphNode[] = scopeFiles.map((file) => {
+    const clusterId = clusterIdByFile.get(file);
+    return {
+      id: file,
+      label: file.split('/').pop() ?? file,
+      type: 'file',
+      layer: clusterId ? clusterNodesById.get(clusterId)?.layer : undefined,
+      clusterId,
+      path: file,
+      linesOfCode: rawGraph.files[file]?.linesOfCode,
+    };
+  });
+
+  const edges: GraphEdge[] = [];
+  const edgeKeys = new Set<string>();
+  const boundaryIds = new Set<string>();
+  const addEdge = (source: string, target: string) => {
+    const key = `${source}->${target}`;
+    if (source === target || edgeKeys.has(key)) {
+      return;
+    }
+    edgeKeys.add(key);
+    edges.push({ source, target });
+  };
+
+  for (const [source, targets] of Object.entries(rawGraph.dependencies)) {
+    const sourceInScope = scopeFileSet.has(source);
+    for (const target of targets) {
+      const targetInScope = scopeFileSet.has(target);
+      if (sourceInScope && targetInScope) {
+        addEdge(source, target);
+        continue;
+      }
+      const boundaryId = sourceInScope
+        ? clusterIdByFile.get(target)
+        : targetInScope
+        ? clusterIdByFile.get(source)
+        : undefined;
+      if (!boundaryId || !clusterNodesById.has(boundaryId)) {
+        continue;
+      }
+      boundaryIds.add(boundaryId);
+      if (sourceInScope) {
+        addEdge(source, boundaryId);
+      } else {
+        addEdge(boundaryId, target);
+      }
+    }
+  }
+
+  const boundaryNodes = [...boundaryIds]
+    .sort((a, b) => a.localeCompare(b))
+    .map((clusterId) => ({ ...(clusterNodesById.get(clusterId) as GraphNode), boundary: true }));
+
+  return {
+    graph: {
+      version: rawGraph.version,
+      generatedAt: rawGraph.generatedAt,
+      nodes: [...nodes, ...boundaryNodes],
+      edges: edges.sort((left, right) =>
+        `${left.source}->${left.target}`.localeCompare(`${right.source}->${right.target}`)
+      ),
+    },
+    fileCount: nodes.length,
+    boundaryCount: boundaryNodes.length,
+    clusterIdByFile,
+  };
+}
+
+/**
+ * Scope to drill into for a selected map node; only clusters and features have files.
+ */
+export function resolveFileScope(data: FeatureMapData, nodeId: string | null): FileScope | null {
+  const entity = nodeId ? data.entities[nodeId] : undefined;
+  if (!nodeId || !entity) {
+    return null;
+  }
+  return { kind: entity.kind, id: nodeId };
+}
+
+function resolveScopeFiles(rawGraph: RawGraph, scope: FileScope, data: FeatureMapData): string[] {
+  const scopeEntity = data.entities[scope.id];
+  const clusterIds =
+    scope.kind === 'cluster'
+      ? [scope.id]
+      : scopeEntity?.kind === 'feature'
+      ? scopeEntity.data.clusters
+      : [];
+
+  const files = new Set<string>();
+  for (const clusterId of clusterIds) {
+    const rawCluster = rawGraph.clusters?.find((cluster) => cluster.id === clusterId);
+    const entity = data.entities[clusterId];
+    const clusterFiles = rawCluster?.files ?? (entity?.kind === 'cluster' ? entity.data.files : []);
+    clusterFiles.forEach((file) => files.add(file));
+  }
+  return [...files].sort((a, b) => a.localeCompare(b));
+}
+
+function buildClusterIdByFile(rawGraph: RawGraph, data: FeatureMapData): Map<string, string> {
+  const clusterIdByFile = new Map<string, string>();
+  for (const entity of Object.values(data.entities)) {
+    if (entity.kind === 'cluster') {
+      entity.data.files.forEach((file) => clusterIdByFile.set(file, entity.data.id));
+    }
+  }
+  for (const cluster of rawGraph.clusters ?? []) {
+    cluster.files.forEach((file) => clusterIdByFile.set(file, cluster.id));
+  }
+  return clusterIdByFile;
+}
@@ -1,5 +1,6 @@
 import type { Edge } from '@xyflow/react';
 import { COMMENT_EDGE_TYPE } from './commentTypes';
+import { TEMPORAL_EDGE_TYPE } from './hotspotOverlay';
 import { cn } from './utils';
 
 export function buildStyledEdges({
@@ -8,12 +9,18 @@ export function buildStyledEdges({
   selectedNodeId,
   dependencyEdgeIds,
   dependentEdgeIds,
+  cycleEdgeIds,
+  addedEdgeIds,
+  removedEdgeIds,
 }: {
   edges: Edge[];
   selectedEdgeId?: string | null;
   selectedNodeId?: string | null;
   dependencyEdgeIds?: Set<string>;
   dependentEdgeIds?: Set<string>;
+  cycleEdgeIds?: Set<string>;
+  addedEdgeIds?: Set<string>;
+  removedEdgeIds?: Set<string>;
 }): Edge[] {
   if (edges.length === 0) {
     return edges;
@@ -22,7 +29,7 @@ export function buildStyledEdges({
   const hasNodeSelection = Boolean(selectedNodeId);
 
   return edges.map((edge) => {
-    if (edge.type === COMMENT_EDGE_TYPE) {
+    if (edge.type === COMMENT_EDGE_TYPE || edge.type === TEMPORAL_EDGE_TYPE) {
       return edge;
     }
 
@@ -30,6 +37,9 @@ export function buildStyledEdges({
     const isDependency = dependencyEdgeIds?.has(edge.id) ?? false;
     const isDependent = dependentEdgeIds?.has(edge.id) ?? false;
     const isConnected = isDependency || isDependent;
+    const isCycle = cycleEdgeIds?.has(edge.id) ?? false;
+    const isAdded = addedEdgeIds?.has(edge.id) ?? false;
+    const isRemoved = removedEdgeIds?.has(edge.id) ?? false;
     const isDimmed = hasNodeSelection && !isConnected && !isSelected;
 
     const markerColor = isSelected
@@ -40,6 +50,12 @@ export function buildStyledEdges({
       ? 'var(--edge-dependent)'
       : isDimmed
       ? 'hsl(var(--border) / 0.3)'
+      : isAdded
+      ? 'var(--edge-added)'
+      : isRemoved
+      ? 'var(--edge-removed)'
+      : isCycle
+      ? 'var(--edge-cycle)'
       : 'hsl(var(--border))';
     const zIndex = isSelected ? 3 : hasNodeSelection && isConnected ? 2 : hasNodeSelection ? 1 : edge.zIndex;
     const markerEnd = edge.markerEnd;
@@ -55,6 +71,9 @@ export function buildStyledEdges({
       className: cn(
         edge.className,
         'edge-base transition-all duration-200',
+        isCycle && 'edge-cycle',
+        isAdded && 'edge-added',
+        isRemoved && 'edge-removed',
         isSelected && 'edge-selected',
         !isSelected && hasNodeSelection && isDependency && 'edge-dependency',
         !isSelected && hasNodeSelection && !isDependency && isDependent && 'edge-dependent',
@@ -96,3 +96,35 @@ export function getGroupIdFromContainer(nodeId: string): string | null {
     ? nodeId.slice(GROUP_CONTAINER_ID_PREFIX.length)
     : null;
 }
+
+/**
+ * Group container under the centre of a dropped node. Overlapping containers resolve to
+ * the smallest one, which is the most specific drop target.
+ */
+export function findDropGroupId(node: Node, nodes: Node[]): string | null {
+  const width = node.measured?.width ?? node.width ?? 0;
+  const height = node.measured?.height ?? node.height ?? 0;
+  const centerX = node.position.x + width / 2;
+  const centerY = node.position.y + height / 2;
+  let match: { groupId: string; area: number } | null = null;
+
+  for (const candidate of nodes) {
+    const groupId = getGroupIdFromContainer(candidate.id);
+    const containerWidth = Number(candidate.style?.width ?? candidate.width ?? 0);
+    const containerHeight = Number(candidate.style?.height ?? candidate.height ?? 0);
+    if (!groupId || containerWidth <= 0 || containerHeight <= 0) {
+      continue;
+    }
+    const inside =
+      centerX >= candidate.position.x &&
+      centerX <= candidate.position.x + containerWidth &&
+      centerY >= candidate.position.y &&
+      centerY <= candidate.position.y + containerHeight;
+    const area = containerWidth * containerHeight;
+    if (inside && (!match || area < match.area)) {
+      match = { groupId, area };
+    }
+  }
+
+  return match?.groupId ?? null;
+}
@@ -0,0 +1,14 @@
+import { GroupApiError } from './useGroupApi';
+
+export function formatGroupError(error: unknown, action = 'save group notes'): string {
+  if (error instanceof GroupApiError) {
+    if (error.type === 'token_missing' || error.type === 'forbidden') {
+      return `Token required to ${action} (run featuremap serve and paste token).`;
+    }
+    if (error.type === 'network') {
+      return 'Serve not running / API unavailable.';
+    }
+    return error.message;
+  }
+  return `Failed to ${action}.`;
+}
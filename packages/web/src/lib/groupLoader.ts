@@ -12,15 +12,16 @@ export async function loadGroups(
     return { groups: [], groupsById: {} };
   }
 
+  // index.yaml carries the display order chosen in the UI.
   const groupsById = await loadGroupsById(new Set(groupIds));
   const knownFeatureIds = new Set(featureDetailsById.keys());
-  const summaries = [...groupsById.values()].map((group) =>
-    buildGroupSummary(group, knownFeatureIds)
-  );
-  const sortedGroups = sortGroups(summaries);
+  const orderedGroups = groupIds
+    .map((groupId) => groupsById.get(groupId))
+    .filter((group): group is Group => Boolean(group))
+    .map((group) => buildGroupSummary(group, knownFeatureIds));
   return {
-    groups: sortedGroups,
-    groupsById: Object.fromEntries(sortedGroups.map((group) => [group.id, group])),
+    groups: orderedGroups,
+    groupsById: Object.fromEntries(orderedGroups.map((group) => [group.id, group])),
   };
 }
 
@@ -94,20 +95,11 @@ function buildGroupSummary(group: Group, knownFeatureIds: Set<string>): GroupSum
     note: group.note,
     featureIds,
     source: group.source,
+    ...(group.locks ? { locks: group.locks } : {}),
     ...(missingFeatureIds.length > 0 ? { missingFeatureIds } : {}),
   };
 }
 
-function sortGroups(groups: GroupSummary[]): GroupSummary[] {
-  return [...groups].sort((a, b) => {
-    const nameCompare = a.name.localeCompare(b.name);
-    if (nameCompare !== 0) {
-      return nameCompare;
-    }
-    return a.id.localeCompare(b.id);
-  });
-}
-
 function normalizeStringList(values: string[] | undefined): string[] {
   if (!Array.isArray(values)) {
     return [];
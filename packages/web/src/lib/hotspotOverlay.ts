@@ -0,0 +1,105 @@
+import type { Edge } from '@xyflow/react';
+import type { ChurnEntry, Hotspots, TemporalCoupling } from './contextTypes';
+import type { NodeMetric } from './metricOverlay';
+import type { ViewMode } from './types';
+
+export type HeatKey = 'none' | 'commits' | 'churn';
+
+export const HEAT_OPTIONS: Array<{ value: HeatKey; label: string; short: string }> = [
+  { value: 'none', label: 'Off', short: '' },
+  { value: 'commits', label: 'Commits', short: 'commits' },
+  { value: 'churn', label: 'Churn (lines)', short: 'churn' },
+];
+
+export const TEMPORAL_EDGE_TYPE = 'temporal';
+
+/**
+ * Commit or churn values of the current view's nodes from context/hotspots.yaml, scaled
+ * against the smallest and largest value in that view. The files view has no heat.
+ */
+export function buildNodeHeat(
+  hotspots: Hotspots | undefined,
+  viewMode: ViewMode,
+  heat: HeatKey
+): Map<string, NodeMetric> {
+  const result = new Map<string, NodeMetric>();
+  if (!hotspots || heat === 'none' || viewMode === 'files') {
+    return result;
+  }
+
+  const entries = viewMode === 'clusters' ? hotspots.clusters : hotspots.features;
+  const values = entries.map((entry) => entry[heat]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  entries.forEach((entry, index) => {
+    const value = values[index];
+    result.set(entry.id, { value, ratio: max > min ? (value - min) / (max - min) : 0 });
+  });
+  return result;
+}
+
+export function findChurnEntry(
+  hotspots: Hotspots | undefined,
+  kind: 'cluster' | 'feature',
+  id: string
+): ChurnEntry | undefined {
+  const entries = kind === 'cluster' ? hotspots?.clusters : hotspots?.features;
+  return entries?.find((entry) => entry.id === id);
+}
+
+/** Temporal coupling pairs of the view that involve `id`, strongest first. */
+export function findCoupledNodes(
+  hotspots: Hotspots | undefined,
+  kind: 'cluster' | 'feature',
+  id: string
+): Array<{ id: string; coChanges: number; degree: number }> {
+  const pairs = kind === 'cluster' ? hotspots?.coupling.clusters : hotspots?.coupling.features;
+  return (pairs ?? [])
+    .filter((pair) => pair.source === id || pair.target === id)
+    .map((pair) => ({
+      id: pair.source === id ? pair.target : pair.source,
+      coChanges: pair.coChanges,
+      degree: pair.degree,
+    }));
+}
+
+/** Transparent (cold) to saturated orange (hot) tint for the heat overlay. */
+export function getHeatColor(ratio: number): string {
+  const alpha = 0.08 + Math.min(1, Math.max(0, ratio)) * 0.5;
+  return `hsla(24, 95%, 50%, ${alpha.toFixed(2)})`;
+}
+
+/**
+ * Undirected dashed edges between visible nodes that change together without a
+ * dependency edge. They are added after layout so they do not move nodes.
+ */
+export function buildTemporalEdges(
+  hotspots: Hotspots | undefined,
+  viewMode: ViewMode,
+  visibleNodeIds: Set<string>
+): Edge[] {
+  if (!hotspots) {
+    return [];
+  }
+  const pairs: TemporalCoupling[] =
+    viewMode === 'files'
+      ? hotspots.coupling.files
+      : viewMode === 'clusters'
+      ? hotspots.coupling.clusters
+      : hotspots.coupling.features;
+
+  return pairs
+    .filter((pair) => visibleNodeIds.has(pair.source) && visibleNodeIds.has(pair.target))
+    .map((pair) => ({
+      id: `${TEMPORAL_EDGE_TYPE}:${pair.source}->${pair.target}`,
+      source: pair.source,
+      target: pair.target,
+      type: TEMPORAL_EDGE_TYPE,
+      label: `${pair.coChanges}×`,
+      className: 'edge-temporal',
+      selectable: false,
+      deletable: false,
+      focusable: false,
+      zIndex: 0,
+    }));
+}
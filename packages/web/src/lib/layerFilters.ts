@@ -1,13 +1,6 @@
-import type { FeatureDetails, GraphEdge, GraphNode, Layer, LayerFilter } from './types';
+import { BUILT_IN_LAYERS, type FeatureDetails, type GraphEdge, type GraphNode, type Layer, type LayerFilter } from './types';
 
-const LAYER_ORDER: Layer[] = [
-  'frontend',
-  'backend',
-  'fullstack',
-  'shared',
-  'infrastructure',
-  'smell',
-];
+const LAYER_ORDER: readonly Layer[] = BUILT_IN_LAYERS;
 
 export function deriveFeatureLayers(feature: FeatureDetails): Layer[] {
   const layers = new Set<Layer>();
@@ -43,10 +36,22 @@ export function applyLayerFilter(
   return { nodes: visibleNodes, edges: visibleEdges };
 }
 
-export function getLayerOrder(): Layer[] {
-  return [...LAYER_ORDER];
+/** Built-in layers, followed by any custom layers used by the given cluster nodes. */
+export function getLayerOrder(nodes: GraphNode[] = []): Layer[] {
+  const custom = new Set<Layer>();
+  for (const node of nodes) {
+    if (node.layer && !LAYER_ORDER.includes(node.layer)) {
+      custom.add(node.layer);
+    }
+  }
+  return sortLayers([...LAYER_ORDER, ...custom]);
 }
 
+/** Built-in layers in their fixed order, then custom layers alphabetically. */
 function sortLayers(layers: Layer[]): Layer[] {
-  return [...layers].sort((a, b) => LAYER_ORDER.indexOf(a) - LAYER_ORDER.indexOf(b));
+  const rank = (layer: Layer) => {
+    const index = LAYER_ORDER.indexOf(layer);
+    return index === -1 ? LAYER_ORDER.length : index;
+  };
+  return [...layers].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
 }
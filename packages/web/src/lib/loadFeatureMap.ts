@@ -14,6 +14,7 @@ import type {
 import { deriveFeatureLayers } from './layerFilters';
 import { loadGroups } from './groupLoader';
 import { loadComments } from './commentLoader';
+import { loadViews } from './viewLoader';
 import {
   loadClusterYamlSafe,
   loadClustersById,
@@ -66,6 +67,7 @@ export async function loadFeatureMap(): Promise<FeatureMapData> {
   const clusterGraphWithLayers = attachClusterLayers(clusterGraph, clustersById);
   const featureGraphWithLayers = attachFeatureLayers(featureGraph, featureDetailsById);
   const { groups, groupsById } = await loadGroups(featureDetailsById);
+  const views = await loadViews();
   const comments = await loadComments();
 
   const entities: Record<string, MapEntity> = {};
@@ -92,11 +94,12 @@ export async function loadFeatureMap(): Promise<FeatureMapData> {
     context,
     groups,
     groupsById,
+    views,
     comments,
   };
 }
 
-function buildClusterGraph(graph: GraphData): GraphData {
+export function buildClusterGraph(graph: GraphData): GraphData {
   const nodes = graph.nodes
     .filter((node) => node.type !== 'feature')
     .map((node) => normalizeNode(node, 'cluster'));
@@ -113,7 +116,7 @@ function buildClusterGraph(graph: GraphData): GraphData {
   };
 }
 
-function buildFeatureGraph(graph: GraphData): GraphData {
+export function buildFeatureGraph(graph: GraphData): GraphData {
   const nodes = graph.nodes
     .filter((node) => node.type === 'feature')
     .map((node) => normalizeNode(node, 'feature'));
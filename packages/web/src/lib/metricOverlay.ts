@@ -0,0 +1,96 @@
+import type { Metrics, MetricsEntry } from './contextTypes';
+import type { ViewMode } from './types';
+
+export type MetricKey =
+  | 'none'
+  | 'instability'
+  | 'abstractness'
+  | 'distance'
+  | 'afferentCoupling'
+  | 'efferentCoupling'
+  | 'fanIn'
+  | 'fanOut'
+  | 'linesOfCode'
+  | 'fileCount';
+
+export type MetricOverlayMode = 'color' | 'size';
+
+export interface NodeMetric {
+  value: number;
+  /** Position of the value between the smallest and largest value in the view (0..1). */
+  ratio: number;
+}
+
+export const METRIC_OPTIONS: Array<{ value: MetricKey; label: string; short: string }> = [
+  { value: 'none', label: 'None', short: '' },
+  { value: 'instability', label: 'Instability', short: 'I' },
+  { value: 'abstractness', label: 'Abstractness', short: 'A' },
+  { value: 'distance', label: 'Distance from main sequence', short: 'D' },
+  { value: 'afferentCoupling', label: 'Afferent coupling (Ca)', short: 'Ca' },
+  { value: 'efferentCoupling', label: 'Efferent coupling (Ce)', short: 'Ce' },
+  { value: 'fanIn', label: 'Fan-in', short: 'in' },
+  { value: 'fanOut', label: 'Fan-out', short: 'out' },
+  { value: 'linesOfCode', label: 'Lines of code', short: 'LOC' },
+  { value: 'fileCount', label: 'Files', short: 'files' },
+];
+
+const MIN_NODE_WIDTH = 160;
+const MAX_EXTRA_WIDTH = 120;
+
+/**
+ * Metric values of the current view's nodes from context/metrics.yaml, scaled against the
+ * smallest and largest value in that view. The files view has no metrics.
+ */
+export function buildNodeMetrics(
+  metrics: Metrics | undefined,
+  viewMode: ViewMode,
+  metric: MetricKey
+): Map<string, NodeMetric> {
+  const result = new Map<string, NodeMetric>();
+  if (!metrics || metric === 'none' || viewMode === 'files') {
+    return result;
+  }
+
+  const entries = viewMode === 'clusters' ? metrics.clusters : metrics.features;
+  const values = entries.map((entry) => readMetric(entry, metric));
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  entries.forEach((entry, index) => {
+    const value = values[index];
+    result.set(entry.id, { value, ratio: max > min ? (value - min) / (max - min) : 0 });
+  });
+  return result;
+}
+
+export function findMetricsEntry(
+  metrics: Metrics | undefined,
+  kind: 'cluster' | 'feature',
+  id: string
+): MetricsEntry | undefined {
+  const entries = kind === 'cluster' ? metrics?.clusters : metrics?.features;
+  return entries?.find((entry) => entry.id === id);
+}
+
+/** Green (low) to red (high) tint for the color overlay. */
+export function getMetricColor(ratio: number): string {
+  const hue = Math.round(120 - clampRatio(ratio) * 120);
+  return `hsla(${hue}, 70%, 45%, 0.35)`;
+}
+
+export function getMetricNodeWidth(ratio: number): number {
+  return Math.round(MIN_NODE_WIDTH + clampRatio(ratio) * MAX_EXTRA_WIDTH);
+}
+
+export function formatMetricValue(metric: MetricKey, value: number): string {
+  return metric === 'instability' || metric === 'abstractness' || metric === 'distance'
+    ? value.toFixed(2)
+    : String(value);
+}
+
+function readMetric(entry: MetricsEntry, metric: Exclude<MetricKey, 'none'>): number {
+  return entry[metric];
+}
+
+function clampRatio(ratio: number): number {
+  return Math.min(1, Math.max(0, ratio));
+}
@@ -0,0 +1,91 @@
+import type { Ownership, OwnershipEntry } from './contextTypes';
+import type { GraphEdge, GraphNode, ViewMode } from './types';
+
+/** `all`, `unowned` or an owner name from CODEOWNERS (`@user`, `@org/team`, email). */
+export type OwnerFilter = string;
+
+export const ALL_OWNERS: OwnerFilter = 'all';
+export const UNOWNED: OwnerFilter = 'unowned';
+
+/** Owners appearing in the current view's clusters or features, sorted by name. */
+export function listOwners(ownership: Ownership | undefined, viewMode: ViewMode): string[] {
+  const names = new Set<string>();
+  for (const entry of getEntries(ownership, viewMode)) {
+    entry.owners.forEach((owner) => names.add(owner.name));
+  }
+  return [...names].sort((a, b) => a.localeCompare(b));
+}
+
+export function findOwnershipEntry(
+  ownership: Ownership | undefined,
+  kind: 'cluster' | 'feature',
+  id: string
+): OwnershipEntry | undefined {
+  const entries = kind === 'cluster' ? ownership?.clusters : ownership?.features;
+  return entries?.find((entry) => entry.id === id);
+}
+
+/**
+ * Keeps nodes owned (in part) by the selected owner, or with unowned files for `unowned`.
+ * Nodes missing from context/ownership.yaml are hidden while a filter is active.
+ */
+export function applyOwnerFilter(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  ownership: Ownership | undefined,
+  viewMode: ViewMode,
+  selectedOwner: OwnerFilter
+): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  if (selectedOwner === ALL_OWNERS || !ownership || viewMode === 'files') {
+    return { nodes, edges };
+  }
+
+  const entriesById = new Map(getEntries(ownership, viewMode).map((entry) => [entry.id, entry]));
+  const visibleNodes = nodes.filter((node) => {
+    const entry = entriesById.get(node.id);
+    if (!entry) {
+      return false;
+    }
+    return selectedOwner === UNOWNED
+      ? entry.unownedFiles > 0
+      : entry.owners.some((owner) => owner.name === selectedOwner);
+  });
+
+  const visibleIds = new Set(visibleNodes.map((node) => node.id));
+  const visibleEdges = edges.filter(
+    (edge) => visibleIds.has(edge.source) && visibleIds.has(edge.target)
+  );
+
+  return { nodes: visibleNodes, edges: visibleEdges };
+}
+
+/** Main owner (most files) of each node in the view; unowned nodes are left out. */
+export function buildPrimaryOwners(
+  ownership: Ownership | undefined,
+  viewMode: ViewMode
+): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const entry of getEntries(ownership, viewMode)) {
+    if (entry.owners.length > 0) {
+      result.set(entry.id, entry.owners[0].name);
+    }
+  }
+  return result;
+}
+
+/** Stable tint per owner name, so an owner keeps its color across views and reloads. */
+export function getOwnerColor(owner: string): string {
+  let hash = 0;
+  for (let index = 0; index < owner.length; index += 1) {
+    hash = (hash * 31 + owner.charCodeAt(index)) | 0;
+  }
+  const hue = Math.abs(hash) % 360;
+  return `hsla(${hue}, 65%, 50%, 0.35)`;
+}
+
+function getEntries(ownership: Ownership | undefined, viewMode: ViewMode): OwnershipEntry[] {
+  if (!ownership || viewMode === 'files') {
+    return [];
+  }
+  return viewMode === 'clusters' ? ownership.clusters : ownership.features;
+}
@@ -0,0 +1,37 @@
+import { RawGraphSchema } from './types';
+import type { RawGraph } from './types';
+import { parseYamlWithSchema } from './yamlParsing';
+
+const DATA_BASE_URL = '/featuremap-data';
+
+/**
+ * Loads raw-graph.yaml (per-file dependencies). Returns null when the file has not been
+ * generated yet, e.g. for maps scanned with an older CLI.
+ */
+export async function loadRawGraph(): Promise<RawGraph | null> {
+  const response = await fetch(`${DATA_BASE_URL}/raw-graph.yaml`);
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return null;
+    }
+    throw new Error(`Failed to load raw-graph.yaml: ${response.statusText}`);
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const text = await response.text();
+
+  if (looksLikeHtml(text, contentType)) {
+    return null;
+  }
+
+  return parseYamlWithSchema(text, RawGraphSchema, 'raw-graph.yaml');
+}
+
+function looksLikeHtml(text: string, contentType: string): boolean {
+  const trimmed = text.trimStart().toLowerCase();
+  if (contentType.includes('text/html')) {
+    return true;
+  }
+  return trimmed.startsWith('<!doctype') || trimmed.startsWith('<html') || trimmed.startsWith('<head');
+}
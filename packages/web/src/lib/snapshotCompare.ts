@@ -0,0 +1,99 @@
+import { buildEdgeId } from './featureMapElements';
+import { buildClusterGraph, buildFeatureGraph } from './loadFeatureMap';
+import type { DiffStatus, GraphData, GraphEdge, Snapshot, ViewMode } from './types';
+
+export interface SnapshotComparison {
+  graph: GraphData;
+  nodeStatus: Map<string, DiffStatus>;
+  edgeStatus: Map<string, DiffStatus>;
+}
+
+/**
+ * Overlays a saved snapshot on the current view graph. Nodes and edges that only exist in
+ * the snapshot are appended so they can be drawn as removed; the rest are marked added.
+ */
+export function compareWithSnapshot(
+  current: GraphData,
+  snapshot: Snapshot,
+  viewMode: ViewMode
+): SnapshotComparison {
+  const snapshotGraph: GraphData = {
+    version: snapshot.version,
+    generatedAt: snapshot.createdAt,
+    nodes: snapshot.graph.nodes,
+    edges: snapshot.graph.edges,
+  };
+  const previous =
+    viewMode === 'clusters' ? buildClusterGraph(snapshotGraph) : buildFeatureGraph(snapshotGraph);
+  const clusterLayers = new Map(snapshot.clusters.map((cluster) => [cluster.id, cluster.layer]));
+
+  const nodeStatus = new Map<string, DiffStatus>();
+  const currentNodeIds = new Set(current.nodes.map((node) => node.id));
+  const previousNodeIds = new Set(previous.nodes.map((node) => node.id));
+  for (const node of current.nodes) {
+    if (!previousNodeIds.has(node.id)) {
+      nodeStatus.set(node.id, 'added');
+    }
+  }
+  const removedNodes = previous.nodes
+    .filter((node) => !currentNodeIds.has(node.id))
+    .map((node) => {
+      const layer = clusterLayers.get(node.id);
+      return viewMode === 'clusters' && layer ? { ...node, layer } : node;
+    });
+  for (const node of removedNodes) {
+    nodeStatus.set(node.id, 'removed');
+  }
+
+  const edgeStatus = new Map<string, DiffStatus>();
+  const currentEdgeKeys = new Set(current.edges.map(getEdgeKey));
+  const previousEdgeKeys = new Set(previous.edges.map(getEdgeKey));
+  for (const edge of current.edges) {
+    if (!previousEdgeKeys.has(getEdgeKey(edge))) {
+      edgeStatus.set(getEdgeKey(edge), 'added');
+    }
+  }
+  const removedEdges = previous.edges.filter((edge) => !currentEdgeKeys.has(getEdgeKey(edge)));
+  for (const edge of removedEdges) {
+    edgeStatus.set(getEdgeKey(edge), 'removed');
+  }
+
+  return {
+    graph: {
+      ...current,
+      nodes: [...current.nodes, ...removedNodes],
+      edges: [...current.edges, ...removedEdges],
+    },
+    nodeStatus,
+    edgeStatus,
+  };
+}
+
+/**
+ * Edge ids (as rendered) grouped by diff status, for the edges left after filtering.
+ */
+export function buildDiffEdgeIds(
+  edges: GraphData['edges'],
+  edgeStatus: Map<string, DiffStatus> | undefined
+): { addedEdgeIds: Set<string>; removedEdgeIds: Set<string> } {
+  const addedEdgeIds = new Set<string>();
+  const removedEdgeIds = new Set<string>();
+  if (!edgeStatus || edgeStatus.size === 0) {
+    return { addedEdgeIds, removedEdgeIds };
+  }
+
+  edges.forEach((edge, index) => {
+    const status = edgeStatus.get(getEdgeKey(edge));
+    if (status === 'added') {
+      addedEdgeIds.add(buildEdgeId(edge, index));
+    } else if (status === 'removed') {
+      removedEdgeIds.add(buildEdgeId(edge, index));
+    }
+  });
+
+  return { addedEdgeIds, removedEdgeIds };
+}
+
+function getEdgeKey(edge: GraphEdge): string {
+  return `${edge.type ?? ''}|${edge.source}->${edge.target}`;
+}
@@ -0,0 +1,50 @@
+import { SnapshotIndexSchema, SnapshotSchema } from './types';
+import type { Snapshot, SnapshotSummary } from './types';
+import { parseYamlWithSchema } from './yamlParsing';
+
+const DATA_BASE_URL = '/featuremap-data';
+
+export async function loadSnapshotIndex(): Promise<SnapshotSummary[]> {
+  const response = await fetch(`${DATA_BASE_URL}/history/index.yaml`);
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return [];
+    }
+    throw new Error(`Failed to load history index: ${response.statusText}`);
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const text = await response.text();
+
+  if (looksLikeHtml(text, contentType)) {
+    return [];
+  }
+
+  try {
+    const parsed = parseYamlWithSchema(text, SnapshotIndexSchema, 'history/index.yaml');
+    return [...parsed.snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.warn('Failed to parse history/index.yaml:', error);
+    return [];
+  }
+}
+
+export async function loadSnapshot(snapshotId: string): Promise<Snapshot> {
+  const response = await fetch(`${DATA_BASE_URL}/history/${encodeURIComponent(snapshotId)}.yaml`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load snapshot ${snapshotId}: ${response.statusText}`);
+  }
+
+  const text = await response.text();
+  return parseYamlWithSchema(text, SnapshotSchema, `history/${snapshotId}.yaml`);
+}
+
+function looksLikeHtml(text: string, contentType: string): boolean {
+  const trimmed = text.trimStart().toLowerCase();
+  if (contentType.includes('text/html')) {
+    return true;
+  }
+  return trimmed.startsWith('<!doctype') || trimmed.startsWith('<html') || trimmed.startsWith('<head');
+}
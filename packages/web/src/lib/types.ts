@@ -4,20 +4,25 @@ import type { CommentNode as CommentNodeType } from './commentTypes';
 
 // РўРёРїС< Р?Р°Р?Р?С<С: Р?Р>С? FeatureMap
 
-export type NodeType = 'cluster' | 'feature';
-export type ViewMode = 'clusters' | 'features';
+export type NodeType = 'cluster' | 'feature' | 'file';
+export type ViewMode = 'clusters' | 'features' | 'files';
 export type EdgeStyle = 'bezier' | 'straight' | 'step' | 'smoothstep';
 
-const LayerSchema = z.enum([
+export const BUILT_IN_LAYERS = [
   'frontend',
   'backend',
+  'fullstack',
   'shared',
   'infrastructure',
-  'fullstack',
   'smell',
-]);
+] as const;
+
+export type BuiltInLayer = (typeof BUILT_IN_LAYERS)[number];
+
+// Custom layers come from `layers` in config.yaml.
+const LayerSchema = z.string().regex(/^[a-z][a-z0-9-]*$/);
 
-export type Layer = z.infer<typeof LayerSchema>;
+export type Layer = BuiltInLayer | (string & {});
 export type LayerFilter = Layer | 'all';
 
 const GroupSourceSchema = z.enum(['ai', 'user']);
@@ -51,6 +56,7 @@ export const GroupSchema = z
 
 export type Group = z.infer<typeof GroupSchema>;
 export type GroupSource = z.infer<typeof GroupSourceSchema>;
+export type GroupLocks = z.infer<typeof GroupLocksSchema>;
 
 export const GroupIndexSchema = z.object({
   version: z.number().optional(),
@@ -69,10 +75,15 @@ export const GraphNodeSchema = z
   })
   .passthrough();
 
+const ImportKindSchema = z.enum(['static', 'reexport', 'dynamic', 'require']);
+
+export type ImportKind = z.infer<typeof ImportKindSchema>;
+
 const EdgeImportDetailSchema = z.object({
   symbol: z.string(),
   sourceFiles: z.array(z.string()),
   targetFile: z.string().optional(),
+  kind: ImportKindSchema.optional(),
 });
 
 export const GraphEdgeSchema = z
@@ -81,6 +92,7 @@ export const GraphEdgeSchema = z
     target: z.string(),
     type: z.string().optional(),
     imports: z.array(EdgeImportDetailSchema).optional(),
+    importKinds: z.array(ImportKindSchema).optional(),
   })
   .passthrough();
 
@@ -120,6 +132,39 @@ export const LayoutSchema = z.object({
 
 export type Layout = z.infer<typeof LayoutSchema>;
 
+export const SavedViewSchema = z
+  .object({
+    version: z.number(),
+    id: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    viewMode: z.enum(['clusters', 'features']),
+    filters: z
+      .object({
+        layer: z.string().optional(),
+        groupId: z.string().optional(),
+        owner: z.string().optional(),
+      })
+      .optional(),
+    collapsedGroupIds: z.array(z.string()).optional(),
+    edgeStyle: z.enum(['bezier', 'straight', 'step', 'smoothstep']).optional(),
+    positions: z.record(z.string(), LayoutPositionSchema).optional(),
+    viewport: LayoutViewportSchema.optional(),
+    metadata: z.object({
+      createdAt: z.string(),
+      updatedAt: z.string(),
+    }),
+  })
+  .passthrough();
+
+export type SavedView = z.infer<typeof SavedViewSchema>;
+export type LayoutViewport = z.infer<typeof LayoutViewportSchema>;
+
+export const SavedViewIndexSchema = z.object({
+  version: z.number().optional(),
+  views: z.array(z.string()),
+});
+
 const ClusterExportSchema = z.object({
   name: z.string(),
   type: z.string(),
@@ -227,6 +272,67 @@ export type MapEntity =
   | { kind: 'cluster'; label: string; data: Cluster }
   | { kind: 'feature'; label: string; data: FeatureDetails };
 
+export const SnapshotIndexSchema = z.object({
+  version: z.number().optional(),
+  snapshots: z.array(z.object({ id: z.string(), createdAt: z.string() })),
+});
+
+export type SnapshotSummary = z.infer<typeof SnapshotIndexSchema>['snapshots'][number];
+
+export const SnapshotSchema = z
+  .object({
+    version: z.number(),
+    id: z.string(),
+    createdAt: z.string(),
+    graph: z.object({
+      nodes: z.array(GraphNodeSchema),
+      edges: z.array(GraphEdgeSchema),
+    }),
+    clusters: z.array(
+      z.object({
+        id: z.string(),
+        layer: LayerSchema,
+        files: z.array(z.string()),
+        compositionHash: z.string(),
+      })
+    ),
+    features: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        status: z.string(),
+        clusters: z.array(z.string()),
+        compositionHash: z.string(),
+      })
+    ),
+  })
+  .passthrough();
+
+export type Snapshot = z.infer<typeof SnapshotSchema>;
+
+export type DiffStatus = 'added' | 'removed';
+
+export const RawGraphSchema = z
+  .object({
+    version: z.number(),
+    generatedAt: z.string(),
+    files: z.record(
+      z.string(),
+      z.object({ linesOfCode: z.number() }).passthrough()
+    ),
+    dependencies: z.record(z.string(), z.array(z.string())),
+    clusters: z.array(z.object({ id: z.string(), files: z.array(z.string()) })).optional(),
+  })
+  .passthrough();
+
+export type RawGraph = z.infer<typeof RawGraphSchema>;
+
+/** Cluster or feature whose files are shown in the files view. */
+export interface FileScope {
+  kind: 'cluster' | 'feature';
+  id: string;
+}
+
 export interface GroupSummary {
   id: string;
   name: string;
@@ -234,6 +340,7 @@ export interface GroupSummary {
   note?: string;
   featureIds: string[];
   source?: GroupSource;
+  locks?: GroupLocks;
   missingFeatureIds?: string[];
 }
 
@@ -246,6 +353,8 @@ export interface FeatureMapData {
   context: ContextData;
   groups: GroupSummary[];
   groupsById: Record<string, GroupSummary>;
+  /** Saved views from `views/*.yaml`, sorted by name. */
+  views: SavedView[];
   comments: CommentNodeType[];
 }
 
@@ -0,0 +1,171 @@
+import type { LayerFilter, LayoutViewport, SavedView, ViewMode } from './types';
+
+const VIEW_MODES: ViewMode[] = ['clusters', 'features', 'files'];
+
+export interface EdgeRef {
+  source: string;
+  target: string;
+}
+
+/** Everything the map encodes in its query string. */
+export interface MapUrlState {
+  viewId: string | null;
+  viewMode: ViewMode;
+  /** Cluster or feature whose files the files view shows. */
+  scopeId: string | null;
+  nodeId: string | null;
+  edge: EdgeRef | null;
+  /** Group shown in the details panel (not the group filter). */
+  groupDetailsId: string | null;
+  commentId: string | null;
+  layer: LayerFilter;
+  groupFilter: string;
+  /** Null while the search palette is closed. */
+  searchQuery: string | null;
+  viewport: LayoutViewport | null;
+}
+
+/** Values that are left out of the URL; a saved view supplies its own. */
+export interface MapUrlDefaults {
+  viewMode: ViewMode;
+  layer: LayerFilter;
+  groupFilter: string;
+}
+
+/** URL state as parsed: omitted mode and filters fall back to the defaults of the linked view. */
+export type ParsedMapUrlState = Omit<MapUrlState, 'viewMode' | 'layer' | 'groupFilter'> &
+  Partial<Pick<MapUrlState, 'viewMode' | 'layer' | 'groupFilter'>>;
+
+export function getUrlDefaults(view: SavedView | null): MapUrlDefaults {
+  return {
+    viewMode: view?.viewMode ?? 'clusters',
+    layer: view?.filters?.layer ?? 'all',
+    groupFilter: view?.filters?.groupId ?? 'all',
+  };
+}
+
+export function resolveUrlState(parsed: ParsedMapUrlState, defaults: MapUrlDefaults): MapUrlState {
+  return {
+    ...parsed,
+    viewMode: parsed.viewMode ?? defaults.viewMode,
+    layer: parsed.layer ?? defaults.layer,
+    groupFilter: parsed.groupFilter ?? defaults.groupFilter,
+  };
+}
+
+export function parseUrlState(search: string): ParsedMapUrlState {
+  const params = new URLSearchParams(search);
+  const read = (key: string) => params.get(key)?.trim() || null;
+  const mode = read('mode');
+  const query = params.get('q');
+
+  return {
+    viewId: read('view'),
+    viewMode: VIEW_MODES.find((entry) => entry === mode),
+    scopeId: read('scope'),
+    nodeId: read('node'),
+    edge: parseEdge(read('edge')),
+    groupDetailsId: read('group'),
+    commentId: read('comment'),
+    layer: read('layer') ?? undefined,
+    groupFilter: read('groupFilter') ?? undefined,
+    searchQuery: query,
+    viewport: parseViewport(read('vp')),
+  };
+}
+
+const URL_STATE_KEYS = ['view', 'mode', 'scope', 'node', 'edge', 'group', 'comment', 'layer', 'groupFilter', 'q', 'vp'];
+
+/** Builds the map's own query parameters; values equal to the defaults are omitted so plain links stay short. */
+export function buildUrlSearch(state: MapUrlState, defaults: MapUrlDefaults): string {
+  const entries: Array<[string, string | null]> = [
+    ['view', state.viewId],
+    ['mode', state.viewMode === defaults.viewMode ? null : state.viewMode],
+    ['scope', state.viewMode === 'files' ? state.scopeId : null],
+    ['node', state.nodeId],
+    ['edge', state.edge ? `${state.edge.source},${state.edge.target}` : null],
+    ['group', state.groupDetailsId],
+    ['comment', state.commentId],
+    ['layer', state.layer === defaults.layer ? null : state.layer],
+    ['groupFilter', state.groupFilter === defaults.groupFilter ? null : state.groupFilter],
+    ['q', state.searchQuery],
+    ['vp', state.viewport ? formatViewport(state.viewport) : null],
+  ];
+  const params = new URLSearchParams();
+  for (const [key, value] of entries) {
+    if (value !== null) {
+      params.set(key, value);
+    }
+  }
+  return params.toString();
+}
+
+/** Replaces the map's parameters in a query string, keeping any it does not own. */
+export function mergeUrlSearch(currentSearch: string, stateSearch: string): string {
+  const params = new URLSearchParams(currentSearch);
+  URL_STATE_KEYS.forEach((key) => params.delete(key));
+  new URLSearchParams(stateSearch).forEach((value, key) => params.set(key, value));
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+/**
+ * Key of the parts of the state that count as navigation. Changing it adds a browser history
+ * entry; viewport and search-query changes only replace the current one.
+ */
+export function buildNavigationKey(state: MapUrlState): string {
+  return JSON.stringify([
+    state.viewId,
+    state.viewMode,
+    state.viewMode === 'files' ? state.scopeId : null,
+    state.nodeId,
+    state.edge,
+    state.groupDetailsId,
+    state.commentId,
+    state.layer,
+    state.groupFilter,
+    state.searchQuery !== null,
+  ]);
+}
+
+/**
+ * True when `state` is `restored` with some of its links dropped: the map clears nodes, groups
+ * and comments it cannot show and resets unknown filters while it settles a restored URL.
+ */
+export function isSettledFrom(state: MapUrlState, restored: MapUrlState): boolean {
+  const keptOrCleared = <T>(value: T, restoredValue: T, cleared: T) =>
+    value === restoredValue || value === cleared;
+  return (
+    keptOrCleared(state.viewId, restored.viewId, null) &&
+    state.viewMode === restored.viewMode &&
+    keptOrCleared(state.scopeId, restored.scopeId, null) &&
+    keptOrCleared(state.nodeId, restored.nodeId, null) &&
+    (state.edge === null || JSON.stringify(state.edge) === JSON.stringify(restored.edge)) &&
+    keptOrCleared(state.groupDetailsId, restored.groupDetailsId, null) &&
+    keptOrCleared(state.commentId, restored.commentId, null) &&
+    keptOrCleared(state.layer, restored.layer, 'all') &&
+    keptOrCleared(state.groupFilter, restored.groupFilter, 'all') &&
+    (state.searchQuery !== null) === (restored.searchQuery !== null)
+  );
+}
+
+function parseEdge(value: string | null): EdgeRef | null {
+  const separator = value?.indexOf(',') ?? -1;
+  if (!value || separator <= 0 || separator === value.length - 1) {
+    return null;
+  }
+  return { source: value.slice(0, separator), target: value.slice(separator + 1) };
+}
+
+function parseViewport(value: string | null): LayoutViewport | null {
+  const parts = value?.split(',').map(Number) ?? [];
+  if (parts.length !== 3 || parts.some((part) => !Number.isFinite(part)) || parts[2] <= 0) {
+    return null;
+  }
+  const [x, y, zoom] = parts;
+  return { x, y, zoom };
+}
+
+function formatViewport(viewport: LayoutViewport): string {
+  return [Math.round(viewport.x), Math.round(viewport.y), Number(viewport.zoom.toFixed(2))].join(',');
+}
@@ -23,7 +23,7 @@ export function useCommentDeletion({
         return;
       }
 
-      if (comment.status === 'draft') {
+      if (comment.persistence === 'draft') {
         setComments((prev) => prev.filter((entry) => entry.id !== id));
         return;
       }
@@ -69,7 +69,7 @@ export function useCommentPersistence({
   const buildPayload = useCallback(
     (comment: UiComment, override: Partial<CommentUpsertPayload> = {}): CommentUpsertPayload => {
       return {
-        ...(comment.status === 'saved' ? { id: comment.id } : {}),
+        ...(comment.persistence === 'saved' ? { id: comment.id } : {}),
         homeView: override.homeView ?? comment.homeView,
         content: override.content ?? comment.content,
         position: override.position ?? comment.position,
@@ -92,7 +92,7 @@ export function useCommentPersistence({
       suppressValidationError = false
     ) => {
       const errorMessage = validateComment(comment);
-      if (comment.status === 'draft' && errorMessage) {
+      if (comment.persistence === 'draft' && errorMessage) {
         if (!suppressValidationError) {
           setSaveState(comment.id, 'idle');
         }
@@ -102,7 +102,7 @@ export function useCommentPersistence({
       setSaveState(comment.id, 'saving');
       try {
         const payload =
-          comment.status === 'draft'
+          comment.persistence === 'draft'
             ? buildPayload(comment, override)
             : { id: comment.id, ...(comment.homeView ? { homeView: comment.homeView } : {}), ...override };
         const saved = await upsertComment(payload);
@@ -112,7 +112,7 @@ export function useCommentPersistence({
           const next: UiComment = {
             ...saved,
             pinned: resolvedPinned,
-            status: 'saved',
+            persistence: 'saved',
             isDirty: false,
             isEditing: false,
             saveError: null,
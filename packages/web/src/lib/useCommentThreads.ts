@@ -0,0 +1,76 @@
+import { useCallback } from 'react';
+import type { CommentNode, CommentStatus } from './commentTypes';
+import type { UiComment } from './commentsMode';
+import {
+  CommentsApiError,
+  type CommentReplyPayload,
+  type CommentStatusPayload,
+} from './useCommentsApi';
+
+interface UseCommentThreadsInput {
+  addReply: (id: string, payload: CommentReplyPayload) => Promise<CommentNode>;
+  setStatus: (id: string, payload: CommentStatusPayload) => Promise<CommentNode>;
+  updateComment: (id: string, updater: (comment: UiComment) => UiComment) => void;
+}
+
+interface CommentThreadsResult {
+  replyToComment: (id: string, content: string, author?: string) => Promise<void>;
+  setCommentStatus: (id: string, status: CommentStatus, resolvedBy?: string) => Promise<void>;
+}
+
+/** Replies and resolve/reopen for saved comments; both go straight to the server. */
+export function useCommentThreads({
+  addReply,
+  setStatus,
+  updateComment,
+}: UseCommentThreadsInput): CommentThreadsResult {
+  const runThreadAction = useCallback(
+    async (id: string, action: () => Promise<CommentNode>, fallbackError: string) => {
+      updateComment(id, (entry) => ({ ...entry, saveState: 'saving', saveError: null }));
+      try {
+        const saved = await action();
+        updateComment(id, (entry) => ({
+          ...entry,
+          replies: saved.replies,
+          status: saved.status,
+          resolvedBy: saved.resolvedBy,
+          resolvedAt: saved.resolvedAt,
+          updatedAt: saved.updatedAt,
+          saveState: 'idle',
+          saveError: null,
+        }));
+      } catch (error) {
+        const message =
+          error instanceof CommentsApiError
+            ? error.type === 'token_missing' || error.type === 'forbidden'
+              ? 'Token required to update comments (run featuremap serve and paste token).'
+              : error.message
+            : fallbackError;
+        updateComment(id, (entry) => ({ ...entry, saveState: 'error', saveError: message }));
+      }
+    },
+    [updateComment]
+  );
+
+  const replyToComment = useCallback(
+    (id: string, content: string, author?: string) =>
+      runThreadAction(
+        id,
+        () => addReply(id, { content, ...(author ? { author } : {}) }),
+        'Failed to add reply.'
+      ),
+    [addReply, runThreadAction]
+  );
+
+  const setCommentStatus = useCallback(
+    (id: string, status: CommentStatus, resolvedBy?: string) =>
+      runThreadAction(
+        id,
+        () => setStatus(id, { status, ...(resolvedBy ? { resolvedBy } : {}) }),
+        'Failed to update comment status.'
+      ),
+    [runThreadAction, setStatus]
+  );
+
+  return { replyToComment, setCommentStatus };
+}
@@ -1,5 +1,5 @@
 import { useCallback } from 'react';
-import type { CommentLink, CommentNode, CommentPosition } from './commentTypes';
+import type { CommentLink, CommentNode, CommentPosition, CommentStatus } from './commentTypes';
 
 const SESSION_TOKEN_KEY = 'featuremap-session-token';
 
@@ -35,6 +35,16 @@ export interface CommentUpsertPayload {
   updatedAt?: string;
 }
 
+export interface CommentReplyPayload {
+  content: string;
+  author?: string;
+}
+
+export interface CommentStatusPayload {
+  status: CommentStatus;
+  resolvedBy?: string;
+}
+
 function readSessionToken(): string {
   if (typeof window === 'undefined') {
     return '';
@@ -152,5 +162,69 @@ export function useCommentsApi() {
     }
   }, []);
 
-  return { upsertComment, deleteComment };
+  const addReply = useCallback(
+    (id: string, payload: CommentReplyPayload) =>
+      postCommentAction(`/api/comments/${id}/replies`, payload),
+    []
+  );
+
+  const setStatus = useCallback(
+    (id: string, payload: CommentStatusPayload) =>
+      postCommentAction(`/api/comments/${id}/resolve`, payload),
+    []
+  );
+
+  return { upsertComment, deleteComment, addReply, setStatus };
+}
+
+async function postCommentAction(endpoint: string, payload: unknown): Promise<CommentNode> {
+  const token = readSessionToken();
+  if (!token) {
+    throw new CommentsApiError('token_missing', 'Invalid or missing token.');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-featuremap-token': token,
+      },
+      body: JSON.stringify(payload),
+    });
+  } catch {
+    throw new CommentsApiError('network', 'Serve not running / API unavailable');
+  }
+
+  if (response.status === 403) {
+    throw new CommentsApiError('forbidden', 'Invalid or missing token.', 403);
+  }
+
+  if (response.status === 404) {
+    throw new CommentsApiError('network', 'Serve not running / API unavailable', 404);
+  }
+
+  if (response.status === 400) {
+    let message = 'Validation or permission error.';
+    try {
+      const body = (await response.json()) as { error?: string } | null;
+      if (body?.error) {
+        message = body.error;
+      }
+    } catch {
+      // ignore parsing errors
+    }
+    throw new CommentsApiError('bad_request', message, 400);
+  }
+
+  if (!response.ok) {
+    throw new CommentsApiError('unknown', `Request failed (${response.status}).`, response.status);
+  }
+
+  try {
+    return (await response.json()) as CommentNode;
+  } catch {
+    throw new CommentsApiError('unknown', 'Invalid response from server.');
+  }
 }
@@ -16,6 +16,7 @@ import { useCommentPersistence } from './useCommentPersistence';
 import { useCommentDeletion } from './useCommentDeletion';
 import { useOrphanedComments } from './useOrphanedComments';
 import { useCommentsApi } from './useCommentsApi';
+import { useCommentThreads } from './useCommentThreads';
 
 interface UseCommentsToolInput {
   data: FeatureMapData | null;
@@ -23,6 +24,8 @@ interface UseCommentsToolInput {
   currentView: 'features' | 'clusters';
   selectedCommentId?: string | null;
   showComments: boolean;
+  /** Hide resolved and won't-fix threads. */
+  hideResolved?: boolean;
   reactFlowInstance: ReactFlowInstance | null;
   readOnly?: boolean;
 }
@@ -45,12 +48,13 @@ export function useCommentsTool({
   currentView,
   selectedCommentId,
   showComments,
+  hideResolved = false,
   reactFlowInstance,
   readOnly = false,
 }: UseCommentsToolInput): UseCommentsToolResult {
   const [commentToolMode, setCommentToolMode] = useState<CommentToolMode>('off');
   const [comments, setComments] = useState<UiComment[]>([]);
-  const { upsertComment, deleteComment } = useCommentsApi();
+  const { upsertComment, deleteComment, addReply, setStatus } = useCommentsApi();
   useEffect(() => {
     if (!data) {
       return;
@@ -96,6 +100,12 @@ export function useCommentsTool({
     setComments,
   });
 
+  const { replyToComment, setCommentStatus } = useCommentThreads({
+    addReply,
+    setStatus,
+    updateComment,
+  });
+
   const { promptOrphan } = useOrphanedComments({
     comments,
     canPersist,
@@ -133,7 +143,7 @@ export function useCommentsTool({
           saveError: null,
         };
         setComments((prev) => prev.map((entry) => (entry.id === id ? nextComment : entry)));
-        if (nextComment.status === 'draft' && !canPersist(nextComment)) {
+        if (nextComment.persistence === 'draft' && !canPersist(nextComment)) {
           return;
         }
         persistComment(nextComment, { content: nextContent });
@@ -159,7 +169,7 @@ export function useCommentsTool({
         const nextPinned = !comment.pinned;
         const next: UiComment = { ...comment, pinned: nextPinned, isDirty: true };
         updateComment(id, () => next);
-        if (comment.status === 'saved') {
+        if (comment.persistence === 'saved') {
           if (next.links.length === 0 && !nextPinned) {
             promptOrphan(next);
             return;
@@ -167,12 +177,33 @@ export function useCommentsTool({
           persistComment(next, { pinned: nextPinned, links: next.links }, false);
           return;
         }
-        if (comment.status === 'draft' && !comment.isEditing && canPersist(next)) {
+        if (comment.persistence === 'draft' && !comment.isEditing && canPersist(next)) {
           persistComment(next, { pinned: nextPinned }, false);
         }
       },
+      onReply: (id, content, author) => {
+        if (readOnly) {
+          return;
+        }
+        void replyToComment(id, content, author);
+      },
+      onSetStatus: (id, status, resolvedBy) => {
+        if (readOnly) {
+          return;
+        }
+        void setCommentStatus(id, status, resolvedBy);
+      },
     }),
-    [canPersist, comments, persistComment, promptOrphan, readOnly, updateComment]
+    [
+      canPersist,
+      comments,
+      persistComment,
+      promptOrphan,
+      readOnly,
+      replyToComment,
+      setCommentStatus,
+      updateComment,
+    ]
   );
 
   const commentElements = useMemo(() => {
@@ -185,9 +216,10 @@ export function useCommentsTool({
       currentView,
       selectedCommentId,
       showComments,
+      hideResolved,
       handlers,
     });
-  }, [comments, currentView, handlers, selectedCommentId, showComments, visibleGraph]);
+  }, [comments, currentView, handlers, hideResolved, selectedCommentId, showComments, visibleGraph]);
 
   const handleNodeClick = useCallback((nodeId: string): boolean => {
     return isCommentNodeId(nodeId);
@@ -267,7 +299,7 @@ export function useCommentsTool({
         id: linkId,
       });
       updateComment(commentId, () => next);
-      if (comment.status === 'saved') {
+      if (comment.persistence === 'saved') {
         if (next.links.length === 0 && !next.pinned) {
           promptOrphan(next);
           return;
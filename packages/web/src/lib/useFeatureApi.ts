@@ -0,0 +1,111 @@
+import { useCallback } from 'react';
+import type { Feature } from './types';
+
+const SESSION_TOKEN_KEY = 'featuremap-session-token';
+
+export type FeatureApiErrorType =
+  | 'token_missing'
+  | 'forbidden'
+  | 'bad_request'
+  | 'network'
+  | 'unknown';
+
+export class FeatureApiError extends Error {
+  type: FeatureApiErrorType;
+  status?: number;
+
+  constructor(type: FeatureApiErrorType, message: string, status?: number) {
+    super(message);
+    this.type = type;
+    this.status = status;
+  }
+}
+
+export interface FeatureUpdateInput {
+  name?: string;
+  description?: string | null;
+  purpose?: string | null;
+  status?: Feature['status'];
+  scope?: Feature['scope'];
+  clusters?: string[];
+}
+
+export interface FeatureUpdateResult {
+  feature: Feature;
+  changed: string[];
+}
+
+function readSessionToken(): string {
+  if (typeof window === 'undefined') {
+    return '';
+  }
+
+  try {
+    return sessionStorage.getItem(SESSION_TOKEN_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function useFeatureApi() {
+  const updateFeature = useCallback(
+    async (featureId: string, input: FeatureUpdateInput): Promise<FeatureUpdateResult> => {
+      const endpoint = `/api/features/${featureId}`;
+      const token = readSessionToken();
+      if (!token) {
+        throw new FeatureApiError('token_missing', 'Invalid or missing token.');
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-featuremap-token': token,
+          },
+          body: JSON.stringify(input),
+        });
+      } catch {
+        throw new FeatureApiError('network', 'Serve not running / API unavailable');
+      }
+
+      if (response.status === 403) {
+        logApiError(endpoint, response.status, 'Forbidden');
+        throw new FeatureApiError('forbidden', 'Invalid or missing token.', 403);
+      }
+
+      if (response.status === 400) {
+        let message = 'Validation error.';
+        try {
+          const body = (await response.json()) as { error?: string } | null;
+          if (body?.error) {
+            message = body.error;
+          }
+        } catch {
+          // ignore parsing errors
+        }
+        logApiError(endpoint, response.status, message);
+        throw new FeatureApiError('bad_request', message, 400);
+      }
+
+      if (!response.ok) {
+        logApiError(endpoint, response.status, response.statusText);
+        throw new FeatureApiError(
+          'unknown',
+          `Request failed (${response.status}).`,
+          response.status
+        );
+      }
+
+      return (await response.json()) as FeatureUpdateResult;
+    },
+    []
+  );
+
+  return { updateFeature };
+}
+
+function logApiError(endpoint: string, status: number, message: string): void {
+  console.error('API request failed', { endpoint, status, message });
+}
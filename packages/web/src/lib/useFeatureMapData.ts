@@ -1,13 +1,17 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import type { FeatureMapData } from './types';
 import { loadComments } from './commentLoader';
 import { loadFeatureMap } from './loadFeatureMap';
 import { connectFeaturemapWs } from './wsClient';
 
+// Watch-mode rescans emit clusters_updated and graph_updated back to back.
+const RELOAD_COALESCE_MS = 150;
+
 export function useFeatureMapData() {
   const [data, setData] = useState<FeatureMapData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const reloadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const loadData = useCallback(async (options?: { showLoading?: boolean }) => {
     const showLoading = options?.showLoading ?? true;
@@ -54,6 +58,21 @@ export function useFeatureMapData() {
     []
   );
 
+  const updateViewPositions = useCallback(
+    (viewId: string, positions: Record<string, { x: number; y: number }>) => {
+      setData((prev) => {
+        if (!prev) {
+          return prev;
+        }
+        const views = prev.views.map((view) =>
+          view.id === viewId ? { ...view, positions: { ...view.positions, ...positions } } : view
+        );
+        return { ...prev, views };
+      });
+    },
+    []
+  );
+
   const updateGroupNote = useCallback((groupId: string, note: string | null) => {
     setData((prev) => {
       if (!prev) {
@@ -98,10 +117,22 @@ export function useFeatureMapData() {
           refreshComments();
           return;
         }
-        loadData({ showLoading: false });
+        if (reloadTimerRef.current) {
+          clearTimeout(reloadTimerRef.current);
+        }
+        reloadTimerRef.current = setTimeout(() => {
+          reloadTimerRef.current = null;
+          loadData({ showLoading: false });
+        }, RELOAD_COALESCE_MS);
       }
     });
-    return disconnect;
+    return () => {
+      if (reloadTimerRef.current) {
+        clearTimeout(reloadTimerRef.current);
+        reloadTimerRef.current = null;
+      }
+      disconnect();
+    };
   }, [loadData, refreshComments]);
 
   return {
@@ -110,6 +141,7 @@ export function useFeatureMapData() {
     loading,
     loadData,
     updateLayoutPositions,
+    updateViewPositions,
     updateGroupNote,
   };
 }
@@ -0,0 +1,80 @@
+import { useCallback, useMemo, useState } from 'react';
+import { buildFileGraph, resolveFileScope } from './fileGraph';
+import type { FeatureMapData, FileScope, ViewMode } from './types';
+import { useRawGraph } from './useRawGraph';
+
+interface UseFileScopeOptions {
+  data: FeatureMapData | null;
+  viewMode: ViewMode;
+  selectedNodeId: string | null;
+}
+
+/**
+ * Drill-down from a cluster or feature into its files: the scope, the focused file and the
+ * file graph built from raw-graph.yaml while the files view is open. In the files view the
+ * sidebar keeps showing the cluster of the selected file, or the scope itself.
+ */
+export function useFileScope({ data, viewMode, selectedNodeId }: UseFileScopeOptions) {
+  const [fileScope, setFileScope] = useState<FileScope | null>(null);
+  const [focusedFilePath, setFocusedFilePath] = useState<string | null>(null);
+  const { rawGraph, rawGraphLoaded, rawGraphError } = useRawGraph(viewMode === 'files', data);
+
+  const fileGraph = useMemo(
+    () => (data && rawGraph && fileScope && viewMode === 'files' ? buildFileGraph(rawGraph, fileScope, data) : null),
+    [data, fileScope, rawGraph, viewMode]
+  );
+
+  const sidebarNodeId = useMemo(() => {
+    if (viewMode !== 'files' || !data) return selectedNodeId;
+    if (!selectedNodeId) return fileScope?.id ?? null;
+    return data.entities[selectedNodeId] ? selectedNodeId : fileGraph?.clusterIdByFile.get(selectedNodeId) ?? null;
+  }, [data, fileGraph, fileScope, selectedNodeId, viewMode]);
+
+  const filesMessage = useMemo(() => {
+    if (viewMode !== 'files' || !data) return null;
+    if (!fileScope) return 'Select a cluster or feature, then choose Files to see its files.';
+    if (rawGraphError) return rawGraphError;
+    if (!rawGraphLoaded) return 'Loading file dependencies...';
+    if (!rawGraph) return 'raw-graph.yaml not found. Run "featuremap scan" to generate file-level dependencies.';
+    if (!fileGraph) return null;
+    const label = data.entities[fileScope.id]?.label ?? fileScope.id;
+    return `Files of ${fileScope.kind} ${label}: ${fileGraph.fileCount} files, ${fileGraph.boundaryCount} neighbouring clusters.`;
+  }, [data, fileGraph, fileScope, rawGraph, rawGraphError, rawGraphLoaded, viewMode]);
+
+  /** Scopes the files view to a cluster or feature; false when the node has no files to show. */
+  const scopeTo = useCallback(
+    (nodeId: string | null) => {
+      const scope = data ? resolveFileScope(data, nodeId) : null;
+      if (!scope) return false;
+      setFileScope(scope);
+      setFocusedFilePath(null);
+      return true;
+    },
+    [data]
+  );
+
+  /** Focuses a file, rescoping to its cluster unless the current scope already shows it. */
+  const focusFile = useCallback(
+    (filePath: string, clusterId: string) => {
+      if (!fileGraph?.graph.nodes.some((node) => node.id === filePath)) {
+        setFileScope({ kind: 'cluster', id: clusterId });
+      }
+      setFocusedFilePath(filePath);
+    },
+    [fileGraph]
+  );
+
+  const canShowFiles = Boolean(sidebarNodeId) && !(viewMode === 'files' && fileScope?.id === sidebarNodeId);
+
+  return {
+    fileScope,
+    fileGraph,
+    focusedFilePath,
+    setFocusedFilePath,
+    sidebarNodeId,
+    filesMessage,
+    canShowFiles,
+    scopeTo,
+    focusFile,
+  };
+}
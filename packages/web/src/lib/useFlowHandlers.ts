@@ -3,6 +3,7 @@ import type { Connection, EdgeChange, Node, NodeChange } from '@xyflow/react';
 import {
   applyGroupDragChanges,
   collectMemberPositions,
+  findDropGroupId,
   getGroupIdFromContainer,
   type GroupDragStateEntry,
 } from './groupDrag';
@@ -19,6 +20,7 @@ interface UseFlowHandlersInput {
   onNodeRemove?: (nodeId: string) => void;
   onNodeClick?: (nodeId: string) => void;
   onNodeDragStop?: (node: Node) => void;
+  onNodeDropOnGroup?: (nodeId: string, groupId: string) => void;
   onGroupDragStop?: (positions: Record<string, { x: number; y: number }>) => void;
   onPaneClick?: (event: ReactMouseEvent) => void;
   onConnect?: (connection: Connection) => void;
@@ -35,6 +37,7 @@ export function useFlowHandlers({
   onNodeRemove,
   onNodeClick,
   onNodeDragStop,
+  onNodeDropOnGroup,
   onGroupDragStop,
   onPaneClick,
   onConnect,
@@ -123,8 +126,22 @@ export function useFlowHandlers({
         return;
       }
       onNodeDragStop?.(node);
+      if (node.type === 'feature' && onNodeDropOnGroup) {
+        const groupId = findDropGroupId(node, nodesRef.current);
+        if (groupId && !groupMembership?.get(groupId)?.includes(node.id)) {
+          onNodeDropOnGroup(node.id, groupId);
+        }
+      }
     },
-    [groupMembership, isReadOnly, onGroupDragStop, onNodeDragStop, nodesRef, groupDragStateRef]
+    [
+      groupMembership,
+      isReadOnly,
+      onGroupDragStop,
+      onNodeDragStop,
+      onNodeDropOnGroup,
+      nodesRef,
+      groupDragStateRef,
+    ]
   );
 
   const handlePaneClick = useCallback(
@@ -1,4 +1,5 @@
 import { useCallback } from 'react';
+import type { Group } from './types';
 
 const SESSION_TOKEN_KEY = 'featuremap-session-token';
 
@@ -25,6 +26,31 @@ export interface GroupNoteUpdateResult {
   groupId: string;
 }
 
+export interface GroupCreateInput {
+  name: string;
+  description?: string;
+  featureIds?: string[];
+}
+
+export interface GroupUpdateInput {
+  name?: string;
+  description?: string | null;
+}
+
+export interface GroupFeaturesUpdate {
+  add?: string[];
+  remove?: string[];
+}
+
+export interface GroupDeleteResult {
+  deleted: boolean;
+  groupId: string;
+}
+
+export interface GroupOrderResult {
+  groupIds: string[];
+}
+
 function readSessionToken(): string {
   if (typeof window === 'undefined') {
     return '';
@@ -39,64 +65,102 @@ function readSessionToken(): string {
 
 export function useGroupApi() {
   const updateGroupNote = useCallback(
-    async (groupId: string, note: string | null): Promise<GroupNoteUpdateResult> => {
-      const token = readSessionToken();
-      if (!token) {
-        throw new GroupApiError('token_missing', 'Invalid or missing token.');
-      }
+    (groupId: string, note: string | null) =>
+      requestGroupApi<GroupNoteUpdateResult>(`/api/groups/${groupId}/note`, 'POST', { note }),
+    []
+  );
 
-      let response: Response;
-      try {
-        response = await fetch(`/api/groups/${groupId}/note`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-featuremap-token': token,
-          },
-          body: JSON.stringify({ note }),
-        });
-      } catch {
-        throw new GroupApiError('network', 'Serve not running / API unavailable');
-      }
+  const createGroup = useCallback(
+    (input: GroupCreateInput) => requestGroupApi<Group>('/api/groups', 'POST', input),
+    []
+  );
 
-      if (response.status === 403) {
-        logApiError(`/api/groups/${groupId}/note`, response.status, 'Forbidden');
-        throw new GroupApiError('forbidden', 'Invalid or missing token.', 403);
-      }
+  const updateGroup = useCallback(
+    (groupId: string, input: GroupUpdateInput) =>
+      requestGroupApi<Group>(`/api/groups/${groupId}`, 'PATCH', input),
+    []
+  );
 
-      if (response.status === 400) {
-        let message = 'Validation or permission error.';
-        try {
-          const body = (await response.json()) as { error?: string } | null;
-          if (body?.error) {
-            message = body.error;
-          }
-        } catch {
-          // ignore parsing errors
-        }
-        logApiError(`/api/groups/${groupId}/note`, response.status, message);
-        throw new GroupApiError('bad_request', message, 400);
-      }
+  const updateGroupFeatures = useCallback(
+    (groupId: string, update: GroupFeaturesUpdate) =>
+      requestGroupApi<Group>(`/api/groups/${groupId}/features`, 'POST', update),
+    []
+  );
 
-      if (!response.ok) {
-        logApiError(`/api/groups/${groupId}/note`, response.status, response.statusText);
-        throw new GroupApiError(
-          'unknown',
-          `Request failed (${response.status}).`,
-          response.status
-        );
-      }
+  const deleteGroup = useCallback(
+    (groupId: string) => requestGroupApi<GroupDeleteResult>(`/api/groups/${groupId}`, 'DELETE'),
+    []
+  );
 
-      try {
-        return (await response.json()) as GroupNoteUpdateResult;
-      } catch {
-        return { updated: true, groupId };
-      }
-    },
+  const reorderGroups = useCallback(
+    (groupIds: string[]) =>
+      requestGroupApi<GroupOrderResult>('/api/groups/order', 'POST', { groupIds }),
     []
   );
 
-  return { updateGroupNote };
+  return {
+    updateGroupNote,
+    createGroup,
+    updateGroup,
+    updateGroupFeatures,
+    deleteGroup,
+    reorderGroups,
+  };
+}
+
+async function requestGroupApi<T>(
+  endpoint: string,
+  method: 'POST' | 'PATCH' | 'DELETE',
+  body?: unknown
+): Promise<T> {
+  const token = readSessionToken();
+  if (!token) {
+    throw new GroupApiError('token_missing', 'Invalid or missing token.');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-featuremap-token': token,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new GroupApiError('network', 'Serve not running / API unavailable');
+  }
+
+  if (response.status === 403) {
+    logApiError(endpoint, response.status, 'Forbidden');
+    throw new GroupApiError('forbidden', 'Invalid or missing token.', 403);
+  }
+
+  if (response.status === 400) {
+    let message = 'Validation or permission error.';
+    try {
+      const payload = (await response.json()) as { error?: string } | null;
+      if (payload?.error) {
+        message = payload.error;
+      }
+    } catch {
+      // ignore parsing errors
+    }
+    logApiError(endpoint, response.status, message);
+    throw new GroupApiError('bad_request', message, 400);
+  }
+
+  if (!response.ok) {
+    logApiError(endpoint, response.status, response.statusText);
+    throw new GroupApiError('unknown', `Request failed (${response.status}).`, response.status);
+  }
+
+  try {
+    return (await response.json()) as T;
+  } catch {
+    throw new GroupApiError('unknown', 'Invalid response from server.', response.status);
+  }
 }
 
 function logApiError(endpoint: string, status: number, message: string): void {
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FeatureMapData } from './types';
+import { formatGroupError } from './groupErrors';
+import { useGroupApi } from './useGroupApi';
+
+type GroupMessageType = 'error' | 'warning' | 'success';
+
+interface GroupMessage {
+  type: GroupMessageType;
+  text: string;
+}
+
+interface UseGroupEditingInput {
+  data: FeatureMapData | null;
+  groupMembership: Map<string, string[]>;
+  onGroupsChanged: () => void;
+}
+
+export function useGroupEditing({ data, groupMembership, onGroupsChanged }: UseGroupEditingInput) {
+  const { updateGroupFeatures } = useGroupApi();
+  const [groupMessage, setGroupMessage] = useState<GroupMessage | null>(null);
+
+  useEffect(() => {
+    if (!groupMessage) {
+      return;
+    }
+    const timeout = window.setTimeout(() => {
+      setGroupMessage(null);
+    }, 2500);
+    return () => window.clearTimeout(timeout);
+  }, [groupMessage]);
+
+  // Dropping a feature onto a group container moves it out of the container it was drawn in.
+  const handleNodeDropOnGroup = useCallback(
+    async (featureId: string, groupId: string) => {
+      const target = data?.groupsById[groupId];
+      if (!data || !target || target.featureIds.includes(featureId)) {
+        return;
+      }
+      if (target.locks?.featureIds) {
+        setGroupMessage({ type: 'warning', text: `Group "${target.name}" is locked.` });
+        return;
+      }
+
+      const sourceGroupId = [...groupMembership.entries()].find(([, memberIds]) =>
+        memberIds.includes(featureId)
+      )?.[0];
+      const source = sourceGroupId ? data.groupsById[sourceGroupId] : undefined;
+      const label = data.entities[featureId]?.label ?? featureId;
+
+      try {
+        await updateGroupFeatures(groupId, { add: [featureId] });
+        if (source && !source.locks?.featureIds) {
+          await updateGroupFeatures(source.id, { remove: [featureId] });
+        }
+        setGroupMessage({ type: 'success', text: `Moved ${label} to ${target.name}.` });
+      } catch (error) {
+        setGroupMessage({ type: 'error', text: formatGroupError(error, 'edit groups') });
+      } finally {
+        onGroupsChanged();
+      }
+    },
+    [data, groupMembership, onGroupsChanged, updateGroupFeatures]
+  );
+
+  return { groupMessage, handleNodeDropOnGroup };
+}
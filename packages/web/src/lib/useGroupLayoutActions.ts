@@ -3,6 +3,7 @@ import type { Node, ReactFlowInstance } from '@xyflow/react';
 import type { GroupSummary } from './types';
 import { buildGroupRectangles, packGroupRectangles } from './groupPacking';
 import { LayoutApiError, useLayoutApi } from './useLayoutApi';
+import { ViewApiError, useViewApi } from './useViewApi';
 
 const SESSION_TOKEN_KEY = 'featuremap-session-token';
 
@@ -26,6 +27,8 @@ interface UseGroupLayoutActionsInput {
   groupMembership: Map<string, string[]>;
   selectedGroupId: string;
   multiGroupNodeIds?: string[];
+  /** When set, positions are saved to this view instead of layout.yaml. */
+  activeViewId?: string | null;
   onLayoutPositionsChange: (positions: Record<string, { x: number; y: number }>) => void;
 }
 
@@ -35,9 +38,11 @@ export function useGroupLayoutActions({
   groupMembership,
   selectedGroupId,
   multiGroupNodeIds = [],
+  activeViewId = null,
   onLayoutPositionsChange,
 }: UseGroupLayoutActionsInput) {
   const { updateLayoutPositions } = useLayoutApi();
+  const { updateViewPositions } = useViewApi();
   const [layoutMessage, setLayoutMessage] = useState<LayoutMessage | null>(null);
 
   useEffect(() => {
@@ -70,13 +75,17 @@ export function useGroupLayoutActions({
       onLayoutPositionsChange(positions);
 
       try {
-        await updateLayoutPositions(positions);
+        if (activeViewId) {
+          await updateViewPositions(activeViewId, positions);
+        } else {
+          await updateLayoutPositions(positions);
+        }
         setLayoutMessage({ type: 'success', text: options.successText ?? 'Layout saved.' });
       } catch (error) {
         setLayoutMessage(formatLayoutError(error, options.allowUnsaved));
       }
     },
-    [onLayoutPositionsChange, updateLayoutPositions]
+    [activeViewId, onLayoutPositionsChange, updateLayoutPositions, updateViewPositions]
   );
 
   const packGroups = useCallback(async () => {
@@ -180,7 +189,7 @@ function hasSessionToken(): boolean {
 }
 
 function formatLayoutError(error: unknown, allowUnsaved?: boolean): LayoutMessage {
-  if (error instanceof LayoutApiError) {
+  if (error instanceof LayoutApiError || error instanceof ViewApiError) {
     if (error.type === 'token_missing' || error.type === 'forbidden') {
       return {
         type: allowUnsaved ? 'warning' : 'error',
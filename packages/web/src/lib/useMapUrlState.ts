@@ -0,0 +1,92 @@
+import { useCallback } from 'react';
+import type { LayerFilter, ViewMode } from './types';
+import type { MapUrlState } from './urlState';
+import { useUrlState, type UseUrlStateOptions } from './useUrlState';
+
+interface UseMapUrlStateOptions extends Omit<UseUrlStateOptions, 'onApply' | 'onNodeResolved' | 'onEdgeResolved'> {
+  /** Scopes the files view to a cluster or feature (see useFileScope). */
+  onScopeChange: (nodeId: string | null) => void;
+  onViewModeChange: (mode: ViewMode) => void;
+  onSelectedLayerChange: (layer: LayerFilter) => void;
+  onSelectedGroupChange: (groupId: string) => void;
+  onFocusedFilePathChange: (filePath: string | null) => void;
+  onSelectedNodeChange: (nodeId: string | null) => void;
+  onSelectedEdgeChange: (edgeId: string | null) => void;
+  onSelectedCommentChange: (commentId: string | null) => void;
+  onGroupSelect: (groupId: string) => void;
+  onGroupSelectionClear: () => void;
+  onSearchQueryChange: (query: string) => void;
+  onSearchOpenChange: (open: boolean) => void;
+}
+
+/**
+ * useUrlState wired to the map's selection: a restored URL replaces the whole selection,
+ * and a linked file in the files view becomes the focused file once it is visible.
+ */
+export function useMapUrlState({
+  onScopeChange,
+  onViewModeChange,
+  onSelectedLayerChange,
+  onSelectedGroupChange,
+  onFocusedFilePathChange,
+  onSelectedNodeChange,
+  onSelectedEdgeChange,
+  onSelectedCommentChange,
+  onGroupSelect,
+  onGroupSelectionClear,
+  onSearchQueryChange,
+  onSearchOpenChange,
+  ...options
+}: UseMapUrlStateOptions) {
+  const { data } = options;
+  const { viewMode } = options.selection;
+
+  const handleApply = useCallback(
+    (state: MapUrlState) => {
+      if (state.viewMode === 'files') onScopeChange(state.scopeId);
+      onViewModeChange(state.viewMode);
+      onSelectedLayerChange(state.layer);
+      onSelectedGroupChange(state.groupFilter);
+      onFocusedFilePathChange(null);
+      onSelectedNodeChange(null);
+      onSelectedEdgeChange(null);
+      onSelectedCommentChange(state.commentId);
+      if (state.groupDetailsId) {
+        onGroupSelect(state.groupDetailsId);
+      } else {
+        onGroupSelectionClear();
+      }
+      onSearchQueryChange(state.searchQuery ?? '');
+      onSearchOpenChange(state.searchQuery !== null);
+    },
+    [
+      onFocusedFilePathChange,
+      onGroupSelect,
+      onGroupSelectionClear,
+      onScopeChange,
+      onSearchOpenChange,
+      onSearchQueryChange,
+      onSelectedCommentChange,
+      onSelectedEdgeChange,
+      onSelectedGroupChange,
+      onSelectedLayerChange,
+      onSelectedNodeChange,
+      onViewModeChange,
+    ]
+  );
+
+  const handleNodeResolved = useCallback(
+    (nodeId: string) => {
+      onFocusedFilePathChange(viewMode === 'files' && !data?.entities[nodeId] ? nodeId : null);
+      onSelectedNodeChange(nodeId);
+    },
+    [data, onFocusedFilePathChange, onSelectedNodeChange, viewMode]
+  );
+
+  return useUrlState({
+    ...options,
+    onApply: handleApply,
+    onNodeResolved: handleNodeResolved,
+    onEdgeResolved: onSelectedEdgeChange,
+  });
+}
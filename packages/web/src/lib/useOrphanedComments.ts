@@ -67,5 +67,5 @@ export function useOrphanedComments({
 }
 
 function shouldPromptOrphan(comment: UiComment): boolean {
-  return comment.status === 'saved' && comment.links.length === 0 && !comment.pinned;
+  return comment.persistence === 'saved' && comment.links.length === 0 && !comment.pinned;
 }
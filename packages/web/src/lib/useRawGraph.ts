@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { loadRawGraph } from './rawGraphLoader';
+import type { RawGraph } from './types';
+
+/**
+ * Loads raw-graph.yaml the first time the files view is opened and again whenever the map
+ * data is reloaded (`reloadKey` changes).
+ */
+export function useRawGraph(enabled: boolean, reloadKey: unknown) {
+  const [rawGraph, setRawGraph] = useState<RawGraph | null>(null);
+  const [rawGraphLoaded, setRawGraphLoaded] = useState(false);
+  const [rawGraphError, setRawGraphError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let cancelled = false;
+    loadRawGraph()
+      .then((loaded) => {
+        if (cancelled) return;
+        setRawGraph(loaded);
+        setRawGraphError(null);
+        setRawGraphLoaded(true);
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setRawGraph(null);
+        setRawGraphError(error instanceof Error ? error.message : 'Failed to load raw-graph.yaml');
+        setRawGraphLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, reloadKey]);
+
+  return { rawGraph, rawGraphLoaded, rawGraphError };
+}
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ReactFlowInstance } from '@xyflow/react';
+import { ALL_OWNERS, type OwnerFilter } from './ownerOverlay';
+import type { EdgeStyle, FeatureMapData, LayerFilter, LayoutViewport, SavedView, ViewMode } from './types';
+import { ViewApiError, useViewApi, type SavedViewState } from './useViewApi';
+
+interface ViewMessage {
+  type: 'error' | 'warning' | 'success';
+  text: string;
+}
+
+export interface UseSavedViewsOptions {
+  data: FeatureMapData | null;
+  reactFlowInstance: ReactFlowInstance | null;
+  viewMode: ViewMode;
+  selectedLayer: LayerFilter;
+  selectedGroupId: string;
+  selectedOwner: OwnerFilter;
+  collapsedGroupIds: Set<string>;
+  edgeStyle: EdgeStyle;
+  onViewModeChange: (mode: ViewMode) => void;
+  onSelectedLayerChange: (layer: LayerFilter) => void;
+  onSelectedGroupChange: (groupId: string) => void;
+  onSelectedOwnerChange: (owner: OwnerFilter) => void;
+  onCollapsedGroupIdsChange: (groupIds: Set<string>) => void;
+  onEdgeStyleChange: (style: EdgeStyle) => void;
+  onViewsChanged: () => Promise<void>;
+}
+
+/**
+ * Named saved views: applying one restores its filters, collapsed groups, edge style and
+ * viewport, and its positions override layout.yaml while it is active. The active view is
+ * part of the URL state (see useUrlState), so links open the same view.
+ */
+export function useSavedViews({
+  data,
+  reactFlowInstance,
+  viewMode,
+  selectedLayer,
+  selectedGroupId,
+  selectedOwner,
+  collapsedGroupIds,
+  edgeStyle,
+  onViewModeChange,
+  onSelectedLayerChange,
+  onSelectedGroupChange,
+  onSelectedOwnerChange,
+  onCollapsedGroupIdsChange,
+  onEdgeStyleChange,
+  onViewsChanged,
+}: UseSavedViewsOptions) {
+  const { createView, updateView, deleteView } = useViewApi();
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [pendingViewport, setPendingViewport] = useState<LayoutViewport | null>(null);
+  const [viewMessage, setViewMessage] = useState<ViewMessage | null>(null);
+
+  const views = useMemo(() => data?.views ?? [], [data?.views]);
+  const activeView = useMemo(
+    () => views.find((view) => view.id === activeViewId) ?? null,
+    [activeViewId, views]
+  );
+
+  const applyView = useCallback(
+    (view: SavedView) => {
+      onViewModeChange(view.viewMode);
+      onSelectedLayerChange(view.filters?.layer ?? 'all');
+      onSelectedGroupChange(view.filters?.groupId ?? 'all');
+      onSelectedOwnerChange(view.filters?.owner ?? ALL_OWNERS);
+      onCollapsedGroupIdsChange(new Set(view.collapsedGroupIds ?? []));
+      if (view.edgeStyle) {
+        onEdgeStyleChange(view.edgeStyle);
+      }
+      setPendingViewport(view.viewport ?? null);
+    },
+    [
+      onCollapsedGroupIdsChange,
+      onEdgeStyleChange,
+      onSelectedGroupChange,
+      onSelectedLayerChange,
+      onSelectedOwnerChange,
+      onViewModeChange,
+    ]
+  );
+
+  const selectView = useCallback(
+    (viewId: string | null) => {
+      const view = viewId ? views.find((entry) => entry.id === viewId) : null;
+      setActiveViewId(view?.id ?? null);
+      if (view) {
+        applyView(view);
+      } else if (viewId) {
+        setViewMessage({ type: 'warning', text: `Saved view "${viewId}" not found.` });
+      }
+    },
+    [applyView, views]
+  );
+
+  useEffect(() => {
+    if (activeViewId && data && !data.views.some((view) => view.id === activeViewId)) {
+      setActiveViewId(null);
+    }
+  }, [activeViewId, data]);
+
+  useEffect(() => {
+    if (!pendingViewport || !reactFlowInstance) {
+      return;
+    }
+    void reactFlowInstance.setViewport(pendingViewport);
+    setPendingViewport(null);
+  }, [pendingViewport, reactFlowInstance]);
+
+  useEffect(() => {
+    if (!viewMessage) {
+      return;
+    }
+    const timeout = window.setTimeout(() => setViewMessage(null), 2500);
+    return () => window.clearTimeout(timeout);
+  }, [viewMessage]);
+
+  const captureState = useCallback((): SavedViewState => {
+    return {
+      viewMode: viewMode === 'features' ? 'features' : 'clusters',
+      filters: {
+        layer: selectedLayer,
+        groupId: selectedGroupId,
+        owner: selectedOwner,
+      },
+      collapsedGroupIds: [...collapsedGroupIds],
+      edgeStyle,
+      ...(reactFlowInstance ? { viewport: reactFlowInstance.getViewport() } : {}),
+    };
+  }, [collapsedGroupIds, edgeStyle, reactFlowInstance, selectedGroupId, selectedLayer, selectedOwner, viewMode]);
+
+  const saveAsView = useCallback(
+    async (name: string, description?: string) => {
+      const positions = Object.fromEntries(
+        (reactFlowInstance?.getNodes() ?? [])
+          .filter((node) => node.type === 'feature' || node.type === 'cluster')
+          .map((node) => [node.id, { x: node.position.x, y: node.position.y }])
+      );
+      const view = await createView({
+        ...captureState(),
+        name,
+        ...(description ? { description } : {}),
+        positions,
+      });
+      await onViewsChanged();
+      setActiveViewId(view.id);
+      setViewMessage({ type: 'success', text: `Saved view "${view.name}".` });
+      return view;
+    },
+    [captureState, createView, onViewsChanged, reactFlowInstance]
+  );
+
+  const updateActiveView = useCallback(async () => {
+    if (!activeView) {
+      return;
+    }
+    try {
+      await updateView(activeView.id, captureState());
+      await onViewsChanged();
+      setViewMessage({ type: 'success', text: `Updated view "${activeView.name}".` });
+    } catch (error) {
+      setViewMessage({ type: 'error', text: formatViewError(error, 'save views') });
+    }
+  }, [activeView, captureState, onViewsChanged, updateView]);
+
+  const deleteActiveView = useCallback(async () => {
+    if (!activeView || !window.confirm(`Delete view "${activeView.name}"?`)) {
+      return;
+    }
+    try {
+      await deleteView(activeView.id);
+      setActiveViewId(null);
+      await onViewsChanged();
+      setViewMessage({ type: 'success', text: `Deleted view "${activeView.name}".` });
+    } catch (error) {
+      setViewMessage({ type: 'error', text: formatViewError(error, 'delete views') });
+    }
+  }, [activeView, deleteView, onViewsChanged]);
+
+  const copyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setViewMessage({ type: 'success', text: 'Link copied.' });
+    } catch {
+      setViewMessage({ type: 'warning', text: 'Could not copy the link; copy it from the address bar.' });
+    }
+  }, []);
+
+  return {
+    views,
+    activeView,
+    activeViewId,
+    viewMessage,
+    selectView,
+    saveAsView,
+    updateActiveView,
+    deleteActiveView,
+    copyLink,
+  };
+}
+
+export function formatViewError(error: unknown, action: string): string {
+  if (error instanceof ViewApiError) {
+    if (error.type === 'token_missing' || error.type === 'forbidden') {
+      return `Token required to ${action} (run featuremap serve and paste token).`;
+    }
+    if (error.type === 'network') {
+      return 'Serve not running / API unavailable.';
+    }
+    return error.message;
+  }
+  return `Failed to ${action}.`;
+}
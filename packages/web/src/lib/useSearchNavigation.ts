@@ -36,6 +36,8 @@ interface UseSearchNavigationOptions {
   onSelectedGroupChange: (groupId: string) => void;
   onSelectedNodeChange: (nodeId: string | null) => void;
   onFocusedFilePathChange: (path: string | null) => void;
+  /** Shows a file node in the files view, switching the scope to its cluster if needed. */
+  onShowFile: (filePath: string, clusterId: string) => void;
 }
 
 export function useSearchNavigation({
@@ -50,6 +52,7 @@ export function useSearchNavigation({
   onSelectedGroupChange,
   onSelectedNodeChange,
   onFocusedFilePathChange,
+  onShowFile,
 }: UseSearchNavigationOptions) {
   const [searchOpen, setSearchOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -118,6 +121,17 @@ export function useSearchNavigation({
     if (!data) {
       return;
     }
+    if (viewMode === 'files' && entry.type === 'file') {
+      const { filePath, clusterId } = entry.metadata;
+      if (!filePath || !clusterId) {
+        return;
+      }
+      setBlockedResult(null);
+      onShowFile(filePath, clusterId);
+      setPendingFocus({ nodeId: filePath });
+      setSearchOpen(false);
+      return;
+    }
     const targetViewMode = entry.type === 'feature' ? 'features' : 'clusters';
     const targetNodeId = entry.type === 'file' ? entry.metadata.clusterId : entry.id;
     if (!targetNodeId) {
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { loadSnapshot, loadSnapshotIndex } from './snapshotLoader';
+import type { Snapshot, SnapshotSummary } from './types';
+
+export function useSnapshotCompare() {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [compareSnapshotId, setCompareSnapshotId] = useState<string | null>(null);
+  const [compareSnapshot, setCompareSnapshot] = useState<Snapshot | null>(null);
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await loadSnapshotIndex());
+    } catch (error) {
+      console.warn('Failed to load snapshot history:', error);
+      setSnapshots([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSnapshots();
+  }, [loadSnapshots]);
+
+  useEffect(() => {
+    if (!compareSnapshotId) {
+      setCompareSnapshot(null);
+      setCompareError(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadSnapshot(compareSnapshotId)
+      .then((snapshot) => {
+        if (cancelled) return;
+        setCompareSnapshot(snapshot);
+        setCompareError(null);
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setCompareSnapshot(null);
+        setCompareError(error instanceof Error ? error.message : 'Failed to load snapshot');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [compareSnapshotId]);
+
+  return {
+    snapshots,
+    compareSnapshotId,
+    compareSnapshot,
+    compareError,
+    setCompareSnapshotId,
+    loadSnapshots,
+  };
+}
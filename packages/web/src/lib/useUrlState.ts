@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactFlowInstance, Viewport } from '@xyflow/react';
+import { buildEdgeId } from './featureMapElements';
+import type { FeatureMapData, GraphData, LayoutViewport, SavedView } from './types';
+import {
+  buildNavigationKey,
+  buildUrlSearch,
+  getUrlDefaults,
+  isSettledFrom,
+  mergeUrlSearch,
+  parseUrlState,
+  resolveUrlState,
+  type EdgeRef,
+  type MapUrlState,
+} from './urlState';
+
+interface PendingSelection {
+  nodeId: string | null;
+  edge: EdgeRef | null;
+}
+
+/** A URL being restored; `applied` once the map state first matches it. */
+interface RestoreTarget {
+  state: MapUrlState;
+  navigationKey: string;
+  applied: boolean;
+}
+
+export type MapUrlSelection = Omit<MapUrlState, 'viewId' | 'viewport'>;
+
+export interface UseUrlStateOptions {
+  data: FeatureMapData | null;
+  reactFlowInstance: ReactFlowInstance | null;
+  visibleGraph: GraphData | null;
+  activeView: SavedView | null;
+  /** Current map state, except the saved view and viewport which this hook tracks itself. */
+  selection: MapUrlSelection;
+  onSelectView: (viewId: string | null) => void;
+  /** Applies mode, filters, scope, group, comment and search; node and edge follow once visible. */
+  onApply: (state: MapUrlState) => void;
+  onNodeResolved: (nodeId: string) => void;
+  onEdgeResolved: (edgeId: string) => void;
+}
+
+/**
+ * Keeps the map state in the query string so links reopen the same view. The URL is read
+ * once data has loaded and again on back/forward navigation; state changes push a history
+ * entry, viewport and search-query changes replace the current one.
+ */
+export function useUrlState({
+  data,
+  reactFlowInstance,
+  visibleGraph,
+  activeView,
+  selection,
+  onSelectView,
+  onApply,
+  onNodeResolved,
+  onEdgeResolved,
+}: UseUrlStateOptions) {
+  const [viewport, setViewport] = useState<LayoutViewport | null>(null);
+  const [pendingViewport, setPendingViewport] = useState<LayoutViewport | null>(null);
+  const [pendingSelection, setPendingSelection] = useState<PendingSelection | null>(null);
+  const restored = useRef(false);
+  const restoreTarget = useRef<RestoreTarget | null>(null);
+  const lastNavigationKey = useRef<string | null>(null);
+
+  // The map only reads this when it mounts, so it opens at the linked viewport instead of fitting.
+  const views = data?.views;
+  const initialViewport = useMemo(() => {
+    const parsed = parseUrlState(window.location.search);
+    return parsed.viewport ?? views?.find((view) => view.id === parsed.viewId)?.viewport ?? null;
+  }, [views]);
+
+  const restore = useCallback(() => {
+    if (!data) {
+      return;
+    }
+    const parsed = parseUrlState(window.location.search);
+    const view = parsed.viewId ? data.views.find((entry) => entry.id === parsed.viewId) ?? null : null;
+    if (parsed.viewId !== (activeView?.id ?? null)) {
+      onSelectView(parsed.viewId);
+    }
+    const state = resolveUrlState(parsed, getUrlDefaults(view));
+    const target = { ...state, viewId: view?.id ?? null };
+    restoreTarget.current = { state: target, navigationKey: buildNavigationKey(target), applied: false };
+    onApply(state);
+    setPendingSelection(state.nodeId || state.edge ? { nodeId: state.nodeId, edge: state.edge } : null);
+    if (state.viewport) {
+      setViewport(state.viewport);
+      setPendingViewport(state.viewport);
+    }
+  }, [activeView?.id, data, onApply, onSelectView]);
+
+  useEffect(() => {
+    if (!data || restored.current) {
+      return;
+    }
+    restored.current = true;
+    restore();
+  }, [data, restore]);
+
+  useEffect(() => {
+    const handlePopState = () => restore();
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [restore]);
+
+  useEffect(() => {
+    if (!pendingSelection || !visibleGraph || visibleGraph.nodes.length === 0) {
+      return;
+    }
+    const { nodeId, edge } = pendingSelection;
+    setPendingSelection(null);
+    if (nodeId && visibleGraph.nodes.some((node) => node.id === nodeId)) {
+      onNodeResolved(nodeId);
+    }
+    if (edge) {
+      const index = visibleGraph.edges.findIndex(
+        (entry) => entry.source === edge.source && entry.target === edge.target
+      );
+      if (index >= 0) {
+        onEdgeResolved(buildEdgeId(visibleGraph.edges[index], index));
+      }
+    }
+  }, [onEdgeResolved, onNodeResolved, pendingSelection, visibleGraph]);
+
+  useEffect(() => {
+    if (!pendingViewport || !reactFlowInstance) {
+      return;
+    }
+    void reactFlowInstance.setViewport(pendingViewport);
+    setPendingViewport(null);
+  }, [pendingViewport, reactFlowInstance]);
+
+  const urlState: MapUrlState = {
+    ...selection,
+    viewId: activeView?.id ?? null,
+    nodeId: selection.nodeId ?? pendingSelection?.nodeId ?? null,
+    edge: selection.edge ?? pendingSelection?.edge ?? null,
+    viewport,
+  };
+  const navigationKey = buildNavigationKey(urlState);
+  const stateSearch = buildUrlSearch(urlState, getUrlDefaults(activeView));
+
+  useEffect(() => {
+    if (!restored.current) {
+      return;
+    }
+    // Changes while a restored URL settles (the state being applied, the linked node and edge
+    // resolving, links the map cannot show being dropped) replace the history entry.
+    const target = restoreTarget.current;
+    if (target && navigationKey === target.navigationKey) {
+      target.applied = true;
+    } else if (target?.applied && !pendingSelection && !isSettledFrom(urlState, target.state)) {
+      restoreTarget.current = null;
+    }
+    const nextSearch = mergeUrlSearch(window.location.search, stateSearch);
+    if (nextSearch === window.location.search) {
+      lastNavigationKey.current = navigationKey;
+      return;
+    }
+    const url = `${window.location.pathname}${nextSearch}${window.location.hash}`;
+    const isNavigation =
+      lastNavigationKey.current !== null &&
+      lastNavigationKey.current !== navigationKey &&
+      restoreTarget.current === null;
+    if (isNavigation) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(window.history.state, '', url);
+    }
+    lastNavigationKey.current = navigationKey;
+  }, [navigationKey, stateSearch]);
+
+  const handleMoveEnd = useCallback((_event: unknown, next: Viewport) => {
+    setViewport({ x: next.x, y: next.y, zoom: next.zoom });
+  }, []);
+
+  return {
+    initialViewport,
+    handleMoveEnd,
+  };
+}
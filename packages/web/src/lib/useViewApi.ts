@@ -0,0 +1,153 @@
+import { useCallback } from 'react';
+import type { SavedView } from './types';
+
+const SESSION_TOKEN_KEY = 'featuremap-session-token';
+
+export type ViewApiErrorType =
+  | 'token_missing'
+  | 'forbidden'
+  | 'bad_request'
+  | 'network'
+  | 'unknown';
+
+export class ViewApiError extends Error {
+  type: ViewApiErrorType;
+  status?: number;
+
+  constructor(type: ViewApiErrorType, message: string, status?: number) {
+    super(message);
+    this.type = type;
+    this.status = status;
+  }
+}
+
+/** Everything a saved view restores, except its node positions. */
+export type SavedViewState = Pick<
+  SavedView,
+  'viewMode' | 'filters' | 'collapsedGroupIds' | 'edgeStyle' | 'viewport'
+>;
+
+export interface ViewCreateInput extends SavedViewState {
+  name: string;
+  description?: string;
+  positions?: Record<string, { x: number; y: number }>;
+}
+
+export interface ViewUpdateInput extends Partial<SavedViewState> {
+  name?: string;
+  description?: string | null;
+}
+
+export interface ViewPositionsUpdateResult {
+  updated: boolean;
+  positions: Record<string, { x: number; y: number }>;
+}
+
+export interface ViewDeleteResult {
+  deleted: boolean;
+  viewId: string;
+}
+
+function readSessionToken(): string {
+  if (typeof window === 'undefined') {
+    return '';
+  }
+
+  try {
+    return sessionStorage.getItem(SESSION_TOKEN_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function useViewApi() {
+  const createView = useCallback(
+    (input: ViewCreateInput) => requestViewApi<SavedView>('/api/views', 'POST', input),
+    []
+  );
+
+  const updateView = useCallback(
+    (viewId: string, input: ViewUpdateInput) =>
+      requestViewApi<SavedView>(`/api/views/${viewId}`, 'PATCH', input),
+    []
+  );
+
+  const updateViewPositions = useCallback(
+    (viewId: string, positions: Record<string, { x: number; y: number }>) =>
+      requestViewApi<ViewPositionsUpdateResult>(`/api/views/${viewId}/positions`, 'POST', {
+        positions,
+      }),
+    []
+  );
+
+  const deleteView = useCallback(
+    (viewId: string) => requestViewApi<ViewDeleteResult>(`/api/views/${viewId}`, 'DELETE'),
+    []
+  );
+
+  return {
+    createView,
+    updateView,
+    updateViewPositions,
+    deleteView,
+  };
+}
+
+async function requestViewApi<T>(
+  endpoint: string,
+  method: 'POST' | 'PATCH' | 'DELETE',
+  body?: unknown
+): Promise<T> {
+  const token = readSessionToken();
+  if (!token) {
+    throw new ViewApiError('token_missing', 'Invalid or missing token.');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-featuremap-token': token,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new ViewApiError('network', 'Serve not running / API unavailable');
+  }
+
+  if (response.status === 403) {
+    logApiError(endpoint, response.status, 'Forbidden');
+    throw new ViewApiError('forbidden', 'Invalid or missing token.', 403);
+  }
+
+  if (response.status === 400) {
+    let message = 'Validation or permission error.';
+    try {
+      const payload = (await response.json()) as { error?: string } | null;
+      if (payload?.error) {
+        message = payload.error;
+      }
+    } catch {
+      // ignore parsing errors
+    }
+    logApiError(endpoint, response.status, message);
+    throw new ViewApiError('bad_request', message, 400);
+  }
+
+  if (!response.ok) {
+    logApiError(endpoint, response.status, response.statusText);
+    throw new ViewApiError('unknown', `Request failed (${response.status}).`, response.status);
+  }
+
+  try {
+    return (await response.json()) as T;
+  } catch {
+    throw new ViewApiError('unknown', 'Invalid response from server.', response.status);
+  }
+}
+
+function logApiError(endpoint: string, status: number, message: string): void {
+  console.error('API request failed', { endpoint, status, message });
+}
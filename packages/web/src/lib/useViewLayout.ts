@@ -0,0 +1,63 @@
+import { useCallback, useMemo } from 'react';
+import { useSavedViews, type UseSavedViewsOptions } from './useSavedViews';
+
+type NodePositions = Record<string, { x: number; y: number }>;
+
+interface UseViewLayoutOptions extends Omit<UseSavedViewsOptions, 'onViewsChanged'> {
+  onReload: (options: { showLoading: boolean }) => Promise<void>;
+  onLayoutPositionsChange: (positions: NodePositions) => void;
+  onViewPositionsChange: (viewId: string, positions: NodePositions) => void;
+}
+
+/**
+ * Saved views wired to the map layout: while a view is active its positions override
+ * layout.yaml, and dragged or packed nodes are stored on the view instead of the layout.
+ * Also builds the props of the header's view switcher.
+ */
+export function useViewLayout({
+  onReload,
+  onLayoutPositionsChange,
+  onViewPositionsChange,
+  ...options
+}: UseViewLayoutOptions) {
+  const { data, viewMode } = options;
+  const reloadViews = useCallback(() => onReload({ showLoading: false }), [onReload]);
+  const savedViews = useSavedViews({ ...options, onViewsChanged: reloadViews });
+  const { activeView } = savedViews;
+
+  const layoutPositions = useMemo(
+    () => (viewMode === 'files' ? {} : { ...data?.layout?.positions, ...activeView?.positions }),
+    [activeView?.positions, data?.layout?.positions, viewMode]
+  );
+
+  const handleLayoutPositionsChange = useCallback(
+    (positions: NodePositions) => {
+      if (activeView) {
+        onViewPositionsChange(activeView.id, positions);
+      } else {
+        onLayoutPositionsChange(positions);
+      }
+    },
+    [activeView, onLayoutPositionsChange, onViewPositionsChange]
+  );
+
+  const viewSwitcher = {
+    views: savedViews.views,
+    activeViewId: savedViews.activeViewId,
+    canSave: viewMode !== 'files',
+    message: savedViews.viewMessage,
+    onSelectView: savedViews.selectView,
+    onSaveAsView: savedViews.saveAsView,
+    onUpdateView: () => void savedViews.updateActiveView(),
+    onDeleteView: () => void savedViews.deleteActiveView(),
+    onCopyLink: () => void savedViews.copyLink(),
+  };
+
+  return {
+    activeView,
+    selectView: savedViews.selectView,
+    layoutPositions,
+    handleLayoutPositionsChange,
+    viewSwitcher,
+  };
+}
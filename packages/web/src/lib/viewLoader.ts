@@ -0,0 +1,58 @@
+import { SavedViewIndexSchema, SavedViewSchema } from './types';
+import type { SavedView } from './types';
+import { parseYamlWithSchema } from './yamlParsing';
+
+const DATA_BASE_URL = '/featuremap-data';
+
+/** Saved views listed in views/index.yaml, in index order (sorted by name). */
+export async function loadViews(): Promise<SavedView[]> {
+  const viewIds = await loadViewIndex();
+  const views = await Promise.all(viewIds.map((viewId) => loadViewYamlSafe(viewId)));
+  return views.filter((view): view is SavedView => Boolean(view));
+}
+
+async function loadViewIndex(): Promise<string[]> {
+  const response = await fetch(`${DATA_BASE_URL}/views/index.yaml`);
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return [];
+    }
+    throw new Error(`Failed to load views index: ${response.statusText}`);
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const text = await response.text();
+
+  if (looksLikeHtml(text, contentType)) {
+    return [];
+  }
+
+  try {
+    return parseYamlWithSchema(text, SavedViewIndexSchema, 'views/index.yaml').views;
+  } catch (error) {
+    console.warn('Failed to parse views/index.yaml:', error);
+    return [];
+  }
+}
+
+async function loadViewYamlSafe(viewId: string): Promise<SavedView | null> {
+  try {
+    const response = await fetch(`${DATA_BASE_URL}/views/${viewId}.yaml`);
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+    return parseYamlWithSchema(await response.text(), SavedViewSchema, `views/${viewId}.yaml`);
+  } catch (error) {
+    console.warn(`Failed to load view ${viewId}:`, error);
+    return null;
+  }
+}
+
+function looksLikeHtml(text: string, contentType: string): boolean {
+  const trimmed = text.trimStart().toLowerCase();
+  if (contentType.includes('text/html')) {
+    return true;
+  }
+  return trimmed.startsWith('<!doctype') || trimmed.startsWith('<html') || trimmed.startsWith('<head');
+}
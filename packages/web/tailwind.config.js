@@ -56,6 +56,10 @@ export default {
         edge: {
           dependency: '#5dbb86',
           dependent: '#d17171',
+          cycle: '#d08770',
+          added: '#a3be8c',
+          removed: '#bf616a',
+          temporal: '#b48ead',
         },
   		}
   	}